@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import type { AppStep, MortgageDetails, CashFlowAnalysis, EligibilityResult, SimulationResult } from './types';
+import { useState, useEffect, useCallback } from 'react';
+import type { AppStep, MortgageDetails, CashFlowAnalysis, EligibilityResult, SimulationResult, AnalysisProgressEntry } from './types';
 import MortgageDetailsForm from './components/MortgageDetailsForm';
 import FileUpload from './components/FileUpload';
 // REMOVED: Manual entry components (per requirements)
@@ -13,7 +13,9 @@ import AnalyzingModal from './components/AnalyzingModal';
 import FAQSlideout from './components/FAQSlideout';
 import PitchGuideModal from './components/PitchGuideModal';
 import MyProposals from './components/MyProposals';
-import { analyzeStatements, checkEligibility, simulateLoan } from './api';
+import MerchantMemory from './components/MerchantMemory';
+import { analyzeStatements, resumeStatementAnalysis, checkEligibility, simulateLoan } from './api';
+import { loadActiveAnalysisJob, clearActiveAnalysisJob } from './utils/userSettings';
 import './App.css';
 
 // LocalStorage keys
@@ -63,11 +65,14 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [batchProgress, setBatchProgress] = useState<{ current: number; total: number; message: string; phase?: string } | null>(null);
+  const [analysisFileCount, setAnalysisFileCount] = useState(0);
+  const [analysisEvents, setAnalysisEvents] = useState<AnalysisProgressEntry[]>([]);
 
   // FAQ, Pitch Guide, and My Proposals state
   const [isFAQOpen, setIsFAQOpen] = useState(false);
   const [isPitchGuideOpen, setIsPitchGuideOpen] = useState(false);
   const [isMyProposalsOpen, setIsMyProposalsOpen] = useState(false);
+  const [isMerchantMemoryOpen, setIsMerchantMemoryOpen] = useState(false);
   const [isHelpDropdownOpen, setIsHelpDropdownOpen] = useState(false);
 
   // Listen for custom event to open My Proposals
@@ -125,6 +130,7 @@ function App() {
 
     // Clear localStorage
     Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+    clearActiveAnalysisJob();
   };
 
   const handleMortgageSubmit = (data: MortgageDetails) => {
@@ -164,21 +170,33 @@ function App() {
       return;
     }
 
+    await runAnalysis(bankStatements.length, (onProgress, onEvent) =>
+      analyzeStatements(bankStatements, mortgageDetails.currentHousingPayment || 0, onProgress, onEvent)
+    );
+  };
+
+  const runAnalysis = useCallback(async (
+    fileCount: number,
+    analyze: (
+      onProgress: (progress: { current: number; total: number; message: string; phase?: string }) => void,
+      onEvent: (event: AnalysisProgressEntry) => void
+    ) => Promise<CashFlowAnalysis>
+  ) => {
     setError(null);
     setIsAnalyzing(true);
     setBatchProgress(null);
+    setAnalysisEvents([]);
+    setAnalysisFileCount(fileCount);
     setStep('analyzing');
 
     try {
-      const cashFlow = await analyzeStatements(
-        bankStatements,
-        mortgageDetails.currentHousingPayment || 0,
-        (progress) => {
-          // Update batch progress for user feedback
-          setBatchProgress(progress);
-          console.log(`Progress: ${progress.message} (${progress.current}/${progress.total})`);
-        }
-      );
+      const cashFlow = await analyze((progress) => {
+        // Update batch progress for user feedback
+        setBatchProgress(progress);
+        console.log(`Progress: ${progress.message} (${progress.current}/${progress.total})`);
+      }, (event) => {
+        setAnalysisEvents(prev => [...prev, event]);
+      });
 
       setCashFlowAnalysis(cashFlow);
       setStep('cash-flow-review');
@@ -190,10 +208,30 @@ function App() {
       setIsAnalyzing(false);
       setBatchProgress(null);
     }
-  };
+  }, []);
+
+  // Reloaded mid-analysis: files already extracted are kept on the server, so pick the job back up
+  const [reloadedMidAnalysis] = useState(step === 'analyzing');
+
+  const handleResumeAnalysis = useCallback(() => {
+    const activeJob = loadActiveAnalysisJob();
+    if (!activeJob) {
+      setStep('upload-statements');
+      return;
+    }
+
+    runAnalysis(activeJob.fileCount, (onProgress, onEvent) =>
+      resumeStatementAnalysis(activeJob.jobId, activeJob.fileCount, activeJob.currentHousingPayment, onProgress, onEvent)
+    );
+  }, [runAnalysis]);
+
+  useEffect(() => {
+    if (reloadedMidAnalysis) handleResumeAnalysis();
+  }, [reloadedMidAnalysis, handleResumeAnalysis]);
 
   const handleAbortAnalysis = () => {
     console.log('Analysis aborted by user');
+    clearActiveAnalysisJob();
     setIsAnalyzing(false);
     setBatchProgress(null);
     setStep('upload-statements');
@@ -346,6 +384,21 @@ function App() {
                       <div className="dropdown-item-desc">View and manage sent proposals</div>
                     </div>
                   </button>
+                  <button
+                    className="help-dropdown-item"
+                    onClick={() => {
+                      setIsMerchantMemoryOpen(true);
+                      setIsHelpDropdownOpen(false);
+                    }}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                    </svg>
+                    <div>
+                      <div className="dropdown-item-title">Learned Categories</div>
+                      <div className="dropdown-item-desc">Review your merchant corrections</div>
+                    </div>
+                  </button>
                 </div>
               )}
             </div>
@@ -421,8 +474,9 @@ function App() {
 
           {step === 'analyzing' && (
             <AnalyzingModal
-              fileCount={bankStatements.length}
+              fileCount={analysisFileCount}
               batchProgress={batchProgress}
+              events={analysisEvents}
               onAbort={handleAbortAnalysis}
             />
           )}
@@ -556,6 +610,82 @@ function App() {
           </div>
         </div>
       )}
+
+      {/* Learned Categories Modal */}
+      {isMerchantMemoryOpen && (
+        <div
+          onClick={() => setIsMerchantMemoryOpen(false)}
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            background: 'rgba(0, 0, 0, 0.6)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 1000,
+            backdropFilter: 'blur(4px)',
+            padding: '2rem',
+          }}
+        >
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{
+              background: 'white',
+              borderRadius: '16px',
+              maxWidth: '1200px',
+              width: '100%',
+              maxHeight: '90vh',
+              overflow: 'auto',
+              boxShadow: '0 20px 60px rgba(0, 0, 0, 0.3)',
+            }}
+          >
+            <div
+              style={{
+                padding: '1.5rem',
+                borderBottom: '2px solid #e2e8f0',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                background: 'linear-gradient(135deg, #9bc53d 0%, #7ba32a 100%)',
+                borderRadius: '16px 16px 0 0',
+              }}
+            >
+              <h2 style={{ margin: 0, fontSize: '1.5rem', color: 'white' }}>Learned Categories</h2>
+              <button
+                onClick={() => setIsMerchantMemoryOpen(false)}
+                style={{
+                  background: 'rgba(255,255,255,0.2)',
+                  border: 'none',
+                  borderRadius: '8px',
+                  padding: '0.5rem',
+                  cursor: 'pointer',
+                }}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="white"
+                  style={{ width: '24px', height: '24px' }}
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+            <div style={{ padding: '2rem' }}>
+              <MerchantMemory />
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
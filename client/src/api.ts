@@ -4,7 +4,23 @@ import type {
   CashFlowAnalysis,
   EligibilityResult,
   SimulationResult,
+  TraditionalStrategyOptions,
+  StressTestResult,
+  LifeEvent,
+  LifeEventImpactResult,
+  MerchantOverride,
+  Transaction,
+  RecurringSeries,
+  PaySchedule,
+  RecurrenceCadence,
+  StatementSummary,
+  StatementWarning,
+  TransferSuggestion,
+  AnalysisJob,
+  AnalysisProgressEvent,
+  AnalysisProgressEntry,
 } from './types';
+import { loadLoanOfficerEmail, saveActiveAnalysisJob, clearActiveAnalysisJob } from './utils/userSettings';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
@@ -22,122 +38,254 @@ export const checkHealth = async (): Promise<{ status: string }> => {
   return response.data;
 };
 
+type AnalysisProgressCallback = (progress: { current: number; total: number; message: string; phase?: string }) => void;
+type AnalysisEventCallback = (event: AnalysisProgressEntry) => void;
+
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_CONCURRENCY = 2; // Parallel /resume loops, each extracting one file per request
+const MAX_FILE_ATTEMPTS = 2; // Failed files are retried once automatically
+
+/**
+ * Follow an analysis' live progress events (file started, page extracted, chunk categorized, ...)
+ * EventSource reconnects on its own and resumes after the last event it received.
+ * @returns Function that closes the stream
+ */
+const subscribeAnalysisEvents = (progressId: string, onEvent: AnalysisEventCallback): (() => void) => {
+  const source = new EventSource(`${API_BASE_URL}/analysis-events/${encodeURIComponent(progressId)}`);
+
+  source.addEventListener('progress', (message) => {
+    try {
+      onEvent(JSON.parse(message.data));
+    } catch (error) {
+      console.warn('⚠️  Ignoring unreadable progress event:', error);
+    }
+  });
+
+  return () => source.close();
+};
+
 /**
- * TWO-PHASE ARCHITECTURE: Extract-then-categorize pattern
- * Phase 1: Extract transactions from PDFs (slow, parallelized 2 at a time)
+ * THREE-PHASE ARCHITECTURE: Extract-then-categorize pattern
+ * Phase 1: Extract transactions in a server-side analysis job (files uploaded one at a time, then extracted one per request)
  * Phase 2: Categorize in small 15-transaction chunks (fast, 10 concurrent)
  * Phase 3: Aggregate results locally on frontend
  */
 export const analyzeStatements = async (
   files: File[],
   currentHousingPayment: number,
-  onProgress?: (progress: { current: number; total: number; message: string; phase?: string }) => void
+  onProgress?: AnalysisProgressCallback,
+  onEvent?: AnalysisEventCallback
 ): Promise<CashFlowAnalysis> => {
-  console.log(`\n🚀 ===== TWO-PHASE ANALYSIS =====`);
+  console.log(`\n🚀 ===== THREE-PHASE ANALYSIS =====`);
   console.log(`📁 Files to process: ${files.length}`);
   console.log(`💰 Housing payment: $${currentHousingPayment}`);
 
   // ===== PHASE 1: EXTRACTION =====
   console.log(`\n📄 PHASE 1: Extracting transactions from ${files.length} file(s)...`);
 
-  if (onProgress) {
-    onProgress({
-      current: 0,
-      total: files.length,
-      message: `Extracting transactions from ${files.length} file${files.length === 1 ? '' : 's'}...`,
-      phase: 'extraction',
-    });
-  }
+  const jobResponse = await api.post('/analysis-jobs');
+  const jobId: string = jobResponse.data.job.id;
+  saveActiveAnalysisJob({ jobId, fileCount: files.length, currentHousingPayment, startedAt: new Date().toISOString() });
+  console.log(`🗂️  Analysis job ${jobId} created`);
+
+  const stopEvents = onEvent ? subscribeAnalysisEvents(jobId, onEvent) : undefined;
+
+  try {
+    // One file per request to stay under Vercel's 4.5MB body limit
+    for (let i = 0; i < files.length; i++) {
+      if (onProgress) {
+        onProgress({
+          current: 0,
+          total: files.length,
+          message: `Uploading ${files[i].name} (${i + 1}/${files.length})...`,
+          phase: 'extraction',
+        });
+      }
 
-  // Process files one at a time for extraction (to stay under Vercel's 4.5MB body limit)
-  const EXTRACTION_BATCH_SIZE = 1;
-  const extractionBatches: File[][] = [];
+      const formData = new FormData();
+      formData.append('files', files[i]);
+      await api.post(`/analysis-jobs/${jobId}/files`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: 120000, // 2 minutes per upload
+      });
+    }
 
-  for (let i = 0; i < files.length; i += EXTRACTION_BATCH_SIZE) {
-    extractionBatches.push(files.slice(i, i + EXTRACTION_BATCH_SIZE));
+    return await completeStatementAnalysis(jobId, files.length, currentHousingPayment, onProgress, onEvent);
+  } finally {
+    stopEvents?.();
   }
+};
 
-  console.log(`📦 Created ${extractionBatches.length} extraction batches (${EXTRACTION_BATCH_SIZE} file per batch)`);
-
-  let allTransactions: any[] = [];
-  let filesProcessed = 0;
-
-  // Process extraction batches with controlled concurrency (2 at a time)
-  const CONCURRENT_EXTRACTIONS = 2;
-  for (let i = 0; i < extractionBatches.length; i += CONCURRENT_EXTRACTIONS) {
-    const currentBatchGroup = extractionBatches.slice(i, i + CONCURRENT_EXTRACTIONS);
+/**
+ * Pick an analysis job back up after a page reload
+ * Files extracted before the reload are kept; this extracts the rest and runs phases 2-3.
+ */
+export const resumeStatementAnalysis = async (
+  jobId: string,
+  fileCount: number,
+  currentHousingPayment: number,
+  onProgress?: AnalysisProgressCallback,
+  onEvent?: AnalysisEventCallback
+): Promise<CashFlowAnalysis> => {
+  console.log(`\n♻️  Resuming analysis job ${jobId}...`);
 
-    const groupPromises = currentBatchGroup.map(async (batch, idx) => {
-      const batchNum = i + idx + 1;
-      console.log(`\n📦 Processing extraction batch ${batchNum}/${extractionBatches.length} (${batch.length} file)...`);
+  const response = await api.get(`/analysis-jobs/${jobId}`);
+  const job: AnalysisJob = response.data.job;
 
-      const formData = new FormData();
-      batch.forEach((file) => {
-        formData.append('files', file);
-      });
+  if (job.files.length < fileCount) {
+    clearActiveAnalysisJob();
+    throw new Error(
+      `The upload was interrupted - only ${job.files.length} of ${fileCount} statements reached the server. Please upload them again.`
+    );
+  }
 
-      try {
-        const response = await api.post('/extract-transactions', formData, {
-          headers: {
-            'Content-Type': 'multipart/form-data',
-          },
-          timeout: 300000, // 5 minutes per extraction batch
-        });
+  // Replays the events from before the reload, then follows new ones
+  const stopEvents = onEvent ? subscribeAnalysisEvents(jobId, onEvent) : undefined;
 
-        const extractedTransactions = response.data.transactions;
-        console.log(`✅ Batch ${batchNum} extracted ${extractedTransactions.length} transactions`);
+  try {
+    return await completeStatementAnalysis(jobId, fileCount, currentHousingPayment, onProgress, onEvent);
+  } finally {
+    stopEvents?.();
+  }
+};
 
-        return {
-          success: true,
-          transactions: extractedTransactions,
-          batchNum,
-        };
-      } catch (error) {
-        console.error(`❌ Extraction batch ${batchNum} failed:`, error);
-        return {
-          success: false,
-          batchNum,
-          error,
-        };
-      }
+/**
+ * Extract a job's files until every one has completed or failed, retrying failed files once
+ * Each /resume call extracts one file inside the request, so extraction only runs while this drives it.
+ * @returns Transactions (tagged with sourceFile) and statement summaries of all files
+ */
+const waitForExtraction = async (
+  jobId: string,
+  fileCount: number,
+  onProgress?: AnalysisProgressCallback
+): Promise<{ transactions: any[]; statements: StatementSummary[] }> => {
+  const reportProgress = (job: AnalysisJob | null) => {
+    if (!job || !onProgress) return;
+    const finished = job.files.filter(f => f.status === 'completed' || f.status === 'failed').length;
+    onProgress({
+      current: finished,
+      total: fileCount,
+      message: `Extracted ${finished}/${fileCount} files`,
+      phase: 'extraction',
     });
+  };
 
-    const groupResults = await Promise.all(groupPromises);
-
-    // Check for failures
-    const failures = groupResults.filter(r => !r.success);
-    if (failures.length > 0) {
-      throw new Error(`Failed to extract transactions from batch(es): ${failures.map(f => f.batchNum).join(', ')}`);
+  const worker = async () => {
+    for (;;) {
+      const response = await api.post(`/analysis-jobs/${jobId}/resume`);
+      reportProgress(response.data.job);
+      if (!response.data.file) return;
     }
+  };
 
-    // Add successful results
-    groupResults.forEach(result => {
-      if (result.success) {
-        allTransactions = allTransactions.concat(result.transactions);
-        filesProcessed++;
+  for (;;) {
+    await Promise.all(Array.from({ length: JOB_CONCURRENCY }, worker));
 
-        if (onProgress) {
-          onProgress({
-            current: filesProcessed,
-            total: files.length,
-            message: `Extracted ${allTransactions.length} transactions from ${filesProcessed}/${files.length} files`,
-            phase: 'extraction',
-          });
+    const response = await api.get(`/analysis-jobs/${jobId}`);
+    const job: AnalysisJob = response.data.job;
+    reportProgress(job);
+
+    if (job.files.length >= fileCount && job.status !== 'running') {
+      const failed = job.files.filter(f => f.status === 'failed');
+      const retryable = failed.filter(f => f.attempts < MAX_FILE_ATTEMPTS);
+
+      if (retryable.length === 0) {
+        if (failed.length > 0) {
+          clearActiveAnalysisJob();
+          throw new Error(`Failed to extract transactions from ${failed.map(f => `${f.name} (${f.error})`).join(', ')}`);
         }
+        break;
       }
-    });
+
+      for (const file of retryable) {
+        console.warn(`🔁 Retrying ${file.name}: ${file.error}`);
+        await api.post(`/analysis-jobs/${jobId}/files/${file.index}/retry`);
+      }
+      continue;
+    }
+
+    // Files still claimed by an earlier request (e.g. before a reload) are reclaimed once abandoned
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
   }
 
-  console.log(`\n✅ PHASE 1 COMPLETE: Extracted ${allTransactions.length} total transactions from ${files.length} files`);
+  const results = await api.get(`/analysis-jobs/${jobId}/results`);
+  return results.data;
+};
+
+/**
+ * Phases 1 (wait) through 3 for an analysis job whose files have all been uploaded
+ * Server-side steps report to the job's event stream; steps run here go straight to onEvent
+ */
+const completeStatementAnalysis = async (
+  jobId: string,
+  fileCount: number,
+  currentHousingPayment: number,
+  onProgress?: AnalysisProgressCallback,
+  onEvent?: AnalysisEventCallback
+): Promise<CashFlowAnalysis> => {
+  const emitLocalEvent = (event: AnalysisProgressEvent) => onEvent?.({ ...event, at: new Date().toISOString() });
+
+  const { transactions: allTransactions, statements } = await waitForExtraction(jobId, fileCount, onProgress);
+
+  console.log(`\n✅ PHASE 1 COMPLETE: Extracted ${allTransactions.length} total transactions from ${fileCount} files`);
+
+  // Check every statement ties out (opening + transactions = closing) and that no months are missing
+  // Also averages the statements' own balances (0 when no statement shows one)
+  let statementWarnings: StatementWarning[] = [];
+  let missingStatementMonths: string[] = [];
+  let averageMonthlyBalance = 0;
+  try {
+    const reconcileResponse = await api.post('/reconcile-statements', { statements, transactions: allTransactions });
+    statementWarnings = reconcileResponse.data.warnings || [];
+    missingStatementMonths = reconcileResponse.data.missingMonths || [];
+    averageMonthlyBalance = reconcileResponse.data.averageMonthlyBalance ?? 0;
+    if (statementWarnings.length > 0) {
+      console.warn(`⚠️  ${statementWarnings.length} statement warning(s):`, statementWarnings.map(w => w.message));
+    }
+  } catch (error) {
+    console.warn('⚠️  Statement reconciliation failed, continuing without it:', error);
+  }
 
   // ===== PHASE 2: CATEGORIZATION =====
   console.log(`\n🏷️  PHASE 2: Categorizing ${allTransactions.length} transactions...`);
 
+  // Officer's learned merchant overrides are applied on the server during both passes
+  const loanOfficerEmail = loadLoanOfficerEmail() || undefined;
+
+  // Pair transfers between the uploaded accounts so they don't count as both income and expense
+  // Unconfirmed pairs stay counted and go to the review screen as suggestions
+  let transferMatched: any[] = [];
+  let unpairedTransactions: any[] = allTransactions;
+  let transferSuggestions: TransferSuggestion[] = [];
+  try {
+    const transferResponse = await api.post('/match-transfers', { transactions: allTransactions, statements });
+    transferMatched = transferResponse.data.matched || [];
+    unpairedTransactions = transferResponse.data.unmatched || allTransactions;
+    transferSuggestions = transferResponse.data.suggestions || [];
+    console.log(`🔁 Matched ${transferResponse.data.pairCount || 0} inter-account transfer pair(s), ${transferSuggestions.length} to confirm`);
+  } catch (error) {
+    console.warn('⚠️  Transfer matching failed, categorizing all transactions:', error);
+  }
+
+  // Deterministic rules first (payroll, Zelle, mortgage servicers, utilities, subscriptions, transfers)
+  // Runs over the full set so recurrence across months is visible; only the residue goes to the AI
+  const rulesResponse = await api.post('/categorize-rules', {
+    transactions: unpairedTransactions,
+    currentHousingPayment,
+    loanOfficerEmail,
+  });
+  const ruleCategorized: any[] = rulesResponse.data.categorized || [];
+  const uncategorized: any[] = rulesResponse.data.unmatched || [];
+
+  console.log(`📏 Rules categorized ${ruleCategorized.length} transactions, ${uncategorized.length} left for AI`);
+
   const CATEGORIZATION_CHUNK_SIZE = 25; // Balanced chunk size - fast and reliable
   const chunks: any[][] = [];
 
-  for (let i = 0; i < allTransactions.length; i += CATEGORIZATION_CHUNK_SIZE) {
-    chunks.push(allTransactions.slice(i, i + CATEGORIZATION_CHUNK_SIZE));
+  for (let i = 0; i < uncategorized.length; i += CATEGORIZATION_CHUNK_SIZE) {
+    chunks.push(uncategorized.slice(i, i + CATEGORIZATION_CHUNK_SIZE));
   }
 
   console.log(`📦 Created ${chunks.length} categorization chunks (${CATEGORIZATION_CHUNK_SIZE} transactions per chunk)`);
@@ -154,7 +302,7 @@ export const analyzeStatements = async (
   // Process chunks with controlled concurrency (5 at a time for optimal speed)
   const CONCURRENT_CHUNKS = 5;
   const categorizedChunks: any[] = [];
-  let transactionsProcessed = 0;
+  let transactionsProcessed = transferMatched.length + ruleCategorized.length;
 
   for (let i = 0; i < chunks.length; i += CONCURRENT_CHUNKS) {
     const currentChunkGroup = chunks.slice(i, i + CONCURRENT_CHUNKS);
@@ -166,9 +314,9 @@ export const analyzeStatements = async (
     const groupPromises = currentChunkGroup.map(async (chunk, idx) => {
       const chunkNumber = i + idx + 1;
       const startIdx = (chunkNumber - 1) * CATEGORIZATION_CHUNK_SIZE;
-      const endIdx = Math.min(startIdx + CATEGORIZATION_CHUNK_SIZE, allTransactions.length);
+      const endIdx = Math.min(startIdx + CATEGORIZATION_CHUNK_SIZE, uncategorized.length);
 
-      console.log(`   📝 Chunk ${chunkNumber}: transactions ${startIdx + 1}-${endIdx} of ${allTransactions.length}`);
+      console.log(`   📝 Chunk ${chunkNumber}: transactions ${startIdx + 1}-${endIdx} of ${uncategorized.length}`);
 
       try {
         const response = await api.post('/categorize-chunk', {
@@ -176,6 +324,8 @@ export const analyzeStatements = async (
           currentHousingPayment,
           chunkNumber,
           totalChunks: chunks.length,
+          loanOfficerEmail,
+          progressId: jobId,
         }, {
           timeout: 90000, // 90 seconds per chunk (allows for API delays)
         });
@@ -219,7 +369,7 @@ export const analyzeStatements = async (
           onProgress({
             current: transactionsProcessed,
             total: allTransactions.length,
-            message: `Processing transactions ${result.startIdx + 1}-${result.endIdx} of ${allTransactions.length}`,
+            message: `Processing transactions ${result.startIdx + 1}-${result.endIdx} of ${uncategorized.length}`,
             phase: 'categorization',
           });
         }
@@ -243,13 +393,28 @@ export const analyzeStatements = async (
     });
   }
 
-  // Combine all categorized transactions
-  const allCategorizedTransactions = categorizedChunks.flatMap(chunk => chunk.transactions || []);
+  // Combine transfer-matched, rule-matched and AI-categorized transactions
+  const aiCategorizedTransactions = categorizedChunks.flatMap(chunk => chunk.transactions || []);
+  const allCategorizedTransactions = [...transferMatched, ...ruleCategorized, ...aiCategorizedTransactions];
 
   // Run consistency check to standardize categories across all transactions
   const { standardizedTransactions, changesLog } = standardizeCategories(allCategorizedTransactions);
+  if (changesLog.length > 0) {
+    emitLocalEvent({
+      type: 'consistency-applied',
+      changes: changesLog.reduce((sum, change) => sum + change.count, 0),
+      merchants: changesLog.map(change => change.merchant),
+    });
+  }
 
-  const avgConfidence = categorizedChunks.reduce((sum, chunk) => sum + (chunk.confidence || 0.8), 0) / categorizedChunks.length;
+  // Transfer and rule matches count as fully confident; weight each AI chunk by its transaction count
+  const confidenceWeight = categorizedChunks.reduce(
+    (sum, chunk) => sum + (chunk.confidence || 0.8) * (chunk.transactions?.length || 0),
+    transferMatched.length + ruleCategorized.length
+  );
+  const avgConfidence = allCategorizedTransactions.length > 0
+    ? confidenceWeight / allCategorizedTransactions.length
+    : 0.8;
 
   // Calculate monthly breakdown (using standardized transactions)
   const monthlyMap = new Map<string, any>();
@@ -293,6 +458,13 @@ export const analyzeStatements = async (
 
   // Deduplicate transactions
   const { uniqueTransactions, duplicateTransactions } = deduplicateTransactions(standardizedTransactions);
+  if (duplicateTransactions.length > 0) {
+    emitLocalEvent({
+      type: 'duplicates-found',
+      count: duplicateTransactions.length,
+      examples: duplicateTransactions.slice(0, 3).map(t => `${t.date} ${t.description} $${t.amount}`),
+    });
+  }
 
   // Calculate totals FROM MONTHLY BREAKDOWN (not from AI chunk totals)
   // This ensures consistency between monthly breakdown and totals
@@ -305,11 +477,24 @@ export const analyzeStatements = async (
   const monthlyExpenses = totalExpenses / monthsAnalyzed;
   // Note: monthlyExpenses includes housing and recurring expenses, excludes one-time and excluded transactions
   const monthlyLeftover = monthlyDeposits - monthlyExpenses;
-  const averageMonthlyBalance = Math.max(0, monthlyLeftover);
+
+  // Detect recurring series and paycheck dates (falls back to a monthly label if detection fails)
+  let recurring: { series: RecurringSeries[]; paySchedules: PaySchedule[]; depositFrequency: RecurrenceCadence | null } = {
+    series: [],
+    paySchedules: [],
+    depositFrequency: null,
+  };
+  try {
+    const recurringResponse = await api.post('/detect-recurring', { transactions: uniqueTransactions });
+    recurring = recurringResponse.data;
+  } catch (error) {
+    console.warn('⚠️  Recurring detection failed, using monthly deposit frequency:', error);
+  }
 
   console.log(`\n📈 FINAL RESULTS:`);
   console.log(`   ✓ Total transactions: ${uniqueTransactions.length}`);
   console.log(`   ✓ Duplicates removed: ${duplicateTransactions.length}`);
+  console.log(`   ✓ Inter-account transfers excluded: ${transferMatched.length}`);
   console.log(`   ✓ Consistency fixes: ${changesLog.length} merchants standardized`);
   console.log(`   ✓ Flagged for review: ${flaggedTransactions.length}`);
   console.log(`   ✓ Months analyzed: ${monthsAnalyzed}`);
@@ -319,6 +504,9 @@ export const analyzeStatements = async (
   console.log(`   ✓ Monthly expenses (average): $${monthlyExpenses.toFixed(2)}`);
   console.log(`   ✓ Monthly leftover (net cash flow): $${monthlyLeftover.toFixed(2)}`);
   console.log(`   ✓ Confidence: ${(avgConfidence * 100).toFixed(0)}%`);
+  console.log(`   ✓ Recurring series: ${recurring.series.length} (deposit frequency: ${recurring.depositFrequency || 'not detected'})`);
+
+  clearActiveAnalysisJob();
 
   return {
     transactions: uniqueTransactions,
@@ -327,13 +515,24 @@ export const analyzeStatements = async (
     monthlyDeposits,
     monthlyExpenses,
     netCashFlow: monthlyLeftover,
-    depositFrequency: 'monthly',
+    depositFrequency: recurring.depositFrequency || 'monthly',
+    detectedDepositFrequency: recurring.depositFrequency || undefined,
+    recurringSeries: recurring.series,
+    paySchedules: recurring.paySchedules,
+    statements,
+    statementWarnings,
+    missingStatementMonths,
+    transferSuggestions,
     monthlyLeftover,
     averageMonthlyBalance,
     monthlyBreakdown,
     flaggedTransactions,
     duplicateTransactions,
     confidence: avgConfidence,
+    validationReports: [
+      ...statements.flatMap(statement => statement.validation ? [statement.validation] : []),
+      ...categorizedChunks.flatMap(chunk => chunk.validation ? [chunk.validation] : []),
+    ],
   };
 };
 
@@ -410,6 +609,8 @@ function standardizeCategories(transactions: any[]): {
       // Standardize all transactions in this group
       let changedCount = 0;
       group.forEach(t => {
+        // Rule matches are deterministic - don't let the consistency pass override them
+        if (t.ruleId) return;
         if (t.category !== standardCategory) {
           t.category = standardCategory;
           changedCount++;
@@ -505,14 +706,63 @@ export const checkEligibility = async (
 // Run loan simulation
 export const simulateLoan = async (
   mortgageDetails: MortgageDetails,
-  cashFlow: CashFlowAnalysis
+  cashFlow: CashFlowAnalysis,
+  strategyOptions?: TraditionalStrategyOptions
 ): Promise<SimulationResult> => {
   const response = await api.post('/simulate-loan', {
     mortgageDetails,
     cashFlow,
+    strategyOptions,
   });
 
   return response.data.simulation;
 };
 
+// Run the Monte Carlo cash-flow stress test
+export const runStressTest = async (
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis
+): Promise<StressTestResult> => {
+  const response = await api.post('/stress-test', {
+    mortgageDetails,
+    cashFlow,
+  });
+
+  return response.data.stressTest;
+};
+
+// How each life event moves the AIO payoff
+export const evaluateLifeEvents = async (
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  lifeEvents: LifeEvent[]
+): Promise<LifeEventImpactResult> => {
+  const response = await api.post('/life-events', {
+    mortgageDetails,
+    cashFlow,
+    lifeEvents,
+  });
+
+  return response.data.impact;
+};
+
+// Loan officer's learned merchant categorization overrides
+export const getMerchantMemory = async (email: string): Promise<MerchantOverride[]> => {
+  const response = await api.get(`/merchant-memory/${encodeURIComponent(email)}`);
+  return response.data.overrides || [];
+};
+
+// Remember a category and/or exclusion decision for a merchant
+export const saveMerchantOverride = async (
+  email: string,
+  override: { merchant?: string; description?: string; category?: Transaction['category']; excluded?: boolean }
+): Promise<MerchantOverride> => {
+  const response = await api.put(`/merchant-memory/${encodeURIComponent(email)}`, override);
+  return response.data.override;
+};
+
+export const deleteMerchantOverride = async (email: string, merchant: string): Promise<void> => {
+  await api.delete(`/merchant-memory/${encodeURIComponent(email)}/${encodeURIComponent(merchant)}`);
+};
+
 export default api;
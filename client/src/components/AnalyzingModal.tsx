@@ -1,18 +1,87 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import type { AnalysisProgressEntry } from '../types';
 import './AnalyzingModal.css';
 
 interface AnalyzingModalProps {
   fileCount: number;
   batchProgress?: { current: number; total: number; message: string; phase?: string } | null;
+  events?: AnalysisProgressEntry[]; // Live progress stream, oldest first
   onAbort?: () => void;
 }
 
 type BatchStatus = 'waiting' | 'processing' | 'completed';
 
-export default function AnalyzingModal({ fileCount, batchProgress, onAbort }: AnalyzingModalProps) {
+interface FileActivity {
+  name: string;
+  status: 'processing' | 'completed' | 'failed';
+  page?: number;
+  totalPages?: number;
+  transactionCount: number;
+  error?: string;
+}
+
+// Number of live events shown in the activity feed
+const ACTIVITY_FEED_LENGTH = 6;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+function describeEvent(event: AnalysisProgressEntry): string {
+  switch (event.type) {
+    case 'file-started':
+      return `📄 Reading ${event.file}${event.attempt && event.attempt > 1 ? ` (attempt ${event.attempt})` : ''}`;
+    case 'page-extracted':
+      return `📑 ${event.file}: page ${event.page}${event.totalPages ? ` of ${event.totalPages}` : ''} extracted (${plural(event.transactionCount, 'transaction')})`;
+    case 'file-completed':
+      return `✅ ${event.file}: ${plural(event.transactionCount, 'transaction')} extracted`;
+    case 'file-failed':
+      return `❌ ${event.file} failed: ${event.error}`;
+    case 'chunk-categorized':
+      return `🏷️ Categorized chunk ${event.chunk} of ${event.totalChunks} (${plural(event.transactionCount, 'transaction')})`;
+    case 'chunks-merged':
+      return `🔀 Merged ${plural(event.chunkCount, 'chunk')} (${plural(event.transactionCount, 'transaction')})`;
+    case 'duplicates-found':
+      return `🔍 Removed ${plural(event.count, 'duplicate')}${event.examples[0] ? ` (e.g. ${event.examples[0]})` : ''}`;
+    case 'consistency-applied':
+      return `🧹 Standardized ${plural(event.changes, 'category')} across ${plural(event.merchants.length, 'merchant')}`;
+  }
+}
+
+export default function AnalyzingModal({ fileCount, batchProgress, events = [], onAbort }: AnalyzingModalProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [currentTip, setCurrentTip] = useState(0);
 
+  // Latest state of each file, rebuilt from the event stream (a retry starts the file over)
+  const fileActivity = useMemo(() => {
+    const files = new Map<string, FileActivity>();
+
+    for (const event of events) {
+      if (!('file' in event)) continue;
+      const file = files.get(event.file) || { name: event.file, status: 'processing', transactionCount: 0 };
+
+      switch (event.type) {
+        case 'file-started':
+          files.set(event.file, { name: event.file, status: 'processing', transactionCount: 0 });
+          break;
+        case 'page-extracted':
+          files.set(event.file, {
+            ...file,
+            page: event.page,
+            totalPages: event.totalPages,
+            transactionCount: file.transactionCount + event.transactionCount,
+          });
+          break;
+        case 'file-completed':
+          files.set(event.file, { ...file, status: 'completed', transactionCount: event.transactionCount });
+          break;
+        case 'file-failed':
+          files.set(event.file, { ...file, status: 'failed', error: event.error });
+          break;
+      }
+    }
+
+    return Array.from(files.values());
+  }, [events]);
+
   // Calculate batch status based on current progress (controlled concurrency: 2 at a time)
   const getBatchStatus = (batchIndex: number): BatchStatus => {
     if (!batchProgress) return 'processing';
@@ -159,8 +228,47 @@ export default function AnalyzingModal({ fileCount, batchProgress, onAbort }: An
           <div className="current-step">
             {batchProgress ? (
               <div className="batch-progress-container">
-                {/* Extraction Phase: Show batch grid (small number of files) */}
-                {batchProgress.phase === 'extraction' && (
+                {/* Extraction Phase: live per-file status from the event stream */}
+                {batchProgress.phase === 'extraction' && fileActivity.length > 0 && (
+                  <>
+                    <div className="batch-header">
+                      Processing Files (2 at a time)
+                    </div>
+                    <div className="batch-progress-summary">
+                      <span className="progress-label">Completed:</span>
+                      <span className="progress-count">
+                        {batchProgress.current} / {batchProgress.total} files
+                      </span>
+                    </div>
+                    <div className="batch-grid">
+                      {fileActivity.map(file => (
+                        <div key={file.name} className={`batch-item batch-${file.status}`} title={file.error || file.name}>
+                          <div className="batch-icon">
+                            {file.status === 'completed' ? '✅' : file.status === 'failed' ? '❌' : '📦'}
+                          </div>
+                          <div className="batch-label">{file.name}</div>
+                          {file.status === 'processing' && (
+                            file.page
+                              ? <div className="batch-detail">Page {file.page}{file.totalPages ? ` of ${file.totalPages}` : ''}</div>
+                              : <div className="batch-spinner"></div>
+                          )}
+                          {file.status === 'completed' && <div className="batch-checkmark">{plural(file.transactionCount, 'transaction')}</div>}
+                          {file.status === 'failed' && <div className="batch-error">Failed</div>}
+                        </div>
+                      ))}
+                      {Array.from({ length: Math.max(0, batchProgress.total - fileActivity.length) }, (_, i) => (
+                        <div key={`queued-${i}`} className="batch-item batch-waiting">
+                          <div className="batch-icon">⏳</div>
+                          <div className="batch-label">File {fileActivity.length + i + 1}</div>
+                          <div className="batch-waiting">Queued</div>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+
+                {/* Extraction Phase before any events arrive: estimate from the completed count */}
+                {batchProgress.phase === 'extraction' && fileActivity.length === 0 && (
                   <>
                     <div className="batch-header">
                       Processing Files (2 at a time)
@@ -248,24 +356,37 @@ export default function AnalyzingModal({ fileCount, batchProgress, onAbort }: An
             )}
           </div>
 
-          {/* AI Processing Tips Carousel */}
-          <div className="tips-carousel">
-            <div className="tip-content-wrapper">
-              <div className="tip-icon">{tips[currentTip].title.split(' ')[0]}</div>
-              <div className="tip-text">
-                <h4 className="tip-title">{tips[currentTip].title}</h4>
-                <p className="tip-description">{tips[currentTip].content}</p>
-              </div>
+          {/* Live activity once events arrive; tips until then */}
+          {events.length > 0 ? (
+            <div className="activity-feed">
+              <div className="activity-header">Live Activity</div>
+              <ul className="activity-list">
+                {events.slice(-ACTIVITY_FEED_LENGTH).reverse().map(event => (
+                  <li key={event.id ?? `${event.type}-${event.at}`} className={`activity-item activity-${event.type}`}>
+                    {describeEvent(event)}
+                  </li>
+                ))}
+              </ul>
             </div>
-            <div className="tip-dots">
-              {tips.map((_, index) => (
-                <div
-                  key={index}
-                  className={`tip-dot ${index === currentTip ? 'active' : ''}`}
-                />
-              ))}
+          ) : (
+            <div className="tips-carousel">
+              <div className="tip-content-wrapper">
+                <div className="tip-icon">{tips[currentTip].title.split(' ')[0]}</div>
+                <div className="tip-text">
+                  <h4 className="tip-title">{tips[currentTip].title}</h4>
+                  <p className="tip-description">{tips[currentTip].content}</p>
+                </div>
+              </div>
+              <div className="tip-dots">
+                {tips.map((_, index) => (
+                  <div
+                    key={index}
+                    className={`tip-dot ${index === currentTip ? 'active' : ''}`}
+                  />
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Abort Button */}
           {onAbort && (
@@ -1,9 +1,11 @@
 import { useState, useEffect, useMemo } from 'react';
-import type { CashFlowAnalysis, Transaction, MortgageDetails } from '../types';
+import type { CashFlowAnalysis, Transaction, MortgageDetails, TransferSuggestion } from '../types';
 import { ComposedChart, Area, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import './CashFlowReview.css';
 import CashFlowSummaryCards from './CashFlowSummaryCards';
 import AIExtractionModal from './AIExtractionModal';
+import { saveMerchantOverride } from '../api';
+import { loadLoanOfficerEmail } from '../utils/userSettings';
 
 interface CashFlowReviewProps {
   cashFlow: CashFlowAnalysis;
@@ -27,16 +29,26 @@ export default function CashFlowReview({
   const [transactionSubTab, setTransactionSubTab] = useState<'all' | 'income' | 'expense' | 'housing' | 'one-time'>('income'); // Default to income
   const [transactions, setTransactions] = useState<Transaction[]>(() => {
     // Auto-exclude housing and one-time transactions on initial load
+    // (unless an explicit decision, e.g. a learned merchant override, already set it)
     return cashFlow.transactions.map(t => ({
       ...t,
-      excluded: t.excluded || t.category === 'housing' || t.category === 'one-time'
+      excluded: t.excluded ?? (t.category === 'housing' || t.category === 'one-time')
     }));
   });
   const [editingTransaction, setEditingTransaction] = useState<number | null>(null);
-  const [depositFrequency, setDepositFrequency] = useState<'weekly' | 'biweekly' | 'semi-monthly' | 'monthly'>(
-    (cashFlow.depositFrequency as 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly') || 'monthly'
+  const [depositFrequency, setDepositFrequency] = useState<'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly'>(
+    (cashFlow.depositFrequency as 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly') || 'monthly'
   );
-  const aiRecommendedFrequency = (cashFlow.depositFrequency as 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly') || 'monthly';
+  const aiRecommendedFrequency = cashFlow.detectedDepositFrequency ||
+    (cashFlow.depositFrequency as 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly') || 'monthly';
+  // Detected pay dates drive the simulation only while the detected frequency is selected
+  const [detectedPaySchedules] = useState(cashFlow.paySchedules);
+  const [showRecurring, setShowRecurring] = useState(false);
+  const recurringSeries = cashFlow.recurringSeries || [];
+  const seriesWithIssues = recurringSeries.filter(s => s.missedDates.length > 0 || s.irregularDates.length > 0);
+  const [showTransfers, setShowTransfers] = useState(false);
+  // Possible transfers the matcher couldn't confirm - both sides count until the officer decides
+  const [transferSuggestions, setTransferSuggestions] = useState<TransferSuggestion[]>(cashFlow.transferSuggestions || []);
   const [chartCollapsed, setChartCollapsed] = useState(false);
   const [searchFilter, setSearchFilter] = useState('');
   const [showAIModal, setShowAIModal] = useState(false);
@@ -103,6 +115,8 @@ export default function CashFlowReview({
       monthlyExpenses: adjustedMonthlyExpenses,  // NOW ADJUSTED!
       monthlyLeftover: adjustedNetCashFlow,
       depositFrequency,
+      paySchedules: depositFrequency === cashFlow.detectedDepositFrequency ? detectedPaySchedules : undefined,
+      transferSuggestions,
       cashFlowAdjustmentPercentage: cashFlowPercentage
     };
 
@@ -117,7 +131,19 @@ export default function CashFlowReview({
       excludedTransactionCount: transactions.length - includedTransactions.length
     });
     onCashFlowUpdate?.(updatedCashFlow);
-  }, [transactions, depositFrequency, cashFlowPercentage]);
+  }, [transactions, depositFrequency, cashFlowPercentage, transferSuggestions]);
+
+  // Save the officer's decision so future analyses apply it to this merchant automatically
+  const rememberMerchantDecision = (
+    transaction: Transaction,
+    decision: { category?: Transaction['category']; excluded?: boolean }
+  ) => {
+    const loanOfficerEmail = loadLoanOfficerEmail();
+    if (!loanOfficerEmail) return;
+
+    saveMerchantOverride(loanOfficerEmail, { description: transaction.description, ...decision })
+      .catch(error => console.warn('[CashFlowReview] Failed to save merchant override:', error));
+  };
 
   const toggleTransactionExclusion = (index: number) => {
     const updatedTransactions = [...transactions];
@@ -129,10 +155,64 @@ export default function CashFlowReview({
     };
     console.log(`[CashFlowReview] Transaction toggled: ${transaction.description} ($${Math.abs(transaction.amount)}) - ${wasExcluded ? 'INCLUDED' : 'EXCLUDED'}`);
     setTransactions(updatedTransactions);
+    // Transfer pairs are matched by amount and date, not by merchant - nothing to learn
+    if (!transaction.transferPairId) {
+      rememberMerchantDecision(transaction, { excluded: !wasExcluded });
+    }
     // Reset cash flow percentage to 100% when any transaction is toggled
     setCashFlowPercentage(100);
   };
 
+  const updateTransactionCategory = (index: number, newCategory: Transaction['category']) => {
+    const updatedTransactions = [...transactions];
+    const transaction = updatedTransactions[index];
+    updatedTransactions[index] = {
+      ...transaction,
+      category: newCategory
+    };
+    console.log(`[CashFlowReview] Transaction recategorized: ${transaction.description} - ${transaction.category} → ${newCategory}`);
+    setTransactions(updatedTransactions);
+    rememberMerchantDecision(transaction, { category: newCategory });
+    setCashFlowPercentage(100);
+  };
+
+  // Officer rejected an inter-account transfer pairing - count both sides again
+  const unpairTransfer = (transferPairId: string) => {
+    setTransactions(transactions.map(t =>
+      t.transferPairId === transferPairId
+        ? { ...t, transferPairId: undefined, ruleId: undefined, excluded: false }
+        : t
+    ));
+    console.log(`[CashFlowReview] Transfer pair ${transferPairId} unpaired`);
+    setCashFlowPercentage(100);
+  };
+
+  // Officer confirmed a suggested pair is a transfer - exclude both sides like a matched pair
+  const confirmTransferSuggestion = (suggestion: TransferSuggestion) => {
+    const sideIndex = (side: Transaction) => transactions.findIndex(t =>
+      !t.transferPairId &&
+      t.date === side.date &&
+      t.sourceFile === side.sourceFile &&
+      Number(t.amount) === Number(side.amount)
+    );
+    const indices = [sideIndex(suggestion.withdrawal), sideIndex(suggestion.deposit)];
+
+    if (indices.every(index => index >= 0)) {
+      setTransactions(transactions.map((t, index) =>
+        indices.includes(index)
+          ? { ...t, transferPairId: suggestion.id, ruleId: 'internal-transfer', excluded: true }
+          : t
+      ));
+      console.log(`[CashFlowReview] Transfer suggestion ${suggestion.id} confirmed`);
+    }
+    setTransferSuggestions(transferSuggestions.filter(s => s.id !== suggestion.id));
+    setCashFlowPercentage(100);
+  };
+
+  const dismissTransferSuggestion = (suggestionId: string) => {
+    setTransferSuggestions(transferSuggestions.filter(s => s.id !== suggestionId));
+  };
+
   const updateTransactionAmount = (index: number, newAmount: number) => {
     const updatedTransactions = [...transactions];
     const oldAmount = updatedTransactions[index].amount;
@@ -175,6 +255,16 @@ export default function CashFlowReview({
     });
   };
 
+  // Both sides of each matched inter-account transfer, grouped for review
+  const transferPairs = useMemo(() => {
+    const pairs = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+      if (!t.transferPairId) return;
+      pairs.set(t.transferPairId, [...(pairs.get(t.transferPairId) || []), t]);
+    });
+    return Array.from(pairs.entries());
+  }, [transactions]);
+
   // Recalculate totals for display
   const includedTransactions = transactions.filter(t => !t.excluded);
   const actualMonths = calculateActualMonths(includedTransactions);
@@ -1303,7 +1393,7 @@ export default function CashFlowReview({
             <select
               value={depositFrequency}
               onChange={(e) => {
-                const newFreq = e.target.value as 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly';
+                const newFreq = e.target.value as 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly';
                 console.log(`[CashFlowReview] Deposit frequency changed from "${depositFrequency}" to "${newFreq}"`);
                 setDepositFrequency(newFreq);
               }}
@@ -1326,13 +1416,14 @@ export default function CashFlowReview({
               <option value="biweekly">Biweekly</option>
               <option value="semi-monthly">Semi-Monthly</option>
               <option value="monthly">Monthly</option>
+              <option value="quarterly">Quarterly</option>
             </select>
             <span style={{
               fontSize: '0.65rem',
               color: '#718096',
               fontStyle: 'italic'
             }}>
-              ✨ AI: <strong>{aiRecommendedFrequency}</strong>
+              {cashFlow.detectedDepositFrequency ? '🔁 Detected' : '✨ AI'}: <strong>{aiRecommendedFrequency}</strong>
             </span>
           </div>
 
@@ -1485,6 +1576,226 @@ export default function CashFlowReview({
           </button>
         </div>
 
+          {/* Recurring Series (detected paychecks and bills) */}
+          {recurringSeries.length > 0 && (
+            <div style={{ marginTop: '0.5rem', border: '1px solid #e2e8f0', borderRadius: '8px', background: '#f7fafc' }}>
+              <button
+                onClick={() => setShowRecurring(!showRecurring)}
+                style={{
+                  width: '100%',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: '0.5rem 0.75rem',
+                  background: 'transparent',
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontSize: '0.8rem',
+                  fontWeight: '600',
+                  color: '#2d3748'
+                }}
+              >
+                <span>
+                  🔁 {recurringSeries.length} recurring series detected
+                  {seriesWithIssues.length > 0 && (
+                    <span style={{ color: '#c05621', marginLeft: '0.5rem' }}>
+                      ⚠️ {seriesWithIssues.length} with missed or irregular occurrences
+                    </span>
+                  )}
+                </span>
+                <span>{showRecurring ? '▲' : '▼'}</span>
+              </button>
+              {showRecurring && (
+                <div style={{ padding: '0 0.75rem 0.75rem', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+                  {recurringSeries.map(series => (
+                    <div
+                      key={series.id}
+                      style={{
+                        display: 'grid',
+                        gridTemplateColumns: '2fr 1fr 1fr 1.5fr 2fr',
+                        gap: '0.5rem',
+                        alignItems: 'center',
+                        fontSize: '0.75rem',
+                        padding: '0.35rem 0.5rem',
+                        background: 'white',
+                        borderRadius: '6px',
+                        border: '1px solid #edf2f7'
+                      }}
+                    >
+                      <span style={{ fontWeight: '600', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={series.description}>
+                        {series.description}
+                      </span>
+                      <span style={{ textTransform: 'capitalize' }}>{series.cadence}</span>
+                      <span style={{ color: series.direction === 'income' ? '#22c55e' : '#ef4444', fontWeight: '600' }}>
+                        {series.direction === 'income' ? '+' : '-'}{formatCurrency(series.averageAmount)}
+                      </span>
+                      <span style={{ color: '#718096' }}>
+                        Next: {series.nextDates[0] ? new Date(series.nextDates[0] + 'T00:00:00').toLocaleDateString() : '—'}
+                      </span>
+                      <span style={{ color: '#c05621' }}>
+                        {series.missedDates.length > 0 && `Missed ${series.missedDates.map(d => new Date(d + 'T00:00:00').toLocaleDateString()).join(', ')}`}
+                        {series.missedDates.length > 0 && series.irregularDates.length > 0 && ' · '}
+                        {series.irregularDates.length > 0 && `${series.irregularDates.length} off-schedule`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Internal Transfers (matched across uploaded accounts) */}
+          {transferPairs.length > 0 && (
+            <div style={{ marginTop: '0.5rem', border: '1px solid #e2e8f0', borderRadius: '8px', background: '#f7fafc' }}>
+              <button
+                onClick={() => setShowTransfers(!showTransfers)}
+                style={{
+                  width: '100%',
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: '0.5rem 0.75rem',
+                  background: 'transparent',
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontSize: '0.8rem',
+                  fontWeight: '600',
+                  color: '#2d3748'
+                }}
+              >
+                <span>↔️ {transferPairs.length} transfer{transferPairs.length !== 1 ? 's' : ''} between uploaded accounts excluded</span>
+                <span>{showTransfers ? '▲' : '▼'}</span>
+              </button>
+              {showTransfers && (
+                <div style={{ padding: '0 0.75rem 0.75rem', display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+                  {transferPairs.map(([pairId, sides]) => (
+                    <div
+                      key={pairId}
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.75rem',
+                        fontSize: '0.75rem',
+                        padding: '0.35rem 0.5rem',
+                        background: 'white',
+                        borderRadius: '6px',
+                        border: '1px solid #edf2f7'
+                      }}
+                    >
+                      <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.15rem', minWidth: 0 }}>
+                        {sides.map((side, sideIdx) => (
+                          <div key={sideIdx} style={{ display: 'grid', gridTemplateColumns: '1fr 3fr 2fr 1fr', gap: '0.5rem' }}>
+                            <span style={{ color: '#718096' }}>{new Date(side.date + 'T00:00:00').toLocaleDateString()}</span>
+                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={side.description}>
+                              {side.description}
+                            </span>
+                            <span style={{ color: '#718096', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={side.sourceFile}>
+                              {side.sourceFile}
+                            </span>
+                            <span style={{ color: side.amount > 0 ? '#22c55e' : '#ef4444', fontWeight: '600', textAlign: 'right' }}>
+                              {side.amount > 0 ? '+' : '-'}{formatCurrency(Math.abs(side.amount))}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => unpairTransfer(pairId)}
+                        title="Count both sides as regular income and expense"
+                        style={{
+                          padding: '0.25rem 0.5rem',
+                          background: 'white',
+                          border: '1px solid #cbd5e0',
+                          borderRadius: '6px',
+                          color: '#4a5568',
+                          fontSize: '0.7rem',
+                          cursor: 'pointer',
+                          whiteSpace: 'nowrap'
+                        }}
+                      >
+                        Not a transfer
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Possible Transfers (same amount across uploaded files, not confirmed) */}
+          {transferSuggestions.length > 0 && (
+            <div style={{ marginTop: '0.5rem', border: '1px solid #fbd38d', borderRadius: '8px', background: '#fffaf0', padding: '0.5rem 0.75rem' }}>
+              <div style={{ fontSize: '0.8rem', fontWeight: '600', color: '#c05621', marginBottom: '0.35rem' }}>
+                ❓ {transferSuggestions.length} possible transfer{transferSuggestions.length !== 1 ? 's' : ''} between uploaded files - still counted as income and expense
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+                {transferSuggestions.map(suggestion => (
+                  <div
+                    key={suggestion.id}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '0.75rem',
+                      fontSize: '0.75rem',
+                      padding: '0.35rem 0.5rem',
+                      background: 'white',
+                      borderRadius: '6px',
+                      border: '1px solid #edf2f7'
+                    }}
+                  >
+                    <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.15rem', minWidth: 0 }}>
+                      {[suggestion.withdrawal, suggestion.deposit].map((side, sideIdx) => (
+                        <div key={sideIdx} style={{ display: 'grid', gridTemplateColumns: '1fr 3fr 2fr 1fr', gap: '0.5rem' }}>
+                          <span style={{ color: '#718096' }}>{new Date(side.date + 'T00:00:00').toLocaleDateString()}</span>
+                          <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={side.description}>
+                            {side.description}
+                          </span>
+                          <span style={{ color: '#718096', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={side.sourceFile}>
+                            {side.sourceFile}
+                          </span>
+                          <span style={{ color: side.amount > 0 ? '#22c55e' : '#ef4444', fontWeight: '600', textAlign: 'right' }}>
+                            {side.amount > 0 ? '+' : '-'}{formatCurrency(Math.abs(side.amount))}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => confirmTransferSuggestion(suggestion)}
+                      title="Exclude both sides as a transfer between the borrower's accounts"
+                      style={{
+                        padding: '0.25rem 0.5rem',
+                        background: 'white',
+                        border: '1px solid #cbd5e0',
+                        borderRadius: '6px',
+                        color: '#4a5568',
+                        fontSize: '0.7rem',
+                        cursor: 'pointer',
+                        whiteSpace: 'nowrap'
+                      }}
+                    >
+                      Is a transfer
+                    </button>
+                    <button
+                      onClick={() => dismissTransferSuggestion(suggestion.id)}
+                      title="Keep counting both sides as regular income and expense"
+                      style={{
+                        padding: '0.25rem 0.5rem',
+                        background: 'white',
+                        border: '1px solid #cbd5e0',
+                        borderRadius: '6px',
+                        color: '#4a5568',
+                        fontSize: '0.7rem',
+                        cursor: 'pointer',
+                        whiteSpace: 'nowrap'
+                      }}
+                    >
+                      Not a transfer
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Scrollable Transaction Container */}
           {true && (
           <div style={{ maxHeight: '600px', overflowY: 'auto', border: '1px solid #e2e8f0', borderRadius: '8px', marginTop: '0.5rem', paddingBottom: '2rem' }}>
@@ -1525,6 +1836,26 @@ export default function CashFlowReview({
                           {new Date(transaction.date).toLocaleDateString()}
                         </div>
                         <div className="transaction-description">{transaction.description}</div>
+                        <select
+                          value={transaction.category}
+                          onChange={(e) => updateTransactionCategory(actualIndex, e.target.value as Transaction['category'])}
+                          title={transaction.ruleId === 'officer-override' ? 'Category from your learned merchant rules' : 'Change category'}
+                          style={{
+                            padding: '0.25rem 0.5rem',
+                            border: `1px solid ${transaction.ruleId === 'officer-override' ? '#9bc53d' : '#cbd5e0'}`,
+                            borderRadius: '6px',
+                            fontSize: '0.75rem',
+                            color: '#2d3748',
+                            background: 'white',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          <option value="income">Income</option>
+                          <option value="expense">Expense</option>
+                          <option value="recurring">Recurring</option>
+                          <option value="housing">Housing</option>
+                          <option value="one-time">One-Time</option>
+                        </select>
                         {editingTransaction === actualIndex ? (
                           <input
                             type="number"
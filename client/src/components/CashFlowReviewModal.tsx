@@ -40,7 +40,6 @@ export default function CashFlowReviewModal({ analysis, onConfirm, onCancel }: C
       ...analysis,
       transactions,
       ...updatedTotals,
-      averageMonthlyBalance: Math.max(0, updatedTotals.netCashFlow),
       flaggedTransactions: transactions.filter((t) => t.flagged && !t.excluded),
     };
     onConfirm(updatedAnalysis);
@@ -140,7 +140,47 @@ export default function CashFlowSummaryCards({
 
   const confidenceFactors = getConfidenceFactors();
 
+  // Statements that don't tie out, missing months, period gaps and unreadable export rows
+  const statements = cashFlow.statements || [];
+  const statementWarnings = cashFlow.statementWarnings || [];
+  const missingMonths = cashFlow.missingStatementMonths || [];
+  const unbalancedCount = statementWarnings.filter(w => w.type === 'unreconciled').length;
+  const unparsedCount = statementWarnings.filter(w => w.type === 'unparsed-rows').length;
+  const formatMonth = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
   return (
+    <>
+    {statementWarnings.length > 0 && (
+      <div style={{
+        background: '#fffbeb',
+        border: '1px solid #fcd34d',
+        borderRadius: '12px',
+        padding: '0.75rem 1rem',
+        marginBottom: '1rem',
+        fontSize: '0.8rem',
+        color: '#92400e'
+      }}>
+        <div style={{ fontWeight: '700', marginBottom: '0.35rem' }}>
+          ⚠️ Statement check:
+          {unbalancedCount > 0 && ` ${unbalancedCount} statement${unbalancedCount !== 1 ? 's' : ''} don't reconcile`}
+          {unbalancedCount > 0 && missingMonths.length > 0 && ' ·'}
+          {missingMonths.length > 0 && ` missing ${missingMonths.map(formatMonth).join(', ')}`}
+          {(unbalancedCount > 0 || missingMonths.length > 0) && unparsedCount > 0 && ' ·'}
+          {unparsedCount > 0 && ` ${unparsedCount} file${unparsedCount !== 1 ? 's' : ''} with unreadable rows`}
+        </div>
+        <ul style={{ margin: 0, paddingLeft: '1.25rem' }}>
+          {statementWarnings.filter(w => w.type !== 'missing-month').map((warning, idx) => (
+            <li key={idx}>{warning.message}</li>
+          ))}
+        </ul>
+        {missingMonths.length > 0 && (
+          <div style={{ marginTop: '0.35rem' }}>
+            Upload the missing statements for a complete picture of income and spending.
+          </div>
+        )}
+      </div>
+    )}
     <div style={{
       display: 'grid',
       gridTemplateColumns: 'repeat(4, 1fr)',
@@ -209,6 +249,33 @@ export default function CashFlowSummaryCards({
                 📊 Coverage: {actualMonths} month{actualMonths !== 1 ? 's' : ''} of financial data
               </div>
             </div>
+            {statements.length > 0 && (
+              <div className="detail-section">
+                <div className="detail-label">Statement Reconciliation</div>
+                <div className="detail-value">
+                  {statements.filter(s => s.reconciliation === 'balanced').length} of {statements.length} statements tie out
+                </div>
+                <ul>
+                  {statements.map((statement, idx) => (
+                    <li key={idx}>
+                      <div>
+                        <div style={{ fontWeight: 600 }}>{statement.account || statement.sourceFile}</div>
+                        <div style={{ fontSize: '0.85rem', opacity: 0.8 }}>
+                          {statement.periodStart && statement.periodEnd
+                            ? `${statement.periodStart} – ${statement.periodEnd}`
+                            : statement.sourceFile}
+                        </div>
+                      </div>
+                      <div style={{ fontWeight: 700 }}>
+                        {statement.reconciliation === 'balanced' && '✅ Balanced'}
+                        {statement.reconciliation === 'unbalanced' && `⚠️ Off $${Math.abs(statement.difference || 0).toFixed(2)}`}
+                        {statement.reconciliation === 'unverified' && 'No balances'}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             {confidenceFactors.map((factor, idx) => (
               <div className="detail-section" key={idx}>
                 <div className="detail-label">{factor.label}</div>
@@ -540,5 +607,6 @@ export default function CashFlowSummaryCards({
         }
       />
     </div>
+    </>
   );
 }
@@ -135,7 +135,10 @@ export default function DepositsExpensesInput({ onSubmit, onBack, mortgageDetail
         ext.endsWith('.png') ||
         ext.endsWith('.csv') ||
         ext.endsWith('.xlsx') ||
-        ext.endsWith('.xls')
+        ext.endsWith('.xls') ||
+        ext.endsWith('.ofx') ||
+        ext.endsWith('.qfx') ||
+        ext.endsWith('.qif')
       ) {
         processedFiles.push(file);
       } else {
@@ -542,7 +545,7 @@ export default function DepositsExpensesInput({ onSubmit, onBack, mortgageDetail
                 type="file"
                 id="fileInput"
                 multiple
-                accept=".pdf,.csv,.xlsx,.xls,.jpg,.jpeg,.png"
+                accept=".pdf,.csv,.xlsx,.xls,.ofx,.qfx,.qif,.jpg,.jpeg,.png"
                 onChange={(e) => handleFileSelect(e.target.files)}
                 style={{ display: 'none' }}
               />
@@ -565,7 +568,7 @@ export default function DepositsExpensesInput({ onSubmit, onBack, mortgageDetail
                   Drag & drop bank statements here, or <span className="upload-link">browse</span>
                 </span>
                 <span className="upload-hint">
-                  Supports PDF, CSV, Excel, and images • Upload 3-12 months of statements
+                  Supports PDF, CSV, Excel, OFX/QFX/QIF, and images • Upload 3-12 months of statements
                 </span>
               </label>
             </div>
@@ -216,6 +216,7 @@ export default function FileUpload({
       'text/csv': ['.csv'],
       'application/vnd.ms-excel': ['.xls'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/x-ofx': ['.ofx', '.qfx', '.qif'],
     },
     maxSize: 4 * 1024 * 1024, // 4MB (Vercel body size limit is 4.5MB, leave room for overhead)
   });
@@ -410,7 +411,7 @@ export default function FileUpload({
             {!isProcessingPdf && (
               <>
                 <p className="dropzone-subtext">or click to browse</p>
-                <p className="dropzone-formats">PDF, JPG, PNG, CSV, XLSX (max 4MB each)</p>
+                <p className="dropzone-formats">PDF, JPG, PNG, CSV, XLSX, OFX, QFX, QIF (max 4MB each)</p>
               </>
             )}
           </div>
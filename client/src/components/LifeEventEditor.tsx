@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import type { CashFlowAnalysis, LifeEvent, LifeEventImpactResult, LifeEventOutcome, LifeEventType, MortgageDetails } from '../types';
+import { evaluateLifeEvents } from '../api';
+
+const EVENT_TYPE_OPTIONS: Array<{ value: LifeEventType; label: string; hint: string }> = [
+  { value: 'lump-sum-deposit', label: 'Lump-Sum Deposit', hint: 'One-time deposit: bonus, inheritance, home sale proceeds' },
+  { value: 'lump-sum-draw', label: 'Lump-Sum Draw', hint: 'One-time draw: tuition, renovation, car purchase' },
+  { value: 'income-change', label: 'Income Change', hint: 'Permanent monthly change: raise (+) or retirement (-)' },
+  { value: 'expense-change', label: 'Expense Change', hint: 'Permanent monthly change: new bill (+) or childcare ending (-)' },
+];
+
+interface LifeEventEditorProps {
+  mortgageDetails: MortgageDetails;
+  cashFlow: CashFlowAnalysis;
+  lifeEvents: LifeEvent[];
+  onChange: (lifeEvents: LifeEvent[]) => void;
+}
+
+const inputStyle = {
+  padding: '0.5rem 0.75rem',
+  border: '1px solid #cbd5e1',
+  borderRadius: '6px',
+  fontSize: '0.875rem',
+  background: 'white',
+};
+
+export default function LifeEventEditor({ mortgageDetails, cashFlow, lifeEvents, onChange }: LifeEventEditorProps) {
+  const [draft, setDraft] = useState({ type: 'lump-sum-deposit' as LifeEventType, date: '', amount: '', description: '' });
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [impact, setImpact] = useState<LifeEventImpactResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-run the projection whenever the event list changes
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    evaluateLifeEvents(mortgageDetails, cashFlow, lifeEvents)
+      .then(result => {
+        if (!cancelled) setImpact(result);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err.response?.data?.message || err.message || 'Failed to evaluate life events');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mortgageDetails, cashFlow, lifeEvents]);
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatPayoff = (outcome: LifeEventOutcome): string => {
+    if (outcome.payoffMonths === null || !outcome.payoffDate) return 'Not paid off';
+    const date = new Date(outcome.payoffDate).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+    return `${date} (${Math.floor(outcome.payoffMonths / 12)} yr ${outcome.payoffMonths % 12} mo)`;
+  };
+
+  const formatMonthsChange = (months: number | null): string => {
+    if (months === null) return 'Not paid off';
+    if (months === 0) return 'No change';
+    return `${Math.abs(months)} mo ${months < 0 ? 'sooner' : 'later'}`;
+  };
+
+  // Draws show as negative, monthly changes get a /mo suffix
+  const formatEventAmount = (event: LifeEvent): string => {
+    const signed = event.type === 'lump-sum-draw' ? -Math.abs(event.amount) : event.amount;
+    const suffix = event.type === 'income-change' || event.type === 'expense-change' ? '/mo' : '';
+    return `${signed > 0 ? '+' : ''}${formatCurrency(signed)}${suffix}`;
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(draft.amount);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) {
+      setDraftError('Pick a date for the event');
+      return;
+    }
+    if (!isFinite(amount) || amount === 0) {
+      setDraftError('Enter a non-zero amount');
+      return;
+    }
+
+    const isLumpSum = draft.type === 'lump-sum-deposit' || draft.type === 'lump-sum-draw';
+    const event: LifeEvent = {
+      id: `event-${Date.now()}`,
+      type: draft.type,
+      date: draft.date,
+      amount: isLumpSum ? Math.abs(amount) : amount,
+      description: draft.description.trim() || undefined,
+    };
+
+    onChange([...lifeEvents, event].sort((a, b) => a.date.localeCompare(b.date)));
+    setDraft({ ...draft, date: '', amount: '', description: '' });
+    setDraftError(null);
+  };
+
+  const typeLabel = (type: LifeEventType) => EVENT_TYPE_OPTIONS.find(option => option.value === type)?.label || type;
+
+  return (
+    <div className="life-events-tab-content">
+      <h2 className="section-header" style={{ textAlign: 'center' }}>🗓️ Life Events</h2>
+      <p style={{ textAlign: 'center', color: '#64748b', marginBottom: '2rem' }}>
+        Add the bonuses, big purchases and income changes the borrower expects to see how each one moves the All-In-One payoff.
+      </p>
+
+      {/* Payoff summary */}
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '2rem' }}>
+        {[
+          { label: 'Without Events', value: impact ? formatPayoff(impact.baseline) : '...' },
+          { label: 'With All Events', value: impact ? formatPayoff(impact.withEvents) : '...' },
+          {
+            label: 'Interest Difference',
+            value: impact ? formatCurrency(impact.withEvents.totalInterestPaid - impact.baseline.totalInterestPaid) : '...',
+          },
+        ].map(stat => (
+          <div key={stat.label} style={{ flex: '1 1 200px', padding: '1rem', background: '#f8fafc', borderRadius: '8px', border: '2px solid #e2e8f0' }}>
+            <div style={{ fontSize: '0.85rem', color: '#718096', marginBottom: '0.25rem' }}>{stat.label}</div>
+            <div style={{ fontWeight: '700', color: '#2d3748' }}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* New event */}
+      <form onSubmit={handleAdd} style={{ padding: '1.5rem', background: 'white', borderRadius: '12px', border: '2px solid #e2e8f0', marginBottom: '2rem' }}>
+        <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center' }}>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft({ ...draft, type: e.target.value as LifeEventType })}
+            style={inputStyle}
+          >
+            {EVENT_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+            style={inputStyle}
+          />
+          <input
+            type="number"
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            placeholder={draft.type === 'income-change' || draft.type === 'expense-change' ? 'Monthly change' : 'Amount'}
+            style={{ ...inputStyle, width: '140px' }}
+          />
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Description (optional)"
+            style={{ ...inputStyle, flex: 1, minWidth: '180px' }}
+          />
+          <button type="submit" className="btn-primary">
+            Add Event
+          </button>
+        </div>
+        <div style={{ fontSize: '0.8rem', color: draftError ? '#dc2626' : '#64748b', marginTop: '0.5rem' }}>
+          {draftError || EVENT_TYPE_OPTIONS.find(option => option.value === draft.type)?.hint}
+        </div>
+      </form>
+
+      {error && (
+        <div style={{ padding: '1rem', background: '#fef2f2', border: '1px solid #fecaca', borderRadius: '8px', color: '#b91c1c', marginBottom: '1rem' }}>
+          {error}
+        </div>
+      )}
+
+      {/* Event list with each event's effect on its own */}
+      {lifeEvents.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '3rem 2rem', background: '#f8fafc', borderRadius: '12px', border: '2px dashed #cbd5e1' }}>
+          <p style={{ color: '#94a3b8', margin: 0 }}>No life events yet. Add one above to see how it changes the payoff date.</p>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', opacity: isLoading ? 0.6 : 1 }}>
+          {lifeEvents.map(event => {
+            const eventImpact = impact?.events.find(item => item.event.id === event.id);
+            return (
+              <div
+                key={event.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  background: 'white',
+                  border: '2px solid #e2e8f0',
+                  borderRadius: '12px',
+                  padding: '1rem 1.25rem',
+                }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: '600', color: '#1e293b' }}>
+                    {event.description || typeLabel(event.type)}
+                  </div>
+                  <div style={{ fontSize: '0.75rem', color: '#64748b' }}>
+                    {typeLabel(event.type)} · {new Date(`${event.date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })} · {formatEventAmount(event)}
+                  </div>
+                </div>
+
+                {eventImpact && (
+                  <div style={{ textAlign: 'right' }}>
+                    <div
+                      style={{
+                        fontWeight: '700',
+                        color: eventImpact.payoffMonthsChange === null || eventImpact.payoffMonthsChange > 0 ? '#dc2626' : '#16a34a',
+                      }}
+                    >
+                      {formatMonthsChange(eventImpact.payoffMonthsChange)}
+                    </div>
+                    <div style={{ fontSize: '0.75rem', color: '#64748b' }}>
+                      {eventImpact.interestChange <= 0 ? 'Saves ' : 'Costs '}
+                      {formatCurrency(Math.abs(eventImpact.interestChange))} interest
+                    </div>
+                    {eventImpact.outcome.maxOverCreditLimit > 0 && (
+                      <div style={{ fontSize: '0.75rem', color: '#d97706' }}>
+                        Up to {formatCurrency(eventImpact.outcome.maxOverCreditLimit)} over credit limit
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <button
+                  onClick={() => onChange(lifeEvents.filter(item => item.id !== event.id))}
+                  style={{
+                    padding: '0.5rem',
+                    background: '#fef2f2',
+                    border: '1px solid #fecaca',
+                    borderRadius: '6px',
+                    color: '#dc2626',
+                    cursor: 'pointer',
+                  }}
+                  title="Remove this event"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    style={{ width: '18px', height: '18px' }}
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
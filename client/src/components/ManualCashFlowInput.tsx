@@ -76,7 +76,10 @@ export default function ManualCashFlowInput({ onSubmit, onBack, mortgageDetails
         ext.endsWith('.png') ||
         ext.endsWith('.csv') ||
         ext.endsWith('.xlsx') ||
-        ext.endsWith('.xls')
+        ext.endsWith('.xls') ||
+        ext.endsWith('.ofx') ||
+        ext.endsWith('.qfx') ||
+        ext.endsWith('.qif')
       ) {
         processedFiles.push(file);
       } else {
@@ -301,7 +304,7 @@ export default function ManualCashFlowInput({ onSubmit, onBack, mortgageDetails
                 type="file"
                 id="fileInput"
                 multiple
-                accept=".pdf,.csv,.xlsx,.xls,.jpg,.jpeg,.png"
+                accept=".pdf,.csv,.xlsx,.xls,.ofx,.qfx,.qif,.jpg,.jpeg,.png"
                 onChange={(e) => handleFileSelect(e.target.files)}
                 style={{ display: 'none' }}
               />
@@ -324,7 +327,7 @@ export default function ManualCashFlowInput({ onSubmit, onBack, mortgageDetails
                   Drag & drop bank statements here, or <span className="upload-link">browse</span>
                 </span>
                 <span className="upload-hint">
-                  Supports PDF, CSV, Excel, and images • Upload 3-12 months of statements
+                  Supports PDF, CSV, Excel, OFX/QFX/QIF, and images • Upload 3-12 months of statements
                 </span>
               </label>
             </div>
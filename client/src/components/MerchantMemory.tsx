@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import type { MerchantOverride, Transaction } from '../types';
+import { getMerchantMemory, saveMerchantOverride, deleteMerchantOverride } from '../api';
+import { loadLoanOfficerEmail, saveLoanOfficerEmail } from '../utils/userSettings';
+import './FileUpload.css';
+
+const CATEGORY_OPTIONS: Array<{ value: Transaction['category']; label: string }> = [
+  { value: 'income', label: 'Income' },
+  { value: 'expense', label: 'Expense' },
+  { value: 'recurring', label: 'Recurring' },
+  { value: 'housing', label: 'Housing' },
+  { value: 'one-time', label: 'One-Time' },
+];
+
+export default function MerchantMemory() {
+  const [email, setEmail] = useState(() => loadLoanOfficerEmail() || '');
+  const [overrides, setOverrides] = useState<MerchantOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email || !email.includes('@')) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setOverrides(await getMerchantMemory(email));
+      saveLoanOfficerEmail(email);
+      setIsAuthenticated(true);
+    } catch (err: any) {
+      console.error('Error fetching merchant memory:', err);
+      setError(err.response?.data?.message || err.message || 'Failed to load learned rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpdate = async (
+    override: MerchantOverride,
+    changes: { category?: Transaction['category']; excluded?: boolean }
+  ) => {
+    try {
+      const updated = await saveMerchantOverride(email, { merchant: override.merchant, description: override.example, ...changes });
+      setOverrides(overrides.map(o => (o.merchant === override.merchant ? updated : o)));
+    } catch (err: any) {
+      console.error('Error updating merchant override:', err);
+      alert(`Failed to update rule: ${err.response?.data?.message || err.message}`);
+    }
+  };
+
+  const handleDelete = async (override: MerchantOverride) => {
+    if (!confirm(`Forget the learned rule for "${override.example}"? Future statements will be categorized automatically again.`)) {
+      return;
+    }
+
+    try {
+      await deleteMerchantOverride(email, override.merchant);
+      setOverrides(overrides.filter(o => o.merchant !== override.merchant));
+    } catch (err: any) {
+      console.error('Error deleting merchant override:', err);
+      alert(`Failed to delete rule: ${err.response?.data?.message || err.message}`);
+    }
+  };
+
+  const handleLogout = () => {
+    setIsAuthenticated(false);
+    setOverrides([]);
+    setError(null);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  if (!isAuthenticated) {
+    return (
+      <div className="file-upload-container">
+        <div className="form-header">
+          <h2>🧠 Learned Categories</h2>
+          <p>Enter your email to review the merchant rules learned from your corrections</p>
+        </div>
+
+        <form onSubmit={handleLogin} style={{ maxWidth: '500px', margin: '0 auto' }}>
+          <div className="input-card">
+            <label htmlFor="merchant-memory-email" className="input-label">
+              <span className="label-text">Loan Officer Email</span>
+              <span className="label-hint">Corrections you make during cash flow review are saved under this email</span>
+            </label>
+
+            <div className="input-wrapper">
+              <span className="input-prefix">@</span>
+              <input
+                type="email"
+                id="merchant-memory-email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="cash-flow-input"
+                autoFocus
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="input-error">
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+                {error}
+              </div>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            className="btn-primary"
+            disabled={isLoading}
+            style={{ width: '100%', marginTop: '1rem' }}
+          >
+            {isLoading ? (
+              <>
+                <div className="spinner-small"></div>
+                Loading...
+              </>
+            ) : (
+              'View Learned Categories'
+            )}
+          </button>
+        </form>
+
+        <div className="upload-info-box" style={{ marginTop: '2rem' }}>
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <div>
+            <strong>How learned categories work</strong>
+            <ul style={{ marginTop: '0.75rem' }}>
+              <li>Changing a transaction's category or exclusion during review teaches a rule for that merchant</li>
+              <li>Learned rules are applied automatically the next time you analyze statements</li>
+              <li>Edit or delete rules here if a correction was a one-off</li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const visibleOverrides = overrides.filter(o =>
+    !filter ||
+    o.merchant.includes(filter.toLowerCase()) ||
+    o.example.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  return (
+    <div className="file-upload-container">
+      <div className="form-header">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+          <div>
+            <h2>🧠 Learned Categories</h2>
+            <p style={{ marginBottom: 0 }}>Logged in as: <strong>{email}</strong></p>
+          </div>
+          <button
+            onClick={handleLogout}
+            style={{
+              padding: '0.5rem 1rem',
+              background: '#f1f5f9',
+              border: '1px solid #cbd5e1',
+              borderRadius: '6px',
+              color: '#475569',
+              fontSize: '0.875rem',
+              fontWeight: '600',
+              cursor: 'pointer',
+            }}
+          >
+            Logout
+          </button>
+        </div>
+        <p>{overrides.length} learned rule{overrides.length !== 1 ? 's' : ''}</p>
+      </div>
+
+      {overrides.length === 0 ? (
+        <div
+          style={{
+            textAlign: 'center',
+            padding: '4rem 2rem',
+            background: '#f8fafc',
+            borderRadius: '12px',
+            border: '2px dashed #cbd5e1',
+          }}
+        >
+          <h3 style={{ color: '#64748b', marginBottom: '0.5rem' }}>No Learned Rules Yet</h3>
+          <p style={{ color: '#94a3b8' }}>
+            Recategorize or exclude a transaction during cash flow review and it will show up here.
+          </p>
+        </div>
+      ) : (
+        <>
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Search merchants..."
+            style={{
+              width: '100%',
+              padding: '0.5rem 0.75rem',
+              border: '1px solid #cbd5e1',
+              borderRadius: '6px',
+              fontSize: '0.875rem',
+              marginBottom: '1rem',
+            }}
+          />
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            {visibleOverrides.map((override) => (
+              <div
+                key={override.merchant}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '1rem',
+                  background: 'white',
+                  border: '2px solid #e2e8f0',
+                  borderRadius: '12px',
+                  padding: '1rem 1.25rem',
+                }}
+              >
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: '600', color: '#1e293b', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {override.example}
+                  </div>
+                  <div style={{ fontSize: '0.75rem', color: '#64748b' }}>
+                    Matches "{override.merchant}" · Updated {formatDate(override.updatedAt)}
+                  </div>
+                </div>
+
+                <select
+                  value={override.category || ''}
+                  onChange={(e) => handleUpdate(override, { category: e.target.value as Transaction['category'] })}
+                  style={{
+                    padding: '0.35rem 0.5rem',
+                    border: '1px solid #cbd5e1',
+                    borderRadius: '6px',
+                    fontSize: '0.875rem',
+                    background: 'white',
+                  }}
+                >
+                  {!override.category && <option value="">Keep automatic</option>}
+                  {CATEGORY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.875rem', color: '#475569' }}>
+                  <input
+                    type="checkbox"
+                    checked={override.excluded || false}
+                    onChange={(e) => handleUpdate(override, { excluded: e.target.checked })}
+                  />
+                  Exclude
+                </label>
+
+                <button
+                  onClick={() => handleDelete(override)}
+                  style={{
+                    padding: '0.5rem',
+                    background: '#fef2f2',
+                    border: '1px solid #fecaca',
+                    borderRadius: '6px',
+                    color: '#dc2626',
+                    cursor: 'pointer',
+                  }}
+                  title="Forget this rule"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    style={{ width: '18px', height: '18px' }}
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -216,7 +216,7 @@ export default function MyProposals() {
               <li>View a list of all your proposals</li>
               <li>Copy shareable links to send to clients</li>
               <li>Delete old or unwanted proposals</li>
-              <li>Proposals automatically expire after 90 days</li>
+              <li>Proposals automatically expire 30 days after they're saved (each one shows its expiry date)</li>
             </ul>
           </div>
         </div>
@@ -19,7 +19,7 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import type { SimulationResult, MortgageDetails, CashFlowAnalysis } from '../types';
 import PitchOptionsModal, { PitchOptions } from './PitchOptionsModal';
-import { savePitchSettings, loadPitchSettings, getDefaultPitchOptions } from '../utils/userSettings';
+import { savePitchSettings, loadPitchSettings, getDefaultPitchOptions, saveLoanOfficerEmail } from '../utils/userSettings';
 import { CMG_BRANDING } from '../constants/cmgBranding';
 import html2pdf from 'html2pdf.js';
 import PageNavigation from './PageNavigation';
@@ -173,6 +173,7 @@ export default function ProposalBuilder({
 
   // Shareable link state
   const [shareableUrl, setShareableUrl] = useState<string | null>(null);
+  const [shareExpiresAt, setShareExpiresAt] = useState<string | null>(null);
   const [_isSavingProposal, setIsSavingProposal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
 
@@ -299,6 +300,7 @@ export default function ProposalBuilder({
 
     // Try to load signature if email looks valid
     if (email.includes('@') && email.includes('.')) {
+      saveLoanOfficerEmail(email);
       const found = loadSignatureFromStorage(email);
       if (found) {
         console.log('✅ Signature found and loaded for', email);
@@ -898,6 +900,7 @@ export default function ProposalBuilder({
 
       // Set the shareable URL and show modal
       setShareableUrl(data.shareableUrl);
+      setShareExpiresAt(data.expiresAt || null);
       setShowShareModal(true);
 
       console.log('✅ Proposal saved:', data.proposalId);
@@ -2801,7 +2804,10 @@ export default function ProposalBuilder({
                   <div>
                     <div style={{ fontWeight: 600, color: '#16a34a', marginBottom: '0.25rem' }}>Proposal Saved Successfully</div>
                     <div style={{ fontSize: '0.9rem', color: '#15803d', lineHeight: 1.5 }}>
-                      Your client can view this proposal anytime using the link above. It will be available for 90 days.
+                      Your client can view this proposal anytime using the link above
+                      {shareExpiresAt
+                        ? ` until ${new Date(shareExpiresAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}, when it expires.`
+                        : '.'}
                     </div>
                   </div>
                 </div>
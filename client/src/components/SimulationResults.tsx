@@ -1,6 +1,9 @@
-import { useState } from 'react';
-import type { SimulationResult, MortgageDetails, CashFlowAnalysis } from '../types';
+import { useEffect, useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { SimulationResult, MortgageDetails, CashFlowAnalysis, StressTestResult, LifeEvent, TraditionalStrategyComparison } from '../types';
+import { runStressTest, simulateLoan } from '../api';
 import PageNavigation from './PageNavigation';
+import LifeEventEditor from './LifeEventEditor';
 import './SimulationResults.css';
 import CashFlowSummaryCards from './CashFlowSummaryCards';
 
@@ -14,7 +17,7 @@ interface SimulationResultsProps {
   onBackToCFA?: () => void;
 }
 
-type TabView = 'results' | 'paydown' | 'charts' | 'math';
+type TabView = 'results' | 'paydown' | 'charts' | 'events' | 'math';
 type PaydownView = 'monthly' | 'yearly';
 
 export default function SimulationResults({
@@ -30,6 +33,48 @@ export default function SimulationResults({
   const [paydownView, setPaydownView] = useState<PaydownView>('monthly');
   const [warningDismissed, setWarningDismissed] = useState(false);
   const [mathSubTab, setMathSubTab] = useState<'aio' | 'traditional' | 'samples'>('aio');
+  const [stressTest, setStressTest] = useState<StressTestResult | null>(null);
+  const [stressTestError, setStressTestError] = useState<string | null>(null);
+  const [lifeEvents, setLifeEvents] = useState<LifeEvent[]>([]);
+  const [alternatives, setAlternatives] = useState<TraditionalStrategyComparison | undefined>(simulation.alternatives);
+  const [investmentReturn, setInvestmentReturn] = useState(String(simulation.alternatives?.investmentReturn ?? 6));
+  const [alternativesLoading, setAlternativesLoading] = useState(false);
+  const [alternativesError, setAlternativesError] = useState<string | null>(null);
+
+  // Run the stress test the first time the charts tab opens
+  useEffect(() => {
+    if (activeTab !== 'charts' || !cashFlow || stressTest || stressTestError) return;
+
+    let cancelled = false;
+    runStressTest(mortgageDetails, cashFlow)
+      .then(result => {
+        if (!cancelled) setStressTest(result);
+      })
+      .catch((error: any) => {
+        if (!cancelled) setStressTestError(error.response?.data?.message || error.message || 'Failed to run stress test');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, cashFlow, mortgageDetails, stressTest, stressTestError]);
+
+  // Re-run the fair comparison with a different return on invested cash
+  const handleInvestmentReturnApply = async () => {
+    const value = parseFloat(investmentReturn);
+    if (!cashFlow || !isFinite(value)) return;
+
+    setAlternativesLoading(true);
+    setAlternativesError(null);
+    try {
+      const result = await simulateLoan(mortgageDetails, cashFlow, { investmentReturn: value });
+      setAlternatives(result.alternatives);
+    } catch (error: any) {
+      setAlternativesError(error.response?.data?.message || error.message || 'Failed to compare strategies');
+    } finally {
+      setAlternativesLoading(false);
+    }
+  };
 
   // Calculate actual months from transaction data
   const calculateActualMonths = (transactions: any[]): number => {
@@ -253,6 +298,24 @@ export default function SimulationResults({
         >
           📉 Charts
         </button>
+        {cashFlow && (
+          <button
+            onClick={() => setActiveTab('events')}
+            style={{
+              padding: '0.75rem 1.5rem',
+              border: 'none',
+              borderBottom: activeTab === 'events' ? '3px solid #3b82f6' : '3px solid transparent',
+              background: activeTab === 'events' ? '#eff6ff' : 'transparent',
+              color: activeTab === 'events' ? '#1e40af' : '#64748b',
+              fontWeight: '600',
+              cursor: 'pointer',
+              transition: 'all 0.2s',
+              fontSize: '1rem'
+            }}
+          >
+            🗓️ Life Events
+          </button>
+        )}
         <button
           onClick={() => setActiveTab('math')}
           style={{
@@ -455,6 +518,84 @@ export default function SimulationResults({
         </div>
       </div>
 
+      {/* Fair Comparison: AIO against the best traditional use of the same leftover */}
+      {alternatives && (
+        <div style={{ marginTop: '2rem', padding: '2rem', background: 'white', borderRadius: '12px', border: '2px solid #e2e8f0', opacity: alternativesLoading ? 0.6 : 1 }}>
+          <h3 style={{ marginBottom: '0.5rem', color: '#334155' }}>Fair Comparison</h3>
+          <p style={{ color: '#64748b', marginTop: 0, marginBottom: '1.5rem' }}>
+            What the same {formatCurrency(alternatives.monthlyLeftover)}/mo leftover does on the traditional loan instead, measured over {yearsMonthsFromMonths(alternatives.horizonMonths)}.
+            Once a loan is paid off, its payment and leftover are invested until then.
+          </p>
+
+          {cashFlow && (
+            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+              <label htmlFor="investment-return" style={{ fontSize: '0.875rem', color: '#475569' }}>Investment return (%/yr)</label>
+              <input
+                id="investment-return"
+                type="number"
+                step="0.5"
+                value={investmentReturn}
+                onChange={(e) => setInvestmentReturn(e.target.value)}
+                style={{ padding: '0.5rem 0.75rem', border: '1px solid #cbd5e1', borderRadius: '6px', fontSize: '0.875rem', width: '100px' }}
+              />
+              <button className="btn-secondary" onClick={handleInvestmentReturnApply} disabled={alternativesLoading}>
+                {alternativesLoading ? 'Updating...' : 'Update'}
+              </button>
+              {alternativesError && <span style={{ color: '#b91c1c', fontSize: '0.875rem' }}>{alternativesError}</span>}
+            </div>
+          )}
+
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+              <thead>
+                <tr style={{ background: '#f8fafc', color: '#475569', textAlign: 'right' }}>
+                  <th style={{ padding: '0.75rem', textAlign: 'left' }}>Strategy</th>
+                  <th style={{ padding: '0.75rem' }}>Extra Cash/mo</th>
+                  <th style={{ padding: '0.75rem' }}>Payoff</th>
+                  <th style={{ padding: '0.75rem' }}>Interest Paid</th>
+                  <th style={{ padding: '0.75rem' }}>Investment Growth</th>
+                  <th style={{ padding: '0.75rem' }}>Net Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {alternatives.strategies.map(strategy => {
+                  const isBest = strategy.strategy === alternatives.bestStrategy;
+                  return (
+                    <tr key={strategy.strategy} style={{ borderTop: '1px solid #e2e8f0', textAlign: 'right', background: isBest ? '#fffbeb' : 'transparent' }}>
+                      <td style={{ padding: '0.75rem', textAlign: 'left', fontWeight: isBest ? '700' : '500', color: '#1e293b' }}>
+                        {strategy.label}{isBest && ' (best alternative)'}
+                      </td>
+                      <td style={{ padding: '0.75rem' }}>{formatCurrency(strategy.extraCashPerMonth)}</td>
+                      <td style={{ padding: '0.75rem' }}>{yearsMonthsFromMonths(strategy.payoffMonths)}</td>
+                      <td style={{ padding: '0.75rem' }}>{formatCurrency(strategy.totalInterestPaid)}</td>
+                      <td style={{ padding: '0.75rem' }}>{formatCurrency(strategy.investmentGrowth)}</td>
+                      <td style={{ padding: '0.75rem', fontWeight: '600' }}>{formatCurrency(strategy.netCost)}</td>
+                    </tr>
+                  );
+                })}
+                <tr style={{ borderTop: '2px solid #cbd5e1', textAlign: 'right', background: '#eff6ff' }}>
+                  <td style={{ padding: '0.75rem', textAlign: 'left', fontWeight: '700', color: '#1e40af' }}>All-In-One</td>
+                  <td style={{ padding: '0.75rem' }}>{formatCurrency(alternatives.monthlyLeftover)}</td>
+                  <td style={{ padding: '0.75rem' }}>{yearsMonthsFromMonths(alternatives.allInOne.payoffMonths)}</td>
+                  <td style={{ padding: '0.75rem' }}>{formatCurrency(alternatives.allInOne.totalInterestPaid)}</td>
+                  <td style={{ padding: '0.75rem' }}>{formatCurrency(alternatives.allInOne.investmentGrowth)}</td>
+                  <td style={{ padding: '0.75rem', fontWeight: '600' }}>{formatCurrency(alternatives.allInOne.netCost)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <p style={{ marginTop: '1.5rem', marginBottom: 0, fontWeight: '600', color: alternatives.aioSavingsVsBest >= 0 ? '#16a34a' : '#dc2626' }}>
+            {alternatives.aioSavingsVsBest >= 0
+              ? `The All-In-One comes out ${formatCurrency(alternatives.aioSavingsVsBest)} ahead of the best alternative.`
+              : `${alternatives.strategies.find(strategy => strategy.strategy === alternatives.bestStrategy)?.label} comes out ${formatCurrency(-alternatives.aioSavingsVsBest)} ahead of the All-In-One.`}
+          </p>
+          <p style={{ fontSize: '0.75rem', color: '#94a3b8', marginTop: '0.5rem', marginBottom: 0 }}>
+            Net cost is interest paid minus investment growth at {alternatives.investmentReturn}%/yr, before taxes. Lower is better.
+          </p>
+        </div>
+      )}
+
       {/* Secondary Action Buttons */}
       <div className="results-actions">
         {onGenerateReport && (
@@ -1250,9 +1391,104 @@ export default function SimulationResults({
               </div>
             </div>
           </div>
+
+          {/* Monte Carlo Stress Test Fan Chart */}
+          {cashFlow && (
+            <div className="chart-section" style={{ marginTop: '3rem', padding: '2rem', background: 'white', borderRadius: '12px', border: '2px solid #e2e8f0' }}>
+              <h3 style={{ marginBottom: '1.5rem', color: '#334155' }}>Cash-Flow Stress Test</h3>
+              {stressTestError ? (
+                <p style={{ color: '#b91c1c', margin: 0 }}>{stressTestError}</p>
+              ) : !stressTest ? (
+                <p style={{ color: '#718096', margin: 0 }}>Running randomized cash-flow paths...</p>
+              ) : (
+                <>
+                  <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginBottom: '1.5rem' }}>
+                    {[
+                      {
+                        label: 'AIO Beats Traditional',
+                        value: `${Math.round(stressTest.probabilityAioBeatsTraditional * 100)}% of paths`,
+                      },
+                      {
+                        label: 'Over Credit Limit',
+                        value: `${Math.round(stressTest.overCreditLimitProbability * 100)}% of paths`,
+                      },
+                      {
+                        label: 'Payoff (P10 / P50 / P90)',
+                        value: [stressTest.payoffMonths.p10, stressTest.payoffMonths.p50, stressTest.payoffMonths.p90]
+                          .map(months => (months === null ? 'Not paid off' : yearsMonthsFromMonths(months)))
+                          .join(' / '),
+                      },
+                      {
+                        label: 'Interest Saved (P10 / P50 / P90)',
+                        value: [stressTest.interestSavings.p10, stressTest.interestSavings.p50, stressTest.interestSavings.p90]
+                          .map(savings => (savings === null ? 'N/A' : formatCurrency(savings)))
+                          .join(' / '),
+                      },
+                    ].map(stat => (
+                      <div key={stat.label} style={{ flex: '1 1 200px', padding: '1rem', background: '#f8fafc', borderRadius: '8px' }}>
+                        <div style={{ fontSize: '0.85rem', color: '#718096', marginBottom: '0.25rem' }}>{stat.label}</div>
+                        <div style={{ fontWeight: '700', color: '#2d3748' }}>{stat.value}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div style={{ padding: '1rem', background: '#f8fafc', borderRadius: '8px' }}>
+                    <ResponsiveContainer width="100%" height={360}>
+                      <ComposedChart
+                        data={stressTest.balanceFan.map(point => ({ ...point, band: [point.p10, point.p90] }))}
+                        margin={{ top: 20, right: 30, left: 10, bottom: 20 }}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                        <XAxis
+                          dataKey="month"
+                          type="number"
+                          domain={[0, 'dataMax']}
+                          stroke="#718096"
+                          style={{ fontSize: '0.75rem' }}
+                          tickFormatter={(month) => `${month}mo`}
+                        />
+                        <YAxis
+                          stroke="#718096"
+                          style={{ fontSize: '0.75rem' }}
+                          tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                        />
+                        <Tooltip
+                          labelFormatter={(month) => `Month ${month}`}
+                          formatter={(value) => (Array.isArray(value)
+                            ? `${formatCurrency(Number(value[0]))} - ${formatCurrency(Number(value[1]))}`
+                            : formatCurrency(Number(value)))}
+                        />
+                        <Legend />
+                        <Area dataKey="band" name="P10 - P90 balance" stroke="none" fill="#9bc53d" fillOpacity={0.25} />
+                        <Line dataKey="p50" name="Median (P50) balance" stroke="#7da62e" strokeWidth={3} dot={false} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <p style={{ fontSize: '0.85rem', color: '#718096', marginTop: '1rem', marginBottom: 0 }}>
+                    {stressTest.paths} paths from {stressTest.assumptions.monthsObserved} months of statements: income ±{(stressTest.assumptions.incomeVolatility * 100).toFixed(0)}%,
+                    expenses ±{(stressTest.assumptions.expenseVolatility * 100).toFixed(0)}% with a {formatCurrency(stressTest.assumptions.expenseSpikeAmount)} spike
+                    about {Math.round(stressTest.assumptions.expenseSpikeProbability * 12 * 10) / 10}× a year,
+                    {' '}{(stressTest.assumptions.missedPaycheckProbability * 100).toFixed(0)}% of paychecks missed and the rate moving
+                    ±{(stressTest.assumptions.rateVolatility * 100).toFixed(2)}% a year.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
         </div>
       )}
 
+      {/* Life Events Tab */}
+      {activeTab === 'events' && cashFlow && (
+        <LifeEventEditor
+          mortgageDetails={mortgageDetails}
+          cashFlow={cashFlow}
+          lifeEvents={lifeEvents}
+          onChange={setLifeEvents}
+        />
+      )}
+
       {/* Math Tab */}
       {activeTab === 'math' && (
         <div className="math-tab-content" style={{ padding: '2rem', background: 'white', borderRadius: '12px', border: '2px solid #e2e8f0' }}>
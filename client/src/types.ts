@@ -35,7 +35,18 @@ export interface Transaction {
   monthYear?: string; // Month/Year for grouping (e.g., "2024-08")
   sourceFile?: string; // Which file this transaction came from
   isDuplicate?: boolean; // Marked as duplicate of another transaction
+  ruleId?: string; // Categorization rule that matched (unset when categorized by AI)
   duplicateOf?: string; // Transaction ID (date+amount+description hash) this is a duplicate of
+  transferPairId?: string; // Shared by both sides of a matched inter-account transfer
+}
+
+// A loan officer's learned per-merchant categorization override
+export interface MerchantOverride {
+  merchant: string; // Normalized merchant key (see normalizeMerchantName in api.ts)
+  category?: Transaction['category'];
+  excluded?: boolean;
+  example: string; // Description the override was learned from
+  updatedAt: string;
 }
 
 export interface MonthlyBreakdown {
@@ -62,6 +73,174 @@ export interface CashFlowAnalysis {
   monthlyLeftover?: number;        // Net leftover (deposits - expenses)
   depositFrequency?: 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly' | 'semi-annual' | 'annual';
   cashFlowAdjustmentPercentage?: number; // LO adjustment slider (0-100), defaults to 100
+  detectedDepositFrequency?: RecurrenceCadence; // Cadence of the largest detected paycheck series
+  recurringSeries?: RecurringSeries[]; // Detected recurring income/expense series
+  paySchedules?: PaySchedule[]; // Detected paychecks - drive real deposit dates in the simulation
+  statements?: StatementSummary[]; // One per uploaded statement, with its balance reconciliation
+  statementWarnings?: StatementWarning[];
+  missingStatementMonths?: string[]; // YYYY-MM months with no statement inside the uploaded range
+  validationReports?: LlmValidationReport[]; // Model output checks, one per extracted file and categorization chunk
+  lifeEvents?: LifeEvent[]; // Dated future events applied on top of the monthly cash flow
+  transferSuggestions?: TransferSuggestion[]; // Possible transfers between uploaded files, left for the officer to confirm
+}
+
+// Future life events layered onto the AIO projection
+export type LifeEventType = 'lump-sum-deposit' | 'lump-sum-draw' | 'income-change' | 'expense-change';
+
+export interface LifeEvent {
+  id: string;
+  type: LifeEventType;
+  date: string; // YYYY-MM-DD
+  amount: number; // Lump sum, or the monthly change for income/expense changes (negative for a drop)
+  description?: string;
+}
+
+export interface LifeEventOutcome {
+  payoffDate: Date | null;
+  payoffMonths: number | null; // null when the AIO never pays off
+  totalInterestPaid: number;
+  maxOverCreditLimit: number; // Furthest the balance runs over the declining credit limit (0 = stays within it)
+}
+
+export interface LifeEventImpact {
+  event: LifeEvent;
+  outcome: LifeEventOutcome; // Baseline plus this event alone
+  payoffMonthsChange: number | null; // Negative = paid off sooner
+  interestChange: number;
+}
+
+export interface LifeEventImpactResult {
+  baseline: LifeEventOutcome;
+  withEvents: LifeEventOutcome;
+  events: LifeEventImpact[];
+}
+
+export type RecurrenceCadence = 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly';
+
+export interface RecurringSeries {
+  id: string;
+  merchant: string; // Normalized payee
+  description: string; // Most recent description as it appeared on the statement
+  direction: 'income' | 'expense';
+  category?: Transaction['category'];
+  cadence: RecurrenceCadence;
+  averageAmount: number; // Per occurrence (absolute)
+  monthlyAmount: number; // Averaged to a month
+  occurrences: string[]; // YYYY-MM-DD, ascending
+  nextDates: string[]; // Predicted upcoming dates
+  missedDates: string[]; // Expected dates with no matching transaction
+  irregularDates: string[]; // Occurrences that don't fit the cadence
+  regularity: number; // Share of expected dates that were hit (0-1)
+}
+
+export interface PaySchedule {
+  cadence: RecurrenceCadence;
+  anchorDate: string; // A known pay date (YYYY-MM-DD)
+  daysOfMonth?: number[]; // Semi-monthly/monthly pay days (31 = last day of the month)
+  amount: number; // Per paycheck
+  description?: string;
+}
+
+// Server-side statement extraction job (see analysis-job-service in core)
+export interface AnalysisJobFile {
+  index: number;
+  name: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  attempts: number;
+  error?: string;
+  transactionCount?: number;
+  statement?: StatementSummary;
+  startedAt?: string;
+  updatedAt: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  createdAt: string;
+  expiresAt: string;
+  files: AnalysisJobFile[];
+}
+
+export interface StatementSummary {
+  sourceFile: string;
+  account?: string; // Account name/number as printed on the statement
+  periodStart?: string; // YYYY-MM-DD
+  periodEnd?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  transactionCount: number;
+  transactionTotal: number; // Net of all extracted rows
+  reconciliation: 'balanced' | 'unbalanced' | 'unverified'; // 'unverified' when a balance is missing
+  difference?: number; // closing - (opening + transactionTotal)
+  validation?: LlmValidationReport; // Extraction output checks (PDFs and images only)
+  unparsedRows?: UnparsedStatementRow[]; // Rows of a CSV/XLSX/OFX/QIF export that couldn't be read
+}
+
+// Same-amount withdrawal and deposit in two uploaded files with nothing confirming a transfer
+export interface TransferSuggestion {
+  id: string;
+  withdrawal: Transaction;
+  deposit: Transaction;
+  daysApart: number;
+}
+
+export interface UnparsedStatementRow {
+  row: number; // Sheet row, QIF line or OFX transaction number (1-based)
+  text: string;
+  reason: string;
+}
+
+export interface LlmOutputIssue {
+  type: 'schema' | 'missing' | 'extra' | 'date-changed' | 'amount-changed' | 'invalid-category' | 'malformed' | 'missing-page' | 'count-mismatch';
+  index?: number; // Input transaction index (categorization) or output line number (extraction)
+  message: string;
+}
+
+// Checks of one model output (an extracted file or a categorization chunk) against the input
+export interface LlmValidationReport {
+  chunk: string; // File name or "categorize-chunk 2/4"
+  expected: number; // Input transactions, or rows the model said it extracted
+  returned: number; // Valid rows in the first response
+  issues: LlmOutputIssue[]; // Problems in the first response
+  repairRounds: number; // Re-asks made for the rows with problems
+  repaired: number; // Rows fixed by a re-ask
+  unresolved: number; // Rows (or pages) still invalid after the last re-ask
+  valid: boolean; // No unresolved problems remain
+}
+
+export interface StatementWarning {
+  type: 'unreconciled' | 'missing-month' | 'period-gap' | 'unparsed-rows';
+  account: string;
+  sourceFile?: string;
+  month?: string; // YYYY-MM (missing-month only)
+  message: string;
+}
+
+// Live analysis progress (streamed from /api/analysis-events/:id)
+export type AnalysisProgressEvent =
+  | { type: 'file-started'; file: string; attempt?: number }
+  | { type: 'page-extracted'; file: string; page: number; totalPages?: number; transactionCount: number }
+  | { type: 'file-completed'; file: string; transactionCount: number }
+  | { type: 'file-failed'; file: string; error: string }
+  | { type: 'chunk-categorized'; chunk: number; totalChunks: number; transactionCount: number }
+  | { type: 'chunks-merged'; chunkCount: number; transactionCount: number }
+  | { type: 'duplicates-found'; count: number; examples: string[] }
+  | { type: 'consistency-applied'; changes: number; merchants: string[] };
+
+export type AnalysisProgressEntry = AnalysisProgressEvent & {
+  id?: number; // Server sequence number (absent for steps that run in the browser)
+  at: string; // ISO timestamp
+};
+
+export interface EligibilityRuleResult {
+  id: string;
+  label: string;
+  status: 'pass' | 'fail' | 'warn' | 'skipped';
+  severity: 'fail' | 'warn';
+  threshold: number | string[] | null;
+  actual: number | string | boolean | null;
+  message: string;
 }
 
 export interface EligibilityResult {
@@ -71,6 +250,9 @@ export interface EligibilityResult {
   cashFlowSufficient: boolean;
   cashFlowPassed: boolean;
   reasons: string[];
+  rules: EligibilityRuleResult[];
+  warnings: string[];
+  investor?: string;
 }
 
 export interface LoanProjection {
@@ -92,6 +274,76 @@ export interface SimulationResult {
     timeSavedMonths: number;
     percentageSavings: number;
   };
+  alternatives?: TraditionalStrategyComparison; // AIO against the best other use of the same leftover
+  startDate?: string; // YYYY-MM-DD the projection starts; pass to /export-ledger for the same run
+}
+
+// Fair comparison: what the borrower could do with the leftover on a traditional loan instead
+export type TraditionalStrategyType = 'scheduled' | 'extra-principal' | 'biweekly' | 'annual-lump-sum' | 'invest-leftover';
+
+export interface TraditionalStrategyOptions {
+  extraMonthlyPrincipal?: number; // Default: the monthly leftover
+  annualLumpSum?: number; // Default: twelve months of leftover
+  investmentReturn?: number; // Annual percent earned by invest-leftover (default 6)
+}
+
+export interface TraditionalStrategyProjection {
+  strategy: TraditionalStrategyType;
+  label: string;
+  extraCashPerMonth: number; // Average cash beyond the scheduled payment
+  payoffMonths: number;
+  payoffDate: Date;
+  totalInterestPaid: number;
+  investmentGrowth: number; // Earnings by the horizon on the budget not going to the loan
+  netCost: number; // Interest paid - investment growth
+}
+
+export interface TraditionalStrategyComparison {
+  monthlyLeftover: number;
+  investmentReturn: number; // Percent
+  horizonMonths: number; // Scheduled payoff; every option is measured to this month
+  strategies: TraditionalStrategyProjection[];
+  bestStrategy: TraditionalStrategyType; // Lowest net cost
+  allInOne: {
+    payoffMonths: number;
+    totalInterestPaid: number;
+    investmentGrowth: number; // Payment plus leftover invested from AIO payoff to the horizon
+    netCost: number;
+  };
+  aioSavingsVsBest: number; // Best net cost - AIO net cost (negative when the alternative wins)
+}
+
+// Monte Carlo cash-flow stress test of the AIO projection
+export interface Percentiles {
+  p10: number | null; // null when the percentile falls on paths that never paid off
+  p50: number | null;
+  p90: number | null;
+}
+
+export interface StressTestAssumptions {
+  monthsObserved: number;
+  incomeVolatility: number; // Std dev of monthly income as a fraction of the mean
+  expenseVolatility: number;
+  expenseSpikeProbability: number; // Chance of a spike in any month
+  expenseSpikeAmount: number;
+  missedPaycheckProbability: number; // Chance any single deposit doesn't arrive
+  rateVolatility: number; // Std dev of the yearly index move (decimal)
+}
+
+export interface StressTestResult {
+  paths: number;
+  seed: number;
+  assumptions: StressTestAssumptions;
+  traditional: {
+    totalInterestPaid: number;
+    payoffMonths: number;
+  };
+  payoffMonths: Percentiles;
+  interestSavings: Percentiles; // Traditional interest - AIO interest
+  paidOffProbability: number;
+  overCreditLimitProbability: number;
+  probabilityAioBeatsTraditional: number;
+  balanceFan: Array<{ month: number; p10: number; p50: number; p90: number }>; // End-of-month balance percentiles
 }
 
 // API response types
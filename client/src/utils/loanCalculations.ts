@@ -8,7 +8,7 @@
  * TODO: Validate against C# source code from production simulator.
  * Contact Paul Akinmade or CMG Dev Team for validation.
  *
- * See api/src/services/loan-calculator.ts for full requirements.
+ * See core/src/services/loan-calculator.ts for full requirements.
  * ====================================================
  */
 
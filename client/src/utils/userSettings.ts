@@ -72,3 +72,77 @@ export function getDefaultPitchOptions(): PitchOptions {
     cta: 'moderate',
   };
 }
+
+const LOAN_OFFICER_EMAIL_KEY = 'loan_officer_email';
+
+/**
+ * Remember the loan officer's email so categorization corrections can be
+ * saved to (and learned overrides loaded from) their merchant memory
+ */
+export function saveLoanOfficerEmail(email: string): void {
+  if (!email || !email.includes('@')) {
+    return;
+  }
+
+  try {
+    localStorage.setItem(LOAN_OFFICER_EMAIL_KEY, email.toLowerCase().trim());
+  } catch (error) {
+    console.error('Failed to save loan officer email:', error);
+  }
+}
+
+/**
+ * Get the remembered loan officer email (null if none yet)
+ */
+export function loadLoanOfficerEmail(): string | null {
+  try {
+    return localStorage.getItem(LOAN_OFFICER_EMAIL_KEY);
+  } catch (error) {
+    console.error('Failed to load loan officer email:', error);
+    return null;
+  }
+}
+
+const ACTIVE_ANALYSIS_JOB_KEY = 'active_analysis_job';
+
+export interface ActiveAnalysisJob {
+  jobId: string;
+  fileCount: number;
+  currentHousingPayment: number;
+  startedAt: string;
+}
+
+/**
+ * Remember the statement analysis job in progress so it can be resumed after a page reload
+ */
+export function saveActiveAnalysisJob(job: ActiveAnalysisJob): void {
+  try {
+    localStorage.setItem(ACTIVE_ANALYSIS_JOB_KEY, JSON.stringify(job));
+  } catch (error) {
+    console.error('Failed to save active analysis job:', error);
+  }
+}
+
+/**
+ * Get the analysis job left in progress (null if none)
+ */
+export function loadActiveAnalysisJob(): ActiveAnalysisJob | null {
+  try {
+    const stored = localStorage.getItem(ACTIVE_ANALYSIS_JOB_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load active analysis job:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget the active analysis job (finished, failed or cancelled)
+ */
+export function clearActiveAnalysisJob(): void {
+  try {
+    localStorage.removeItem(ACTIVE_ANALYSIS_JOB_KEY);
+  } catch (error) {
+    console.error('Failed to clear active analysis job:', error);
+  }
+}
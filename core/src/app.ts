@@ -0,0 +1,44 @@
+import express from 'express';
+import cors from 'cors';
+import apiRouter from './routes/api.js';
+
+/**
+ * Create the Express app shared by the local dev server (server/) and the
+ * Vercel serverless handler (api/). Call after environment variables are loaded.
+ */
+export function createApp(): express.Express {
+  const app = express();
+  const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+  // Middleware
+  app.use(cors({
+    origin: CLIENT_URL,
+    credentials: true,
+  }));
+  // Increase body size limit to handle large transaction datasets (up to 1MB)
+  app.use(express.json({ limit: '1mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '1mb' }));
+
+  // Routes
+  app.use('/api', apiRouter);
+
+  // Health check
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      message: 'All-In-One Look Back Simulator API is running',
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Error handling middleware
+  app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    console.error('Error:', err);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: err.message || 'Something went wrong',
+    });
+  });
+
+  return app;
+}
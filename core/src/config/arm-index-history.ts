@@ -0,0 +1,57 @@
+/**
+ * Historical ARM Index Values
+ *
+ * Annual averages of the 1-Year Constant Maturity Treasury (FRED series GS1),
+ * as decimals, used by the 'historical' ARM index scenario to replay past
+ * rate environments. Values are rounded to two decimal places of a percent.
+ */
+
+export const ARM_INDEX_HISTORY: Record<number, number> = {
+  1990: 0.0768,
+  1991: 0.0586,
+  1992: 0.0389,
+  1993: 0.0343,
+  1994: 0.0532,
+  1995: 0.0594,
+  1996: 0.0552,
+  1997: 0.0563,
+  1998: 0.0505,
+  1999: 0.0508,
+  2000: 0.0611,
+  2001: 0.0349,
+  2002: 0.0200,
+  2003: 0.0124,
+  2004: 0.0189,
+  2005: 0.0362,
+  2006: 0.0494,
+  2007: 0.0453,
+  2008: 0.0183,
+  2009: 0.0047,
+  2010: 0.0032,
+  2011: 0.0018,
+  2012: 0.0017,
+  2013: 0.0013,
+  2014: 0.0012,
+  2015: 0.0032,
+  2016: 0.0061,
+  2017: 0.0120,
+  2018: 0.0233,
+  2019: 0.0205,
+  2020: 0.0037,
+  2021: 0.0010,
+  2022: 0.0280,
+  2023: 0.0507,
+  2024: 0.0460,
+};
+
+/**
+ * Yearly index values starting at the given year, one per year through the
+ * end of the table
+ */
+export function getHistoricalIndexPath(startYear: number): number[] {
+  return Object.keys(ARM_INDEX_HISTORY)
+    .map(Number)
+    .filter(year => year >= startYear)
+    .sort((a, b) => a - b)
+    .map(year => ARM_INDEX_HISTORY[year]);
+}
@@ -0,0 +1,119 @@
+/**
+ * Bank CSV Export Profiles
+ *
+ * Column mappings for the CSV downloads of the banks our borrowers use most.
+ * A profile matches when every header in `requiredHeaders` is present
+ * (case-insensitive); headerless exports match on `headerless.columnCount`
+ * plus a check of the first row instead. Profiles are tried in order, so more
+ * specific layouts must come before generic ones.
+ *
+ * Amounts are normalized so deposits are positive and debits are negative:
+ * - `amount` columns are used as-is, multiplied by `amountSign` (credit card
+ *   exports that list charges as positive use -1)
+ * - `debit`/`credit` column pairs are read as unsigned values
+ *
+ * A `balance` (running balance) column, when the export has one, gives the
+ * statement's opening and closing balances for reconciliation.
+ */
+
+export interface BankCsvProfile {
+  id: string;
+  name: string;
+  requiredHeaders?: string[];
+  headerless?: {
+    columnCount: number;
+    matches: (row: string[]) => boolean;
+  };
+  columns: {
+    date: string | number;
+    description: string | number;
+    amount?: string | number;
+    debit?: string | number;
+    credit?: string | number;
+    type?: string | number;
+    balance?: string | number;
+  };
+  amountSign?: 1 | -1;
+}
+
+export const BANK_CSV_PROFILES: BankCsvProfile[] = [
+  {
+    id: 'chase-checking',
+    name: 'Chase (checking/savings)',
+    requiredHeaders: ['Details', 'Posting Date', 'Description', 'Amount'],
+    columns: { date: 'Posting Date', description: 'Description', amount: 'Amount', type: 'Type', balance: 'Balance' },
+  },
+  {
+    id: 'chase-credit',
+    name: 'Chase (credit card)',
+    requiredHeaders: ['Transaction Date', 'Post Date', 'Description', 'Category', 'Type', 'Amount'],
+    columns: { date: 'Transaction Date', description: 'Description', amount: 'Amount', type: 'Type' },
+  },
+  {
+    id: 'bofa-credit',
+    name: 'Bank of America (credit card)',
+    requiredHeaders: ['Posted Date', 'Reference Number', 'Payee', 'Amount'],
+    columns: { date: 'Posted Date', description: 'Payee', amount: 'Amount' },
+  },
+  {
+    id: 'bofa-checking',
+    name: 'Bank of America (checking/savings)',
+    requiredHeaders: ['Date', 'Description', 'Amount', 'Running Bal.'],
+    columns: { date: 'Date', description: 'Description', amount: 'Amount', balance: 'Running Bal.' },
+  },
+  {
+    id: 'capital-one',
+    name: 'Capital One',
+    requiredHeaders: ['Transaction Date', 'Posted Date', 'Card No.', 'Description', 'Debit', 'Credit'],
+    columns: { date: 'Transaction Date', description: 'Description', debit: 'Debit', credit: 'Credit', type: 'Category' },
+  },
+  {
+    id: 'citi',
+    name: 'Citi',
+    requiredHeaders: ['Status', 'Date', 'Description', 'Debit', 'Credit'],
+    columns: { date: 'Date', description: 'Description', debit: 'Debit', credit: 'Credit' },
+  },
+  {
+    id: 'us-bank',
+    name: 'U.S. Bank',
+    requiredHeaders: ['Date', 'Transaction', 'Name', 'Memo', 'Amount'],
+    columns: { date: 'Date', description: 'Name', amount: 'Amount', type: 'Transaction' },
+  },
+  {
+    id: 'discover',
+    name: 'Discover (credit card)',
+    requiredHeaders: ['Trans. Date', 'Post Date', 'Description', 'Amount', 'Category'],
+    columns: { date: 'Trans. Date', description: 'Description', amount: 'Amount', type: 'Category' },
+    amountSign: -1,
+  },
+  {
+    id: 'amex',
+    name: 'American Express',
+    requiredHeaders: ['Date', 'Description', 'Amount', 'Appears On Your Statement As'],
+    columns: { date: 'Date', description: 'Description', amount: 'Amount', type: 'Category' },
+    amountSign: -1,
+  },
+  {
+    id: 'wells-fargo',
+    name: 'Wells Fargo',
+    // Wells Fargo exports have no header row: date, amount, "*", check number, description
+    headerless: {
+      columnCount: 5,
+      matches: row => /^\d{1,2}\/\d{1,2}\/\d{4}$/.test(row[0]) && row[2] === '*',
+    },
+    columns: { date: 0, description: 4, amount: 1 },
+  },
+];
+
+/**
+ * Fallback header names for exports that don't match a known profile
+ */
+export const GENERIC_CSV_HEADERS = {
+  date: ['Posting Date', 'Date', 'Transaction Date', 'Posted Date', 'Trans. Date'],
+  description: ['Description', 'Merchant', 'Payee', 'Name', 'Memo'],
+  amount: ['Amount', 'Transaction Amount'],
+  debit: ['Debit', 'Withdrawals', 'Withdrawal', 'Debit Amount'],
+  credit: ['Credit', 'Deposits', 'Deposit', 'Credit Amount'],
+  type: ['Type', 'Transaction Type', 'Category'],
+  balance: ['Balance', 'Running Balance', 'Running Bal.'],
+};
@@ -0,0 +1,104 @@
+import type { Transaction } from '../types.js';
+
+/**
+ * Transaction Categorization Rules
+ *
+ * Deterministic first-pass rules applied before the model. A rule matches when
+ * the description matches one of its patterns and every optional condition
+ * holds:
+ * - `direction`: 'in' for deposits (positive amounts), 'out' for debits
+ * - `minAmount` / `maxAmount`: bounds on the absolute amount
+ * - `recurring`: the same merchant appears in at least two different months
+ *
+ * Rules are evaluated in order and the first match wins, so put the narrower
+ * rules (own-account transfers, mortgage servicers) ahead of broad ones.
+ * Anything left unmatched is sent to the model.
+ */
+
+export interface CategorizationRule {
+  id: string;
+  category: Transaction['category'];
+  patterns: RegExp[];
+  direction?: 'in' | 'out';
+  minAmount?: number;
+  maxAmount?: number;
+  recurring?: boolean;
+  excluded?: boolean;   // Leave out of cash flow totals (e.g. moving money between own accounts)
+}
+
+// Debits within this fraction of the current housing payment are treated as housing
+export const HOUSING_PAYMENT_TOLERANCE = 0.05;
+
+export const CATEGORIZATION_RULES: CategorizationRule[] = [
+  {
+    id: 'own-account-transfer',
+    category: 'one-time',
+    patterns: [
+      /online (banking )?transfer (to|from)/i,
+      /transfer (to|from) (chk|checking|sav|savings|share|mma|money market)/i,
+      /internal transfer/i,
+      /\bxfer (to|from)\b/i,
+    ],
+    excluded: true,
+  },
+  {
+    id: 'mortgage-servicer',
+    category: 'housing',
+    patterns: [
+      /rocket mortgage|quicken loans|mr\.? ?cooper|pennymac|freedom mortgage|newrez|loancare|lakeview loan|cenlar|shellpoint|nationstar|carrington mortgage|roundpoint/i,
+      /\b(home )?(mtg|mortgage) (pmt|pymt|payment)\b/i,
+      /wells fargo home mtg|chase mortgage|us bank home mtg|bank of america mortgage/i,
+    ],
+    direction: 'out',
+  },
+  {
+    id: 'payroll-ach',
+    category: 'income',
+    patterns: [
+      /payroll|direct dep|dir dep|salary|\bpayrl\b/i,
+      /\b(adp|paychex|gusto|trinet|intuit payroll|workday)\b/i,
+      /ppd id:.*(pay|payroll)/i,
+    ],
+    direction: 'in',
+  },
+  {
+    id: 'zelle-in',
+    category: 'income',
+    patterns: [/zelle.*\bfrom\b/i, /zelle (payment|transfer) from/i, /zelle credit/i],
+    direction: 'in',
+  },
+  {
+    id: 'zelle-out',
+    category: 'expense',
+    patterns: [/zelle.*\bto\b/i, /zelle (payment|transfer) to/i, /zelle debit/i],
+    direction: 'out',
+  },
+  {
+    id: 'utilities',
+    category: 'expense',
+    patterns: [
+      /electric|energy|power (co|company)|water (dept|utility|district)|\bgas (co|company|service)\b|utilit(y|ies)|sewer|trash|waste management/i,
+      /comcast|xfinity|spectrum|cox comm|verizon|at&t|\batt\b|t-mobile|sprint|frontier comm|centurylink/i,
+      /pg&e|duke energy|con ?ed|dominion energy|georgia power|fpl|xcel energy|dte energy|reliant|txu/i,
+    ],
+    direction: 'out',
+    maxAmount: 1000,
+  },
+  {
+    id: 'subscriptions',
+    category: 'expense',
+    patterns: [
+      /netflix|spotify|hulu|disney ?\+|disney plus|hbo ?max|\bmax\.com\b|paramount\+|peacock|youtube premium|apple\.com\/bill|itunes|amazon prime|prime video|audible|siriusxm/i,
+      /adobe|microsoft 365|dropbox|google (storage|one)|icloud/i,
+    ],
+    direction: 'out',
+    maxAmount: 200,
+  },
+  {
+    id: 'recurring-insurance',
+    category: 'expense',
+    patterns: [/geico|state farm|progressive|allstate|usaa|liberty mutual|farmers ins|nationwide/i],
+    direction: 'out',
+    recurring: true,
+  },
+];
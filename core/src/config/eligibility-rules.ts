@@ -0,0 +1,164 @@
+/**
+ * Eligibility Rule Set
+ *
+ * Declarative All-In-One qualification rules evaluated by
+ * calculateEligibility(). Each rule compares one borrower/loan metric against
+ * a threshold; `severity` decides whether a miss blocks eligibility ('fail')
+ * or is only reported ('warn'). Rules whose metric comes from the optional
+ * borrower profile are skipped when that data is not provided. Loan-amount
+ * limits differ by investor, so the base set only warns on them and an
+ * overlay makes them blocking.
+ *
+ * Investor overlays tighten or relax individual rules by id and may add
+ * rules of their own. Select one by passing its key as `investor`.
+ */
+
+export type EligibilityMetric =
+  | 'ltv'             // Loan-to-value, percent
+  | 'netCashFlow'     // Net monthly cash flow, dollars
+  | 'creditScore'     // Representative FICO score
+  | 'dti'             // Debt-to-income, percent
+  | 'loanAmount'      // Current loan balance, dollars
+  | 'propertyType'
+  | 'propertyValue';  // Passes when property value is plausible for the loan amount
+
+export type EligibilityOperator = 'max' | 'min' | 'oneOf' | 'valid';
+
+export interface EligibilityRule {
+  id: string;
+  label: string;
+  metric: EligibilityMetric;
+  operator: EligibilityOperator;
+  threshold: number | string[] | null;  // null for 'valid' rules
+  severity: 'fail' | 'warn';
+}
+
+export interface InvestorOverlay {
+  name: string;
+  overrides?: Record<string, Partial<Pick<EligibilityRule, 'threshold' | 'severity'>>>;
+  additionalRules?: EligibilityRule[];
+}
+
+export const BASE_ELIGIBILITY_RULES: EligibilityRule[] = [
+  {
+    id: 'max-ltv',
+    label: 'Maximum LTV',
+    metric: 'ltv',
+    operator: 'max',
+    threshold: 80,
+    severity: 'fail',
+  },
+  {
+    id: 'min-net-cash-flow',
+    label: 'Minimum net cash flow',
+    metric: 'netCashFlow',
+    operator: 'min',
+    threshold: 500,
+    severity: 'fail',
+  },
+  {
+    id: 'property-value-plausible',
+    label: 'Property value plausibility',
+    metric: 'propertyValue',
+    operator: 'valid',
+    threshold: null,
+    severity: 'warn',
+  },
+  {
+    id: 'min-loan-amount',
+    label: 'Minimum loan amount',
+    metric: 'loanAmount',
+    operator: 'min',
+    threshold: 50000,
+    severity: 'warn',
+  },
+  {
+    id: 'max-loan-amount',
+    label: 'Maximum loan amount',
+    metric: 'loanAmount',
+    operator: 'max',
+    threshold: 3000000,
+    severity: 'warn',
+  },
+  {
+    id: 'min-credit-score',
+    label: 'Minimum credit score',
+    metric: 'creditScore',
+    operator: 'min',
+    threshold: 680,
+    severity: 'fail',
+  },
+  {
+    id: 'max-dti',
+    label: 'Maximum DTI',
+    metric: 'dti',
+    operator: 'max',
+    threshold: 43,
+    severity: 'fail',
+  },
+  {
+    id: 'eligible-property-type',
+    label: 'Eligible property type',
+    metric: 'propertyType',
+    operator: 'oneOf',
+    threshold: ['single-family', 'condo', 'townhouse', 'pud'],
+    severity: 'fail',
+  },
+];
+
+export const INVESTOR_OVERLAYS: Record<string, InvestorOverlay> = {
+  standard: {
+    name: 'Standard',
+  },
+  conservative: {
+    name: 'Conservative',
+    overrides: {
+      'max-ltv': { threshold: 75 },
+      'min-credit-score': { threshold: 720 },
+      'max-dti': { threshold: 38 },
+      'property-value-plausible': { severity: 'fail' },
+    },
+    additionalRules: [
+      {
+        id: 'min-net-cash-flow-warning',
+        label: 'Recommended net cash flow',
+        metric: 'netCashFlow',
+        operator: 'min',
+        threshold: 1500,
+        severity: 'warn',
+      },
+    ],
+  },
+  'high-balance': {
+    name: 'High Balance',
+    overrides: {
+      'max-ltv': { threshold: 70 },
+      'min-loan-amount': { threshold: 766550, severity: 'fail' },
+      'max-loan-amount': { threshold: 5000000, severity: 'fail' },
+      'min-credit-score': { threshold: 740 },
+    },
+  },
+};
+
+/**
+ * Resolve the rule set for an investor (base rules when no overlay is given)
+ * @throws Error if the investor overlay does not exist
+ */
+export function resolveEligibilityRules(investor?: string): EligibilityRule[] {
+  if (!investor) {
+    return BASE_ELIGIBILITY_RULES;
+  }
+
+  // Own keys only, so names like "constructor" aren't taken for overlays
+  if (!Object.hasOwn(INVESTOR_OVERLAYS, investor)) {
+    throw new Error(`Unknown investor overlay: ${investor}`);
+  }
+  const overlay = INVESTOR_OVERLAYS[investor];
+
+  const rules = BASE_ELIGIBILITY_RULES.map(rule => ({
+    ...rule,
+    ...overlay.overrides?.[rule.id],
+  }));
+
+  return [...rules, ...(overlay.additionalRules || [])];
+}
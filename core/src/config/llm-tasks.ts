@@ -0,0 +1,52 @@
+/**
+ * LLM Task Configuration
+ *
+ * Model, timeout, attempts, output limits and repair re-asks for each kind of
+ * model call.
+ * Individual calls may shorten the timeout (e.g. single images) but otherwise
+ * use these settings. Models can be swapped per environment:
+ * - LLM_EXTRACTION_MODEL: vision extraction of PDFs and images (OpenRouter model id)
+ * - LLM_CATEGORIZATION_MODEL: JSON transaction categorization (OpenAI model id)
+ * - LLM_GENERATION_MODEL: pitch copy and the pitch guide chat (OpenAI model id)
+ */
+
+export type LlmTask = 'extraction' | 'categorization' | 'generation';
+
+export interface LlmTaskConfig {
+  model: string;
+  timeoutMs: number;
+  attempts: number;        // Total tries, including the first
+  maxTokens: number;
+  temperature: number;
+  repairRounds: number;    // Re-asks for rows that fail output validation
+}
+
+export const LLM_TASKS: Record<LlmTask, LlmTaskConfig> = {
+  extraction: {
+    model: process.env.LLM_EXTRACTION_MODEL || 'google/gemini-2.0-flash-001',
+    timeoutMs: 120000,     // Multi-page PDFs
+    attempts: 2,
+    maxTokens: 16000,      // 500+ transactions
+    temperature: 0,
+    repairRounds: 1,
+  },
+  categorization: {
+    model: process.env.LLM_CATEGORIZATION_MODEL || 'gpt-4o',
+    timeoutMs: 90000,
+    attempts: 1,           // The client retries failed chunks
+    maxTokens: 16384,      // GPT-4o's maximum output token limit
+    temperature: 0,
+    repairRounds: 2,
+  },
+  generation: {
+    model: process.env.LLM_GENERATION_MODEL || 'gpt-4',
+    timeoutMs: 60000,
+    attempts: 1,
+    maxTokens: 600,
+    temperature: 0.7,
+    repairRounds: 0,       // Free text, nothing to validate
+  },
+};
+
+// Wait between attempts of a failed call
+export const LLM_RETRY_DELAY_MS = 2000;
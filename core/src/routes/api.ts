@@ -0,0 +1,1774 @@
+import express from 'express';
+import multer from 'multer';
+import path from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import fs from 'fs/promises';
+import { analyzeStatements } from '../services/openai-service.js';
+import { calculateEligibility } from '../services/eligibility-checker.js';
+import { INVESTOR_OVERLAYS } from '../config/eligibility-rules.js';
+import { findInvalidLoanOptions, simulateLoan } from '../services/loan-calculator-v3.js';
+import type { MortgageDetails, CashFlowAnalysis, BorrowerProfile, Transaction, GoalSeekGoal } from '../types.js';
+import type { ChatMessage } from '../services/llm-provider.js';
+
+const router = express.Router();
+
+// Determine upload directory based on environment
+// Vercel serverless functions can only write to /tmp
+const UPLOAD_DIR = process.env.VERCEL ? '/tmp' : 'uploads';
+
+// Ensure upload directory exists (for local development)
+if (!process.env.VERCEL && !existsSync(UPLOAD_DIR)) {
+  mkdirSync(UPLOAD_DIR, { recursive: true });
+}
+
+// Configure multer for file uploads
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    cb(null, UPLOAD_DIR);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+    cb(null, `${file.fieldname}-${uniqueSuffix}${path.extname(file.originalname)}`);
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size
+  },
+  fileFilter: (req, file, cb) => {
+    // Accept PDF, images, Excel files and OFX/QFX/QIF bank exports
+    const allowedTypes = /pdf|jpg|jpeg|png|gif|webp|csv|xlsx|xls/;
+    const ext = path.extname(file.originalname).toLowerCase();
+    const extname = allowedTypes.test(ext);
+    const mimetype = allowedTypes.test(file.mimetype);
+
+    // Banks serve OFX/QFX/QIF with inconsistent MIME types, so check the extension only
+    const isBankExport = ['.ofx', '.qfx', '.qif'].includes(ext);
+
+    if ((extname && mimetype) || isBankExport) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF, image, Excel and OFX/QFX/QIF files are allowed'));
+    }
+  },
+});
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Projection start day from an optional YYYY-MM-DD body field (today when absent)
+ */
+function parseStartDate(value: unknown): Date | null {
+  if (value === undefined) return new Date();
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+}
+
+/**
+ * Whether a value is a real YYYY-MM-DD calendar day (rejects 2024-02-30)
+ */
+function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCMonth() === month - 1;
+}
+
+// Categories an officer may assign when overriding a merchant
+const VALID_TRANSACTION_CATEGORIES: Transaction['category'][] = ['income', 'expense', 'housing', 'one-time', 'recurring'];
+
+// Health check
+router.get('/health', (req, res) => {
+  res.json({ status: 'ok', message: 'API is running' });
+});
+
+// NEW ARCHITECTURE: Extract transactions from files (Step 1)
+router.post('/extract-transactions', upload.array('files', 20), async (req, res) => {
+  try {
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({
+        error: 'No files uploaded',
+        message: 'Please upload at least one bank statement',
+      });
+    }
+
+    const files = req.files as Express.Multer.File[];
+    console.log(`📄 Extracting transactions from ${files.length} file(s)...`);
+
+    // Import extraction function
+    const { extractTransactions } = await import('../services/openai-service.js');
+
+    // Extract raw transactions (and a reconciled summary per statement) from all files
+    const { transactions, statements } = await extractTransactions(files);
+
+    res.json({
+      transactions,
+      statements,
+      totalTransactions: transactions.length,
+      message: `Extracted ${transactions.length} transactions from ${files.length} file(s)`,
+    });
+  } catch (error: any) {
+    console.error('Error extracting transactions:', error);
+    res.status(500).json({
+      error: 'Extraction failed',
+      message: error.message || 'Failed to extract transactions',
+    });
+  }
+});
+
+// ASYNC JOBS: Extraction as a server-side job (create → upload files → /resume until done → fetch results)
+// Each /resume call extracts one file, so no request runs long and the job survives page reloads
+router.post('/analysis-jobs', async (req, res) => {
+  try {
+    const { createAnalysisJob } = await import('../services/analysis-job-service.js');
+    const job = await createAnalysisJob();
+
+    if (!job) {
+      return res.status(500).json({
+        error: 'Job creation failed',
+        message: 'Failed to create analysis job',
+      });
+    }
+
+    res.json({
+      job,
+      message: 'Analysis job created',
+    });
+  } catch (error: any) {
+    console.error('Error creating analysis job:', error);
+    res.status(500).json({
+      error: 'Job creation failed',
+      message: error.message || 'Failed to create analysis job',
+    });
+  }
+});
+
+// Add statement files to a job (queued for /resume to extract)
+router.post('/analysis-jobs/:id/files', upload.array('files', 20), async (req, res) => {
+  const files = (req.files || []) as Express.Multer.File[];
+  const jobId = String(req.params.id);
+
+  try {
+    if (files.length === 0) {
+      return res.status(400).json({
+        error: 'No files uploaded',
+        message: 'Please upload at least one bank statement',
+      });
+    }
+
+    const { addJobFile, getAnalysisJob } = await import('../services/analysis-job-service.js');
+
+    const added = [];
+    for (const file of files) {
+      const jobFile = await addJobFile(jobId, file.originalname, await fs.readFile(file.path));
+      if (!jobFile) {
+        return res.status(404).json({
+          error: 'Not found',
+          message: 'This analysis job does not exist or has expired',
+        });
+      }
+      added.push(jobFile);
+    }
+
+    res.json({
+      files: added,
+      job: await getAnalysisJob(jobId),
+      message: `Queued ${added.length} file(s) for extraction`,
+    });
+  } catch (error: any) {
+    console.error('Error adding files to analysis job:', error);
+    res.status(500).json({
+      error: 'Upload failed',
+      message: error.message || 'Failed to add files to analysis job',
+    });
+  } finally {
+    // Contents are stored with the job; the upload itself isn't needed anymore
+    await Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+  }
+});
+
+// Get a job's per-file status
+router.get('/analysis-jobs/:id', async (req, res) => {
+  try {
+    const { getAnalysisJob } = await import('../services/analysis-job-service.js');
+    const job = await getAnalysisJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'This analysis job does not exist or has expired',
+      });
+    }
+
+    res.json({ job });
+  } catch (error: any) {
+    console.error('Error getting analysis job:', error);
+    res.status(500).json({
+      error: 'Retrieval failed',
+      message: error.message || 'Failed to retrieve analysis job',
+    });
+  }
+});
+
+// Get the transactions and statement summaries extracted so far
+router.get('/analysis-jobs/:id/results', async (req, res) => {
+  try {
+    const { getAnalysisJobResults } = await import('../services/analysis-job-service.js');
+    const results = await getAnalysisJobResults(req.params.id);
+
+    if (!results) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'This analysis job does not exist or has expired',
+      });
+    }
+
+    res.json({
+      ...results,
+      totalTransactions: results.transactions.length,
+    });
+  } catch (error: any) {
+    console.error('Error getting analysis job results:', error);
+    res.status(500).json({
+      error: 'Retrieval failed',
+      message: error.message || 'Failed to retrieve analysis job results',
+    });
+  }
+});
+
+// Re-queue a single failed file (the next /resume call extracts it)
+router.post('/analysis-jobs/:id/files/:index/retry', async (req, res) => {
+  try {
+    const { retryJobFile, getAnalysisJob } = await import('../services/analysis-job-service.js');
+    const file = await retryJobFile(req.params.id, parseInt(req.params.index, 10));
+
+    if (!file) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'No failed file with that index in this analysis job',
+      });
+    }
+
+    res.json({
+      file,
+      job: await getAnalysisJob(req.params.id),
+      message: `Retrying ${file.name}`,
+    });
+  } catch (error: any) {
+    console.error('Error retrying analysis job file:', error);
+    res.status(500).json({
+      error: 'Retry failed',
+      message: error.message || 'Failed to retry file',
+    });
+  }
+});
+
+// Extract the job's next pending (or abandoned) file inside this request
+// Call repeatedly (a few in parallel) until file comes back null
+router.post('/analysis-jobs/:id/resume', async (req, res) => {
+  try {
+    const { processNextJobFile } = await import('../services/analysis-job-service.js');
+    const result = await processNextJobFile(req.params.id);
+
+    if (!result) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'This analysis job does not exist or has expired',
+      });
+    }
+
+    res.json({
+      job: result.job,
+      file: result.file,
+      message: result.file ? `Processed ${result.file.name}` : 'No files left to extract',
+    });
+  } catch (error: any) {
+    console.error('Error resuming analysis job:', error);
+    res.status(500).json({
+      error: 'Resume failed',
+      message: error.message || 'Failed to resume analysis job',
+    });
+  }
+});
+
+// LIVE PROGRESS: Server-Sent Events for an analysis (job id, or the progressId passed to
+// /categorize-chunk and /analyze-statements). Closes before the function time limit;
+// EventSource reconnects with Last-Event-ID and picks up where it left off.
+const SSE_MAX_DURATION_MS = 270000;
+const SSE_HEARTBEAT_MS = 15000;
+
+router.get('/analysis-events/:id', async (req, res) => {
+  try {
+    const { watchProgressEvents } = await import('../services/progress-events.js');
+    const afterId = parseInt(String(req.headers['last-event-id'] || req.query.after || '0'), 10) || 0;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 2000\n\n');
+
+    const stopWatching = watchProgressEvents(req.params.id, afterId, (events) => {
+      for (const event of events) {
+        res.write(`id: ${event.id}\nevent: progress\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+    const deadline = setTimeout(() => res.end(), SSE_MAX_DURATION_MS);
+
+    req.on('close', () => {
+      stopWatching();
+      clearInterval(heartbeat);
+      clearTimeout(deadline);
+    });
+  } catch (error: any) {
+    console.error('Error streaming analysis events:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Stream failed',
+        message: error.message || 'Failed to stream analysis progress',
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// Collect statement reconciliation warnings and missing months across all uploaded statements
+// With the extracted transactions it also averages the statements' own balances month by month
+router.post('/reconcile-statements', async (req, res) => {
+  try {
+    const { statements, transactions } = req.body;
+
+    if (!statements || !Array.isArray(statements)) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide an array of statement summaries',
+      });
+    }
+
+    const { checkStatementCoverage, calculateAverageMonthlyBalance } = await import('../services/statement-reconciler.js');
+    const { warnings, missingMonths } = checkStatementCoverage(statements);
+    const averageMonthlyBalance = calculateAverageMonthlyBalance(
+      statements,
+      Array.isArray(transactions) ? transactions : []
+    );
+
+    res.json({
+      warnings,
+      missingMonths,
+      averageMonthlyBalance,
+      message: `${warnings.length} statement warning(s)`,
+    });
+  } catch (error: any) {
+    console.error('Error reconciling statements:', error);
+    res.status(500).json({
+      error: 'Reconciliation failed',
+      message: error.message || 'Failed to reconcile statements',
+    });
+  }
+});
+
+// Pair transfers between uploaded accounts (after extraction, before /categorize-rules)
+// Confirmed pairs come back excluded; unconfirmed ones come back as suggestions and stay in the residue
+router.post('/match-transfers', async (req, res) => {
+  try {
+    const { transactions, statements } = req.body;
+
+    if (!transactions || !Array.isArray(transactions)) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide an array of transactions',
+      });
+    }
+
+    const { matchInterAccountTransfers } = await import('../services/transfer-matcher.js');
+    const { matched, unmatched, suggestions, pairCount } = matchInterAccountTransfers(
+      transactions,
+      Array.isArray(statements) ? statements : []
+    );
+
+    res.json({
+      matched,
+      unmatched,
+      suggestions,
+      pairCount,
+      message: `Matched ${pairCount} inter-account transfer pair(s), ${suggestions.length} to confirm`,
+    });
+  } catch (error: any) {
+    console.error('Error matching transfers:', error);
+    res.status(500).json({
+      error: 'Transfer matching failed',
+      message: error.message || 'Failed to match inter-account transfers',
+    });
+  }
+});
+
+// Rule-based first pass over ALL extracted transactions (before /categorize-chunk)
+// Returns the transactions the rules classified and the residue that still needs the model
+router.post('/categorize-rules', async (req, res) => {
+  try {
+    const { transactions, currentHousingPayment, loanOfficerEmail } = req.body;
+
+    if (!transactions || !Array.isArray(transactions)) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide an array of transactions',
+      });
+    }
+
+    const { applyCategorizationRules } = await import('../services/rule-categorizer.js');
+    const { getMerchantOverrides } = await import('../services/merchant-memory-service.js');
+
+    const overrides = loanOfficerEmail ? await getMerchantOverrides(loanOfficerEmail) : [];
+
+    const { categorized, unmatched } = applyCategorizationRules(
+      transactions,
+      parseFloat(currentHousingPayment) || 0,
+      overrides
+    );
+
+    res.json({
+      categorized,
+      unmatched,
+      message: `Rules categorized ${categorized.length} of ${transactions.length} transactions`,
+    });
+  } catch (error: any) {
+    console.error('Error applying categorization rules:', error);
+    res.status(500).json({
+      error: 'Categorization failed',
+      message: error.message || 'Failed to apply categorization rules',
+    });
+  }
+});
+
+// NEW ARCHITECTURE: Categorize a chunk of transactions (Step 2)
+router.post('/categorize-chunk', async (req, res) => {
+  try {
+    const { transactions, currentHousingPayment, chunkNumber, totalChunks, loanOfficerEmail, progressId } = req.body;
+
+    if (!transactions || !Array.isArray(transactions)) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide an array of transactions',
+      });
+    }
+
+    console.log(`🔄 Categorizing chunk ${chunkNumber}/${totalChunks} (${transactions.length} transactions)...`);
+
+    // Import categorization function
+    const { categorizeTransactions } = await import('../services/openai-service.js');
+    const { progressEmitter } = await import('../services/progress-events.js');
+
+    // Categorize this chunk of transactions
+    const categorized = await categorizeTransactions(
+      transactions,
+      parseFloat(currentHousingPayment) || 0,
+      chunkNumber,
+      totalChunks,
+      loanOfficerEmail,
+      progressId ? progressEmitter(String(progressId)) : undefined
+    );
+
+    res.json({
+      transactions: categorized.transactions,
+      totalIncome: categorized.totalIncome,
+      totalExpenses: categorized.totalExpenses,
+      confidence: categorized.confidence,
+      validation: categorized.validation,
+      message: `Categorized chunk ${chunkNumber}/${totalChunks} successfully`,
+    });
+  } catch (error: any) {
+    console.error('Error categorizing chunk:', error);
+    res.status(500).json({
+      error: 'Categorization failed',
+      message: error.message || 'Failed to categorize transactions',
+    });
+  }
+});
+
+// Detect recurring income/expense series and paycheck schedules (Step 3, after categorization)
+router.post('/detect-recurring', async (req, res) => {
+  try {
+    const { transactions } = req.body;
+
+    if (!transactions || !Array.isArray(transactions)) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide an array of transactions',
+      });
+    }
+
+    const { analyzeRecurring } = await import('../services/recurring-detector.js');
+    const { series, paySchedules, depositFrequency } = analyzeRecurring(transactions);
+
+    res.json({
+      series,
+      paySchedules,
+      depositFrequency,
+      message: `Detected ${series.length} recurring series`,
+    });
+  } catch (error: any) {
+    console.error('Error detecting recurring series:', error);
+    res.status(500).json({
+      error: 'Detection failed',
+      message: error.message || 'Failed to detect recurring transactions',
+    });
+  }
+});
+
+// LEGACY: Analyze bank statements (kept for backward compatibility)
+// Consider using /extract-transactions + /categorize-chunk for better performance
+router.post('/analyze-statements', upload.array('files', 20), async (req, res) => {
+  try {
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({
+        error: 'No files uploaded',
+        message: 'Please upload at least one bank statement',
+      });
+    }
+
+    const files = req.files as Express.Multer.File[];
+    const currentHousingPayment = parseFloat(req.body.currentHousingPayment) || 0;
+    const { progressId } = req.body;
+
+    console.log(`Processing ${files.length} files...`);
+    console.log(`Current housing payment to exclude: $${currentHousingPayment}`);
+
+    // Progress is streamed from /analysis-events/:progressId when the client supplies an id
+    const { progressEmitter } = await import('../services/progress-events.js');
+    const onProgress = progressId ? progressEmitter(String(progressId)) : undefined;
+
+    // Analyze the bank statements using the LLM provider
+    const cashFlow = await analyzeStatements(files, currentHousingPayment, onProgress);
+
+    res.json({
+      cashFlow,
+      message: 'Bank statements analyzed successfully',
+    });
+  } catch (error: any) {
+    console.error('Error analyzing statements:', error);
+    res.status(500).json({
+      error: 'Analysis failed',
+      message: error.message || 'Failed to analyze bank statements',
+    });
+  }
+});
+
+// Calculate eligibility
+router.post('/calculate-eligibility', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, borrowerProfile, investor } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    if (investor && !Object.hasOwn(INVESTOR_OVERLAYS, investor)) {
+      return res.status(400).json({
+        error: 'Invalid investor',
+        message: `Unknown investor overlay "${investor}". Valid values: ${Object.keys(INVESTOR_OVERLAYS).join(', ')}`,
+      });
+    }
+
+    const eligibility = calculateEligibility(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      { borrower: borrowerProfile as BorrowerProfile | undefined, investor }
+    );
+
+    res.json({
+      eligibility,
+      message: 'Eligibility calculated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error calculating eligibility:', error);
+    res.status(500).json({
+      error: 'Calculation failed',
+      message: error.message || 'Failed to calculate eligibility',
+    });
+  }
+});
+
+// Simulate loan
+router.post('/simulate-loan', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, strategyOptions, loanOptions } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    const startDate = parseStartDate(req.body.startDate);
+    if (!startDate) {
+      return res.status(400).json({
+        error: 'Invalid start date',
+        message: 'startDate must be a YYYY-MM-DD date',
+      });
+    }
+
+    const invalidLoanOptions = findInvalidLoanOptions(loanOptions);
+    if (invalidLoanOptions) {
+      return res.status(400).json({
+        error: 'Invalid loan options',
+        message: invalidLoanOptions,
+      });
+    }
+
+    const { findInvalidStrategyOptions } = await import('../services/traditional-strategies.js');
+
+    const invalidOptions = findInvalidStrategyOptions(strategyOptions);
+    if (invalidOptions) {
+      return res.status(400).json({
+        error: 'Invalid strategy options',
+        message: invalidOptions,
+      });
+    }
+
+    // 🔍 DATA VALIDATION: Check for consistency issues
+    console.log(`\n🔍 [VALIDATION] Checking cash flow data consistency...`);
+
+    if (cashFlow.monthlyDeposits && cashFlow.totalIncome && cashFlow.monthlyBreakdown) {
+      const calculatedMonthly = cashFlow.totalIncome / cashFlow.monthlyBreakdown.length;
+      const diff = Math.abs(cashFlow.monthlyDeposits - calculatedMonthly);
+
+      if (diff > 100) {  // More than $100 difference
+        console.warn(`⚠️  DATA INCONSISTENCY DETECTED:`);
+        console.warn(`   Pre-calculated monthlyDeposits: $${cashFlow.monthlyDeposits.toFixed(2)}`);
+        console.warn(`   Recalculated (totalIncome / months): $${calculatedMonthly.toFixed(2)}`);
+        console.warn(`   Difference: $${diff.toFixed(2)}`);
+        console.warn(`   This suggests chunking aggregation issues!`);
+      } else {
+        console.log(`   ✓ Monthly deposits consistent (diff: $${diff.toFixed(2)})`);
+      }
+
+      const calculatedExpenses = cashFlow.totalExpenses / cashFlow.monthlyBreakdown.length;
+      const expenseDiff = Math.abs((cashFlow.monthlyExpenses || 0) - calculatedExpenses);
+
+      if (expenseDiff > 100 && cashFlow.monthlyExpenses) {
+        console.warn(`⚠️  EXPENSE INCONSISTENCY:`);
+        console.warn(`   Pre-calculated monthlyExpenses: $${cashFlow.monthlyExpenses.toFixed(2)}`);
+        console.warn(`   Recalculated (totalExpenses / months): $${calculatedExpenses.toFixed(2)}`);
+        console.warn(`   Difference: $${expenseDiff.toFixed(2)}`);
+      } else {
+        console.log(`   ✓ Monthly expenses consistent (diff: $${expenseDiff.toFixed(2)})`);
+      }
+    }
+
+    // Daily simulation, so pay dates, deposit frequency and life events shape the result;
+    // alternatives compare it against the best traditional use of the same leftover
+    const simulation = simulateLoan(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      startDate,
+      strategyOptions,
+      loanOptions
+    );
+
+    res.json({
+      simulation,
+      message: 'Loan simulation completed successfully',
+    });
+  } catch (error: any) {
+    console.error('Error simulating loan:', error);
+    res.status(500).json({
+      error: 'Simulation failed',
+      message: error.message || 'Failed to simulate loan',
+    });
+  }
+});
+
+// Generate PDF report (placeholder - to be implemented)
+router.post('/generate-report', async (req, res) => {
+  try {
+    // TODO: Implement PDF generation
+    res.status(501).json({
+      error: 'Not implemented',
+      message: 'PDF report generation coming soon',
+    });
+  } catch (error: any) {
+    console.error('Error generating report:', error);
+    res.status(500).json({
+      error: 'Report generation failed',
+      message: error.message || 'Failed to generate report',
+    });
+  }
+});
+
+// Get detailed amortization schedule
+router.post('/amortization-schedule', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, months } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    const { getDetailedAmortization } = await import('../services/loan-calculator.js');
+
+    const schedule = getDetailedAmortization(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      months || 12
+    );
+
+    res.json({
+      schedule,
+      message: 'Amortization schedule generated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error generating schedule:', error);
+    res.status(500).json({
+      error: 'Schedule generation failed',
+      message: error.message || 'Failed to generate amortization schedule',
+    });
+  }
+});
+
+// Export the full AIO ledger (daily or monthly roll-up) as CSV or XLSX
+router.post('/export-ledger', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, granularity = 'monthly', format = 'csv', loanOptions } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    if (!['daily', 'monthly'].includes(granularity)) {
+      return res.status(400).json({
+        error: 'Invalid granularity',
+        message: 'granularity must be "daily" or "monthly"',
+      });
+    }
+
+    if (!['csv', 'xlsx'].includes(format)) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        message: 'format must be "csv" or "xlsx"',
+      });
+    }
+
+    const startDate = parseStartDate(req.body.startDate);
+    if (!startDate) {
+      return res.status(400).json({
+        error: 'Invalid start date',
+        message: 'startDate must be a YYYY-MM-DD date',
+      });
+    }
+
+    const invalidOptions = findInvalidLoanOptions(loanOptions);
+    if (invalidOptions) {
+      return res.status(400).json({
+        error: 'Invalid loan options',
+        message: invalidOptions,
+      });
+    }
+
+    const { exportLedger } = await import('../services/ledger-export.js');
+
+    const ledger = exportLedger(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      granularity,
+      format,
+      loanOptions,
+      startDate
+    );
+
+    res.setHeader('Content-Type', ledger.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${ledger.filename}"`);
+    res.send(ledger.body);
+  } catch (error: any) {
+    console.error('Error exporting ledger:', error);
+    res.status(500).json({
+      error: 'Ledger export failed',
+      message: error.message || 'Failed to export ledger',
+    });
+  }
+});
+
+// Replay the included statement transactions on their real dates through the AIO, then loop them forward
+router.post('/lookback-replay', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    if (!Array.isArray(cashFlow.transactions) || !cashFlow.transactions.some((t: Transaction) => !t.excluded)) {
+      return res.status(400).json({
+        error: 'No transactions',
+        message: 'cashFlow.transactions must include at least one transaction that is not excluded',
+      });
+    }
+
+    const { replayLookback } = await import('../services/lookback-replay.js');
+
+    const replay = replayLookback(mortgageDetails as MortgageDetails, cashFlow as CashFlowAnalysis);
+
+    res.json(replay);
+  } catch (error: any) {
+    console.error('Error replaying statement history:', error);
+    res.status(500).json({
+      error: 'Look-back replay failed',
+      message: error.message || 'Failed to replay statement history',
+    });
+  }
+});
+
+// Monte Carlo stress test: randomized cash-flow and rate paths through the AIO, summarized as percentiles
+router.post('/stress-test', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, paths, seed, loanOptions } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    const { runStressTest, MAX_STRESS_TEST_PATHS } = await import('../services/stress-test.js');
+
+    if (paths !== undefined && (!Number.isInteger(paths) || paths < 1 || paths > MAX_STRESS_TEST_PATHS)) {
+      return res.status(400).json({
+        error: 'Invalid paths',
+        message: `paths must be a whole number from 1 to ${MAX_STRESS_TEST_PATHS}`,
+      });
+    }
+
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      return res.status(400).json({
+        error: 'Invalid seed',
+        message: 'seed must be a whole number',
+      });
+    }
+
+    const invalidLoanOptions = findInvalidLoanOptions(loanOptions);
+    if (invalidLoanOptions) {
+      return res.status(400).json({
+        error: 'Invalid loan options',
+        message: invalidLoanOptions,
+      });
+    }
+
+    const stressTest = await runStressTest(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      { paths, seed, loanOptions }
+    );
+
+    res.json({ stressTest });
+  } catch (error: any) {
+    console.error('Error running stress test:', error);
+    res.status(500).json({
+      error: 'Stress test failed',
+      message: error.message || 'Failed to run stress test',
+    });
+  }
+});
+
+// How dated life events (lump sums, income and expense changes) move the AIO payoff, one by one and together
+router.post('/life-events', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, lifeEvents } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    const { evaluateLifeEvents, findInvalidLifeEvent } = await import('../services/life-events.js');
+
+    const invalid = findInvalidLifeEvent(lifeEvents);
+    if (invalid) {
+      return res.status(400).json({
+        error: 'Invalid life events',
+        message: invalid,
+      });
+    }
+
+    const impact = evaluateLifeEvents(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      lifeEvents
+    );
+
+    res.json({ impact });
+  } catch (error: any) {
+    console.error('Error evaluating life events:', error);
+    res.status(500).json({
+      error: 'Life event evaluation failed',
+      message: error.message || 'Failed to evaluate life events',
+    });
+  }
+});
+
+// Goal seek: solve the leftover, AIO rate or draw amount that meets a payoff or savings target
+router.post('/goal-seek', async (req, res) => {
+  try {
+    const { mortgageDetails, cashFlow, goal } = req.body;
+
+    if (!mortgageDetails || !cashFlow) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide mortgage details and cash flow analysis',
+      });
+    }
+
+    const { seekGoal, findInvalidGoal } = await import('../services/goal-seek.js');
+
+    const invalid = findInvalidGoal(goal);
+    if (invalid) {
+      return res.status(400).json({
+        error: 'Invalid goal',
+        message: invalid,
+      });
+    }
+
+    const goalSeek = seekGoal(
+      mortgageDetails as MortgageDetails,
+      cashFlow as CashFlowAnalysis,
+      goal as GoalSeekGoal
+    );
+
+    res.json({ goalSeek });
+  } catch (error: any) {
+    console.error('Error running goal seek:', error);
+    res.status(500).json({
+      error: 'Goal seek failed',
+      message: error.message || 'Failed to run goal seek',
+    });
+  }
+});
+
+// Quick savings estimate (no bank statement analysis required)
+router.post('/estimate-savings', async (req, res) => {
+  try {
+    const { loanBalance, interestRate, avgMonthlyCashFlow, remainingMonths } = req.body;
+
+    if (!loanBalance || !interestRate || !avgMonthlyCashFlow || !remainingMonths) {
+      return res.status(400).json({
+        error: 'Missing required parameters',
+        message: 'Please provide: loanBalance, interestRate, avgMonthlyCashFlow, remainingMonths',
+      });
+    }
+
+    const { estimateSavingsPotential } = await import('../services/loan-calculator.js');
+
+    const estimate = estimateSavingsPotential(
+      parseFloat(loanBalance),
+      parseFloat(interestRate),
+      parseFloat(avgMonthlyCashFlow),
+      parseInt(remainingMonths)
+    );
+
+    res.json({
+      estimate,
+      message: 'Savings estimate calculated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error estimating savings:', error);
+    res.status(500).json({
+      error: 'Estimation failed',
+      message: error.message || 'Failed to estimate savings',
+    });
+  }
+});
+
+// Calculate monthly payment
+router.post('/calculate-payment', async (req, res) => {
+  try {
+    const { principal, annualRate, termMonths } = req.body;
+
+    if (!principal || !annualRate || !termMonths) {
+      return res.status(400).json({
+        error: 'Missing required parameters',
+        message: 'Please provide: principal, annualRate, termMonths',
+      });
+    }
+
+    const { calculateMonthlyPayment } = await import('../services/loan-calculator.js');
+
+    const payment = calculateMonthlyPayment(
+      parseFloat(principal),
+      parseFloat(annualRate),
+      parseInt(termMonths)
+    );
+
+    res.json({
+      monthlyPayment: payment,
+      message: 'Monthly payment calculated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error calculating payment:', error);
+    res.status(500).json({
+      error: 'Calculation failed',
+      message: error.message || 'Failed to calculate monthly payment',
+    });
+  }
+});
+
+// ===== MARKET RATE ENDPOINTS =====
+
+// Current mortgage rate from FRED (cached for 1 hour)
+router.get('/current-mortgage-rate', async (req, res) => {
+  try {
+    const { MORTGAGE_RATE_SERIES, isMortgageRateSeries, getCurrentMortgageRate } = await import('../services/fred-api-service.js');
+    const series = (req.query.series as string) || 'MORTGAGE30US';
+
+    if (!isMortgageRateSeries(series)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid series',
+        message: `Series must be one of: ${MORTGAGE_RATE_SERIES.join(', ')}`,
+      });
+    }
+
+    const data = await getCurrentMortgageRate(series);
+
+    res.json({
+      success: true,
+      data,
+      message: 'Mortgage rate retrieved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error fetching mortgage rate:', error);
+    res.status(502).json({
+      success: false,
+      error: 'Rate fetch failed',
+      message: error.message || 'Failed to fetch mortgage rate',
+    });
+  }
+});
+
+// Weekly mortgage rate history for MORTGAGE30US / MORTGAGE15US over a date range
+router.get('/mortgage-rate-history', async (req, res) => {
+  try {
+    const { MORTGAGE_RATE_SERIES, isMortgageRateSeries, getMortgageRateHistory } = await import('../services/fred-api-service.js');
+    const invalidRange = () => res.status(400).json({
+      success: false,
+      error: 'Invalid date range',
+      message: 'Please provide startDate and endDate as YYYY-MM-DD with startDate on or before endDate',
+    });
+
+    // The default start is derived from the end date, so check the end date first
+    const endDate = req.query.endDate ?? new Date().toISOString().split('T')[0];
+    if (!isCalendarDate(endDate)) {
+      return invalidRange();
+    }
+
+    const [endYear, endMonth, endDay] = endDate.split('-').map(Number);
+    const startDate = req.query.startDate ?? new Date(Date.UTC(endYear - 1, endMonth - 1, endDay)).toISOString().split('T')[0];
+    if (!isCalendarDate(startDate) || startDate > endDate) {
+      return invalidRange();
+    }
+
+    const series: string[] = req.query.series
+      ? String(req.query.series).split(',').map(s => s.trim().toUpperCase())
+      : MORTGAGE_RATE_SERIES;
+
+    const invalidSeries = series.filter(s => !isMortgageRateSeries(s));
+    if (invalidSeries.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid series',
+        message: `Unknown series: ${invalidSeries.join(', ')}. Series must be one of: ${MORTGAGE_RATE_SERIES.join(', ')}`,
+      });
+    }
+
+    const data = await getMortgageRateHistory(startDate, endDate, series.filter(isMortgageRateSeries));
+
+    res.json({
+      success: true,
+      data,
+      message: 'Mortgage rate history retrieved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error fetching mortgage rate history:', error);
+    res.status(502).json({
+      success: false,
+      error: 'Rate history fetch failed',
+      message: error.message || 'Failed to fetch mortgage rate history',
+    });
+  }
+});
+
+// AI Pitch Guide - Get AI-powered answers about the All-In-One loan
+router.post('/pitch-guide', async (req, res) => {
+  try {
+    const { question, conversationHistory } = req.body;
+
+    if (!question) {
+      return res.status(400).json({
+        error: 'Missing required parameter',
+        message: 'Please provide a question',
+      });
+    }
+
+    const { generateChat } = await import('../services/llm-provider.js');
+
+    // Build conversation context
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are an expert loan officer and financial advisor specializing in CMG Financial's All-In-One loan product.
+
+PRODUCT OVERVIEW:
+The All-In-One loan is a revolutionary 30-year HELOC (Home Equity Line of Credit) that functions as the borrower's primary checking account. It calculates interest DAILY on the effective balance (Loan Balance - Available Cash), allowing borrowers to save significant interest compared to traditional mortgages.
+
+KEY FEATURES:
+- Daily interest calculation: (Balance - Cash) × (Rate / 365)
+- Functions as full checking account with debit card, checks, online banking
+- Deposits immediately reduce interest-bearing balance
+- Funds remain fully accessible (unlike extra principal payments)
+- No prepayment penalties
+- Typical savings: 30-40% on total interest, 5-10 years faster payoff
+
+QUALIFICATION:
+- Maximum 80% LTV
+- Positive monthly cash flow (minimum $500)
+- Good credit score
+- Sufficient home equity
+
+YOUR ROLE:
+Answer questions about the All-In-One loan with enthusiasm and clarity. Help loan officers craft compelling pitches, overcome objections, and explain benefits to borrowers. Use real examples, comparisons to traditional mortgages, and emphasize the unique daily calculation advantage.
+
+Be conversational, professional, and persuasive. Focus on the "why" not just the "what".`,
+      },
+    ];
+
+    // Add conversation history if provided
+    if (conversationHistory && Array.isArray(conversationHistory)) {
+      conversationHistory.forEach((msg: any) => {
+        messages.push({
+          role: msg.role,
+          content: msg.content,
+        });
+      });
+    }
+
+    // Add current question
+    messages.push({
+      role: 'user',
+      content: question,
+    });
+
+    // Call the generation model
+    const completion = await generateChat({
+      purpose: 'pitch-guide',
+      messages,
+      temperature: 0.7,
+      maxTokens: 500,
+    });
+
+    const answer = completion || 'I apologize, but I could not generate a response. Please try again.';
+
+    res.json({
+      answer,
+      message: 'Pitch guide response generated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error in pitch guide:', error);
+    res.status(500).json({
+      error: 'Pitch guide failed',
+      message: error.message || 'Failed to generate pitch response',
+    });
+  }
+});
+
+// Generate AI pitch for proposal
+router.post('/generate-pitch', async (req, res) => {
+  try {
+    const { simulation, mortgageDetails, clientName, options } = req.body;
+
+    if (!simulation || !mortgageDetails) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide simulation and mortgage details',
+      });
+    }
+
+    const { generateChat } = await import('../services/llm-provider.js');
+
+    // Build prompt based on options with proper type checking
+    const toneGuide: Record<string, string> = {
+      casual: 'Use a friendly, conversational tone like talking to a friend. Use contractions and approachable language.',
+      professional: 'Use formal, professional language appropriate for a financial proposal. Maintain authority and expertise.',
+      neutral: 'Use clear, straightforward language that is neither too casual nor overly formal.',
+    };
+
+    const lengthGuide: Record<string, string> = {
+      shorter: 'Keep it concise - 2-3 short paragraphs maximum (150-200 words).',
+      standard: 'Write 3-4 well-developed paragraphs (250-350 words).',
+      longer: 'Provide comprehensive detail in 4-5 substantial paragraphs (400-500 words).',
+    };
+
+    const technicalGuide: Record<string, string> = {
+      simple: 'Avoid jargon. Explain everything in simple terms anyone can understand.',
+      moderate: 'Use some financial terminology but explain complex concepts clearly.',
+      technical: 'Use precise financial terminology and assume the reader has mortgage knowledge.',
+    };
+
+    const focusGuide: Record<string, string> = {
+      savings: 'Emphasize the dollar amount saved and interest reduction.',
+      flexibility: 'Emphasize the access to funds and financial flexibility.',
+      security: 'Emphasize the stability, safety, and long-term financial security.',
+      balanced: 'Provide balanced coverage of savings, flexibility, and security.',
+    };
+
+    const urgencyGuide: Record<string, string> = {
+      low: 'Maintain a calm, informative tone without creating pressure.',
+      moderate: 'Gently suggest this is a valuable opportunity worth acting on.',
+      high: 'Create urgency about the benefits of acting now and potential opportunity cost.',
+    };
+
+    const styleGuide: Record<string, string> = {
+      'data-driven': 'Lead with numbers, statistics, and concrete facts. Be analytical.',
+      balanced: 'Mix data points with relatable explanations and real-world context.',
+      'story-based': 'Use narrative, relatable scenarios, and paint a picture of their future.',
+    };
+
+    const ctaGuide: Record<string, string> = {
+      soft: 'End with an open invitation to learn more or ask questions.',
+      moderate: 'End with a clear next step like scheduling a follow-up conversation.',
+      strong: 'End with a compelling call to action that encourages immediate response.',
+    };
+
+    const formatCurrency = (amount: number) => {
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(amount);
+    };
+
+    const formatMonths = (totalMonths: number) => {
+      const years = Math.floor(totalMonths / 12);
+      const months = totalMonths % 12;
+      return `${years} year${years !== 1 ? 's' : ''} and ${months} month${months !== 1 ? 's' : ''}`;
+    };
+
+    const prompt = `You are an expert loan officer creating a personalized sales pitch for the All-In-One loan.
+
+CLIENT: ${clientName || 'this client'}
+
+KEY NUMBERS:
+- Total Interest Savings: ${formatCurrency(simulation.comparison.interestSavings)}
+- Time Saved: ${formatMonths(simulation.comparison.timeSavedMonths)}
+- Interest Reduction: ${simulation.comparison.percentageSavings.toFixed(1)}%
+- Current Loan Balance: ${formatCurrency(mortgageDetails.loanBalance)}
+- Traditional Total Interest: ${formatCurrency(simulation.traditionalLoan.totalInterestPaid)}
+- AIO Total Interest: ${formatCurrency(simulation.allInOneLoan.totalInterestPaid)}
+
+CUSTOMIZATION PREFERENCES:
+- Tone: ${toneGuide[options?.tone] || toneGuide['neutral']}
+- Length: ${lengthGuide[options?.length] || lengthGuide['standard']}
+- Technical Level: ${technicalGuide[options?.technicalLevel] || technicalGuide['moderate']}
+- Focus: ${focusGuide[options?.focus] || focusGuide['balanced']}
+- Urgency: ${urgencyGuide[options?.urgency] || urgencyGuide['moderate']}
+- Style: ${styleGuide[options?.style] || styleGuide['balanced']}
+- Call to Action: ${ctaGuide[options?.cta] || ctaGuide['moderate']}
+
+Write a compelling sales pitch that will appear at the top of the proposal. Focus on why the All-In-One loan is right for this client based on their specific numbers.
+
+DO NOT use a greeting or signature. Start directly with the pitch content. Do not use markdown formatting.`;
+
+    const completion = await generateChat({
+      purpose: 'generate-pitch',
+      messages: [
+        {
+          role: 'system',
+          content: 'You are an expert loan officer who creates compelling, personalized sales pitches for the All-In-One loan product.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 600,
+    });
+
+    const pitch = completion || 'Unable to generate pitch. Please try again.';
+
+    res.json({
+      pitch,
+      message: 'Pitch generated successfully',
+    });
+  } catch (error: any) {
+    console.error('Error generating pitch:', error);
+    res.status(500).json({
+      error: 'Pitch generation failed',
+      message: error.message || 'Failed to generate pitch',
+    });
+  }
+});
+
+// ===== SIGNATURE MANAGEMENT ENDPOINTS =====
+
+// Check if signature exists for email
+router.get('/signature/exists/:email', async (req, res) => {
+  try {
+    const { email } = req.params;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { signatureExists } = await import('../services/redis-service.js');
+    const exists = await signatureExists(email);
+
+    res.json({
+      exists,
+      email,
+      message: exists ? 'Signature found' : 'No signature found for this email',
+    });
+  } catch (error: any) {
+    console.error('Error checking signature:', error);
+    res.status(500).json({
+      error: 'Check failed',
+      message: error.message || 'Failed to check signature',
+    });
+  }
+});
+
+// Get signature by email
+router.get('/signature/:email', async (req, res) => {
+  try {
+    const { email } = req.params;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { getSignature } = await import('../services/redis-service.js');
+    const signature = await getSignature(email);
+
+    if (!signature) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'No signature found for this email',
+      });
+    }
+
+    res.json({
+      signature,
+      message: 'Signature retrieved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error getting signature:', error);
+    res.status(500).json({
+      error: 'Retrieval failed',
+      message: error.message || 'Failed to retrieve signature',
+    });
+  }
+});
+
+// Save or update signature
+router.post('/signature', async (req, res) => {
+  try {
+    const { email, name, title, phone, nmls, officeAddress, photoUrl } = req.body;
+
+    // Validate required fields
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    if (!name || name.trim().length === 0) {
+      return res.status(400).json({
+        error: 'Invalid name',
+        message: 'Please provide a name',
+      });
+    }
+
+    if (!phone || phone.trim().length === 0) {
+      return res.status(400).json({
+        error: 'Invalid phone',
+        message: 'Please provide a phone number',
+      });
+    }
+
+    const { saveSignature } = await import('../services/redis-service.js');
+    const success = await saveSignature({
+      email,
+      name,
+      title: title || '',
+      phone,
+      nmls: nmls || undefined,
+      officeAddress: officeAddress || undefined,
+      photoUrl: photoUrl || undefined,
+    });
+
+    if (!success) {
+      return res.status(500).json({
+        error: 'Save failed',
+        message: 'Redis is not configured or save operation failed',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Signature saved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error saving signature:', error);
+    res.status(500).json({
+      error: 'Save failed',
+      message: error.message || 'Failed to save signature',
+    });
+  }
+});
+
+// Delete signature
+router.delete('/signature/:email', async (req, res) => {
+  try {
+    const { email } = req.params;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { deleteSignature } = await import('../services/redis-service.js');
+    const success = await deleteSignature(email);
+
+    if (!success) {
+      return res.status(500).json({
+        error: 'Delete failed',
+        message: 'Redis is not configured or delete operation failed',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Signature deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting signature:', error);
+    res.status(500).json({
+      error: 'Delete failed',
+      message: error.message || 'Failed to delete signature',
+    });
+  }
+});
+
+// ===== PROPOSAL SHARING ENDPOINTS =====
+
+// Save a proposal and return its shareable link
+router.post('/save-proposal', async (req, res) => {
+  try {
+    const { simulation, mortgageDetails, clientName, loanOfficerEmail } = req.body;
+
+    if (!simulation || !mortgageDetails) {
+      return res.status(400).json({
+        error: 'Missing required data',
+        message: 'Please provide simulation and mortgage details',
+      });
+    }
+
+    if (!loanOfficerEmail || !loanOfficerEmail.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid loan officer email address',
+      });
+    }
+
+    const { saveProposal } = await import('../services/proposal-service.js');
+    const proposal = await saveProposal({
+      ...req.body,
+      clientName: clientName || 'Client',
+    });
+
+    if (!proposal) {
+      return res.status(500).json({
+        error: 'Save failed',
+        message: 'Failed to save proposal',
+      });
+    }
+
+    const clientUrl = req.get('origin') || process.env.CLIENT_URL || 'http://localhost:5173';
+
+    res.json({
+      proposalId: proposal.id,
+      shareableUrl: `${clientUrl}/proposal/${proposal.id}`,
+      expiresAt: proposal.expiresAt,
+      message: 'Proposal saved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error saving proposal:', error);
+    res.status(500).json({
+      error: 'Save failed',
+      message: error.message || 'Failed to save proposal',
+    });
+  }
+});
+
+// List proposals saved by a loan officer
+router.get('/my-proposals/:email', async (req, res) => {
+  try {
+    const { email } = req.params;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { listProposalsByOfficer } = await import('../services/proposal-service.js');
+    const proposals = await listProposalsByOfficer(email);
+
+    res.json({
+      proposals,
+      message: `Found ${proposals.length} proposal(s)`,
+    });
+  } catch (error: any) {
+    console.error('Error listing proposals:', error);
+    res.status(500).json({
+      error: 'Retrieval failed',
+      message: error.message || 'Failed to retrieve proposals',
+    });
+  }
+});
+
+// Get a shared proposal by id
+router.get('/proposals/:id', async (req, res) => {
+  try {
+    const { getProposal } = await import('../services/proposal-service.js');
+    const proposal = await getProposal(req.params.id);
+
+    if (!proposal) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'This proposal does not exist or has expired',
+      });
+    }
+
+    res.json({
+      proposal,
+      message: 'Proposal retrieved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error getting proposal:', error);
+    res.status(500).json({
+      error: 'Retrieval failed',
+      message: error.message || 'Failed to retrieve proposal',
+    });
+  }
+});
+
+// Delete a proposal (only the loan officer who created it may delete it)
+router.delete('/proposals/:id', async (req, res) => {
+  try {
+    const { email } = req.body || {};
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { getProposal, deleteProposal } = await import('../services/proposal-service.js');
+    const proposal = await getProposal(req.params.id);
+
+    if (!proposal) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'This proposal does not exist or has expired',
+      });
+    }
+
+    if (proposal.loanOfficerEmail !== email.toLowerCase()) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'You can only delete your own proposals',
+      });
+    }
+
+    const success = await deleteProposal(proposal);
+
+    if (!success) {
+      return res.status(500).json({
+        error: 'Delete failed',
+        message: 'Failed to delete proposal',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Proposal deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting proposal:', error);
+    res.status(500).json({
+      error: 'Delete failed',
+      message: error.message || 'Failed to delete proposal',
+    });
+  }
+});
+
+// List a loan officer's learned merchant categorization overrides
+router.get('/merchant-memory/:email', async (req, res) => {
+  try {
+    const { email } = req.params;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { getMerchantOverrides } = await import('../services/merchant-memory-service.js');
+    const overrides = await getMerchantOverrides(email);
+
+    res.json({
+      overrides,
+      message: `Found ${overrides.length} learned merchant rule(s)`,
+    });
+  } catch (error: any) {
+    console.error('Error listing merchant overrides:', error);
+    res.status(500).json({
+      error: 'Retrieval failed',
+      message: error.message || 'Failed to retrieve merchant overrides',
+    });
+  }
+});
+
+// Record a category/exclusion override for a merchant
+router.put('/merchant-memory/:email', async (req, res) => {
+  try {
+    const { email } = req.params;
+    const { merchant, description, category, excluded } = req.body || {};
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    if (!merchant && !description) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide a merchant or transaction description',
+      });
+    }
+
+    if (category === undefined && excluded === undefined) {
+      return res.status(400).json({
+        error: 'Invalid data',
+        message: 'Please provide a category and/or excluded flag',
+      });
+    }
+
+    if (category !== undefined && !VALID_TRANSACTION_CATEGORIES.includes(category)) {
+      return res.status(400).json({
+        error: 'Invalid category',
+        message: `Category must be one of: ${VALID_TRANSACTION_CATEGORIES.join(', ')}`,
+      });
+    }
+
+    const { saveMerchantOverride } = await import('../services/merchant-memory-service.js');
+    const override = await saveMerchantOverride(email, {
+      merchant,
+      description,
+      category,
+      excluded: excluded === undefined ? undefined : Boolean(excluded),
+    });
+
+    if (!override) {
+      return res.status(500).json({
+        error: 'Save failed',
+        message: 'Failed to save merchant override',
+      });
+    }
+
+    res.json({
+      override,
+      message: 'Merchant override saved successfully',
+    });
+  } catch (error: any) {
+    console.error('Error saving merchant override:', error);
+    res.status(500).json({
+      error: 'Save failed',
+      message: error.message || 'Failed to save merchant override',
+    });
+  }
+});
+
+// Forget a learned merchant override
+router.delete('/merchant-memory/:email/:merchant', async (req, res) => {
+  try {
+    const { email, merchant } = req.params;
+
+    if (!email || !email.includes('@')) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        message: 'Please provide a valid email address',
+      });
+    }
+
+    const { deleteMerchantOverride } = await import('../services/merchant-memory-service.js');
+    const success = await deleteMerchantOverride(email, merchant);
+
+    if (!success) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'No learned rule exists for this merchant',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Merchant override deleted successfully',
+    });
+  } catch (error: any) {
+    console.error('Error deleting merchant override:', error);
+    res.status(500).json({
+      error: 'Delete failed',
+      message: error.message || 'Failed to delete merchant override',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,409 @@
+import { randomBytes } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getRedisClient } from './redis-service.js';
+import { progressEmitter } from './progress-events.js';
+import type { StatementSummary } from '../types.js';
+
+/**
+ * Statement Analysis Jobs
+ *
+ * Extraction is split into a server-side job so a large upload isn't bound
+ * by one serverless request's duration. The client creates a job, uploads
+ * files to it one at a time, then calls processNextJobFile (POST /resume) in
+ * a few parallel loops: each call claims one file and extracts it inside
+ * that request, so no work is left running after a response is sent (a
+ * serverless instance may be frozen as soon as it responds). Failed files can
+ * be retried individually, and a job picks up where it left off after a page
+ * reload.
+ *
+ * Job state, uploaded file contents and extracted transactions are kept in
+ * separate Redis hashes keyed per file, so concurrent requests never
+ * overwrite each other. A file is claimed with a compare-and-set on its
+ * entry, so two requests (or two instances) never extract the same file.
+ * Falls back to an in-memory store when REDIS_URL is not configured (local
+ * development only, lost on restart). Jobs expire after JOB_TTL_SECONDS.
+ */
+
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+
+// A file still 'processing' after this long was abandoned: the request extracting it
+// can't outlive the function's 300s limit (vercel.json maxDuration)
+const STALE_PROCESSING_MS = 310 * 1000;
+
+// Swap a file's entry only if nobody changed it since it was read
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) ~= ARGV[2] then return 0 end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+return 1
+`;
+
+export type AnalysisJobFileStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type AnalysisJobStatus = 'running' | 'completed' | 'failed';
+
+export interface AnalysisJobFile {
+  index: number;
+  name: string;
+  status: AnalysisJobFileStatus;
+  attempts: number;
+  error?: string;
+  transactionCount?: number;
+  statement?: StatementSummary;
+  startedAt?: string;
+  updatedAt: string;
+}
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus; // running while any file is pending/processing (or none uploaded yet)
+  createdAt: string;
+  expiresAt: string;
+  files: AnalysisJobFile[];
+}
+
+export interface AnalysisJobResults {
+  transactions: any[]; // Every completed file's transactions, tagged with sourceFile
+  statements: StatementSummary[];
+}
+
+interface JobMeta {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface MemoryJob {
+  meta: JobMeta;
+  files: Map<number, AnalysisJobFile>;
+  contents: Map<number, Buffer>;
+  results: Map<number, any[]>;
+}
+
+// In-memory fallback (used when REDIS_URL is not configured)
+const memoryJobs = new Map<string, MemoryJob>();
+
+const jobKey = (id: string) => `analysis-job:${id}`;
+const contentKey = (id: string) => `analysis-job-content:${id}`;
+const resultsKey = (id: string) => `analysis-job-results:${id}`;
+const fileField = (index: number) => `file:${index}`;
+
+function generateJobId(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+function deriveStatus(files: AnalysisJobFile[]): AnalysisJobStatus {
+  if (files.length === 0 || files.some(f => f.status === 'pending' || f.status === 'processing')) {
+    return 'running';
+  }
+  return files.some(f => f.status === 'failed') ? 'failed' : 'completed';
+}
+
+// ==================== STORAGE ====================
+
+async function readJob(id: string): Promise<{ meta: JobMeta; files: AnalysisJobFile[] } | null> {
+  const client = getRedisClient();
+
+  if (!client) {
+    const job = memoryJobs.get(id);
+    if (!job) return null;
+    return { meta: job.meta, files: Array.from(job.files.values()).sort((a, b) => a.index - b.index) };
+  }
+
+  const values: Record<string, string> = await client.hgetall(jobKey(id));
+  if (!values.meta) return null;
+
+  const files = Object.entries(values)
+    .filter(([field]) => field.startsWith('file:'))
+    .map(([, value]) => JSON.parse(value) as AnalysisJobFile)
+    .sort((a, b) => a.index - b.index);
+
+  return { meta: JSON.parse(values.meta) as JobMeta, files };
+}
+
+async function writeJobFile(id: string, file: AnalysisJobFile): Promise<void> {
+  const client = getRedisClient();
+
+  if (!client) {
+    memoryJobs.get(id)?.files.set(file.index, file);
+    return;
+  }
+
+  await client.hset(jobKey(id), fileField(file.index), JSON.stringify(file));
+}
+
+async function readFileContent(id: string, index: number): Promise<Buffer | null> {
+  const client = getRedisClient();
+
+  if (!client) {
+    return memoryJobs.get(id)?.contents.get(index) || null;
+  }
+
+  const value: string | null = await client.hget(contentKey(id), String(index));
+  return value ? Buffer.from(value, 'base64') : null;
+}
+
+async function writeFileResults(id: string, index: number, transactions: any[]): Promise<void> {
+  const client = getRedisClient();
+
+  if (!client) {
+    memoryJobs.get(id)?.results.set(index, transactions);
+    return;
+  }
+
+  await client
+    .multi()
+    .hset(resultsKey(id), String(index), JSON.stringify(transactions))
+    .expire(resultsKey(id), JOB_TTL_SECONDS)
+    .exec();
+}
+
+// ==================== JOB API ====================
+
+/**
+ * Create an empty job; files are added with addJobFile
+ */
+export async function createAnalysisJob(): Promise<AnalysisJob | null> {
+  const now = new Date();
+  const meta: JobMeta = {
+    id: generateJobId(),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + JOB_TTL_SECONDS * 1000).toISOString(),
+  };
+
+  const client = getRedisClient();
+
+  if (!client) {
+    memoryJobs.set(meta.id, { meta, files: new Map(), contents: new Map(), results: new Map() });
+    console.log(`Analysis job ${meta.id} created in memory`);
+    return { ...meta, status: 'running', files: [] };
+  }
+
+  try {
+    await client
+      .multi()
+      .hset(jobKey(meta.id), 'meta', JSON.stringify(meta))
+      .expire(jobKey(meta.id), JOB_TTL_SECONDS)
+      .exec();
+
+    console.log(`Analysis job ${meta.id} created`);
+    return { ...meta, status: 'running', files: [] };
+  } catch (error) {
+    console.error('Error creating analysis job:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a job with per-file status (null if missing or expired)
+ */
+export async function getAnalysisJob(id: string): Promise<AnalysisJob | null> {
+  try {
+    const job = await readJob(id);
+    if (!job) return null;
+
+    if (new Date(job.meta.expiresAt).getTime() <= Date.now()) {
+      memoryJobs.delete(id);
+      return null;
+    }
+
+    return { ...job.meta, status: deriveStatus(job.files), files: job.files };
+  } catch (error) {
+    console.error('Error getting analysis job:', error);
+    return null;
+  }
+}
+
+/**
+ * Add an uploaded file to a job (queued as 'pending')
+ * The file's contents are stored with the job so it can be retried or resumed later.
+ */
+export async function addJobFile(id: string, name: string, content: Buffer): Promise<AnalysisJobFile | null> {
+  const client = getRedisClient();
+  const now = new Date().toISOString();
+
+  if (!client) {
+    const job = memoryJobs.get(id);
+    if (!job) return null;
+
+    const file: AnalysisJobFile = { index: job.files.size, name, status: 'pending', attempts: 0, updatedAt: now };
+    job.contents.set(file.index, content);
+    job.files.set(file.index, file);
+    return file;
+  }
+
+  try {
+    if (!(await client.hexists(jobKey(id), 'meta'))) return null;
+
+    const index = (await client.hincrby(jobKey(id), 'fileCount', 1)) - 1;
+    const file: AnalysisJobFile = { index, name, status: 'pending', attempts: 0, updatedAt: now };
+
+    await client
+      .multi()
+      .hset(contentKey(id), String(index), content.toString('base64'))
+      .expire(contentKey(id), JOB_TTL_SECONDS)
+      .hset(jobKey(id), fileField(index), JSON.stringify(file))
+      .exec();
+
+    return file;
+  } catch (error) {
+    console.error('Error adding file to analysis job:', error);
+    return null;
+  }
+}
+
+/**
+ * Queue a failed file for another attempt
+ * @returns The re-queued file, or null if the job/file doesn't exist or the file hasn't failed
+ */
+export async function retryJobFile(id: string, index: number): Promise<AnalysisJobFile | null> {
+  const job = await readJob(id);
+  const file = job?.files.find(f => f.index === index);
+  if (!file || file.status !== 'failed') return null;
+
+  const retried: AnalysisJobFile = { ...file, status: 'pending', error: undefined, updatedAt: new Date().toISOString() };
+  await writeJobFile(id, retried);
+  return retried;
+}
+
+/**
+ * Claim the job's next pending (or abandoned) file and extract it before returning
+ * Awaited by the request that calls it; call again until it returns no file.
+ * @returns The job after the attempt and the file extracted (null when nothing was left to claim),
+ *          or null if the job doesn't exist
+ */
+export async function processNextJobFile(
+  id: string
+): Promise<{ job: AnalysisJob | null; file: AnalysisJobFile | null } | null> {
+  if (!(await readJob(id))) return null;
+
+  const claimed = await claimNextFile(id);
+  const file = claimed ? await processJobFile(id, claimed) : null;
+
+  return { job: await getAnalysisJob(id), file };
+}
+
+/**
+ * Extracted transactions and statement summaries of every completed file
+ */
+export async function getAnalysisJobResults(id: string): Promise<AnalysisJobResults | null> {
+  const job = await readJob(id);
+  if (!job) return null;
+
+  const client = getRedisClient();
+  let results: Record<string, any[]>;
+
+  if (!client) {
+    results = Object.fromEntries(memoryJobs.get(id)?.results || []);
+  } else {
+    const values: Record<string, string> = await client.hgetall(resultsKey(id));
+    results = Object.fromEntries(Object.entries(values).map(([index, value]) => [index, JSON.parse(value)]));
+  }
+
+  const completed = job.files.filter(f => f.status === 'completed');
+
+  return {
+    transactions: completed.flatMap(file =>
+      (results[String(file.index)] || []).map(transaction => ({ ...transaction, sourceFile: file.name }))
+    ),
+    statements: completed.map(f => f.statement).filter((s): s is StatementSummary => !!s),
+  };
+}
+
+// ==================== EXTRACTION ====================
+
+function isClaimable(file: AnalysisJobFile, staleBefore: number): boolean {
+  return file.status === 'pending' ||
+    (file.status === 'processing' && new Date(file.startedAt || file.updatedAt).getTime() < staleBefore);
+}
+
+function claimedCopy(file: AnalysisJobFile): AnalysisJobFile {
+  const now = new Date().toISOString();
+  if (file.status === 'processing') {
+    console.log(`♻️  Reclaiming abandoned file ${file.name}`);
+  }
+  return { ...file, status: 'processing', attempts: file.attempts + 1, startedAt: now, updatedAt: now };
+}
+
+/**
+ * Mark the next pending or abandoned file as processing
+ * The entry is compare-and-set against the value read, so of two requests
+ * reaching for the same file only one gets it; the other moves on.
+ */
+async function claimNextFile(id: string): Promise<AnalysisJobFile | null> {
+  const staleBefore = Date.now() - STALE_PROCESSING_MS;
+  const client = getRedisClient();
+
+  if (!client) {
+    // No await between the check and the write, so this is atomic within the process
+    const job = memoryJobs.get(id);
+    const next = job && Array.from(job.files.values())
+      .sort((a, b) => a.index - b.index)
+      .find(file => isClaimable(file, staleBefore));
+    if (!job || !next) return null;
+
+    const file = claimedCopy(next);
+    job.files.set(file.index, file);
+    return file;
+  }
+
+  const values: Record<string, string> = await client.hgetall(jobKey(id));
+  const entries = Object.entries(values)
+    .filter(([field]) => field.startsWith('file:'))
+    .map(([field, raw]) => ({ field, raw, file: JSON.parse(raw) as AnalysisJobFile }))
+    .sort((a, b) => a.file.index - b.file.index);
+
+  for (const { field, raw, file: current } of entries) {
+    if (!isClaimable(current, staleBefore)) continue;
+
+    const file = claimedCopy(current);
+    const won = await client.eval(COMPARE_AND_SET_SCRIPT, 1, jobKey(id), field, raw, JSON.stringify(file));
+    if (won === 1) return file;
+  }
+
+  return null;
+}
+
+async function processJobFile(id: string, file: AnalysisJobFile): Promise<AnalysisJobFile> {
+  const tempPath = path.join(os.tmpdir(), `analysis-${id}-${file.index}${path.extname(file.name)}`);
+  console.log(`📄 Job ${id}: extracting ${file.name} (attempt ${file.attempts})`);
+
+  try {
+    const content = await readFileContent(id, file.index);
+    if (!content) {
+      throw new Error('Uploaded file contents have expired - please upload the file again');
+    }
+
+    await fs.writeFile(tempPath, content);
+
+    const { extractStatementFile } = await import('./openai-service.js');
+    const { transactions, statement } = await extractStatementFile(
+      { originalname: file.name, path: tempPath },
+      progressEmitter(id)
+    );
+
+    await writeFileResults(id, file.index, transactions);
+    const completed: AnalysisJobFile = {
+      ...file,
+      status: 'completed',
+      transactionCount: transactions.length,
+      statement,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeJobFile(id, completed);
+    console.log(`✓ Job ${id}: ${file.name} extracted ${transactions.length} transactions`);
+    return completed;
+  } catch (error) {
+    console.error(`✗ Job ${id}: ${file.name} failed:`, error instanceof Error ? error.message : error);
+    const failed: AnalysisJobFile = {
+      ...file,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Extraction failed',
+      updatedAt: new Date().toISOString(),
+    };
+    await writeJobFile(id, failed);
+    return failed;
+  } finally {
+    await fs.unlink(tempPath).catch(() => undefined);
+  }
+}
@@ -90,6 +90,46 @@ export class CalendarGenerator {
     return daysInMonth[month - 1];
   }
 
+  /**
+   * Number of days in the month `monthOffset` months after a start date
+   * @param startDate - Reference date (offset 0 is the start date's month)
+   * @param monthOffset - Months after the start month
+   */
+  static getDaysInMonthFrom(startDate: Date, monthOffset: number): number {
+    const monthDate = new Date(startDate.getFullYear(), startDate.getMonth() + monthOffset, 1);
+    return this.getDaysInMonth(monthDate.getMonth() + 1, monthDate.getFullYear());
+  }
+
+  /**
+   * Count calendar months between two dates
+   *
+   * A month is complete when the end date reaches the start date's day of
+   * month (or the last day of a shorter month, e.g. Jan 31 -> Feb 28).
+   * @param startDate - Start of the period
+   * @param endDate - End of the period
+   * @param roundUp - Count a trailing partial month as a full month
+   * @returns Whole months elapsed
+   */
+  static monthsBetween(startDate: Date, endDate: Date, roundUp: boolean = false): number {
+    let months = (endDate.getFullYear() - startDate.getFullYear()) * 12 +
+      (endDate.getMonth() - startDate.getMonth());
+
+    const anchorDay = Math.min(
+      startDate.getDate(),
+      this.getDaysInMonth(endDate.getMonth() + 1, endDate.getFullYear())
+    );
+
+    if (endDate.getDate() < anchorDay) {
+      months--;
+    }
+
+    if (roundUp && endDate.getDate() !== anchorDay) {
+      months++;
+    }
+
+    return Math.max(0, months);
+  }
+
   /**
    * Find the calendar day index for a specific date
    * @param calendar - The generated calendar
@@ -0,0 +1,34 @@
+/**
+ * Date Helpers
+ *
+ * Statement dates are YYYY-MM-DD strings. Day numbers (whole days since the
+ * epoch, counted in UTC) let services step and compare them without DST drift
+ * in local dates.
+ */
+
+export const MS_PER_DAY = 86400000;
+
+/**
+ * Day number of a YYYY-MM-DD date (anything after the date is ignored)
+ */
+export function toDayNumber(date: string): number {
+  const [year, month, day] = String(date || '').substring(0, 10).split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+/**
+ * YYYY-MM-DD date of a day number
+ */
+export function fromDayNumber(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * YYYY-MM-DD of a local date
+ */
+export function formatDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,210 @@
+import type {
+  MortgageDetails,
+  CashFlowAnalysis,
+  EligibilityResult,
+  EligibilityRuleResult,
+  BorrowerProfile,
+} from '../types.js';
+import { resolveEligibilityRules, type EligibilityRule } from '../config/eligibility-rules.js';
+
+export interface EligibilityOptions {
+  borrower?: BorrowerProfile;
+  investor?: string; // Key into INVESTOR_OVERLAYS (base rules when omitted)
+}
+
+/**
+ * Check eligibility for All-In-One loan
+ *
+ * Evaluates the declarative rule set in config/eligibility-rules.ts, with the
+ * selected investor overlay applied. Rules whose inputs are not available
+ * (e.g. credit score when no borrower profile is given) are reported as
+ * skipped rather than failed. Only 'fail' severity rules affect `eligible`.
+ */
+export function calculateEligibility(
+  mortgage: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  options: EligibilityOptions = {}
+): EligibilityResult {
+  const { borrower = {}, investor } = options;
+  const rules = resolveEligibilityRules(investor);
+
+  const ltv = (mortgage.currentBalance / mortgage.propertyValue) * 100;
+
+  const results = rules.map(rule => evaluateRule(rule, mortgage, cashFlow, borrower, ltv));
+
+  const reasons = results.filter(r => r.status !== 'skipped').map(r => r.message);
+  const warnings = results.filter(r => r.status === 'warn').map(r => r.message);
+  const eligible = !results.some(r => r.status === 'fail');
+
+  // Summary flags kept for existing consumers
+  const ltvPassed = results.filter(r => r.id === 'max-ltv').every(r => r.status !== 'fail');
+  const cashFlowPassed = results.filter(r => r.id === 'min-net-cash-flow').every(r => r.status !== 'fail');
+
+  return {
+    eligible,
+    ltv,
+    ltvPassed,
+    cashFlowSufficient: cashFlowPassed,
+    cashFlowPassed,
+    reasons,
+    rules: results,
+    warnings,
+    investor,
+  };
+}
+
+/**
+ * Resolve the actual value a rule is checked against
+ * Returns null when the input is not available
+ */
+function getMetricValue(
+  rule: EligibilityRule,
+  mortgage: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  borrower: BorrowerProfile,
+  ltv: number
+): number | string | boolean | null {
+  switch (rule.metric) {
+    case 'ltv':
+      return ltv;
+    case 'netCashFlow':
+      return cashFlow.netCashFlow;
+    case 'loanAmount':
+      return mortgage.currentBalance;
+    case 'propertyValue':
+      return validatePropertyValue(mortgage.propertyValue, mortgage.currentBalance);
+    case 'creditScore':
+      return borrower.creditScore ?? null;
+    case 'dti': {
+      if (borrower.monthlyDebts === undefined) return null;
+      const monthlyIncome = borrower.monthlyIncome ?? cashFlow.monthlyDeposits;
+      if (monthlyIncome === undefined) return null;
+      return calculateDTI(borrower.monthlyDebts, monthlyIncome);
+    }
+    case 'propertyType':
+      return borrower.propertyType ?? null;
+    default:
+      return null;
+  }
+}
+
+function evaluateRule(
+  rule: EligibilityRule,
+  mortgage: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  borrower: BorrowerProfile,
+  ltv: number
+): EligibilityRuleResult {
+  const actual = getMetricValue(rule, mortgage, cashFlow, borrower, ltv);
+  const base = {
+    id: rule.id,
+    label: rule.label,
+    severity: rule.severity,
+    threshold: rule.threshold,
+    actual,
+  };
+
+  if (actual === null) {
+    return { ...base, status: 'skipped', message: `${rule.label}: not evaluated (missing data)` };
+  }
+
+  let passed: boolean;
+  switch (rule.operator) {
+    case 'max':
+      passed = (actual as number) <= (rule.threshold as number);
+      break;
+    case 'min':
+      passed = (actual as number) >= (rule.threshold as number);
+      break;
+    case 'oneOf':
+      passed = (rule.threshold as string[]).includes(String(actual));
+      break;
+    case 'valid':
+      passed = actual === true;
+      break;
+    default:
+      passed = false;
+  }
+
+  return {
+    ...base,
+    status: passed ? 'pass' : rule.severity,
+    message: describeResult(rule, actual, passed),
+  };
+}
+
+function describeResult(
+  rule: EligibilityRule,
+  actual: number | string | boolean,
+  passed: boolean
+): string {
+  const threshold = rule.threshold;
+
+  switch (rule.metric) {
+    case 'ltv':
+      return passed
+        ? `LTV of ${(actual as number).toFixed(1)}% is within acceptable range`
+        : `LTV of ${(actual as number).toFixed(1)}% exceeds maximum of ${threshold}%`;
+    case 'netCashFlow':
+      return passed
+        ? `Net cash flow of $${(actual as number).toFixed(2)} meets ${rule.label.toLowerCase()} of $${threshold}`
+        : `Net cash flow of $${(actual as number).toFixed(2)} is below ${rule.label.toLowerCase()} of $${threshold}`;
+    case 'dti':
+      return passed
+        ? `DTI of ${(actual as number).toFixed(1)}% is within maximum of ${threshold}%`
+        : `DTI of ${(actual as number).toFixed(1)}% exceeds maximum of ${threshold}%`;
+    case 'creditScore':
+      return passed
+        ? `Credit score of ${actual} meets minimum of ${threshold}`
+        : `Credit score of ${actual} is below minimum of ${threshold}`;
+    case 'loanAmount': {
+      const amount = `$${(actual as number).toLocaleString()}`;
+      const limit = `$${(threshold as number).toLocaleString()}`;
+      if (rule.operator === 'min') {
+        return passed
+          ? `Loan amount of ${amount} meets minimum of ${limit}`
+          : `Loan amount of ${amount} is below minimum of ${limit}`;
+      }
+      return passed
+        ? `Loan amount of ${amount} is within maximum of ${limit}`
+        : `Loan amount of ${amount} exceeds maximum of ${limit}`;
+    }
+    case 'propertyType':
+      return passed
+        ? `Property type "${actual}" is eligible`
+        : `Property type "${actual}" is not eligible (allowed: ${(threshold as string[]).join(', ')})`;
+    case 'propertyValue':
+      return passed
+        ? 'Property value is reasonable for the loan amount'
+        : 'Property value looks inconsistent with the loan amount (verify data entry)';
+    default:
+      return `${rule.label}: ${passed ? 'passed' : 'not met'}`;
+  }
+}
+
+/**
+ * Calculate DTI (Debt-to-Income) ratio
+ */
+export function calculateDTI(
+  monthlyDebts: number,
+  monthlyIncome: number
+): number {
+  if (monthlyIncome === 0) return 100;
+  return (monthlyDebts / monthlyIncome) * 100;
+}
+
+/**
+ * Validate property value is reasonable relative to loan amount
+ */
+export function validatePropertyValue(
+  propertyValue: number,
+  loanAmount: number
+): boolean {
+  // Property value should be at least as much as the loan
+  if (propertyValue < loanAmount) return false;
+
+  // Property value shouldn't be unreasonably high (possible data entry error)
+  if (propertyValue > loanAmount * 5) return false;
+
+  return true;
+}
@@ -0,0 +1,283 @@
+/**
+ * FRED API Service
+ *
+ * Fetches current mortgage rates from Federal Reserve Economic Data (FRED)
+ * Documentation: https://fred.stlouisfed.org/docs/api/fred/
+ *
+ * Rates are read through a pluggable MortgageRateSource. FRED is the default
+ * source; tests and offline development can swap in a FixtureRateSource with
+ * setMortgageRateSource().
+ */
+
+interface FredObservation {
+  realtime_start: string;
+  realtime_end: string;
+  date: string;
+  value: string;
+}
+
+interface FredApiResponse {
+  realtime_start: string;
+  realtime_end: string;
+  observation_start: string;
+  observation_end: string;
+  units: string;
+  output_type: number;
+  file_type: string;
+  order_by: string;
+  sort_order: string;
+  count: number;
+  offset: number;
+  limit: number;
+  observations: FredObservation[];
+}
+
+export type MortgageRateSeriesId = 'MORTGAGE30US' | 'MORTGAGE15US';
+
+export const MORTGAGE_RATE_SERIES: MortgageRateSeriesId[] = ['MORTGAGE30US', 'MORTGAGE15US'];
+
+export function isMortgageRateSeries(value: string): value is MortgageRateSeriesId {
+  return (MORTGAGE_RATE_SERIES as string[]).includes(value);
+}
+
+export interface MortgageRateData {
+  rate: number;
+  date: string;
+  source: string;
+  seriesId: string;
+}
+
+export interface RateObservation {
+  date: string;  // YYYY-MM-DD
+  rate: number;  // Percent (e.g., 6.5 for 6.5%)
+}
+
+export interface RateHistory {
+  startDate: string;
+  endDate: string;
+  source: string;
+  series: Partial<Record<MortgageRateSeriesId, RateObservation[]>>;
+}
+
+export interface RateObservationQuery {
+  startDate?: string;       // YYYY-MM-DD, inclusive
+  endDate?: string;         // YYYY-MM-DD, inclusive
+  limit?: number;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * A provider of weekly mortgage rate observations
+ */
+export interface MortgageRateSource {
+  readonly name: string;
+  isConfigured(): boolean;
+  fetchObservations(seriesId: MortgageRateSeriesId, query: RateObservationQuery): Promise<RateObservation[]>;
+}
+
+/**
+ * Live FRED API source (requires FRED_API_KEY)
+ */
+export class FredRateSource implements MortgageRateSource {
+  readonly name = 'Federal Reserve Economic Data (FRED)';
+  private static readonly API_URL = 'https://api.stlouisfed.org/fred/series/observations';
+
+  isConfigured(): boolean {
+    return Boolean(process.env.FRED_API_KEY);
+  }
+
+  async fetchObservations(seriesId: MortgageRateSeriesId, query: RateObservationQuery): Promise<RateObservation[]> {
+    const FRED_API_KEY = process.env.FRED_API_KEY;
+
+    if (!FRED_API_KEY) {
+      throw new Error('FRED_API_KEY is not configured');
+    }
+
+    const url = new URL(FredRateSource.API_URL);
+    url.searchParams.append('series_id', seriesId);
+    url.searchParams.append('api_key', FRED_API_KEY);
+    url.searchParams.append('file_type', 'json');
+    url.searchParams.append('sort_order', query.sortOrder || 'asc');
+    if (query.startDate) url.searchParams.append('observation_start', query.startDate);
+    if (query.endDate) url.searchParams.append('observation_end', query.endDate);
+    if (query.limit) url.searchParams.append('limit', String(query.limit));
+
+    console.log(`Fetching mortgage rates from FRED API (series: ${seriesId})...`);
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`FRED API returned status ${response.status}: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as FredApiResponse;
+
+    // FRED reports missing weeks as "." - skip them rather than failing the series
+    return (data.observations || [])
+      .map(observation => ({ date: observation.date, rate: parseFloat(observation.value) }))
+      .filter(observation => !isNaN(observation.rate));
+  }
+}
+
+/**
+ * In-memory source backed by fixed observations (tests, offline development)
+ */
+export class FixtureRateSource implements MortgageRateSource {
+  readonly name = 'Fixture';
+
+  constructor(private readonly observations: Partial<Record<MortgageRateSeriesId, RateObservation[]>>) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async fetchObservations(seriesId: MortgageRateSeriesId, query: RateObservationQuery): Promise<RateObservation[]> {
+    const matching = (this.observations[seriesId] || [])
+      .filter(observation =>
+        (!query.startDate || observation.date >= query.startDate) &&
+        (!query.endDate || observation.date <= query.endDate)
+      )
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    if (query.sortOrder === 'desc') {
+      matching.reverse();
+    }
+
+    return query.limit ? matching.slice(0, query.limit) : matching;
+  }
+}
+
+let rateSource: MortgageRateSource = new FredRateSource();
+
+/**
+ * Replace the active rate source (clears all cached rates)
+ */
+export function setMortgageRateSource(source: MortgageRateSource): void {
+  rateSource = source;
+  cachedRates.clear();
+  cachedHistory.clear();
+}
+
+/**
+ * Fetch the latest mortgage rate for a series (defaults to 30-year fixed)
+ *
+ * @returns Current mortgage rate data
+ * @throws Error if API call fails or rate is unavailable
+ */
+export async function fetchCurrentMortgageRate(
+  seriesId: MortgageRateSeriesId = 'MORTGAGE30US'
+): Promise<MortgageRateData> {
+  if (!rateSource.isConfigured()) {
+    console.warn(`${rateSource.name} not configured, using fallback rate`);
+    // Fallback to a reasonable default if API key is not configured
+    return {
+      rate: seriesId === 'MORTGAGE15US' ? 5.75 : 6.5,
+      date: new Date().toISOString().split('T')[0],
+      source: 'Default (FRED API key not configured)',
+      seriesId
+    };
+  }
+
+  try {
+    const observations = await rateSource.fetchObservations(seriesId, { sortOrder: 'desc', limit: 10 });
+
+    if (observations.length === 0) {
+      throw new Error('No mortgage rate data available');
+    }
+
+    const latestObservation = observations[0];
+
+    console.log(`✓ Fetched current mortgage rate: ${latestObservation.rate}% (as of ${latestObservation.date})`);
+
+    return {
+      rate: latestObservation.rate,
+      date: latestObservation.date,
+      source: rateSource.name,
+      seriesId
+    };
+  } catch (error) {
+    console.error(`Error fetching mortgage rate from ${rateSource.name}:`, error);
+    throw new Error(`Failed to fetch mortgage rate: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get cached rate or fetch fresh data
+ * Implements simple in-memory caching to avoid excessive API calls
+ */
+const cachedRates = new Map<MortgageRateSeriesId, { data: MortgageRateData; timestamp: number }>();
+const cachedHistory = new Map<string, { data: RateHistory; timestamp: number }>();
+const CACHE_DURATION_MS = 60 * 60 * 1000; // 1 hour
+
+export async function getCurrentMortgageRate(
+  seriesId: MortgageRateSeriesId = 'MORTGAGE30US'
+): Promise<MortgageRateData> {
+  const now = Date.now();
+  const cached = cachedRates.get(seriesId);
+
+  // Return cached rate if still valid
+  if (cached && (now - cached.timestamp) < CACHE_DURATION_MS) {
+    console.log(`Using cached mortgage rate: ${cached.data.rate}% (cached ${Math.round((now - cached.timestamp) / 1000 / 60)} minutes ago)`);
+    return cached.data;
+  }
+
+  // Fetch fresh data
+  console.log('Cache expired or empty, fetching fresh mortgage rate...');
+  const freshRate = await fetchCurrentMortgageRate(seriesId);
+
+  // Update cache
+  cachedRates.set(seriesId, { data: freshRate, timestamp: now });
+
+  return freshRate;
+}
+
+/**
+ * Get weekly rate history for one or more series over a date range (cached)
+ *
+ * @throws Error if the rate source is not configured or a series cannot be fetched
+ */
+export async function getMortgageRateHistory(
+  startDate: string,
+  endDate: string,
+  seriesIds: MortgageRateSeriesId[] = MORTGAGE_RATE_SERIES
+): Promise<RateHistory> {
+  const cacheKey = `${seriesIds.join(',')}|${startDate}|${endDate}`;
+  const now = Date.now();
+  const cached = cachedHistory.get(cacheKey);
+
+  if (cached && (now - cached.timestamp) < CACHE_DURATION_MS) {
+    console.log(`Using cached rate history for ${cacheKey}`);
+    return cached.data;
+  }
+
+  if (!rateSource.isConfigured()) {
+    throw new Error(`Rate history unavailable: ${rateSource.name} is not configured`);
+  }
+
+  const series: RateHistory['series'] = {};
+
+  for (const seriesId of seriesIds) {
+    try {
+      series[seriesId] = await rateSource.fetchObservations(seriesId, { startDate, endDate, sortOrder: 'asc' });
+    } catch (error) {
+      console.error(`Error fetching ${seriesId} history from ${rateSource.name}:`, error);
+      throw new Error(`Failed to fetch ${seriesId} history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  const history: RateHistory = {
+    startDate,
+    endDate,
+    source: rateSource.name,
+    series,
+  };
+
+  cachedHistory.set(cacheKey, { data: history, timestamp: now });
+
+  return history;
+}
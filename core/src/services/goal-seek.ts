@@ -0,0 +1,218 @@
+/**
+ * Goal Seek
+ *
+ * Solves one input of the AIO projection for a target outcome by bisection
+ * over the AccurateLoanCalculator: the monthly leftover that pays off by a
+ * date, the highest AIO rate that still saves a set amount of interest, the
+ * largest lump-sum draw that keeps payoff within N years, and the break-even
+ * leftover where the AIO costs the same interest as the traditional loan.
+ * A value only meets a goal if the balance stays within the declining credit
+ * limit, since anything over it would have to be paid down out of pocket.
+ * Every answer comes back with the scenario simulated at the solved value.
+ */
+
+import { AccurateLoanCalculator, AccurateCalculationInput } from './loan-calculator-accurate.js';
+import { buildAccurateInput } from './loan-calculator-v3.js';
+import { calculateTraditionalLoan } from './loan-calculator.js';
+import { formatDate } from './date-helpers.js';
+import type { MortgageDetails, CashFlowAnalysis, GoalSeekGoal, GoalSeekVariable, GoalSeekScenario, GoalSeekResult } from '../types.js';
+
+export const GOAL_SEEK_TYPES: GoalSeekGoal['type'][] = ['payoff-by-date', 'rate-for-savings', 'max-draw', 'break-even'];
+
+const MAX_RATE_PERCENT = 25;
+const MAX_PAYOFF_YEARS = 30;
+const DOLLAR_TOLERANCE = 1;
+const RATE_TOLERANCE = 0.001;   // Percentage points
+const MAX_ITERATIONS = 60;
+
+/**
+ * Why a goal can't be solved, if it can't
+ */
+export function findInvalidGoal(goal: unknown): string | null {
+  if (!goal || typeof goal !== 'object') return 'goal must be an object';
+
+  const { type, targetDate, minimumSavings, maxPayoffYears, drawDate } = goal as Record<string, any>;
+  if (!GOAL_SEEK_TYPES.includes(type)) return `goal.type must be one of: ${GOAL_SEEK_TYPES.join(', ')}`;
+
+  const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  if (type === 'payoff-by-date' && !isDate(targetDate)) return 'goal.targetDate needs a YYYY-MM-DD date';
+  if (type === 'rate-for-savings' && (typeof minimumSavings !== 'number' || !isFinite(minimumSavings))) {
+    return 'goal.minimumSavings needs a numeric amount';
+  }
+  if (type === 'max-draw') {
+    if (typeof maxPayoffYears !== 'number' || !(maxPayoffYears > 0) || maxPayoffYears > MAX_PAYOFF_YEARS) {
+      return `goal.maxPayoffYears must be more than 0 and at most ${MAX_PAYOFF_YEARS}`;
+    }
+    if (drawDate !== undefined && !isDate(drawDate)) return 'goal.drawDate needs a YYYY-MM-DD date';
+  }
+
+  return null;
+}
+
+/**
+ * Bisect a monotone test over [low, high]
+ * - 'min': smallest value that meets the goal (meeting it gets easier as the value grows)
+ * - 'max': largest value that meets the goal (meeting it gets harder as the value grows)
+ */
+function bisect(
+  low: number,
+  high: number,
+  tolerance: number,
+  direction: 'min' | 'max',
+  meetsGoal: (value: number) => boolean
+): { value: number | null; iterations: number } {
+  let iterations = 0;
+  const test = (value: number) => {
+    iterations++;
+    return meetsGoal(value);
+  };
+
+  // The end that meets the goal most easily decides whether any value can
+  const easiest = direction === 'min' ? high : low;
+  if (!test(easiest)) return { value: null, iterations };
+  const hardest = direction === 'min' ? low : high;
+  if (test(hardest)) return { value: hardest, iterations };
+
+  // Invariant: `easiest` meets the goal, `hardest` doesn't
+  let met = easiest;
+  let missed = hardest;
+  while (Math.abs(met - missed) > tolerance && iterations < MAX_ITERATIONS) {
+    const mid = (met + missed) / 2;
+    if (test(mid)) met = mid;
+    else missed = mid;
+  }
+
+  return { value: met, iterations };
+}
+
+/**
+ * Accurate input with the monthly leftover changed; deposits keep their
+ * timing and income only rises when the leftover is more than it
+ */
+function withMonthlyLeftover(input: AccurateCalculationInput, monthlyLeftover: number): AccurateCalculationInput {
+  const monthlyIncome = Math.max(input.monthlyIncome, monthlyLeftover);
+  return { ...input, monthlyIncome, monthlyExpenses: monthlyIncome - monthlyLeftover };
+}
+
+function withDraw(input: AccurateCalculationInput, drawAmount: number, drawDate: string): AccurateCalculationInput {
+  if (drawAmount <= 0) return input;
+  return {
+    ...input,
+    lifeEvents: [
+      ...(input.lifeEvents || []),
+      { id: 'goal-seek-draw', type: 'lump-sum-draw', date: drawDate, amount: drawAmount, description: 'Goal-seek draw' },
+    ],
+  };
+}
+
+/**
+ * Solve the goal against the borrower's mortgage and cash flow
+ */
+export function seekGoal(
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  goal: GoalSeekGoal
+): GoalSeekResult {
+  const startDate = new Date();
+  const baseInput = buildAccurateInput(mortgageDetails, cashFlow, startDate);
+  const traditionalLoan = calculateTraditionalLoan(mortgageDetails, startDate);
+  const currentLeftover = baseInput.monthlyIncome - baseInput.monthlyExpenses;
+  const drawDate = goal.type === 'max-draw' && goal.drawDate ? goal.drawDate : formatDate(startDate);
+
+  const run = (input: AccurateCalculationInput) => AccurateLoanCalculator.simulate(input, { quiet: true }).summary;
+  const withinCreditLimit = (summary: ReturnType<typeof run>) => summary.creditLimitBreaches.length === 0;
+
+  let variable: GoalSeekVariable;
+  let searchRange: { low: number; high: number };
+  let direction: 'min' | 'max';
+  let tolerance = DOLLAR_TOLERANCE;
+  let inputFor: (value: number) => AccurateCalculationInput;
+  let meetsGoal: (summary: ReturnType<typeof run>) => boolean;
+
+  switch (goal.type) {
+    case 'payoff-by-date': {
+      const [year, month, day] = goal.targetDate.split('-').map(Number);
+      const target = new Date(year, month - 1, day);
+      variable = 'monthly-leftover';
+      direction = 'min';
+      // A leftover the size of the balance clears it in the first month
+      searchRange = { low: 0, high: Math.max(baseInput.startingBalance, currentLeftover, DOLLAR_TOLERANCE) };
+      inputFor = value => withMonthlyLeftover(baseInput, value);
+      meetsGoal = summary => summary.payoffDate !== null && summary.payoffDate <= target && withinCreditLimit(summary);
+      break;
+    }
+    case 'rate-for-savings':
+      variable = 'aio-rate';
+      direction = 'max';
+      tolerance = RATE_TOLERANCE;
+      searchRange = { low: 0, high: MAX_RATE_PERCENT };
+      inputFor = value => ({ ...baseInput, interestRate: value / 100 });
+      meetsGoal = summary => traditionalLoan.totalInterestPaid - summary.totalInterestPaid >= goal.minimumSavings
+        && withinCreditLimit(summary);
+      break;
+    case 'max-draw': {
+      const maxPayoffMonths = Math.floor(goal.maxPayoffYears * 12);
+      variable = 'draw-amount';
+      direction = 'max';
+      searchRange = { low: 0, high: Math.max(0, baseInput.propertyValue * baseInput.loanToValue) };
+      inputFor = value => withDraw(baseInput, value, drawDate);
+      meetsGoal = summary => summary.monthsToPayoff !== null && summary.monthsToPayoff <= maxPayoffMonths && withinCreditLimit(summary);
+      break;
+    }
+    case 'break-even':
+      variable = 'monthly-leftover';
+      direction = 'min';
+      searchRange = { low: 0, high: Math.max(baseInput.startingBalance, currentLeftover, DOLLAR_TOLERANCE) };
+      inputFor = value => withMonthlyLeftover(baseInput, value);
+      meetsGoal = summary => summary.monthsToPayoff !== null
+        && withinCreditLimit(summary)
+        && summary.totalInterestPaid <= traditionalLoan.totalInterestPaid;
+      break;
+  }
+
+  console.log(`🎯 Goal seek: ${goal.type}, solving ${variable} over ${searchRange.low}-${searchRange.high.toFixed(0)}`);
+
+  const search = bisect(searchRange.low, searchRange.high, tolerance, direction, value => meetsGoal(run(inputFor(value))));
+
+  // Round toward the side that still meets the goal
+  let value: number | null = null;
+  if (search.value !== null) {
+    const scale = 1 / tolerance;
+    value = direction === 'min'
+      ? Math.min(searchRange.high, Math.ceil(search.value * scale) / scale)
+      : Math.max(searchRange.low, Math.floor(search.value * scale) / scale);
+  }
+
+  // Unreachable goals report the end of the range that came closest
+  const scenarioValue = value ?? (direction === 'min' ? searchRange.high : searchRange.low);
+  const scenarioInput = inputFor(scenarioValue);
+  const summary = run(scenarioInput);
+
+  const scenario: GoalSeekScenario = {
+    monthlyLeftover: scenarioInput.monthlyIncome - scenarioInput.monthlyExpenses,
+    aioInterestRate: Math.round(scenarioInput.interestRate * 100000) / 1000,
+    drawAmount: variable === 'draw-amount' ? scenarioValue : 0,
+    payoffDate: summary.payoffDate,
+    payoffMonths: summary.monthsToPayoff,
+    totalInterestPaid: summary.totalInterestPaid,
+    interestSavings: traditionalLoan.totalInterestPaid - summary.totalInterestPaid,
+    maxOverCreditLimit: Math.max(0, ...summary.creditLimitBreaches.map(breach => breach.maxExcess)),
+  };
+
+  console.log(`🎯 Goal seek complete: ${variable} = ${value ?? 'unreachable'} after ${search.iterations + 1} simulations`);
+
+  return {
+    goal,
+    variable,
+    value,
+    achievable: value !== null,
+    searchRange,
+    iterations: search.iterations + 1,
+    scenario,
+    traditional: {
+      totalInterestPaid: traditionalLoan.totalInterestPaid,
+      payoffMonths: traditionalLoan.payoffMonths,
+    },
+  };
+}
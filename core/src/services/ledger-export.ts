@@ -0,0 +1,163 @@
+/**
+ * AIO Ledger Export
+ *
+ * Turns the AccurateLoanCalculator's daily results into a ledger that
+ * underwriters and borrowers can audit, either day by day or rolled up by
+ * calendar month, and writes it out as CSV or XLSX.
+ */
+
+import xlsx from 'xlsx';
+import { AccurateLoanCalculator, AccurateSimulationResult, AioLoanOptions, DailyCalculationResult } from './loan-calculator-accurate.js';
+import { buildAccurateInput } from './loan-calculator-v3.js';
+import { formatDate } from './date-helpers.js';
+import type { MortgageDetails, CashFlowAnalysis } from '../types.js';
+
+export type LedgerGranularity = 'daily' | 'monthly';
+export type LedgerFormat = 'csv' | 'xlsx';
+
+export interface LedgerRow {
+  [column: string]: string | number;
+}
+
+export interface LedgerExport {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * One row per simulated day
+ */
+export function buildDailyLedger(dailyResults: DailyCalculationResult[]): LedgerRow[] {
+  return dailyResults.map(day => ({
+    'Day': day.dayIndex,
+    'Date': formatDate(day.date),
+    'Starting Balance': cents(day.startingBalance),
+    'Deposits': cents(day.deposits),
+    'Withdrawals': cents(day.withdrawals),
+    'Net Cash Flow': cents(day.netCashFlow),
+    'Interim Balance': cents(day.interimBalance),
+    'Annual Rate (%)': Number((day.annualInterestRate * 100).toFixed(4)),
+    'Interest Accrued': cents(day.dailyInterestAccrued),
+    'Accumulated Interest': cents(day.accumulatedInterest),
+    'Interest Posted': cents(day.interestPosted),
+    'Interest Paid': cents(day.interestPaid),
+    'Required Paydown': cents(day.requiredPaydown),
+    'Homestead P&I Due': cents(day.requiredPayment),
+    'Homestead Principal Draw': cents(day.requiredPrincipalDraw),
+    'Credit Limit': cents(day.creditLimit),
+    'Available Credit': cents(day.availableCredit),
+    'Over Credit Limit': cents(Math.max(0, -day.availableCredit)),
+    'Ending Balance': cents(day.endingBalance),
+  }));
+}
+
+/**
+ * One row per calendar month: flows are summed, balances and limits are
+ * taken from the first/last day of the month, and the amount over the credit
+ * limit is the month's worst day
+ */
+export function buildMonthlyLedger(dailyResults: DailyCalculationResult[]): LedgerRow[] {
+  const months = new Map<string, DailyCalculationResult[]>();
+
+  for (const day of dailyResults) {
+    const key = formatDate(day.date).slice(0, 7);
+    const days = months.get(key) || [];
+    days.push(day);
+    months.set(key, days);
+  }
+
+  const sum = (days: DailyCalculationResult[], field: keyof DailyCalculationResult) =>
+    cents(days.reduce((total, day) => total + (day[field] as number), 0));
+
+  return Array.from(months.entries()).map(([month, days]) => {
+    const first = days[0];
+    const last = days[days.length - 1];
+    const overLimit = Math.max(0, ...days.map(day => -day.availableCredit));
+
+    return {
+      'Month': month,
+      'Days': days.length,
+      'Starting Balance': cents(first.startingBalance),
+      'Deposits': sum(days, 'deposits'),
+      'Withdrawals': sum(days, 'withdrawals'),
+      'Net Cash Flow': sum(days, 'netCashFlow'),
+      'Annual Rate (%)': Number((last.annualInterestRate * 100).toFixed(4)),
+      'Interest Accrued': sum(days, 'dailyInterestAccrued'),
+      'Interest Posted': sum(days, 'interestPosted'),
+      'Interest Paid': sum(days, 'interestPaid'),
+      'Required Paydown': sum(days, 'requiredPaydown'),
+      'Homestead P&I Due': sum(days, 'requiredPayment'),
+      'Homestead Principal Draw': sum(days, 'requiredPrincipalDraw'),
+      'Credit Limit': cents(last.creditLimit),
+      'Available Credit': cents(last.availableCredit),
+      'Max Over Credit Limit': cents(overLimit),
+      'Ending Balance': cents(last.endingBalance),
+    };
+  });
+}
+
+function buildSummaryRows(summary: AccurateSimulationResult['summary']): LedgerRow[] {
+  return [
+    { 'Metric': 'Total Interest Paid', 'Value': cents(summary.totalInterestPaid) },
+    { 'Metric': 'Final Balance', 'Value': cents(summary.finalBalance) },
+    { 'Metric': 'Payoff Date', 'Value': summary.payoffDate ? formatDate(summary.payoffDate) : 'Not paid off' },
+    { 'Metric': 'Months to Payoff', 'Value': summary.monthsToPayoff ?? 'Not paid off' },
+    { 'Metric': 'Total Required Paydown', 'Value': cents(summary.totalRequiredPaydown) },
+    { 'Metric': 'Credit Limit Breaches', 'Value': summary.creditLimitBreaches.length },
+    {
+      'Metric': 'Lowest Available Credit',
+      'Value': summary.worstHeadroom ? cents(summary.worstHeadroom.amount) : 'N/A',
+    },
+    {
+      'Metric': 'Homestead Switch',
+      'Value': summary.homesteadSwitch
+        ? `${formatDate(summary.homesteadSwitch.switchDate)} ($${summary.homesteadSwitch.monthlyPayment.toFixed(2)}/mo)`
+        : 'N/A',
+    },
+  ];
+}
+
+/**
+ * Run the accurate simulation and export its ledger. Passing the
+ * `startDate` /simulate-loan returned reproduces the run behind its results.
+ */
+export function exportLedger(
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  granularity: LedgerGranularity = 'monthly',
+  format: LedgerFormat = 'csv',
+  loanOptions: AioLoanOptions = {},
+  startDate: Date = new Date()
+): LedgerExport {
+  const result = AccurateLoanCalculator.simulate(buildAccurateInput(mortgageDetails, cashFlow, startDate, loanOptions));
+
+  const rows = granularity === 'daily'
+    ? buildDailyLedger(result.dailyResults)
+    : buildMonthlyLedger(result.dailyResults);
+
+  const filename = `aio-ledger-${granularity}-${formatDate(new Date())}.${format}`;
+  const ledgerSheet = xlsx.utils.json_to_sheet(rows);
+
+  if (format === 'csv') {
+    return {
+      filename,
+      contentType: 'text/csv; charset=utf-8',
+      body: Buffer.from(xlsx.utils.sheet_to_csv(ledgerSheet), 'utf-8'),
+    };
+  }
+
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.json_to_sheet(buildSummaryRows(result.summary)), 'Summary');
+  xlsx.utils.book_append_sheet(workbook, ledgerSheet, granularity === 'daily' ? 'Daily Ledger' : 'Monthly Ledger');
+
+  return {
+    filename,
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    body: xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer,
+  };
+}
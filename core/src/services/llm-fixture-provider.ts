@@ -0,0 +1,102 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { fixturePath, type ChatRequest, type DocumentExtractionRequest, type JsonCompletionRequest, type LlmProvider } from './llm-provider.js';
+import { applyCategorizationRules } from './rule-categorizer.js';
+import { summarizeCategorized } from './llm-output-validator.js';
+
+/**
+ * Fixture Provider (offline)
+ *
+ * Deterministic stand-in for the model, for local runs and tests without
+ * network access or API keys. Each call first replays a recorded response
+ * (see LLM_RECORD_FIXTURES in llm-provider.ts), then falls back to:
+ * - extraction: <fixture dir>/extraction/<uploaded file name>.txt, written by
+ *   hand in the extraction output format; there is no way to invent rows, so
+ *   an unrecorded repair re-ask returns nothing
+ * - categorization: the deterministic rules, then the amount's sign
+ *   (deposits → income, debits over $1,000 → one-time, other debits → expense)
+ * - generation: a canned reply that echoes the request
+ */
+
+// Reported confidence for rule/sign-based categorization
+const FIXTURE_CONFIDENCE = 0.75;
+
+// Debits at least this large are treated as one-time when no rule matches
+const ONE_TIME_THRESHOLD = 1000;
+
+function readFixture(file: string): string | null {
+  return existsSync(file) ? readFileSync(file, 'utf-8') : null;
+}
+
+/**
+ * Categorize without a model, in the shape the categorization prompts ask for
+ */
+function categorizeOffline(transactions: any[], currentHousingPayment: number) {
+  const { categorized, unmatched } = applyCategorizationRules(transactions, currentHousingPayment);
+
+  const fallback = unmatched.map(transaction => {
+    const amount = Number(transaction.amount) || 0;
+    return {
+      ...transaction,
+      amount,
+      category: amount > 0 ? 'income' : amount <= -ONE_TIME_THRESHOLD ? 'one-time' : 'expense',
+      flagged: false,
+      monthYear: transaction.monthYear || String(transaction.date || '').substring(0, 7),
+    };
+  });
+
+  const all = [...categorized, ...fallback];
+
+  return {
+    transactions: all,
+    ...summarizeCategorized(all),
+    confidence: FIXTURE_CONFIDENCE,
+    depositFrequency: 'monthly',
+  };
+}
+
+export function createFixtureProvider(fixtureDir: string): LlmProvider {
+  return {
+    name: 'fixture',
+
+    async extractDocument(request: DocumentExtractionRequest): Promise<string> {
+      const recordedPath = fixturePath({ task: 'extraction', request });
+      if (request.purpose === 'extraction-repair') return readFixture(recordedPath) ?? '';
+
+      const namedPath = path.join(fixtureDir, 'extraction', `${request.document.filename}.txt`);
+      const content = readFixture(recordedPath) ?? readFixture(namedPath);
+
+      if (content === null) {
+        throw new Error(
+          `No extraction fixture for ${request.document.filename} (expected ${path.relative(fixtureDir, namedPath)} or ${path.relative(fixtureDir, recordedPath)} in ${fixtureDir})`
+        );
+      }
+
+      // Replay line by line so streaming consumers (page tracking) see what they would live
+      for (const line of content.split(/(?<=\n)/)) {
+        request.onText?.(line);
+      }
+
+      return content;
+    },
+
+    async completeJson(request: JsonCompletionRequest): Promise<string> {
+      const recorded = readFixture(fixturePath({ task: 'categorization', request }));
+      if (recorded !== null) return recorded;
+
+      if (!request.input) {
+        throw new Error(`No ${request.purpose} fixture recorded and no structured input to categorize offline`);
+      }
+
+      return JSON.stringify(categorizeOffline(request.input.transactions, request.input.currentHousingPayment || 0));
+    },
+
+    async generateChat(request: ChatRequest): Promise<string> {
+      const recorded = readFixture(fixturePath({ task: 'generation', request }));
+      if (recorded !== null) return recorded;
+
+      const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+      return `[Offline ${request.purpose} response] ${(lastUserMessage?.content || '').substring(0, 200)}`;
+    },
+  };
+}
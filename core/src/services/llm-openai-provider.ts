@@ -0,0 +1,122 @@
+import OpenAI from 'openai';
+import type { LlmTaskConfig } from '../config/llm-tasks.js';
+import type { ChatRequest, DocumentExtractionRequest, JsonCompletionRequest, LlmProvider } from './llm-provider.js';
+
+/**
+ * OpenAI / OpenRouter Provider
+ *
+ * Smart AI routing with two clients:
+ * 1. OpenRouter (Gemini) → PDF and image vision extraction (native PDF input)
+ * 2. OpenAI Direct (GPT-4o / GPT-4) → JSON categorization and chat generation
+ *
+ * Every call is deterministic where the API allows it (temperature from the
+ * task config, top_p=1, fixed seed).
+ */
+
+export function createOpenAIProvider(): LlmProvider {
+  const openaiDirect = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+
+  const openRouter = new OpenAI({
+    apiKey: process.env.OPENROUTER_API_KEY,
+    baseURL: 'https://openrouter.ai/api/v1',
+    defaultHeaders: {
+      'HTTP-Referer': process.env.YOUR_SITE_URL || 'https://aio-simulator.cmgfinancial.ai',
+      'X-Title': 'All-In-One Look Back Simulator',
+    },
+  });
+
+  return {
+    name: 'openai',
+
+    /**
+     * Streamed so callers can follow progress (e.g. page markers) as the model writes
+     */
+    async extractDocument(request: DocumentExtractionRequest, config: LlmTaskConfig): Promise<string> {
+      const { document } = request;
+      const dataUrl = `data:${document.mimeType};base64,${document.data.toString('base64')}`;
+
+      const documentPart = document.mimeType === 'application/pdf'
+        ? {
+            type: 'file', // OpenRouter-specific file type
+            file: {
+              filename: document.filename,
+              file_data: dataUrl,
+            },
+          }
+        : {
+            type: 'image_url',
+            image_url: { url: dataUrl },
+          };
+
+      console.log(`   🌐 OpenRouter ${config.model}: ${document.filename} (${document.data.length} bytes)`);
+
+      const stream = await openRouter.chat.completions.create({
+        model: config.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt },
+              documentPart,
+            ],
+          },
+        ],
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        top_p: 1, // Disable nucleus sampling for maximum consistency
+        seed: 42, // Fixed seed for reproducibility (may not be supported by all models)
+        stream: true,
+      } as any, {
+        timeout: config.timeoutMs,
+      }) as any;
+
+      let content = '';
+      for await (const chunk of stream) {
+        const delta: string = chunk.choices?.[0]?.delta?.content || '';
+        content += delta;
+        if (delta) request.onText?.(delta);
+      }
+
+      return content;
+    },
+
+    async completeJson(request: JsonCompletionRequest, config: LlmTaskConfig): Promise<string> {
+      const response = await openaiDirect.chat.completions.create({
+        model: config.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: config.temperature,
+        top_p: 1,
+        seed: 42,
+        max_tokens: config.maxTokens,
+      }, {
+        timeout: config.timeoutMs,
+      });
+
+      // Log system fingerprint for reproducibility verification
+      if (response.system_fingerprint) {
+        console.log(`🔑 System fingerprint: ${response.system_fingerprint} (use this to verify consistent backend)`);
+      }
+
+      return response.choices[0]?.message?.content || '{}';
+    },
+
+    async generateChat(request: ChatRequest, config: LlmTaskConfig): Promise<string> {
+      const response = await openaiDirect.chat.completions.create({
+        model: config.model,
+        messages: request.messages,
+        temperature: request.temperature ?? config.temperature,
+        max_tokens: request.maxTokens ?? config.maxTokens,
+      }, {
+        timeout: config.timeoutMs,
+      });
+
+      return response.choices[0]?.message?.content || '';
+    },
+  };
+}
@@ -0,0 +1,314 @@
+import { normalizeDate, parseAmount } from './statement-parsers.js';
+import { isStatementHeaderLine, parsePageMarker } from './statement-reconciler.js';
+import type { LlmOutputIssue, MonthlyBreakdown, Transaction } from '../types.js';
+
+/**
+ * LLM Output Validator
+ *
+ * Runtime schemas for what the models return: the categorization JSON
+ * (OpenAIAnalysisResult) and the pipe-delimited extraction text. Outputs are
+ * checked against the input, not only for shape - every input transaction
+ * must come back exactly once with its date and amount unchanged and a valid
+ * category, and every statement page must be present - so the caller can
+ * re-ask for just the rows that failed.
+ */
+
+export const TRANSACTION_CATEGORIES: Transaction['category'][] = ['income', 'expense', 'housing', 'one-time', 'recurring'];
+
+export const DEPOSIT_FREQUENCIES = ['weekly', 'biweekly', 'semi-monthly', 'monthly'];
+
+// Amounts within half a cent are the same amount
+const AMOUNT_TOLERANCE = 0.005;
+
+// "2024-10-24 | CMG MORTGAGE INC PAYROLL | +9233.45"
+const EXTRACTED_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const EXTRACTED_AMOUNT = /^[+-]?\$?\d[\d,]*(\.\d+)?$/;
+
+// The closing count line the extraction prompts ask for: "TOTAL TRANSACTIONS: 42"
+// Anchored to the whole line so prose like "Transactions for 2024" isn't read as a count
+const STATED_COUNT = /^\**\s*total\s+transactions\s*:\s*(\d[\d,]*)\s*\**\.?$/i;
+
+/**
+ * Parse a JSON object response, tolerating a markdown code fence around it
+ */
+export function parseJsonObject(raw: string): Record<string, any> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    const fenced = raw.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (!fenced) throw error;
+    parsed = JSON.parse(fenced[1]);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected a JSON object');
+  }
+  return parsed as Record<string, any>;
+}
+
+// ==================== CATEGORIZATION ====================
+
+export interface CategorizationCheck {
+  rows: Map<number, any>;    // Valid rows by input index, with the input's exact date and amount
+  issues: LlmOutputIssue[];
+  failed: number[];          // Input indexes still without a valid row, ascending
+}
+
+/**
+ * Tag each input transaction with its index ("i") so output rows can be matched back
+ */
+export function indexTransactions(transactions: any[]): any[] {
+  return transactions.map((transaction, i) => ({ i, ...transaction }));
+}
+
+function sameDate(a: unknown, b: unknown): boolean {
+  const normalized = normalizeDate(a);
+  return normalized !== null && normalized === normalizeDate(b);
+}
+
+function sameAmount(value: unknown, expected: unknown): boolean {
+  const amount = parseAmount(value);
+  return amount !== null && Math.abs(amount - (Number(expected) || 0)) < AMOUNT_TOLERANCE;
+}
+
+/**
+ * What is wrong with an output row compared with the input transaction it answers, if anything
+ */
+function checkRow(row: Record<string, any>, input: any): Omit<LlmOutputIssue, 'index'> | null {
+  if (!sameDate(row.date, input.date)) {
+    return { type: 'date-changed', message: `Date changed from ${input.date} to ${row.date ?? 'nothing'}` };
+  }
+  if (!sameAmount(row.amount, input.amount)) {
+    return { type: 'amount-changed', message: `Amount changed from ${input.amount} to ${row.amount ?? 'nothing'}` };
+  }
+  if (!TRANSACTION_CATEGORIES.includes(row.category)) {
+    return { type: 'invalid-category', message: `Invalid category "${row.category ?? ''}"` };
+  }
+  return null;
+}
+
+/**
+ * Match categorized rows back to the input transactions and check each one
+ *
+ * Rows are matched by their "i" (see indexTransactions), falling back to the
+ * first unmatched input with the same date and amount when "i" is missing.
+ *
+ * @param output - The response's "transactions" value
+ * @param input - Every transaction of the chunk (without "i"), in the order they were indexed
+ * @param expected - Input indexes this response should answer
+ */
+export function checkCategorizedRows(output: unknown, input: any[], expected: number[]): CategorizationCheck {
+  const issues: LlmOutputIssue[] = [];
+  const rows = new Map<number, any>();
+  const pending = new Set(expected);
+
+  if (!Array.isArray(output)) {
+    issues.push({ type: 'schema', message: '"transactions" is not an array' });
+    output = [];
+  }
+
+  for (const row of output as unknown[]) {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      issues.push({ type: 'schema', message: 'Transaction row is not an object' });
+      continue;
+    }
+
+    const { i, ...fields } = row as Record<string, any>;
+    const index = Number.isInteger(i) && pending.has(i)
+      ? i as number
+      : [...pending].find(candidate => sameDate(fields.date, input[candidate].date) && sameAmount(fields.amount, input[candidate].amount));
+
+    if (index === undefined) {
+      issues.push({ type: 'extra', message: `Row matches no input transaction: ${fields.date} ${fields.description} ${fields.amount}` });
+      continue;
+    }
+
+    const problem = checkRow(fields, input[index]);
+    if (problem) {
+      issues.push({ ...problem, index });
+      continue;
+    }
+
+    const original = input[index];
+    pending.delete(index);
+    rows.set(index, {
+      ...original,
+      ...fields,
+      date: original.date,
+      amount: Number(original.amount),
+      description: typeof fields.description === 'string' && fields.description ? fields.description : original.description,
+      flagged: fields.flagged === true,
+      monthYear: fields.monthYear || String(original.date || '').substring(0, 7),
+    });
+  }
+
+  const reported = new Set(issues.map(issue => issue.index));
+  for (const index of pending) {
+    if (!reported.has(index)) {
+      issues.push({ type: 'missing', index, message: `Missing: ${input[index].date} ${input[index].description} ${input[index].amount}` });
+    }
+  }
+
+  return { rows, issues, failed: [...pending].sort((a, b) => a - b) };
+}
+
+/**
+ * Check the chunk-level fields of a categorization response
+ * (totals, confidence, deposit frequency and the monthly breakdown when present)
+ */
+export function checkCategorizationSummary(result: Record<string, any>): LlmOutputIssue[] {
+  const issues: LlmOutputIssue[] = [];
+  const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+
+  for (const field of ['totalIncome', 'totalExpenses']) {
+    if (!isNumber(result[field])) {
+      issues.push({ type: 'schema', message: `"${field}" is not a number` });
+    }
+  }
+  if (result.netCashFlow !== undefined && !isNumber(result.netCashFlow)) {
+    issues.push({ type: 'schema', message: '"netCashFlow" is not a number' });
+  }
+  if (!isNumber(result.confidence) || result.confidence < 0 || result.confidence > 1) {
+    issues.push({ type: 'schema', message: '"confidence" is not a number between 0 and 1' });
+  }
+  if (result.depositFrequency !== undefined && !DEPOSIT_FREQUENCIES.includes(result.depositFrequency)) {
+    issues.push({ type: 'schema', message: `Invalid depositFrequency "${result.depositFrequency}"` });
+  }
+  if (result.monthlyBreakdown !== undefined) {
+    const months = Array.isArray(result.monthlyBreakdown) ? result.monthlyBreakdown : null;
+    const validMonth = (month: any) =>
+      month && /^\d{4}-\d{2}$/.test(month.month) &&
+      ['income', 'expenses', 'netCashFlow', 'transactionCount'].every(field => isNumber(month[field]));
+
+    if (!months || !months.every(validMonth)) {
+      issues.push({ type: 'schema', message: '"monthlyBreakdown" is not a list of {month, income, expenses, netCashFlow, transactionCount}' });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Monthly breakdown and totals of categorized transactions
+ * Expenses are expense + housing; one-time and excluded transactions don't count
+ */
+export function summarizeCategorized(transactions: any[]): {
+  monthlyBreakdown: MonthlyBreakdown[];
+  totalIncome: number;
+  totalExpenses: number;
+  netCashFlow: number;
+} {
+  const months = new Map<string, MonthlyBreakdown>();
+
+  for (const transaction of transactions) {
+    const key = transaction.monthYear || String(transaction.date || '').substring(0, 7);
+    const month = months.get(key) || { month: key, income: 0, expenses: 0, netCashFlow: 0, transactionCount: 0 };
+    month.transactionCount++;
+    if (!transaction.excluded) {
+      if (transaction.category === 'income') month.income += Math.abs(transaction.amount);
+      if (transaction.category === 'expense' || transaction.category === 'housing') month.expenses += Math.abs(transaction.amount);
+    }
+    month.netCashFlow = month.income - month.expenses;
+    months.set(key, month);
+  }
+
+  const monthlyBreakdown = Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+  const totalIncome = monthlyBreakdown.reduce((sum, month) => sum + month.income, 0);
+  const totalExpenses = monthlyBreakdown.reduce((sum, month) => sum + month.expenses, 0);
+
+  return { monthlyBreakdown, totalIncome, totalExpenses, netCashFlow: totalIncome - totalExpenses };
+}
+
+// ==================== EXTRACTION ====================
+
+export interface ExtractionCheck {
+  lines: string[];           // Header, page marker and well-formed transaction lines, in order
+  transactionCount: number;
+  malformed: Array<{ line: number; text: string; reason: string }>;
+  missingPages: number[];
+  statedCount?: number;      // From the closing "TOTAL TRANSACTIONS: n" line
+  issues: LlmOutputIssue[];
+}
+
+function isCalendarDate(value: string): boolean {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Why an extracted transaction line is malformed, if it is
+ */
+function checkExtractedRow(parts: string[]): string | null {
+  if (parts.length < 3) return 'expected "date | description | amount"';
+
+  const [date, description, amount] = parts;
+  if (!EXTRACTED_DATE.test(date) || !isCalendarDate(date)) return `invalid date "${date}"`;
+  if (!description) return 'missing description';
+  if (!EXTRACTED_AMOUNT.test(amount.replace(/\s/g, ''))) return `invalid amount "${amount}"`;
+  return null;
+}
+
+/**
+ * Check the vision model's extraction output: well-formed transaction rows,
+ * no missing pages (when the output has PAGE markers) and a row count that
+ * matches the count the model stated
+ */
+export function checkExtraction(content: string): ExtractionCheck {
+  const lines: string[] = [];
+  const malformed: ExtractionCheck['malformed'] = [];
+  const pages = new Set<number>();
+  let totalPages = 0;
+  let transactionCount = 0;
+  let statedCount: number | undefined;
+
+  content.split('\n').forEach((line, lineIndex) => {
+    const text = line.trim();
+    if (!text) return;
+
+    if (!text.includes('|')) {
+      const stated = text.match(STATED_COUNT);
+      if (stated) statedCount = parseInt(stated[1].replace(/,/g, ''), 10);
+      return;
+    }
+
+    const marker = parsePageMarker(text);
+    if (marker) {
+      pages.add(marker.page);
+      totalPages = Math.max(totalPages, marker.totalPages || 0, marker.page);
+    }
+    if (isStatementHeaderLine(text)) {
+      lines.push(text);
+      return;
+    }
+
+    const parts = text.split('|').map(part => part.trim());
+    const reason = checkExtractedRow(parts);
+    if (reason) {
+      malformed.push({ line: lineIndex + 1, text, reason });
+      return;
+    }
+
+    lines.push(text);
+    transactionCount++;
+  });
+
+  const missingPages: number[] = [];
+  for (let page = 1; pages.size > 0 && page <= totalPages; page++) {
+    if (!pages.has(page)) missingPages.push(page);
+  }
+
+  const issues: LlmOutputIssue[] = [
+    ...malformed.map(row => ({ type: 'malformed' as const, index: row.line, message: `Line ${row.line}: ${row.reason}` })),
+    ...missingPages.map(page => ({ type: 'missing-page' as const, message: `Page ${page} of ${totalPages} has no PAGE marker or rows` })),
+  ];
+  if (statedCount !== undefined && statedCount !== transactionCount + malformed.length) {
+    issues.push({
+      type: 'count-mismatch',
+      message: `Model stated ${statedCount} transactions but wrote ${transactionCount + malformed.length} rows`,
+    });
+  }
+
+  return { lines, transactionCount, malformed, missingPages, statedCount, issues };
+}
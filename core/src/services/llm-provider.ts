@@ -0,0 +1,243 @@
+import { createHash } from 'crypto';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { LLM_RETRY_DELAY_MS, LLM_TASKS, type LlmTask, type LlmTaskConfig } from '../config/llm-tasks.js';
+
+/**
+ * LLM Provider
+ *
+ * Every model call goes through one of three task functions, which apply the
+ * task's model, timeout and attempts from config/llm-tasks.ts and hand the
+ * call to the configured provider:
+ * - extractDocument: vision extraction of a PDF or image statement
+ * - completeJson: transaction categorization (JSON object output)
+ * - generateChat: pitch copy and the pitch guide
+ *
+ * LLM_PROVIDER selects the provider:
+ * - 'openai' (default): OpenRouter for vision, OpenAI for JSON and chat
+ * - 'fixture': deterministic and offline; replays recorded responses from
+ *   LLM_FIXTURE_DIR and falls back to rule-based answers (no network, no keys)
+ *
+ * With LLM_RECORD_FIXTURES=true, responses from a live provider are written to
+ * LLM_FIXTURE_DIR so the fixture provider can replay them.
+ */
+
+export interface DocumentExtractionRequest {
+  purpose: 'extraction' | 'extraction-repair';
+  prompt: string;
+  document: {
+    filename: string;
+    mimeType: string;
+    data: Buffer;
+  };
+  timeoutMs?: number;                      // Shorter than the task default (e.g. single images)
+  onText?: (delta: string) => void;        // Output as it streams in
+  onAttempt?: (attempt: number) => void;
+}
+
+export interface JsonCompletionRequest {
+  purpose: string;                         // Short label for logs and fixture folders, e.g. 'categorize-chunk'
+  system: string;
+  prompt: string;
+  // Structured copy of the data embedded in the prompt, so the fixture provider can answer without a model
+  input?: {
+    transactions: any[];
+    currentHousingPayment?: number;
+  };
+  timeoutMs?: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  purpose: string;                         // e.g. 'pitch-guide'
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  extractDocument(request: DocumentExtractionRequest, config: LlmTaskConfig): Promise<string>;
+  completeJson(request: JsonCompletionRequest, config: LlmTaskConfig): Promise<string>;
+  generateChat(request: ChatRequest, config: LlmTaskConfig): Promise<string>;
+}
+
+const DEFAULT_FIXTURE_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../test/fixtures/llm');
+
+let activeProvider: LlmProvider | null = null;
+
+export function getFixtureDir(): string {
+  return process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR;
+}
+
+/**
+ * The provider selected by LLM_PROVIDER (created on first use)
+ */
+export async function getLlmProvider(): Promise<LlmProvider> {
+  if (activeProvider) return activeProvider;
+
+  const name = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+  if (name === 'fixture') {
+    const { createFixtureProvider } = await import('./llm-fixture-provider.js');
+    activeProvider = createFixtureProvider(getFixtureDir());
+  } else if (name === 'openai') {
+    const { createOpenAIProvider } = await import('./llm-openai-provider.js');
+    activeProvider = createOpenAIProvider();
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER "${name}" (expected "openai" or "fixture")`);
+  }
+
+  console.log(`🔧 LLM provider: ${activeProvider.name}`);
+  for (const [task, config] of Object.entries(LLM_TASKS)) {
+    console.log(`   ${task} → ${config.model} (timeout ${config.timeoutMs / 1000}s, ${config.attempts} attempt(s))`);
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Replace the provider (test harnesses and scripts); null reverts to LLM_PROVIDER
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
+
+// ==================== FIXTURES ====================
+
+function hashKey(...parts: Array<string | Buffer>): string {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest('hex').substring(0, 16);
+}
+
+/**
+ * Where a request's recorded response lives: <fixture dir>/<folder>/<hash of the request>.<ext>
+ * The model is not part of the key, so fixtures survive a model upgrade.
+ */
+export function fixturePath(
+  request:
+    | { task: 'extraction'; request: DocumentExtractionRequest }
+    | { task: 'categorization'; request: JsonCompletionRequest }
+    | { task: 'generation'; request: ChatRequest }
+): string {
+  const dir = getFixtureDir();
+
+  switch (request.task) {
+    case 'extraction':
+      return path.join(dir, request.request.purpose, `${hashKey(request.request.prompt, request.request.document.data)}.txt`);
+    case 'categorization':
+      return path.join(dir, request.request.purpose, `${hashKey(request.request.system, request.request.prompt)}.json`);
+    case 'generation':
+      return path.join(dir, request.request.purpose, `${hashKey(JSON.stringify(request.request.messages))}.txt`);
+  }
+}
+
+function recordFixture(provider: LlmProvider, file: string, content: string): void {
+  if (process.env.LLM_RECORD_FIXTURES !== 'true' || provider.name === 'fixture') return;
+
+  try {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    console.log(`💾 Recorded LLM fixture ${path.relative(getFixtureDir(), file)}`);
+  } catch (error) {
+    console.error(`Failed to record LLM fixture ${file}:`, error);
+  }
+}
+
+// ==================== TASK RUNNER ====================
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      console.error(`⏱️  ❌ TIMEOUT FIRED - ${label} got no response after ${timeoutMs / 1000}s`);
+      reject(new Error(`${label} timed out after ${timeoutMs / 1000} seconds`));
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run a call with the task's timeout, retrying up to the task's attempts
+ */
+async function runTask<T>(
+  task: LlmTask,
+  label: string,
+  call: (config: LlmTaskConfig) => Promise<T>,
+  options: { timeoutMs?: number; onAttempt?: (attempt: number) => void } = {}
+): Promise<T> {
+  const config: LlmTaskConfig = {
+    ...LLM_TASKS[task],
+    ...(options.timeoutMs ? { timeoutMs: options.timeoutMs } : {}),
+  };
+
+  let lastError: Error | null = null;
+  for (let attempt = 1; attempt <= config.attempts; attempt++) {
+    options.onAttempt?.(attempt);
+    try {
+      if (config.attempts > 1) {
+        console.log(`Attempt ${attempt}/${config.attempts} for ${label}`);
+      }
+      return await withTimeout(call(config), config.timeoutMs, label);
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.error(`Attempt ${attempt}/${config.attempts} for ${label} failed:`, lastError.message);
+      if (attempt < config.attempts) {
+        console.log(`Retrying in ${LLM_RETRY_DELAY_MS / 1000} seconds...`);
+        await new Promise(resolve => setTimeout(resolve, LLM_RETRY_DELAY_MS));
+      }
+    }
+  }
+
+  throw lastError || new Error(`${label} failed`);
+}
+
+/**
+ * Extract a statement's text (header lines + "date | description | amount" rows) from a PDF or image
+ */
+export async function extractDocument(request: DocumentExtractionRequest): Promise<string> {
+  const provider = await getLlmProvider();
+  const content = await runTask(
+    'extraction',
+    `${request.document.filename} ${request.purpose}`,
+    config => provider.extractDocument(request, config),
+    { timeoutMs: request.timeoutMs, onAttempt: request.onAttempt }
+  );
+
+  recordFixture(provider, fixturePath({ task: 'extraction', request }), content);
+  return content;
+}
+
+/**
+ * Get a JSON object response (raw text; the caller parses it)
+ */
+export async function completeJson(request: JsonCompletionRequest): Promise<string> {
+  const provider = await getLlmProvider();
+  const content = await runTask(
+    'categorization',
+    request.purpose,
+    config => provider.completeJson(request, config),
+    { timeoutMs: request.timeoutMs }
+  );
+
+  recordFixture(provider, fixturePath({ task: 'categorization', request }), content);
+  return content;
+}
+
+/**
+ * Generate free text from a conversation
+ */
+export async function generateChat(request: ChatRequest): Promise<string> {
+  const provider = await getLlmProvider();
+  const content = await runTask('generation', request.purpose, config => provider.generateChat(request, config));
+
+  recordFixture(provider, fixturePath({ task: 'generation', request }), content);
+  return content;
+}
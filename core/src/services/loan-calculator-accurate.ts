@@ -0,0 +1,901 @@
+/**
+ * Accurate AIO Loan Calculator
+ *
+ * This implementation matches the source-of-truth logic from the AIO Widget.
+ * It uses a 11,020-day calendar with daily interest accrual, monthly posting,
+ * and 21-day payment delay.
+ */
+
+import { CalendarGenerator, CalendarDay } from './calendar-generator.js';
+import { getHistoricalIndexPath } from '../config/arm-index-history.js';
+import { MS_PER_DAY } from './date-helpers.js';
+import { PAYMENTS_PER_MONTH } from './recurring-detector.js';
+import type { LifeEvent, PaySchedule } from '../types.js';
+
+/**
+ * How the ARM index moves after the start date
+ * - flat: index stays at armIndex
+ * - rising / falling: index moves by armIndexStep per year
+ * - historical: replays yearly index values starting at armHistoricalStartYear
+ * - custom: armIndexPath supplies the index at each adjustment
+ */
+export type ArmIndexScenario = 'flat' | 'rising' | 'falling' | 'historical' | 'custom';
+
+/**
+ * ARM margin and starting index used when the input leaves them unset
+ */
+export const DEFAULT_ARM_MARGIN = 0.025;
+export const DEFAULT_ARM_INDEX = 0.05;
+
+/**
+ * Deposits and withdrawals per calendar day (index 0 is the start date)
+ * Days past the end of either array have no cash flow
+ */
+export interface DailyCashFlows {
+  deposits: number[];
+  withdrawals: number[];
+}
+
+export interface AccurateCalculationInput {
+  // Loan details
+  startingBalance: number;
+  interestRate: number;          // Annual rate as decimal (e.g., 0.0725 for 7.25%)
+  propertyValue: number;
+  loanToValue: number;            // As decimal (e.g., 0.80 for 80%)
+
+  // Cash flow
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  depositFrequency: 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly' | 'semi-annual' | 'annual';
+  paySchedules?: PaySchedule[];  // Detected paychecks; when present, deposits land on real pay dates instead of depositFrequency
+  dailyCashFlows?: DailyCashFlows;  // Explicit per-day deposits/withdrawals; when present, replaces both generated schedules
+  lifeEvents?: LifeEvent[];      // Dated lump sums and permanent income/expense changes, applied on top of the schedules
+
+  // Additional features
+  additionalPrincipal?: number;  // Extra monthly principal payment
+  isHomesteadLoan?: boolean;     // If true, applies year-25 amortization switch
+  isARM?: boolean;               // If true, interest rate adjusts on the ARM schedule
+  armMargin?: number;            // ARM margin over index (e.g., 0.025 for 2.5%)
+  armIndex?: number;             // Current ARM index rate (e.g., 0.05 for 5%)
+  armIndexScenario?: ArmIndexScenario;  // Default: 'flat'
+  armIndexStep?: number;         // Yearly index change for rising/falling (default 0.005)
+  armIndexPath?: number[];       // Custom index per adjustment (last value holds)
+  armHistoricalStartYear?: number;  // First year replayed by 'historical' (default 2000)
+  armAdjustmentMonths?: number;  // Months between adjustments (default 12)
+  armInitialCap?: number;        // Max change at first adjustment (e.g., 0.02)
+  armPeriodicCap?: number;       // Max change at later adjustments (e.g., 0.02)
+  armLifetimeCap?: number;       // Max increase over the start rate (e.g., 0.05)
+  armFloor?: number;             // Minimum rate (default: armMargin)
+  enforceCreditLimit?: boolean;  // Collect a borrower-funded paydown when the balance exceeds the limit (default false: breaches are only reported)
+
+  // Start date
+  startDate: Date;
+}
+
+/**
+ * Product features a caller can switch on for a simulation; the balance,
+ * rate and cash flow come from the borrower's data
+ */
+export type AioLoanOptions = Pick<
+  AccurateCalculationInput,
+  | 'additionalPrincipal'
+  | 'isHomesteadLoan'
+  | 'isARM'
+  | 'armMargin'
+  | 'armIndex'
+  | 'armIndexScenario'
+  | 'armIndexStep'
+  | 'armIndexPath'
+  | 'armHistoricalStartYear'
+  | 'armAdjustmentMonths'
+  | 'armInitialCap'
+  | 'armPeriodicCap'
+  | 'armLifetimeCap'
+  | 'armFloor'
+  | 'enforceCreditLimit'
+>;
+
+export interface DailyCalculationResult {
+  dayIndex: number;
+  date: Date;
+
+  // Balances
+  startingBalance: number;
+  netCashFlow: number;           // Daily net cash (deposits - withdrawals)
+  interimBalance: number;        // Balance after cash flow, before interest
+
+  // Interest
+  annualInterestRate: number;    // Rate in effect this day (changes on ARM adjustments)
+  dailyInterestRate: number;     // Annual rate / 365
+  dailyInterestAccrued: number;  // Interest accrued this day
+  accumulatedInterest: number;   // Total interest not yet posted
+  interestPosted: number;        // Interest posted to balance (last day of month only)
+  interestPaid: number;          // Interest paid (21 days after posting)
+
+  // Credit facility
+  creditLimit: number;           // Available credit (declines over 20 years)
+  availableCredit: number;       // Credit limit - balance
+  requiredPaydown: number;       // Borrower cash collected to bring the balance back under the limit (enforceCreditLimit only)
+
+  // Transactions
+  deposits: number;              // Income deposits this day
+  withdrawals: number;           // Expense withdrawals this day
+
+  // Homestead amortization (after year-25 switch only)
+  requiredPayment: number;       // Scheduled P&I due this day (interest is the interestPaid portion)
+  requiredPrincipalDraw: number; // Principal collected to keep the balance on the amortization schedule
+
+  // Ending balance
+  endingBalance: number;         // Balance at end of day (after all transactions)
+}
+
+export interface HomesteadSwitchSummary {
+  switchDayIndex: number;
+  switchDate: Date;
+  balanceAtSwitch: number;
+  remainingTermMonths: number;
+  monthlyPayment: number;        // Fully amortizing P&I over the remaining term
+}
+
+export interface CreditLimitBreach {
+  startDayIndex: number;
+  startDate: Date;
+  endDayIndex: number;
+  endDate: Date;
+  initialExcess: number;         // Balance over the limit on the first day
+  maxExcess: number;
+  totalPaydown: number;          // Required paydowns collected during the breach (0 unless enforceCreditLimit)
+}
+
+export interface CreditHeadroom {
+  amount: number;                // Limit - balance before enforcement (negative = over limit)
+  dayIndex: number;
+  date: Date;
+}
+
+export interface RateChange {
+  dayIndex: number;
+  date: Date;
+  indexRate: number | null;      // null for the starting (fixed/teaser) rate
+  fullyIndexedRate: number;      // Index + margin before caps/floor
+  rate: number;                  // Rate applied after caps/floor
+}
+
+export interface AccurateSimulationResult {
+  dailyResults: DailyCalculationResult[];
+  summary: {
+    totalInterestPaid: number;
+    totalInterestAccrued: number;
+    finalBalance: number;
+    payoffDayIndex: number | null;   // -1 if not paid off in 30 years
+    payoffDate: Date | null;
+    monthsToPayoff: number | null;
+    homesteadSwitch: HomesteadSwitchSummary | null;
+    rateHistory: RateChange[];
+    creditLimitBreaches: CreditLimitBreach[];
+    totalRequiredPaydown: number;
+    worstHeadroom: CreditHeadroom | null;
+  };
+}
+
+export interface SimulateOptions {
+  quiet?: boolean;               // Skip the console logging (batch runs like goal seek and stress tests)
+}
+
+export class AccurateLoanCalculator {
+  private static readonly LOAN_TERM_MONTHS = 360;
+  private static readonly HOMESTEAD_SWITCH_YEARS = 25;
+
+  /**
+   * Run the accurate AIO loan simulation
+   */
+  static simulate(input: AccurateCalculationInput, options: SimulateOptions = {}): AccurateSimulationResult {
+    const log = options.quiet ? () => {} : console.log;
+
+    // Log simulation start
+    log(`[AccurateLoanCalculator] Starting simulation...`);
+    log(`[AccurateLoanCalculator] Starting Balance: $${input.startingBalance.toFixed(2)}`);
+    log(`[AccurateLoanCalculator] Interest Rate: ${(input.interestRate * 100).toFixed(3)}%`);
+    log(`[AccurateLoanCalculator] Monthly Income: $${input.monthlyIncome.toFixed(2)}`);
+    log(`[AccurateLoanCalculator] Monthly Expenses: $${input.monthlyExpenses.toFixed(2)}`);
+    log(`[AccurateLoanCalculator] Net Cash Flow: $${(input.monthlyIncome - input.monthlyExpenses).toFixed(2)}`);
+    log(`[AccurateLoanCalculator] Deposit Frequency: ${input.depositFrequency}`);
+    if (input.lifeEvents && input.lifeEvents.length > 0) {
+      log(`[AccurateLoanCalculator] Life Events: ${input.lifeEvents.map(e => `${e.type} ${e.amount} on ${e.date}`).join(', ')}`);
+    }
+    if (input.dailyCashFlows) {
+      log(`[AccurateLoanCalculator] Daily Cash Flows: ${input.dailyCashFlows.deposits.length} days of explicit deposits/withdrawals`);
+    } else if (input.paySchedules && input.paySchedules.length > 0) {
+      log(`[AccurateLoanCalculator] Pay Schedules: ${input.paySchedules.map(p => `${p.cadence} from ${p.anchorDate}`).join(', ')}`);
+    }
+
+    // Generate the 11,020-day calendar
+    const calendar = CalendarGenerator.generateCalendar(input.startDate);
+
+    // Initialize daily results array
+    const dailyResults: DailyCalculationResult[] = [];
+
+    // Initialize tracking variables
+    let currentBalance = input.startingBalance;
+    let accumulatedInterest = 0;
+    let totalInterestPaid = 0;
+    let payoffDayIndex: number | null = null;
+    let currentInterestRate = input.interestRate;
+    let homesteadSwitch: HomesteadSwitchSummary | null = null;
+    let homesteadPayment = 0;       // Current P&I (recast when an ARM rate changes)
+    let homesteadPaymentsMade = 0;
+    let scheduledBalance = 0;       // Balance the amortization schedule allows after the switch
+
+    const rateHistory: RateChange[] = [{
+      dayIndex: 0,
+      date: calendar[0].date,
+      indexRate: null,
+      fullyIndexedRate: input.interestRate,
+      rate: input.interestRate,
+    }];
+    const enforceCreditLimit = input.enforceCreditLimit === true;
+    const creditLimitBreaches: CreditLimitBreach[] = [];
+    let totalRequiredPaydown = 0;
+    let worstHeadroom: CreditHeadroom | null = null;
+
+    const startMonth = calendar[0].year * 12 + calendar[0].month;
+    const adjustmentMonths = input.armAdjustmentMonths || 12;
+
+    // Create deposit and withdrawal schedules
+    const { deposits: depositSchedule, withdrawals: withdrawalSchedule } = this.createCashFlowSchedules(input, calendar);
+
+    // Log first few days of schedules
+    log(`[AccurateLoanCalculator] First 30 days deposits: $${depositSchedule.slice(0, 30).reduce((a, b) => a + b, 0).toFixed(2)}`);
+    log(`[AccurateLoanCalculator] First 30 days withdrawals: $${withdrawalSchedule.slice(0, 30).reduce((a, b) => a + b, 0).toFixed(2)}`);
+    log(`[AccurateLoanCalculator] First 30 days net: $${(depositSchedule.slice(0, 30).reduce((a, b) => a + b, 0) - withdrawalSchedule.slice(0, 30).reduce((a, b) => a + b, 0)).toFixed(2)}`);
+
+    // Simulate each day
+    for (let dayIndex = 0; dayIndex < calendar.length; dayIndex++) {
+      const day = calendar[dayIndex];
+
+      // ARM Rate Adjustment (1st of the month, every armAdjustmentMonths from the start)
+      const monthsFromStart = day.year * 12 + day.month - startMonth;
+      if (
+        input.isARM &&
+        day.dayOfMonth === 1 &&
+        dayIndex > 0 &&
+        monthsFromStart > 0 &&
+        monthsFromStart % adjustmentMonths === 0
+      ) {
+        const adjustmentNumber = monthsFromStart / adjustmentMonths;
+        const indexRate = this.getArmIndexRate(input, adjustmentNumber, monthsFromStart);
+        const fullyIndexedRate = indexRate + (input.armMargin ?? DEFAULT_ARM_MARGIN);
+        const newRate = this.applyArmCaps(
+          input,
+          fullyIndexedRate,
+          currentInterestRate,
+          adjustmentNumber === 1
+        );
+
+        if (newRate !== currentInterestRate && homesteadSwitch) {
+          homesteadPayment = this.calculateAmortizingPayment(
+            scheduledBalance,
+            newRate,
+            Math.max(1, homesteadSwitch.remainingTermMonths - homesteadPaymentsMade)
+          );
+        }
+
+        currentInterestRate = newRate;
+        rateHistory.push({
+          dayIndex,
+          date: day.date,
+          indexRate,
+          fullyIndexedRate,
+          rate: newRate,
+        });
+      }
+
+      // Homestead Year-25 Amortization Switch
+      // Whole calendar months since the start date
+      const monthsElapsed = CalendarGenerator.monthsBetween(calendar[0].date, day.date);
+
+      // At year 25 the remaining balance is recast into a fully amortizing
+      // payment over the rest of the 30-year term
+      if (input.isHomesteadLoan && monthsElapsed >= this.HOMESTEAD_SWITCH_YEARS * 12 && !homesteadSwitch) {
+        const remainingTermMonths = Math.max(1, this.LOAN_TERM_MONTHS - monthsElapsed);
+        const monthlyPayment = this.calculateAmortizingPayment(
+          currentBalance,
+          currentInterestRate,
+          remainingTermMonths
+        );
+
+        homesteadSwitch = {
+          switchDayIndex: dayIndex,
+          switchDate: day.date,
+          balanceAtSwitch: currentBalance,
+          remainingTermMonths,
+          monthlyPayment,
+        };
+        scheduledBalance = currentBalance;
+        homesteadPayment = monthlyPayment;
+
+        log(`[AccurateLoanCalculator] Homestead switch on day ${dayIndex}: Balance = $${currentBalance.toFixed(2)}, P&I = $${monthlyPayment.toFixed(2)} over ${remainingTermMonths} months`);
+      }
+
+      // Get deposits and withdrawals for this day
+      const deposits = depositSchedule[dayIndex] || 0;
+      const withdrawals = withdrawalSchedule[dayIndex] || 0;
+      let netCashFlow = deposits - withdrawals;
+
+      // Additional Principal Payment (on 1st of each month)
+      if (input.additionalPrincipal && day.dayOfMonth === 1) {
+        netCashFlow += input.additionalPrincipal;
+      }
+
+      // Calculate credit limit (declines linearly over 20 years = 240 months)
+      const creditLimit = this.calculateCreditLimit(
+        input.propertyValue,
+        input.loanToValue,
+        monthsElapsed
+      );
+
+      // Calculate interim balance (balance - net cash flow)
+      const interimBalance = currentBalance - netCashFlow;
+
+      // Calculate daily interest accrual (use current rate for ARM loans)
+      const dailyInterestRate = currentInterestRate / 365;
+      const dailyInterestAccrued = interimBalance * dailyInterestRate;
+      accumulatedInterest += dailyInterestAccrued;
+
+      // Interest posting (only on last day of month)
+      let interestPosted = 0;
+      if (day.isLastDayOfMonth) {
+        interestPosted = accumulatedInterest;
+        currentBalance += interestPosted;
+        accumulatedInterest = 0;
+      }
+
+      // Interest payment (21 days after posting)
+      let interestPaid = 0;
+      if (day.dayOfMonth === 21 && dayIndex >= 21) {
+        // Find the interest that was posted 21 days ago
+        const posted21DaysAgo = dailyResults[dayIndex - 21]?.interestPosted || 0;
+        if (posted21DaysAgo > 0) {
+          interestPaid = posted21DaysAgo;
+          currentBalance -= interestPaid;
+          totalInterestPaid += interestPaid;
+        }
+      }
+
+      // Homestead P&I (due with the interest payment after the switch)
+      // Interest is already collected above, so only the scheduled principal
+      // is drawn, and only when cash flow hasn't kept the balance on schedule
+      let requiredPayment = 0;
+      let requiredPrincipalDraw = 0;
+      if (homesteadSwitch && day.dayOfMonth === 21 && dayIndex > homesteadSwitch.switchDayIndex) {
+        const scheduledInterest = scheduledBalance * (currentInterestRate / 12);
+        const scheduledPrincipal = Math.min(
+          scheduledBalance,
+          Math.max(0, homesteadPayment - scheduledInterest)
+        );
+        scheduledBalance -= scheduledPrincipal;
+        requiredPayment = homesteadPayment;
+        homesteadPaymentsMade++;
+
+        const balanceAfterCashFlow = currentBalance - netCashFlow;
+        if (balanceAfterCashFlow > scheduledBalance) {
+          requiredPrincipalDraw = balanceAfterCashFlow - scheduledBalance;
+          currentBalance -= requiredPrincipalDraw;
+        }
+      }
+
+      // Apply net cash flow to balance
+      currentBalance -= netCashFlow;
+
+      // Credit limit: a balance above the declining limit is always reported as
+      // a breach; only with enforceCreditLimit is the excess collected from the
+      // borrower as a required paydown the same day
+      const headroom = creditLimit - currentBalance;
+      if (currentBalance > 0 && (worstHeadroom === null || headroom < worstHeadroom.amount)) {
+        worstHeadroom = { amount: headroom, dayIndex, date: day.date };
+      }
+
+      let requiredPaydown = 0;
+      if (headroom < 0) {
+        const excess = -headroom;
+        if (enforceCreditLimit) {
+          requiredPaydown = excess;
+          currentBalance = creditLimit;
+          totalRequiredPaydown += requiredPaydown;
+        }
+
+        const lastBreach = creditLimitBreaches[creditLimitBreaches.length - 1];
+        if (lastBreach && lastBreach.endDayIndex === dayIndex - 1) {
+          lastBreach.endDayIndex = dayIndex;
+          lastBreach.endDate = day.date;
+          lastBreach.maxExcess = Math.max(lastBreach.maxExcess, excess);
+          lastBreach.totalPaydown += requiredPaydown;
+        } else {
+          creditLimitBreaches.push({
+            startDayIndex: dayIndex,
+            startDate: day.date,
+            endDayIndex: dayIndex,
+            endDate: day.date,
+            initialExcess: excess,
+            maxExcess: excess,
+            totalPaydown: requiredPaydown,
+          });
+        }
+      }
+
+      // Check for payoff
+      if (currentBalance <= 0 && payoffDayIndex === null) {
+        payoffDayIndex = dayIndex;
+        currentBalance = 0;
+      }
+
+      // Store daily result
+      dailyResults.push({
+        dayIndex,
+        date: day.date,
+        startingBalance: currentBalance + netCashFlow - interestPosted + interestPaid + requiredPrincipalDraw + requiredPaydown,
+        netCashFlow,
+        interimBalance,
+        annualInterestRate: currentInterestRate,
+        dailyInterestRate,
+        dailyInterestAccrued,
+        accumulatedInterest,
+        interestPosted,
+        interestPaid,
+        creditLimit,
+        availableCredit: creditLimit - currentBalance,
+        requiredPaydown,
+        deposits,
+        withdrawals,
+        requiredPayment,
+        requiredPrincipalDraw,
+        endingBalance: currentBalance
+      });
+
+      // Stop simulation if loan is paid off
+      if (payoffDayIndex !== null) {
+        log(`[AccurateLoanCalculator] Loan paid off at day ${payoffDayIndex}`);
+        break;
+      }
+
+      // Log progress every year (365 days)
+      if (dayIndex > 0 && dayIndex % 365 === 0) {
+        const yearsElapsed = dayIndex / 365;
+        log(`[AccurateLoanCalculator] Year ${yearsElapsed}: Balance = $${currentBalance.toFixed(2)}, Interest Paid = $${totalInterestPaid.toFixed(2)}`);
+      }
+    }
+
+    // Calculate summary
+    const finalBalance = currentBalance;
+    const payoffDate = payoffDayIndex !== null ? calendar[payoffDayIndex].date : null;
+    const monthsToPayoff = payoffDayIndex !== null
+      ? CalendarGenerator.monthsBetween(calendar[0].date, calendar[payoffDayIndex].date, true)
+      : null;
+
+    log(`[AccurateLoanCalculator] Simulation complete.`);
+    log(`[AccurateLoanCalculator] Final Balance: $${finalBalance.toFixed(2)}`);
+    log(`[AccurateLoanCalculator] Total Interest Paid: $${totalInterestPaid.toFixed(2)}`);
+    log(`[AccurateLoanCalculator] Months to Payoff: ${monthsToPayoff || 'Not paid off in 30 years'}`);
+    if (creditLimitBreaches.length > 0) {
+      log(`[AccurateLoanCalculator] Credit Limit Breaches: ${creditLimitBreaches.length}, first on ${creditLimitBreaches[0].startDate.toDateString()}, Required Paydown = $${totalRequiredPaydown.toFixed(2)}`);
+    }
+    if (input.isARM) {
+      log(`[AccurateLoanCalculator] ARM Adjustments: ${rateHistory.length - 1}, Final Rate: ${(currentInterestRate * 100).toFixed(3)}%`);
+    }
+    if (homesteadSwitch) {
+      log(`[AccurateLoanCalculator] Homestead Switch: ${homesteadSwitch.switchDate.toDateString()}, Payment = $${homesteadSwitch.monthlyPayment.toFixed(2)}`);
+    }
+
+    return {
+      dailyResults,
+      summary: {
+        totalInterestPaid,
+        totalInterestAccrued: accumulatedInterest,
+        finalBalance,
+        payoffDayIndex,
+        payoffDate,
+        monthsToPayoff,
+        homesteadSwitch,
+        rateHistory,
+        creditLimitBreaches,
+        totalRequiredPaydown,
+        worstHeadroom
+      }
+    };
+  }
+
+  /**
+   * Daily deposit and withdrawal schedules the simulation runs on
+   * Explicit dailyCashFlows win, then detected pay dates, then depositFrequency;
+   * life events are applied on top of whichever applies
+   */
+  static createCashFlowSchedules(
+    input: AccurateCalculationInput,
+    calendar: CalendarDay[] = CalendarGenerator.generateCalendar(input.startDate)
+  ): DailyCashFlows {
+    let schedules: DailyCashFlows;
+    if (input.dailyCashFlows) {
+      schedules = input.dailyCashFlows;
+    } else {
+      const deposits = input.paySchedules && input.paySchedules.length > 0
+        ? this.createPayDateSchedule(calendar, input.monthlyIncome, input.paySchedules)
+        : this.createDepositSchedule(calendar, input.monthlyIncome, input.depositFrequency);
+
+      const withdrawals = this.createWithdrawalSchedule(
+        calendar,
+        input.monthlyExpenses
+      );
+
+      schedules = { deposits, withdrawals };
+    }
+
+    return input.lifeEvents && input.lifeEvents.length > 0
+      ? this.applyLifeEvents(calendar, schedules, input.monthlyIncome, input.lifeEvents)
+      : schedules;
+  }
+
+  /**
+   * Apply dated life events to copies of the schedules
+   * - Lump sums land on their date (events outside the calendar are ignored)
+   * - Income changes scale every later deposit so the month totals
+   *   monthlyIncome plus the change (added on the 1st when there is no income)
+   * - Expense changes are spread across the days of each later month, like expenses
+   * Changes dated before the start date apply from day one
+   */
+  private static applyLifeEvents(
+    calendar: CalendarDay[],
+    schedules: DailyCashFlows,
+    monthlyIncome: number,
+    lifeEvents: LifeEvent[]
+  ): DailyCashFlows {
+    const deposits = calendar.map((_, index) => schedules.deposits[index] || 0);
+    const withdrawals = calendar.map((_, index) => schedules.withdrawals[index] || 0);
+
+    const firstDay = this.toDayNumber(calendar[0].year, calendar[0].month, calendar[0].dayOfMonth);
+    const dayIndexOf = (date: string) => {
+      const [year, month, dayOfMonth] = date.split('-').map(Number);
+      return this.toDayNumber(year, month, dayOfMonth) - firstDay;
+    };
+
+    const changes: Array<{ dayIndex: number; type: LifeEvent['type']; amount: number }> = [];
+    for (const event of lifeEvents) {
+      const dayIndex = dayIndexOf(event.date);
+
+      if (event.type === 'lump-sum-deposit' || event.type === 'lump-sum-draw') {
+        if (dayIndex >= 0 && dayIndex < calendar.length) {
+          const schedule = event.type === 'lump-sum-deposit' ? deposits : withdrawals;
+          schedule[dayIndex] += Math.abs(event.amount);
+        }
+      } else {
+        changes.push({ dayIndex: Math.max(0, dayIndex), type: event.type, amount: event.amount });
+      }
+    }
+    changes.sort((a, b) => a.dayIndex - b.dayIndex);
+
+    let incomeChange = 0;
+    let expenseChange = 0;
+    let next = 0;
+    calendar.forEach((day, index) => {
+      while (next < changes.length && changes[next].dayIndex <= index) {
+        if (changes[next].type === 'income-change') incomeChange += changes[next].amount;
+        else expenseChange += changes[next].amount;
+        next++;
+      }
+
+      if (incomeChange !== 0) {
+        if (monthlyIncome > 0) {
+          deposits[index] *= Math.max(0, (monthlyIncome + incomeChange) / monthlyIncome);
+        } else if (day.dayOfMonth === 1) {
+          deposits[index] += Math.max(0, incomeChange);
+        }
+      }
+
+      if (expenseChange !== 0) {
+        withdrawals[index] = Math.max(0, withdrawals[index] + expenseChange / day.daysInMonth);
+      }
+    });
+
+    return { deposits, withdrawals };
+  }
+
+  // Whole days since epoch from calendar fields (avoids DST drift in local dates)
+  private static toDayNumber(year: number, month: number, dayOfMonth: number): number {
+    return Math.round(Date.UTC(year, month - 1, dayOfMonth) / MS_PER_DAY);
+  }
+
+  /**
+   * Index value for an ARM adjustment under the selected scenario
+   */
+  private static getArmIndexRate(
+    input: AccurateCalculationInput,
+    adjustmentNumber: number,
+    monthsFromStart: number
+  ): number {
+    const baseIndex = input.armIndex ?? DEFAULT_ARM_INDEX;
+    const yearsFromStart = monthsFromStart / 12;
+    const step = input.armIndexStep ?? 0.005;
+
+    switch (input.armIndexScenario || 'flat') {
+      case 'rising':
+        return baseIndex + step * yearsFromStart;
+
+      case 'falling':
+        return Math.max(0, baseIndex - step * yearsFromStart);
+
+      case 'historical': {
+        const path = input.armIndexPath?.length
+          ? input.armIndexPath
+          : getHistoricalIndexPath(input.armHistoricalStartYear ?? 2000);
+        if (path.length === 0) return baseIndex;
+        // First year of the path applies to adjustments within the first year
+        const yearOffset = Math.max(0, Math.ceil(yearsFromStart) - 1);
+        return path[Math.min(yearOffset, path.length - 1)];
+      }
+
+      case 'custom': {
+        const path = input.armIndexPath || [];
+        if (path.length === 0) return baseIndex;
+        return path[Math.min(adjustmentNumber - 1, path.length - 1)];
+      }
+
+      case 'flat':
+      default:
+        return baseIndex;
+    }
+  }
+
+  /**
+   * Apply initial/periodic caps, lifetime cap and floor to a fully indexed rate
+   */
+  private static applyArmCaps(
+    input: AccurateCalculationInput,
+    fullyIndexedRate: number,
+    previousRate: number,
+    isFirstAdjustment: boolean
+  ): number {
+    let rate = fullyIndexedRate;
+
+    const adjustmentCap = isFirstAdjustment ? input.armInitialCap : input.armPeriodicCap;
+    if (adjustmentCap !== undefined) {
+      rate = Math.min(Math.max(rate, previousRate - adjustmentCap), previousRate + adjustmentCap);
+    }
+
+    if (input.armLifetimeCap !== undefined) {
+      rate = Math.min(rate, input.interestRate + input.armLifetimeCap);
+    }
+
+    const floor = input.armFloor ?? input.armMargin ?? DEFAULT_ARM_MARGIN;
+    return Math.max(rate, floor);
+  }
+
+  /**
+   * Standard amortizing P&I payment for the given balance and term
+   */
+  private static calculateAmortizingPayment(
+    balance: number,
+    annualRate: number,
+    termMonths: number
+  ): number {
+    if (balance <= 0) return 0;
+
+    const monthlyRate = annualRate / 12;
+    if (monthlyRate === 0) {
+      return balance / termMonths;
+    }
+
+    return (balance * monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
+      (Math.pow(1 + monthlyRate, termMonths) - 1);
+  }
+
+  /**
+   * Create deposit schedule based on frequency
+   */
+  private static createDepositSchedule(
+    calendar: CalendarDay[],
+    monthlyIncome: number,
+    frequency: AccurateCalculationInput['depositFrequency']
+  ): number[] {
+    const schedule = new Array(calendar.length).fill(0);
+
+    switch (frequency) {
+      case 'weekly':
+        // Deposit every 7 days, monthly income split across that month's paychecks
+        this.spreadAcrossMonth(calendar, schedule, 7, monthlyIncome);
+        break;
+
+      case 'biweekly':
+        // Deposit every 14 days, monthly income split across that month's paychecks
+        this.spreadAcrossMonth(calendar, schedule, 14, monthlyIncome);
+        break;
+
+      case 'semi-monthly':
+        // Deposit on 1st and 15th of each month
+        const semiMonthlyAmount = monthlyIncome / 2;
+        calendar.forEach((day, index) => {
+          if (day.dayOfMonth === 1 || day.dayOfMonth === 15) {
+            schedule[index] = semiMonthlyAmount;
+          }
+        });
+        break;
+
+      case 'monthly':
+        // Deposit on 1st of each month
+        calendar.forEach((day, index) => {
+          if (day.dayOfMonth === 1) {
+            schedule[index] = monthlyIncome;
+          }
+        });
+        break;
+
+      case 'quarterly':
+        // Deposit every 3 months (1st of Jan, Apr, Jul, Oct)
+        const quarterlyAmount = monthlyIncome * 3;
+        calendar.forEach((day, index) => {
+          if (day.dayOfMonth === 1 && [1, 4, 7, 10].includes(day.month)) {
+            schedule[index] = quarterlyAmount;
+          }
+        });
+        break;
+
+      case 'semi-annual':
+        // Deposit every 6 months (1st of Jan, Jul)
+        const semiAnnualAmount = monthlyIncome * 6;
+        calendar.forEach((day, index) => {
+          if (day.dayOfMonth === 1 && [1, 7].includes(day.month)) {
+            schedule[index] = semiAnnualAmount;
+          }
+        });
+        break;
+
+      case 'annual':
+        // Deposit once per year (1st of Jan)
+        const annualAmount = monthlyIncome * 12;
+        calendar.forEach((day, index) => {
+          if (day.dayOfMonth === 1 && day.month === 1) {
+            schedule[index] = annualAmount;
+          }
+        });
+        break;
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Create deposit schedule from detected pay schedules
+   * Each paycheck lands on its projected pay date. Amounts are scaled so the
+   * schedules together total monthlyIncome (which carries the officer's
+   * adjustments); weekly and biweekly pay splits each month's share across the
+   * paychecks that land in it, like a frequency-only deposit schedule.
+   */
+  private static createPayDateSchedule(
+    calendar: CalendarDay[],
+    monthlyIncome: number,
+    paySchedules: PaySchedule[]
+  ): number[] {
+    const schedule = new Array(calendar.length).fill(0);
+
+    const scheduledMonthly = paySchedules.reduce(
+      (sum, pay) => sum + pay.amount * PAYMENTS_PER_MONTH[pay.cadence],
+      0
+    );
+    const scale = scheduledMonthly > 0 ? monthlyIncome / scheduledMonthly : 0;
+
+    const firstDay = this.toDayNumber(calendar[0].year, calendar[0].month, calendar[0].dayOfMonth);
+
+    for (const pay of paySchedules) {
+      const [anchorYear, anchorMonth, anchorDayOfMonth] = pay.anchorDate.split('-').map(Number);
+      const amount = pay.amount * scale;
+
+      if (pay.cadence === 'weekly' || pay.cadence === 'biweekly') {
+        const interval = pay.cadence === 'weekly' ? 7 : 14;
+        const anchorDay = this.toDayNumber(anchorYear, anchorMonth, anchorDayOfMonth);
+        const offset = ((anchorDay - firstDay) % interval + interval) % interval;
+        this.spreadAcrossMonth(calendar, schedule, interval, amount * PAYMENTS_PER_MONTH[pay.cadence], offset);
+        continue;
+      }
+
+      const daysOfMonth = pay.daysOfMonth && pay.daysOfMonth.length > 0 ? pay.daysOfMonth : [anchorDayOfMonth];
+      const anchorMonthIndex = anchorYear * 12 + anchorMonth;
+
+      calendar.forEach((day, index) => {
+        if (pay.cadence === 'quarterly' && (day.year * 12 + day.month - anchorMonthIndex) % 3 !== 0) {
+          return;
+        }
+        // Pay days past the end of a short month fall on its last day
+        if (daysOfMonth.some(d => Math.min(d, day.daysInMonth) === day.dayOfMonth)) {
+          schedule[index] += amount;
+        }
+      });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Create withdrawal schedule (expenses)
+   * Weekly expenses are spread across 7 days, all other frequencies are lump-sum
+   */
+  private static createWithdrawalSchedule(
+    calendar: CalendarDay[],
+    monthlyExpenses: number,
+    expenseFrequency: 'weekly' | 'biweekly' | 'monthly' | 'daily' = 'daily'
+  ): number[] {
+    const schedule = new Array(calendar.length).fill(0);
+
+    switch (expenseFrequency) {
+      case 'daily':
+        // Spread evenly across the days of each month
+        calendar.forEach((day, index) => {
+          schedule[index] = monthlyExpenses / day.daysInMonth;
+        });
+        break;
+
+      case 'weekly':
+        // Weekly expenses spread across 7 days (per AIO Widget source), which
+        // works out to an even daily spread within each month
+        calendar.forEach((day, index) => {
+          schedule[index] = monthlyExpenses / day.daysInMonth;
+        });
+        break;
+
+      case 'biweekly':
+        // Withdrawal every 14 days (lump-sum), split across that month's withdrawals
+        this.spreadAcrossMonth(calendar, schedule, 14, monthlyExpenses);
+        break;
+
+      case 'monthly':
+        // Withdrawal on 1st of each month (lump-sum)
+        calendar.forEach((day, index) => {
+          if (day.dayOfMonth === 1) {
+            schedule[index] = monthlyExpenses;
+          }
+        });
+        break;
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Add events every `intervalDays` days from `firstIndex`, splitting the
+   * monthly amount across the number of events that land in each month
+   */
+  private static spreadAcrossMonth(
+    calendar: CalendarDay[],
+    schedule: number[],
+    intervalDays: number,
+    monthlyAmount: number,
+    firstIndex = 0
+  ): void {
+    const eventsPerMonth = new Map<string, number>();
+    for (let i = firstIndex; i < calendar.length; i += intervalDays) {
+      const key = `${calendar[i].year}-${calendar[i].month}`;
+      eventsPerMonth.set(key, (eventsPerMonth.get(key) || 0) + 1);
+    }
+
+    for (let i = firstIndex; i < calendar.length; i += intervalDays) {
+      const key = `${calendar[i].year}-${calendar[i].month}`;
+      schedule[i] += monthlyAmount / (eventsPerMonth.get(key) || 1);
+    }
+  }
+
+  /**
+   * Calculate credit limit with 20-year linear decline
+   */
+  private static calculateCreditLimit(
+    propertyValue: number,
+    loanToValue: number,
+    monthsElapsed: number
+  ): number {
+    const maxCredit = propertyValue * loanToValue;
+    const declineMonths = 240; // 20 years
+
+    if (monthsElapsed > declineMonths) {
+      return 0;
+    }
+
+    const remainingMonths = declineMonths - monthsElapsed;
+    return maxCredit * (remainingMonths / declineMonths);
+  }
+}
@@ -136,7 +136,7 @@ function calculateDailyExpenses(
 /**
  * Traditional loan calculation - EXACT match to AIO Widget
  */
-function calculateTraditionalLoan(mortgage: MortgageDetails): LoanProjection {
+function calculateTraditionalLoan(mortgage: MortgageDetails, startDate: Date = new Date()): LoanProjection {
   const { currentBalance, interestRate, monthlyPayment } = mortgage;
 
   const monthlyRate = interestRate / 100 / 12;
@@ -159,7 +159,7 @@ function calculateTraditionalLoan(mortgage: MortgageDetails): LoanProjection {
     monthsToPayoff++;
   }
 
-  const payoffDate = new Date();
+  const payoffDate = new Date(startDate);
   payoffDate.setMonth(payoffDate.getMonth() + monthsToPayoff);
 
   return {
@@ -177,7 +177,8 @@ function calculateTraditionalLoan(mortgage: MortgageDetails): LoanProjection {
  */
 function calculateAllInOneLoan(
   mortgage: MortgageDetails,
-  cashFlow: CashFlowAnalysis
+  cashFlow: CashFlowAnalysis,
+  startDate: Date = new Date()
 ): LoanProjection {
   const { currentBalance, interestRate, monthlyPayment } = mortgage;
   const {
@@ -190,7 +191,6 @@ function calculateAllInOneLoan(
   const maxMonths = 360; // 30 years
 
   // Generate calendar for simulation
-  const startDate = new Date();
   const calendar = generateCalendar(startDate, maxMonths);
 
   // Initialize arrays (matching AIO Widget structure)
@@ -291,13 +291,14 @@ function calculateAllInOneLoan(
  */
 export function simulateLoan(
   mortgageDetails: MortgageDetails,
-  cashFlow: CashFlowAnalysis
+  cashFlow: CashFlowAnalysis,
+  startDate: Date = new Date()
 ): SimulationResult {
   // Calculate traditional loan
-  const traditionalLoan = calculateTraditionalLoan(mortgageDetails);
+  const traditionalLoan = calculateTraditionalLoan(mortgageDetails, startDate);
 
   // Calculate All-In-One loan
-  const allInOneLoan = calculateAllInOneLoan(mortgageDetails, cashFlow);
+  const allInOneLoan = calculateAllInOneLoan(mortgageDetails, cashFlow, startDate);
 
   // Calculate savings
   const interestSavings = traditionalLoan.totalInterestPaid - allInOneLoan.totalInterestPaid;
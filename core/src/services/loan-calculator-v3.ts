@@ -4,9 +4,11 @@
  * Wraps the AccurateLoanCalculator with the existing API interface
  */
 
-import { AccurateLoanCalculator, AccurateCalculationInput } from './loan-calculator-accurate.js';
-import { calculateMonthlyPayment } from './loan-calculator.js';
-import type { MortgageDetails, CashFlowAnalysis, SimulationResult, LoanProjection, TraditionalProductType } from '../types.js';
+import { AccurateLoanCalculator, AccurateCalculationInput, AioLoanOptions } from './loan-calculator-accurate.js';
+import { calculateMonthlyPayment, calculateTraditionalLoan } from './loan-calculator.js';
+import { compareTraditionalStrategies } from './traditional-strategies.js';
+import { formatDate } from './date-helpers.js';
+import type { MortgageDetails, CashFlowAnalysis, SimulationResult, LoanProjection, TraditionalProductType, TraditionalStrategyOptions } from '../types.js';
 
 /**
  * Get product display name from product type
@@ -34,43 +36,113 @@ function getTermMonths(productType: TraditionalProductType): number {
   return termMap[productType] || 360;
 }
 
+const ARM_INDEX_SCENARIOS = ['flat', 'rising', 'falling', 'historical', 'custom'];
+
+/**
+ * Why AIO loan options can't be simulated, if they can't
+ */
+export function findInvalidLoanOptions(loanOptions: unknown): string | null {
+  if (loanOptions === undefined) return null;
+  if (!loanOptions || typeof loanOptions !== 'object' || Array.isArray(loanOptions)) return 'loanOptions must be an object';
+
+  const options = loanOptions as Record<string, any>;
+  const isRate = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0 && value <= 1;
+
+  for (const flag of ['isHomesteadLoan', 'isARM', 'enforceCreditLimit']) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') return `loanOptions.${flag} must be true or false`;
+  }
+  for (const rate of ['armMargin', 'armIndex', 'armIndexStep', 'armInitialCap', 'armPeriodicCap', 'armLifetimeCap', 'armFloor']) {
+    if (options[rate] !== undefined && !isRate(options[rate])) return `loanOptions.${rate} must be a decimal rate from 0 to 1`;
+  }
+  if (options.armIndexScenario !== undefined && !ARM_INDEX_SCENARIOS.includes(options.armIndexScenario)) {
+    return `loanOptions.armIndexScenario must be one of: ${ARM_INDEX_SCENARIOS.join(', ')}`;
+  }
+  if (options.armIndexPath !== undefined && (!Array.isArray(options.armIndexPath) || !options.armIndexPath.every(isRate))) {
+    return 'loanOptions.armIndexPath must be a list of decimal rates';
+  }
+  if (options.armAdjustmentMonths !== undefined
+    && (!Number.isInteger(options.armAdjustmentMonths) || options.armAdjustmentMonths < 1 || options.armAdjustmentMonths > 120)) {
+    return 'loanOptions.armAdjustmentMonths must be a whole number from 1 to 120';
+  }
+  if (options.armHistoricalStartYear !== undefined && !Number.isInteger(options.armHistoricalStartYear)) {
+    return 'loanOptions.armHistoricalStartYear must be a year';
+  }
+  if (options.additionalPrincipal !== undefined
+    && (typeof options.additionalPrincipal !== 'number' || !isFinite(options.additionalPrincipal) || options.additionalPrincipal < 0)) {
+    return 'loanOptions.additionalPrincipal must be a non-negative amount';
+  }
+
+  return null;
+}
+
+/**
+ * Map mortgage details and cash flow onto the accurate calculator's input
+ * (shared by simulateLoan and the ledger export so both run the same simulation)
+ */
+export function buildAccurateInput(
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  startDate: Date = new Date(),
+  loanOptions: AioLoanOptions = {}
+): AccurateCalculationInput {
+  const loanBalance = mortgageDetails.currentBalance || 0;
+
+  return {
+    ...loanOptions,
+    startingBalance: loanBalance,
+    interestRate: (mortgageDetails.aioInterestRate || mortgageDetails.interestRate || 0) / 100,
+    propertyValue: mortgageDetails.propertyValue || loanBalance / 0.8,
+    loanToValue: 0.80,
+    monthlyIncome: cashFlow.monthlyDeposits || cashFlow.totalIncome || 0,
+    monthlyExpenses: cashFlow.monthlyExpenses || cashFlow.totalExpenses || 0,
+    depositFrequency: cashFlow.depositFrequency || 'monthly',
+    paySchedules: cashFlow.paySchedules,
+    lifeEvents: cashFlow.lifeEvents,
+    startDate,
+  };
+}
+
 /**
  * Simulate loan using the accurate calculator
  */
 export function simulateLoan(
   mortgageDetails: MortgageDetails,
-  cashFlow: CashFlowAnalysis
+  cashFlow: CashFlowAnalysis,
+  startDate: Date = new Date(),
+  strategyOptions: TraditionalStrategyOptions = {},
+  loanOptions: AioLoanOptions = {}
 ): SimulationResult {
   const loanBalance = mortgageDetails.currentBalance || 0;
-  const tradRate = (mortgageDetails.interestRate || 0) / 100;
-  const aioRate = tradRate; // Use same interest rate for AIO
+
+  if (loanBalance <= 0) {
+    throw new Error('Loan balance must be greater than zero');
+  }
+
+  if (mortgageDetails.interestRate <= 0 || mortgageDetails.interestRate > 20) {
+    throw new Error('Interest rate must be between 0 and 20%');
+  }
 
   // Get product type and determine term
   const productType = (mortgageDetails.productType || '30-year-fixed') as TraditionalProductType;
   const productDisplayName = getProductDisplayName(productType);
   const remainingMonths = getTermMonths(productType);
 
-  // Calculate traditional mortgage projection
+  // Calculate traditional mortgage projection by amortizing the payment month by month
   const traditionalMonthlyPayment = mortgageDetails.monthlyPayment ||
-    calculateMonthlyPayment(loanBalance, tradRate, remainingMonths);
-
-  const traditionalTotalInterest = (traditionalMonthlyPayment * remainingMonths) - loanBalance;
-  const traditionalPayoffDate = new Date();
-  traditionalPayoffDate.setMonth(traditionalPayoffDate.getMonth() + remainingMonths);
+    calculateMonthlyPayment(loanBalance, mortgageDetails.interestRate, remainingMonths);
 
   const traditionalLoan: LoanProjection = {
-    type: 'traditional',
+    ...calculateTraditionalLoan({ ...mortgageDetails, monthlyPayment: traditionalMonthlyPayment }, startDate),
     productName: productDisplayName,
-    monthlyPayment: traditionalMonthlyPayment,
-    totalInterestPaid: Math.max(0, traditionalTotalInterest),
-    payoffDate: traditionalPayoffDate,
-    payoffMonths: remainingMonths,
   };
+  const traditionalTotalInterest = traditionalLoan.totalInterestPaid;
+  const traditionalPayoffDate = traditionalLoan.payoffDate;
+  const traditionalPayoffMonths = traditionalLoan.payoffMonths;
 
   // Run accurate AIO simulation
   // CRITICAL: cashFlow contains the correct MONTHLY values (monthlyDeposits/monthlyExpenses)
   // DO NOT use totalIncome/totalExpenses as those are TOTALS across all statement months!
-  const depositFreq = (cashFlow.depositFrequency as any) || 'monthly';
+  const depositFreq = cashFlow.depositFrequency || 'monthly';
 
   console.log(`[loan-calculator-v3] ========== CASHFLOW RECEIVED ==========`);
   console.log(`[loan-calculator-v3] cashFlow.monthlyDeposits: ${cashFlow.monthlyDeposits}`);
@@ -85,22 +157,13 @@ export function simulateLoan(
 
   console.log(`[loan-calculator-v3] ========== SIMULATION INPUT ==========`);
   console.log(`[loan-calculator-v3] Starting Balance: $${loanBalance.toFixed(2)}`);
-  console.log(`[loan-calculator-v3] Interest Rate: ${(aioRate * 100).toFixed(3)}%`);
+  console.log(`[loan-calculator-v3] AIO Interest Rate: ${(mortgageDetails.aioInterestRate || mortgageDetails.interestRate || 0).toFixed(3)}%`);
   console.log(`[loan-calculator-v3] Deposit Frequency: ${depositFreq}`);
   console.log(`[loan-calculator-v3] Monthly Income (using): $${monthlyIncome.toFixed(2)}`);
   console.log(`[loan-calculator-v3] Monthly Expenses (using): $${monthlyExpenses.toFixed(2)}`);
   console.log(`[loan-calculator-v3] Net Cash Flow (calculated): $${netCashFlow.toFixed(2)}`);
 
-  const accurateInput: AccurateCalculationInput = {
-    startingBalance: loanBalance,
-    interestRate: aioRate,
-    propertyValue: mortgageDetails.propertyValue || loanBalance / 0.8,
-    loanToValue: 0.80,
-    monthlyIncome: monthlyIncome,
-    monthlyExpenses: monthlyExpenses,
-    depositFrequency: depositFreq,
-    startDate: new Date(),
-  };
+  const accurateInput = buildAccurateInput(mortgageDetails, cashFlow, startDate, loanOptions);
 
   const accurateResult = AccurateLoanCalculator.simulate(accurateInput);
 
@@ -113,13 +176,13 @@ export function simulateLoan(
   console.log(`[loan-calculator-v3] =======================================`);
 
   // Build AIO projection from accurate results
-  const aioPayoffMonths = accurateResult.summary.monthsToPayoff || remainingMonths;
+  const aioPayoffMonths = accurateResult.summary.monthsToPayoff || traditionalPayoffMonths;
   const aioPayoffDate = accurateResult.summary.payoffDate || traditionalPayoffDate;
   const aioTotalInterest = accurateResult.summary.totalInterestPaid;
 
   console.log(`[loan-calculator-v3] ========== FINAL VALUES USED ==========`);
   console.log(`[loan-calculator-v3] aioPayoffMonths (final): ${aioPayoffMonths}`);
-  console.log(`[loan-calculator-v3] remainingMonths (fallback): ${remainingMonths}`);
+  console.log(`[loan-calculator-v3] traditionalPayoffMonths (fallback): ${traditionalPayoffMonths}`);
   console.log(`[loan-calculator-v3] Used fallback?: ${!accurateResult.summary.monthsToPayoff}`);
   console.log(`[loan-calculator-v3] =======================================`);
 
@@ -131,16 +194,25 @@ export function simulateLoan(
     payoffDate: aioPayoffDate,
     payoffMonths: aioPayoffMonths,
     interestSavings: Math.max(0, traditionalTotalInterest - aioTotalInterest),
-    monthsSaved: Math.max(0, remainingMonths - aioPayoffMonths),
+    monthsSaved: Math.max(0, traditionalPayoffMonths - aioPayoffMonths),
   };
 
   // Calculate comparison
   const interestSavings = Math.max(0, traditionalTotalInterest - aioTotalInterest);
-  const timeSavedMonths = Math.max(0, remainingMonths - aioPayoffMonths);
+  const timeSavedMonths = Math.max(0, traditionalPayoffMonths - aioPayoffMonths);
   const percentageSavings = traditionalTotalInterest > 0
     ? (interestSavings / traditionalTotalInterest) * 100
     : 0;
 
+  // Same leftover put to work on the traditional loan instead
+  const alternatives = compareTraditionalStrategies(
+    { ...mortgageDetails, monthlyPayment: traditionalMonthlyPayment },
+    cashFlow,
+    allInOneLoan,
+    strategyOptions,
+    startDate
+  );
+
   return {
     traditionalLoan,
     allInOneLoan,
@@ -149,5 +221,7 @@ export function simulateLoan(
       timeSavedMonths: Math.max(0, timeSavedMonths),
       percentageSavings: Math.max(0, percentageSavings),
     },
+    alternatives,
+    startDate: formatDate(startDate),
   };
 }
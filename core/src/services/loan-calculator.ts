@@ -1,4 +1,5 @@
 import type { MortgageDetails, CashFlowAnalysis, SimulationResult, LoanProjection } from '../types.js';
+import { CalendarGenerator } from './calendar-generator.js';
 
 /**
  * All-In-One Loan Calculator
@@ -34,7 +35,7 @@ import type { MortgageDetails, CashFlowAnalysis, SimulationResult, LoanProjectio
  * ====================================================
  */
 
-interface MonthlySnapshot {
+export interface MonthlySnapshot {
   month: number;
   loanBalance: number;
   totalInterestPaid: number;
@@ -42,10 +43,21 @@ interface MonthlySnapshot {
   cashFlowOffset: number;
 }
 
+export interface TraditionalPrepayment {
+  extraMonthlyPrincipal?: number;  // Added to every monthly payment
+  biweekly?: boolean;              // Half the payment every 14 days (26 halves = 13 payments a year)
+  annualLumpSum?: number;          // Extra principal on each loan anniversary
+}
+
 /**
  * Calculate traditional fixed-rate mortgage with standard amortization
+ * Prepayments go straight to principal; interest still accrues monthly
  */
-function calculateTraditionalLoan(mortgage: MortgageDetails): LoanProjection {
+export function calculateTraditionalLoan(
+  mortgage: MortgageDetails,
+  startDate: Date = new Date(),
+  prepayment: TraditionalPrepayment = {}
+): LoanProjection {
   const { currentBalance, interestRate, monthlyPayment } = mortgage;
 
   const monthlyRate = interestRate / 100 / 12;
@@ -55,6 +67,14 @@ function calculateTraditionalLoan(mortgage: MortgageDetails): LoanProjection {
 
   const maxMonths = 360; // 30 years maximum
 
+  // Biweekly half-payments falling in loan month n (2, or 3 in about two months a year)
+  const firstDay = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const daysFromStart = (months: number) => {
+    const date = new Date(firstDay.getFullYear(), firstDay.getMonth() + months, firstDay.getDate());
+    return Math.round((date.getTime() - firstDay.getTime()) / (24 * 60 * 60 * 1000));
+  };
+  const halfPaymentsIn = (month: number) => Math.ceil(daysFromStart(month) / 14) - Math.ceil(daysFromStart(month - 1) / 14);
+
   while (balance > 0.01 && monthsToPayoff < maxMonths) {
     const interestPayment = balance * monthlyRate;
     const principalPayment = monthlyPayment - interestPayment;
@@ -64,12 +84,22 @@ function calculateTraditionalLoan(mortgage: MortgageDetails): LoanProjection {
       throw new Error('Monthly payment is too low to cover interest charges');
     }
 
-    totalInterest += interestPayment;
-    balance -= principalPayment;
     monthsToPayoff++;
+
+    let extraPrincipal = prepayment.extraMonthlyPrincipal || 0;
+    if (prepayment.biweekly) {
+      extraPrincipal += (halfPaymentsIn(monthsToPayoff) - 2) * (monthlyPayment / 2);
+    }
+    if (prepayment.annualLumpSum && monthsToPayoff % 12 === 0) {
+      extraPrincipal += prepayment.annualLumpSum;
+    }
+
+    totalInterest += interestPayment;
+    // The last payment only covers what's left
+    balance -= Math.min(balance, principalPayment + extraPrincipal);
   }
 
-  const payoffDate = new Date();
+  const payoffDate = new Date(startDate);
   payoffDate.setMonth(payoffDate.getMonth() + monthsToPayoff);
 
   return {
@@ -191,7 +221,8 @@ function simulateMonthlyDailyBalances(
  */
 function calculateAllInOneLoan(
   mortgage: MortgageDetails,
-  cashFlow: CashFlowAnalysis
+  cashFlow: CashFlowAnalysis,
+  startDate: Date = new Date()
 ): LoanProjection {
   const { currentBalance, aioInterestRate, monthlyPayment } = mortgage;
   const interestRate = aioInterestRate;  // Use AIO rate, not traditional rate
@@ -219,8 +250,7 @@ function calculateAllInOneLoan(
   let monthsToPayoff = 0;
   const maxMonths = 360; // 30 years
 
-  // Average days per month
-  const avgDaysPerMonth = 30.42;
+  // Month lengths follow the real calendar from the start date
 
   // Enable debug mode for first 3 months
   const debugMode = true;
@@ -236,7 +266,7 @@ function calculateAllInOneLoan(
       monthlyIncome,    // FIXED: Using monthly average, not total
       monthlyExpenses,  // FIXED: Using monthly average, not total
       interestRate,
-      avgDaysPerMonth,
+      CalendarGenerator.getDaysInMonthFrom(startDate, monthsToPayoff),
       monthsToPayoff + 1,
       debugMode,
       monthlyPayment    // CRITICAL: Include traditional P&I payment
@@ -265,7 +295,7 @@ function calculateAllInOneLoan(
   console.log(`   Final Balance: $${balance.toFixed(2)}`);
   console.log(`   Average Monthly Net Cash Flow: $${(monthlyIncome - monthlyExpenses).toFixed(2)}`);
 
-  const payoffDate = new Date();
+  const payoffDate = new Date(startDate);
   payoffDate.setMonth(payoffDate.getMonth() + monthsToPayoff);
 
   // For AIO loans, the "monthly payment" is effectively the net cash flow
@@ -283,10 +313,12 @@ function calculateAllInOneLoan(
 
 /**
  * Main simulation function: Compare traditional vs All-In-One
+ * @param startDate - First month of the projection (defaults to today)
  */
 export function simulateLoan(
   mortgage: MortgageDetails,
-  cashFlow: CashFlowAnalysis
+  cashFlow: CashFlowAnalysis,
+  startDate: Date = new Date()
 ): SimulationResult {
   // Validate inputs
   if (mortgage.monthlyPayment <= 0) {
@@ -312,12 +344,12 @@ export function simulateLoan(
   console.log(`  Avg Monthly Balance: $${cashFlow.averageMonthlyBalance.toFixed(2)}`);
 
   // Calculate both scenarios
-  const traditionalLoan = calculateTraditionalLoan(mortgage);
+  const traditionalLoan = calculateTraditionalLoan(mortgage, startDate);
   console.log('📊 [LOAN CALC] Traditional Loan Results:');
   console.log(`  Payoff Months: ${traditionalLoan.payoffMonths}`);
   console.log(`  Total Interest: $${traditionalLoan.totalInterestPaid.toFixed(2)}`);
 
-  const allInOneLoan = calculateAllInOneLoan(mortgage, cashFlow);
+  const allInOneLoan = calculateAllInOneLoan(mortgage, cashFlow, startDate);
   console.log('📊 [LOAN CALC] All-In-One Loan Results:');
   console.log(`  Payoff Months: ${allInOneLoan.payoffMonths}`);
   console.log(`  Total Interest: $${allInOneLoan.totalInterestPaid.toFixed(2)}`);
@@ -340,7 +372,7 @@ export function simulateLoan(
   let minimumCashFlowInfo = undefined;
   if (timeSavedMonths < 12) {
     console.log(`\n⚠️  [LOAN CALC] Scenario saves less than 1 year - calculating minimum cash flow needed...`);
-    const minCashFlowResult = calculateMinimumCashFlowNeeded(mortgage, traditionalLoan.payoffMonths);
+    const minCashFlowResult = calculateMinimumCashFlowNeeded(mortgage, traditionalLoan.payoffMonths, startDate);
 
     // Calculate how much MORE is needed beyond current cash flow
     const monthsOfData = cashFlow.monthlyBreakdown?.length || 1;
@@ -377,7 +409,8 @@ export function simulateLoan(
 export function getDetailedAmortization(
   mortgage: MortgageDetails,
   cashFlow: CashFlowAnalysis,
-  months: number = 12
+  months: number = 12,
+  startDate: Date = new Date()
 ): MonthlySnapshot[] {
   const { currentBalance, aioInterestRate, monthlyPayment } = mortgage;
   const { totalIncome, totalExpenses, monthlyBreakdown } = cashFlow;
@@ -390,7 +423,6 @@ export function getDetailedAmortization(
   const snapshots: MonthlySnapshot[] = [];
   let balance = currentBalance;
   let cumulativeInterest = 0;
-  const avgDaysPerMonth = 30.42;
 
   for (let month = 1; month <= Math.min(months, 360); month++) {
     const monthResult = simulateMonthlyDailyBalances(
@@ -398,7 +430,7 @@ export function getDetailedAmortization(
       monthlyIncome,    // FIXED: Using monthly average
       monthlyExpenses,  // FIXED: Using monthly average
       aioInterestRate,  // FIXED: Use AIO rate
-      avgDaysPerMonth,
+      CalendarGenerator.getDaysInMonthFrom(startDate, month - 1),
       month,
       false,  // No debug for amortization table
       monthlyPayment  // FIXED: Include P&I payment
@@ -474,7 +506,8 @@ export function estimateSavingsPotential(
  */
 export function calculateMinimumCashFlowNeeded(
   mortgage: MortgageDetails,
-  traditionalPayoffMonths: number
+  traditionalPayoffMonths: number,
+  startDate: Date = new Date()
 ): {
   minimumMonthlyCashFlow: number;
   additionalNeeded: number;
@@ -482,7 +515,6 @@ export function calculateMinimumCashFlowNeeded(
 } {
   const { currentBalance, aioInterestRate, monthlyPayment } = mortgage;
   const targetMonths = Math.max(12, traditionalPayoffMonths - 12); // At least 1 year savings
-  const avgDaysPerMonth = 30.42;
 
   console.log(`\n💡 [MIN CASH FLOW] Calculating minimum cash flow needed...`);
   console.log(`   Traditional payoff: ${traditionalPayoffMonths} months`);
@@ -507,9 +539,10 @@ export function calculateMinimumCashFlowNeeded(
       let totalDailyInterest = 0;
       const monthlyIncome = monthlyCashFlow; // Simplified: assume all cash flow comes as income
       const monthlyExpenses = 0; // Simplified: expenses already subtracted
+      const daysInMonth = CalendarGenerator.getDaysInMonthFrom(startDate, month - 1);
 
-      for (let day = 1; day <= avgDaysPerMonth; day++) {
-        const dayProgress = day / avgDaysPerMonth;
+      for (let day = 1; day <= daysInMonth; day++) {
+        const dayProgress = day / daysInMonth;
         const expensesToDate = monthlyExpenses * dayProgress;
         const cashAvailable = Math.max(0, monthlyIncome - expensesToDate);
         const effectiveBalance = Math.max(0, balance - cashAvailable);
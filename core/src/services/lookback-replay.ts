@@ -0,0 +1,209 @@
+/**
+ * Look-Back Replay
+ *
+ * Runs the borrower's actual statement history through the
+ * AccurateLoanCalculator: every included transaction lands on its real date,
+ * so pay timing and bill clustering drive the daily interest instead of the
+ * flat monthlyDeposits/monthlyExpenses pair. The replay answers "what would
+ * my AIO balance have been over these months", and the observed months are
+ * then looped forward to project the rest of the term.
+ */
+
+import { AccurateLoanCalculator, DailyCalculationResult } from './loan-calculator-accurate.js';
+import { CalendarGenerator } from './calendar-generator.js';
+import { fromDayNumber, MS_PER_DAY, toDayNumber } from './date-helpers.js';
+import { buildAccurateInput } from './loan-calculator-v3.js';
+import { normalizeDate } from './statement-parsers.js';
+import type { MortgageDetails, CashFlowAnalysis, LookbackReplayMonth, LookbackReplayResult } from '../types.js';
+
+const CALENDAR_DAYS = 11020; // Length of CalendarGenerator's calendar
+
+interface PatternMonth {
+  deposits: number[];     // By day offset within the month
+  withdrawals: number[];
+}
+
+function formatMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * First day of the month `offset` months after the start date, keeping the
+ * start's day of month (or the last day of a shorter month)
+ */
+function monthStartDay(start: string, offset: number): number {
+  const [year, month, day] = start.split('-').map(Number);
+  const first = new Date(Date.UTC(year, month - 1 + offset, 1));
+  const daysInMonth = CalendarGenerator.getDaysInMonth(first.getUTCMonth() + 1, first.getUTCFullYear());
+  return Math.round(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), Math.min(day, daysInMonth)) / MS_PER_DAY);
+}
+
+/**
+ * Statement window to replay: the earliest statement start (or transaction)
+ * through the latest statement end (or transaction)
+ */
+function findReplayWindow(cashFlow: CashFlowAnalysis, dates: string[]): { start: string; end: string } {
+  const starts = [...dates];
+  const ends = [...dates];
+  for (const statement of cashFlow.statements || []) {
+    const periodStart = normalizeDate(statement.periodStart);
+    const periodEnd = normalizeDate(statement.periodEnd);
+    if (periodStart) starts.push(periodStart);
+    if (periodEnd) ends.push(periodEnd);
+  }
+
+  starts.sort();
+  ends.sort();
+  return { start: starts[0], end: ends[ends.length - 1] };
+}
+
+/**
+ * Roll the replayed days up by calendar month
+ */
+function summarizeMonths(days: DailyCalculationResult[]): LookbackReplayMonth[] {
+  const months = new Map<string, DailyCalculationResult[]>();
+  for (const day of days) {
+    const key = formatMonth(day.date);
+    months.set(key, [...(months.get(key) || []), day]);
+  }
+
+  const sum = (monthDays: DailyCalculationResult[], field: keyof DailyCalculationResult) =>
+    cents(monthDays.reduce((total, day) => total + (day[field] as number), 0));
+
+  return Array.from(months.entries()).map(([month, monthDays]) => {
+    const balances = monthDays.map(day => day.endingBalance);
+    return {
+      month,
+      days: monthDays.length,
+      deposits: sum(monthDays, 'deposits'),
+      withdrawals: sum(monthDays, 'withdrawals'),
+      interestAccrued: sum(monthDays, 'dailyInterestAccrued'),
+      interestPaid: sum(monthDays, 'interestPaid'),
+      startingBalance: cents(monthDays[0].startingBalance),
+      endingBalance: cents(balances[balances.length - 1]),
+      lowestBalance: cents(Math.min(...balances)),
+      averageBalance: cents(balances.reduce((total, balance) => total + balance, 0) / balances.length),
+    };
+  });
+}
+
+/**
+ * Replay the included transactions through the AIO and loop them forward
+ *
+ * The look-back covers the statement window rounded to whole months from its
+ * first day. Looped months reuse each replayed month's days by offset from the
+ * month start; days a shorter month doesn't have fold onto its last day.
+ */
+export function replayLookback(
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis
+): LookbackReplayResult {
+  const included = (cashFlow.transactions || [])
+    .filter(transaction => !transaction.excluded)
+    .map(transaction => ({ date: normalizeDate(transaction.date), amount: Number(transaction.amount) || 0 }))
+    .filter((transaction): transaction is { date: string; amount: number } => transaction.date !== null && transaction.amount !== 0);
+
+  if (included.length === 0) {
+    throw new Error('No included transactions to replay');
+  }
+
+  const window = findReplayWindow(cashFlow, included.map(transaction => transaction.date));
+  const startDay = toDayNumber(window.start);
+  const endDay = toDayNumber(window.end);
+
+  // Only months the statements cover in full; a window shorter than a month still replays as one
+  let lookbackMonths = 1;
+  while (monthStartDay(window.start, lookbackMonths + 1) <= endDay + 1) lookbackMonths++;
+  const lookbackDays = monthStartDay(window.start, lookbackMonths) - startDay;
+
+  // Bucket each transaction into its month of the pattern
+  const pattern: PatternMonth[] = [];
+  for (let month = 0; month < lookbackMonths; month++) {
+    const length = monthStartDay(window.start, month + 1) - monthStartDay(window.start, month);
+    pattern.push({ deposits: new Array(length).fill(0), withdrawals: new Array(length).fill(0) });
+  }
+
+  let transactionCount = 0;
+  let omittedTransactionCount = 0;
+  let totalDeposits = 0;
+  let totalWithdrawals = 0;
+  for (const transaction of included) {
+    const day = toDayNumber(transaction.date);
+    if (day - startDay >= lookbackDays) {
+      omittedTransactionCount++;
+      continue;
+    }
+
+    let month = lookbackMonths - 1;
+    while (monthStartDay(window.start, month) > day) month--;
+    const offset = day - monthStartDay(window.start, month);
+
+    if (transaction.amount > 0) {
+      pattern[month].deposits[offset] += transaction.amount;
+      totalDeposits += transaction.amount;
+    } else {
+      pattern[month].withdrawals[offset] += -transaction.amount;
+      totalWithdrawals += -transaction.amount;
+    }
+    transactionCount++;
+  }
+
+  // Lay the pattern over the whole calendar, month by month
+  const deposits = new Array(CALENDAR_DAYS).fill(0);
+  const withdrawals = new Array(CALENDAR_DAYS).fill(0);
+  for (let month = 0; monthStartDay(window.start, month) - startDay < CALENDAR_DAYS; month++) {
+    const first = monthStartDay(window.start, month) - startDay;
+    const length = monthStartDay(window.start, month + 1) - monthStartDay(window.start, month);
+    const source = pattern[month % lookbackMonths];
+
+    source.deposits.forEach((amount, offset) => {
+      const index = first + Math.min(offset, length - 1);
+      if (index < CALENDAR_DAYS) {
+        deposits[index] += amount;
+        withdrawals[index] += source.withdrawals[offset];
+      }
+    });
+  }
+
+  console.log(`⏪ Look-back replay: ${transactionCount} transactions from ${window.start} over ${lookbackMonths} months (${omittedTransactionCount} past the last whole month omitted)`);
+
+  const [year, month, day] = window.start.split('-').map(Number);
+  const result = AccurateLoanCalculator.simulate({
+    ...buildAccurateInput(mortgageDetails, cashFlow, new Date(year, month - 1, day)),
+    monthlyIncome: totalDeposits / lookbackMonths,
+    monthlyExpenses: totalWithdrawals / lookbackMonths,
+    dailyCashFlows: { deposits, withdrawals },
+  });
+
+  const replayed = result.dailyResults.slice(0, lookbackDays);
+  const lastReplayed = replayed[replayed.length - 1];
+  const { summary } = result;
+
+  return {
+    periodStart: window.start,
+    periodEnd: fromDayNumber(startDay + lookbackDays - 1),
+    lookbackMonths,
+    transactionCount,
+    omittedTransactionCount,
+    startingBalance: cents(mortgageDetails.currentBalance || 0),
+    lookback: {
+      months: summarizeMonths(replayed),
+      totalDeposits: cents(totalDeposits),
+      totalWithdrawals: cents(totalWithdrawals),
+      interestPaid: cents(replayed.reduce((total, replayedDay) => total + replayedDay.interestPaid, 0)),
+      endingBalance: cents(lastReplayed.endingBalance),
+    },
+    projection: {
+      totalInterestPaid: cents(summary.totalInterestPaid),
+      finalBalance: cents(summary.finalBalance),
+      payoffDate: summary.payoffDate,
+      payoffMonths: summary.monthsToPayoff,
+      creditLimitBreaches: summary.creditLimitBreaches.length,
+      totalRequiredPaydown: cents(summary.totalRequiredPaydown),
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { getRedisClient } from './redis-service.js';
+import type { Transaction } from '../types.js';
+
+/**
+ * Merchant Categorization Memory
+ *
+ * Remembers each loan officer's category and exclusion overrides per merchant
+ * so the next borrower's statements come back the way that officer already
+ * corrected them. Overrides are keyed by the normalized merchant name and
+ * take precedence over both the categorization rules and the model.
+ *
+ * Uses Redis when REDIS_URL is configured, otherwise falls back to an
+ * in-memory store (local development only, lost on restart).
+ */
+
+export interface MerchantOverride {
+  merchant: string;                        // Normalized merchant key
+  category?: Transaction['category'];      // Category to force (unset = keep rules/model category)
+  excluded?: boolean;                      // Exclusion to force (unset = keep default)
+  example: string;                         // Original description the override was learned from
+  updatedAt: string;
+}
+
+export interface MerchantOverrideInput {
+  merchant?: string;
+  description?: string;
+  category?: Transaction['category'];
+  excluded?: boolean;
+}
+
+// Rule id recorded on transactions whose category came from an officer override
+export const OFFICER_OVERRIDE_RULE_ID = 'officer-override';
+
+// In-memory fallback (used when REDIS_URL is not configured)
+const memoryOverrides = new Map<string, Map<string, MerchantOverride>>();
+
+const memoryKey = (email: string) => `merchant-memory:${email.toLowerCase()}`;
+
+/**
+ * Normalize a transaction description to a merchant key
+ * Must stay in sync with normalizeMerchantName in client/src/api.ts
+ */
+export function normalizeMerchantName(description: string): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '') // Remove special characters
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim()
+    .substring(0, 30); // Use first 30 chars for grouping
+}
+
+/**
+ * List a loan officer's learned overrides, most recently updated first
+ */
+export async function getMerchantOverrides(email: string): Promise<MerchantOverride[]> {
+  const client = getRedisClient();
+  let overrides: MerchantOverride[];
+
+  if (!client) {
+    overrides = Array.from(memoryOverrides.get(memoryKey(email))?.values() || []);
+  } else {
+    try {
+      const values: Record<string, string> = await client.hgetall(memoryKey(email));
+      overrides = Object.values(values).map(value => JSON.parse(value) as MerchantOverride);
+    } catch (error) {
+      console.error('Error getting merchant overrides:', error);
+      return [];
+    }
+  }
+
+  return overrides.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Record (or update) an override for a merchant
+ * A category edit and an exclusion toggle on the same merchant merge into one override.
+ */
+export async function saveMerchantOverride(
+  email: string,
+  input: MerchantOverrideInput
+): Promise<MerchantOverride | null> {
+  const merchant = input.merchant || normalizeMerchantName(input.description || '');
+  if (!merchant) return null;
+
+  const existing = (await getMerchantOverrides(email)).find(o => o.merchant === merchant);
+  const override: MerchantOverride = {
+    merchant,
+    category: input.category ?? existing?.category,
+    excluded: input.excluded ?? existing?.excluded,
+    example: input.description || existing?.example || merchant,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const client = getRedisClient();
+
+  if (!client) {
+    const overrides = memoryOverrides.get(memoryKey(email)) || new Map<string, MerchantOverride>();
+    overrides.set(merchant, override);
+    memoryOverrides.set(memoryKey(email), overrides);
+    return override;
+  }
+
+  try {
+    await client.hset(memoryKey(email), merchant, JSON.stringify(override));
+    console.log(`Merchant override saved for ${email}: "${merchant}"`);
+    return override;
+  } catch (error) {
+    console.error('Error saving merchant override:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget a learned override
+ */
+export async function deleteMerchantOverride(email: string, merchant: string): Promise<boolean> {
+  const client = getRedisClient();
+
+  if (!client) {
+    return memoryOverrides.get(memoryKey(email))?.delete(merchant) ?? false;
+  }
+
+  try {
+    const removed = await client.hdel(memoryKey(email), merchant);
+    return removed > 0;
+  } catch (error) {
+    console.error('Error deleting merchant override:', error);
+    return false;
+  }
+}
+
+/**
+ * Apply learned overrides to categorized transactions
+ * Transactions whose category was overridden are tagged with OFFICER_OVERRIDE_RULE_ID.
+ */
+export function applyMerchantOverrides(transactions: any[], overrides: MerchantOverride[]): any[] {
+  if (overrides.length === 0) return transactions;
+
+  const byMerchant = new Map(overrides.map(o => [o.merchant, o]));
+
+  return transactions.map(transaction => {
+    const override = byMerchant.get(normalizeMerchantName(transaction.description));
+    if (!override) return transaction;
+
+    return {
+      ...transaction,
+      ...(override.category ? { category: override.category, ruleId: OFFICER_OVERRIDE_RULE_ID } : {}),
+      ...(override.excluded !== undefined ? { excluded: override.excluded } : {}),
+    };
+  });
+}
@@ -1,38 +1,51 @@
-import OpenAI from 'openai';
 import fs from 'fs/promises';
 import path from 'path';
-import xlsx from 'xlsx';
-import type { CashFlowAnalysis, OpenAIAnalysisResult } from '../types.js';
-
-// ==================== SMART AI ROUTING ====================
-// We use TWO AI clients for optimal performance:
-// 1. OpenAI Direct (GPT-4) → CSV/XLSX structured data analysis
-// 2. OpenRouter (Gemini) → Images/PDFs vision processing
-
-// Client 1: OpenAI Direct for structured data (CSV/XLSX)
-const openaiDirect = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  timeout: 180000, // 3 minutes timeout for large file analysis
-});
-
-// Client 2: OpenRouter with Gemini for vision tasks (images/PDFs)
-const openRouter = new OpenAI({
-  apiKey: process.env.OPENROUTER_API_KEY,
-  baseURL: 'https://openrouter.ai/api/v1',
-  timeout: 180000, // 3 minutes timeout for PDF/image processing
-  defaultHeaders: {
-    'HTTP-Referer': process.env.YOUR_SITE_URL || 'https://aio-simulator.cmgfinancial.ai',
-    'X-Title': 'All-In-One Look Back Simulator',
-  },
-});
-
-// Model configurations
-const TEXT_MODEL = 'gpt-4o'; // OpenAI Direct - excellent for structured data, JSON analysis
-const VISION_MODEL = 'google/gemini-2.0-flash-001'; // OpenRouter Gemini - superior vision, fast, cost-effective
-
-console.log(`🔧 Smart AI Routing Enabled:`);
-console.log(`   📊 Text/CSV/XLSX → OpenAI Direct (${TEXT_MODEL})`);
-console.log(`   👁️  Images/PDFs → OpenRouter (${VISION_MODEL})`);
+import type {
+  AnalysisProgressEmitter,
+  CashFlowAnalysis,
+  LlmOutputIssue,
+  LlmValidationReport,
+  OpenAIAnalysisResult,
+  StatementSummary,
+  UnparsedStatementRow,
+} from '../types.js';
+import {
+  parseOfxStatementHeader,
+  parseSpreadsheet,
+  parseStructuredStatement,
+  runningBalanceHeader,
+  type StatementHeader,
+} from './statement-parsers.js';
+import {
+  calculateAverageMonthlyBalance,
+  isStatementHeaderLine,
+  parsePageMarker,
+  parseStatementHeader,
+  reconcileStatement,
+} from './statement-reconciler.js';
+import { applyMerchantOverrides, getMerchantOverrides } from './merchant-memory-service.js';
+import { completeJson, extractDocument, type DocumentExtractionRequest } from './llm-provider.js';
+import {
+  checkCategorizationSummary,
+  checkCategorizedRows,
+  checkExtraction,
+  DEPOSIT_FREQUENCIES,
+  indexTransactions,
+  parseJsonObject,
+  summarizeCategorized,
+  type ExtractionCheck,
+} from './llm-output-validator.js';
+import { LLM_TASKS } from '../config/llm-tasks.js';
+
+// ==================== MODEL CALLS ====================
+// Vision extraction (PDFs/images) and JSON categorization go through the LLM
+// provider (llm-provider.ts), which picks the model, timeout and attempts per
+// task and can be swapped for the offline fixture provider. Every output is
+// validated against its input (llm-output-validator.ts) and only the rows that
+// fail are re-asked.
+
+// An uploaded statement on disk (multer upload or a job's temp copy)
+export type StatementFile = Pick<Express.Multer.File, 'originalname' | 'path'>;
 
 /**
  * Note: PDFs are now processed NATIVELY using Gemini 2.0 Flash's PDF capabilities.
@@ -41,81 +54,27 @@ console.log(`   👁️  Images/PDFs → OpenRouter (${VISION_MODEL})`);
  */
 
 /**
- * Extract data from Excel/CSV file with intelligent compression
+ * Extract transactions from an Excel/CSV file
  *
- * OPTIMIZATION: Extract only essential fields and limit to recent months
- * to dramatically reduce token usage while maintaining analysis quality
+ * Known bank export layouts (Chase, BofA, Wells Fargo, ...) are mapped by
+ * profile, including split debit/credit columns; anything else falls back to
+ * common header names. No model call is needed for spreadsheets.
  */
-async function extractDataFromSpreadsheet(filePath: string): Promise<string> {
+async function extractDataFromSpreadsheet(filePath: string): Promise<{ content: string; unparsedRows: UnparsedStatementRow[] }> {
   try {
-    const workbook = xlsx.readFile(filePath);
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const jsonData = xlsx.utils.sheet_to_json(worksheet);
-
-    console.log(`Original spreadsheet has ${jsonData.length} rows`);
-
-    // Debug: Log first row to see column names
-    if (jsonData.length > 0) {
-      const firstRow = jsonData[0] as Record<string, any>;
-      console.log(`📋 CSV Column names:`, Object.keys(firstRow));
-      console.log(`📋 First row sample:`, firstRow);
-    }
+    const { profile, transactions, unparsedRows } = parseSpreadsheet(filePath);
 
-    // Helper to convert Excel serial date to ISO date string
-    const excelDateToISO = (excelDate: any): string | null => {
-      // If it's already a string date, return as-is
-      if (typeof excelDate === 'string') return excelDate;
-
-      // If it's a number, it's an Excel serial date
-      if (typeof excelDate === 'number') {
-        // Excel dates are days since 12/31/1899
-        // JavaScript dates are milliseconds since 1/1/1970
-        // Difference: 25569 days
-        const jsDate = new Date((excelDate - 25569) * 86400 * 1000);
-
-        // Verify it's a valid date
-        if (!isNaN(jsDate.getTime())) {
-          return jsDate.toISOString().split('T')[0]; // Return YYYY-MM-DD
-        }
-      }
-
-      return null;
-    };
+    console.log(`📋 Spreadsheet layout: ${profile}`);
+    console.log(`📊 Parsed ${transactions.length} rows with valid date+amount`);
 
-    // Compress data: Extract only essential fields
-    const compressedData = jsonData.map((row: any) => {
-      // Try common field names for date, description, amount
-      const rawDate = row['Posting Date'] || row['Date'] || row['Transaction Date'] || row['date'];
-      const date = excelDateToISO(rawDate);
-      const description = row['Description'] || row['Merchant'] || row['description'] || row['memo'];
-      const amount = row['Amount'] || row['amount'] || row['Debit'] || row['Credit'];
-      const type = row['Type'] || row['Transaction Type'] || row['Category'];
-
-      return { date, description, amount, type };
-    }).filter(row => row.date && row.amount); // Filter out invalid rows
-
-    console.log(`📊 After field extraction: ${compressedData.length} rows with valid date+amount`);
-
-    // Sample first few dates to verify parsing
-    if (compressedData.length > 0) {
-      const sample = compressedData.slice(0, 3);
-      console.log(`📅 Sample dates from CSV:`, sample.map(r => {
-        const rawDate = r.date;
-        if (!rawDate) return { raw: null, parsed: null, valid: false };
-        return {
-          raw: rawDate,
-          parsed: new Date(rawDate).toISOString(),
-          valid: !isNaN(new Date(rawDate).getTime())
-        };
-      }));
+    if (transactions.length > 0) {
+      console.log(`📅 Sample rows:`, transactions.slice(0, 3));
+    }
+    if (unparsedRows.length > 0) {
+      console.warn(`⚠️  ${unparsedRows.length} spreadsheet row(s) couldn't be read:`, unparsedRows.slice(0, 3));
     }
 
-    // Return ALL valid transactions - no date filtering
-    // The AI will analyze the entire history provided by the user
-    console.log(`✓ Using all ${compressedData.length} transactions (no date filtering)`);
-
-    return JSON.stringify(compressedData);
+    return { content: JSON.stringify(transactions), unparsedRows };
   } catch (error) {
     console.error('Error extracting spreadsheet data:', error);
     throw new Error('Failed to extract data from spreadsheet');
@@ -123,52 +82,30 @@ async function extractDataFromSpreadsheet(filePath: string): Promise<string> {
 }
 
 /**
- * Analyze image file using vision model via OpenRouter
- * Supports images from various sources including client-side PDF conversions
+ * Extract transactions from an OFX/QFX/QIF export
+ * These formats are fully structured, so they are parsed deterministically
  */
-async function analyzeImage(filePath: string): Promise<string> {
-  const TIMEOUT_MS = 60000; // 60 seconds
-
+async function extractDataFromStructuredStatement(
+  filePath: string,
+  ext: string
+): Promise<{ content: string; unparsedRows: UnparsedStatementRow[] }> {
   try {
-    console.log('🔍 [1/5] Starting image analysis...');
-    console.log(`   📁 File: ${filePath}`);
-
-    console.log('📖 [2/5] Reading image file...');
-    const imageBuffer = await fs.readFile(filePath);
-    console.log(`   ✓ File read successfully (${imageBuffer.length} bytes)`);
+    const { transactions, unparsedRows } = await parseStructuredStatement(filePath, ext);
 
-    console.log('🔄 [3/5] Converting to base64...');
-    const base64Image = imageBuffer.toString('base64');
-    const ext = path.extname(filePath).toLowerCase();
-    const mimeType = ext === '.png' ? 'image/png' : 'image/jpeg';
-    console.log(`   ✓ Converted to base64 (${base64Image.length} chars, type: ${mimeType})`);
-
-    console.log('🌐 [4/5] Calling OpenRouter (Gemini) for vision...');
-    console.log(`   📡 Endpoint: ${openRouter.baseURL}`);
-    console.log(`   🤖 Model: ${VISION_MODEL}`);
-    console.log(`   ⏱️  Timeout: ${TIMEOUT_MS / 1000}s`);
-
-    // Create a timeout promise that rejects after TIMEOUT_MS
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        console.error(`⏱️  ❌ TIMEOUT FIRED - No response after ${TIMEOUT_MS / 1000}s`);
-        reject(new Error(`Image analysis timed out after ${TIMEOUT_MS / 1000} seconds`));
-      }, TIMEOUT_MS);
-    });
+    console.log(`📊 Parsed ${transactions.length} transactions from ${ext.toUpperCase().slice(1)} file`);
+    if (unparsedRows.length > 0) {
+      console.warn(`⚠️  ${unparsedRows.length} ${ext.toUpperCase().slice(1)} record(s) couldn't be read:`, unparsedRows.slice(0, 3));
+    }
 
-    console.log('   🚀 Sending API request NOW...');
-    const startTime = Date.now();
+    return { content: JSON.stringify(transactions), unparsedRows };
+  } catch (error) {
+    console.error('Error parsing structured statement:', error);
+    throw new Error(`Failed to parse ${ext} statement`);
+  }
+}
 
-    // Create the API call promise using OpenRouter with Gemini
-    const apiCallPromise = openRouter.chat.completions.create({
-      model: VISION_MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `⚠️ CRITICAL INSTRUCTIONS FOR IMAGE TRANSACTION EXTRACTION ⚠️
+// Vision extraction prompts (PDFs additionally mark where each page starts)
+const IMAGE_EXTRACTION_PROMPT = `⚠️ CRITICAL INSTRUCTIONS FOR IMAGE TRANSACTION EXTRACTION ⚠️
 
 You are extracting transaction data from a bank statement image. This data will be used for financial analysis.
 
@@ -180,10 +117,20 @@ You are extracting transaction data from a bank statement image. This data will
 5. If the image has 200 transactions, your output must have 200 transactions
 6. Count transactions as you extract to ensure completeness
 
+STATEMENT HEADER - Before the transactions, copy these four lines from the statement summary (omit a line only if the statement doesn't show it):
+ACCOUNT | Account name and last 4 digits of the account number
+PERIOD | YYYY-MM-DD | YYYY-MM-DD
+OPENING BALANCE | Beginning balance for the period
+CLOSING BALANCE | Ending balance for the period
+
 FORMAT REQUIREMENT - Each transaction on a new line:
 YYYY-MM-DD | Full Description Text | +/-Amount
 
 EXAMPLES:
+ACCOUNT | Chase Total Checking ...4821
+PERIOD | 2024-10-01 | 2024-10-31
+OPENING BALANCE | 5234.12
+CLOSING BALANCE | 6012.44
 2024-10-24 | CMG MORTGAGE INC PAYROLL PPD ID: 9999922657 | +9233.45
 2024-10-24 | SO CAL EDISON CO BILL PAYMT 700689315083 | -155.38
 2024-10-23 | Payment to Chase card ending in 8435 10/23 | -295.88
@@ -196,48 +143,104 @@ CRITICAL RULES:
 ✓ DETERMINISTIC - Same image must produce same output every time
 ✓ NO FILTERING - Include all transaction types (credits, debits, transfers, fees)
 
-⚠️ VERIFICATION: After extraction, count your transactions and state the total count at the end.
-
-Begin extraction now:`,
-            },
-            {
-              type: 'image_url',
-              image_url: {
-                url: `data:${mimeType};base64,${base64Image}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 16000, // Increased to handle large statements with many transactions
-      temperature: 0, // Deterministic output for consistent results
-      top_p: 1, // Disable nucleus sampling for maximum consistency
-      seed: 42, // Fixed seed for reproducibility (may not be supported by all models)
-    }, {
-      timeout: TIMEOUT_MS, // SDK timeout as backup
-    });
+⚠️ VERIFICATION: After extraction, count your transactions and end with exactly this line (nothing after it):
+TOTAL TRANSACTIONS: Number of transaction rows written
+
+Begin extraction now:`;
+
+const PDF_EXTRACTION_PROMPT = `⚠️ CRITICAL INSTRUCTIONS FOR PDF TRANSACTION EXTRACTION ⚠️
+
+You are extracting transaction data from a bank statement PDF. This data will be used for financial analysis.
+
+🔴 MANDATORY REQUIREMENTS:
+1. Extract EVERY SINGLE TRANSACTION - no sampling, no skipping
+2. Use EXACT dates as shown in the PDF (do not modify or hallucinate dates)
+3. Use EXACT descriptions as shown in the PDF (do not summarize or shorten)
+4. Use EXACT amounts as shown in the PDF (preserve decimal precision)
+5. If the PDF has 500 transactions, your output must have 500 transactions
+6. Count transactions as you extract to ensure completeness
 
-    console.log('   ⏳ Waiting for response...');
-    // Race the API call against the timeout
-    const response = await Promise.race([apiCallPromise, timeoutPromise]);
+STATEMENT HEADER - Before the transactions, copy these four lines from the statement summary (omit a line only if the statement doesn't show it):
+ACCOUNT | Account name and last 4 digits of the account number
+PERIOD | YYYY-MM-DD | YYYY-MM-DD
+OPENING BALANCE | Beginning balance for the period
+CLOSING BALANCE | Ending balance for the period
+
+PAGE MARKERS - Before the transactions of each PDF page, write a line with the page number and the total page count:
+PAGE | Page number | Total pages
+
+FORMAT REQUIREMENT - Each transaction on a new line:
+YYYY-MM-DD | Full Description Text | +/-Amount
+
+EXAMPLES:
+ACCOUNT | Chase Total Checking ...4821
+PERIOD | 2024-10-01 | 2024-10-31
+OPENING BALANCE | 5234.12
+CLOSING BALANCE | 6012.44
+PAGE | 1 | 3
+2024-10-24 | CMG MORTGAGE INC PAYROLL PPD ID: 9999922657 | +9233.45
+2024-10-24 | SO CAL EDISON CO BILL PAYMT 700689315083 | -155.38
+PAGE | 2 | 3
+2024-10-23 | Payment to Chase card ending in 8435 10/23 | -295.88
+
+CRITICAL RULES:
+✓ EXTRACT EVERY TRANSACTION - Do not skip any rows
+✓ PRESERVE EXACT DATES - Copy dates exactly as shown (MM/DD/YYYY → YYYY-MM-DD)
+✓ PRESERVE EXACT DESCRIPTIONS - Do not abbreviate or summarize merchant names
+✓ PRESERVE EXACT AMOUNTS - Keep full precision (e.g., -155.38 not -155)
+✓ DETERMINISTIC - Same PDF must produce same output every time
+✓ NO FILTERING - Include all transaction types (credits, debits, transfers, fees)
+
+⚠️ VERIFICATION: After extraction, count your transactions and end with exactly this line (nothing after it):
+TOTAL TRANSACTIONS: Number of transaction rows written
+
+Begin extraction now:`;
+
+const IMAGE_TIMEOUT_MS = 60000; // Single images are quicker than multi-page PDFs
+
+/**
+ * Analyze image file using vision model via the LLM provider
+ * Supports images from various sources including client-side PDF conversions
+ */
+async function analyzeImage(
+  filePath: string,
+  onAttempt?: (attempt: number) => void
+): Promise<{ content: string; validation: LlmValidationReport }> {
+  try {
+    console.log('🔍 Starting image analysis...');
+    console.log(`   📁 File: ${filePath}`);
+
+    const imageBuffer = await fs.readFile(filePath);
+    const ext = path.extname(filePath).toLowerCase();
+    const mimeType = ext === '.png' ? 'image/png' : 'image/jpeg';
+    console.log(`   ✓ File read successfully (${imageBuffer.length} bytes, type: ${mimeType})`);
+
+    const document = { filename: path.basename(filePath), mimeType, data: imageBuffer };
+    const startTime = Date.now();
+    const extractedContent = await extractDocument({
+      purpose: 'extraction',
+      prompt: IMAGE_EXTRACTION_PROMPT,
+      document,
+      timeoutMs: IMAGE_TIMEOUT_MS,
+      onAttempt,
+    });
 
     const elapsedTime = Date.now() - startTime;
-    const extractedContent = response.choices[0]?.message?.content || '';
-    console.log(`✅ [5/5] API response received in ${(elapsedTime / 1000).toFixed(2)}s`);
+    console.log(`✅ Response received in ${(elapsedTime / 1000).toFixed(2)}s`);
     console.log(`   📝 Response length: ${extractedContent.length} chars`);
 
     // Count transactions in extracted data for verification
     const transactionLines = extractedContent.split('\n').filter(line => line.includes('|')).length;
     console.log(`   📊 Extracted transactions: ${transactionLines} lines`);
 
-    return extractedContent;
+    return await validateExtraction(document, extractedContent, IMAGE_TIMEOUT_MS);
   } catch (error) {
     console.error('❌ Error analyzing image:', error);
 
     // Provide more specific error messages
     if (error instanceof Error) {
       if (error.message.includes('timeout') || error.message.includes('timed out')) {
-        throw new Error(`Image analysis timed out after ${TIMEOUT_MS / 1000} seconds. Please try again or use a smaller image.`);
+        throw new Error(`Image analysis timed out after ${IMAGE_TIMEOUT_MS / 1000} seconds. Please try again or use a smaller image.`);
       }
       throw new Error(`Failed to analyze image: ${error.message}`);
     }
@@ -246,117 +249,95 @@ Begin extraction now:`,
 }
 
 /**
- * Analyze PDF file using vision model via OpenAI
- * TESTING: Native PDF support (no conversion to images)
+ * Follow streamed extraction output, reporting each page as soon as the model
+ * moves past its PAGE marker (the last page is reported by finish())
  */
-async function analyzePdf(filePath: string): Promise<string> {
-  const TIMEOUT_MS = 120000; // 120 seconds for PDFs (can be multi-page)
+function createPageTracker(
+  onPage?: (page: number, totalPages: number | undefined, transactionCount: number) => void
+): { push: (delta: string) => void; finish: () => void } {
+  let partialLine = '';
+  let currentPage: { page: number; totalPages?: number; transactionCount: number } | null = null;
+
+  const finishPage = () => {
+    if (currentPage && onPage) {
+      onPage(currentPage.page, currentPage.totalPages, currentPage.transactionCount);
+    }
+  };
 
+  const readLine = (line: string) => {
+    const marker = parsePageMarker(line);
+    if (marker) {
+      finishPage();
+      currentPage = { ...marker, transactionCount: 0 };
+    } else if (currentPage && line.includes('|') && !isStatementHeaderLine(line)) {
+      currentPage.transactionCount++;
+    }
+  };
+
+  return {
+    push(delta: string) {
+      const lines = (partialLine + delta).split('\n');
+      partialLine = lines.pop() || '';
+      lines.forEach(readLine);
+    },
+    finish() {
+      readLine(partialLine);
+      partialLine = '';
+      finishPage();
+      currentPage = null;
+    },
+  };
+}
+
+/**
+ * Analyze PDF file using vision model via the LLM provider
+ * Native PDF support (no conversion to images); the response is streamed so
+ * onPage fires as each statement page is extracted
+ */
+async function analyzePdf(
+  filePath: string,
+  onPage?: (page: number, totalPages: number | undefined, transactionCount: number) => void,
+  onAttempt?: (attempt: number) => void
+): Promise<{ content: string; validation: LlmValidationReport }> {
   try {
-    console.log('📄 [1/4] Starting PDF analysis...');
+    console.log('📄 Starting PDF analysis...');
     console.log(`   📁 File: ${filePath}`);
 
-    console.log('📖 [2/4] Reading PDF file...');
     const pdfBuffer = await fs.readFile(filePath);
     console.log(`   ✓ File read successfully (${pdfBuffer.length} bytes)`);
 
-    console.log('🔄 [3/4] Converting to base64...');
-    const base64Pdf = pdfBuffer.toString('base64');
-    console.log(`   ✓ Converted to base64 (${base64Pdf.length} chars)`);
-
-    console.log('🌐 [4/4] Calling OpenRouter (Gemini) with native PDF...');
-    console.log(`   📡 Endpoint: ${openRouter.baseURL}`);
-    console.log(`   🤖 Model: ${VISION_MODEL}`);
-    console.log(`   ⏱️  Timeout: ${TIMEOUT_MS / 1000}s`);
-
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        console.error(`⏱️  ❌ TIMEOUT FIRED - No response after ${TIMEOUT_MS / 1000}s`);
-        reject(new Error(`PDF analysis timed out after ${TIMEOUT_MS / 1000} seconds`));
-      }, TIMEOUT_MS);
-    });
+    // A retried attempt starts page tracking over
+    let pages = createPageTracker(onPage);
 
-    console.log('   🚀 Sending API request NOW with native PDF...');
+    const document = { filename: path.basename(filePath), mimeType: 'application/pdf', data: pdfBuffer };
     const startTime = Date.now();
-
-    // Send PDF directly to OpenRouter (Gemini) using proper file format
-    const apiCallPromise = openRouter.chat.completions.create({
-      model: VISION_MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `⚠️ CRITICAL INSTRUCTIONS FOR PDF TRANSACTION EXTRACTION ⚠️
-
-You are extracting transaction data from a bank statement PDF. This data will be used for financial analysis.
-
-🔴 MANDATORY REQUIREMENTS:
-1. Extract EVERY SINGLE TRANSACTION - no sampling, no skipping
-2. Use EXACT dates as shown in the PDF (do not modify or hallucinate dates)
-3. Use EXACT descriptions as shown in the PDF (do not summarize or shorten)
-4. Use EXACT amounts as shown in the PDF (preserve decimal precision)
-5. If the PDF has 500 transactions, your output must have 500 transactions
-6. Count transactions as you extract to ensure completeness
-
-FORMAT REQUIREMENT - Each transaction on a new line:
-YYYY-MM-DD | Full Description Text | +/-Amount
-
-EXAMPLES:
-2024-10-24 | CMG MORTGAGE INC PAYROLL PPD ID: 9999922657 | +9233.45
-2024-10-24 | SO CAL EDISON CO BILL PAYMT 700689315083 | -155.38
-2024-10-23 | Payment to Chase card ending in 8435 10/23 | -295.88
-
-CRITICAL RULES:
-✓ EXTRACT EVERY TRANSACTION - Do not skip any rows
-✓ PRESERVE EXACT DATES - Copy dates exactly as shown (MM/DD/YYYY → YYYY-MM-DD)
-✓ PRESERVE EXACT DESCRIPTIONS - Do not abbreviate or summarize merchant names
-✓ PRESERVE EXACT AMOUNTS - Keep full precision (e.g., -155.38 not -155)
-✓ DETERMINISTIC - Same PDF must produce same output every time
-✓ NO FILTERING - Include all transaction types (credits, debits, transfers, fees)
-
-⚠️ VERIFICATION: After extraction, count your transactions and state the total count at the end.
-
-Begin extraction now:`,
-            },
-            {
-              type: 'file' as any, // OpenRouter-specific file type
-              file: {
-                filename: path.basename(filePath),
-                file_data: `data:application/pdf;base64,${base64Pdf}`,
-              },
-            } as any,
-          ],
-        },
-      ],
-      max_tokens: 16000, // Increased to handle 500+ transactions
-      temperature: 0, // Deterministic output for consistent results
-      top_p: 1, // Disable nucleus sampling for maximum consistency
-      seed: 42, // Fixed seed for reproducibility (may not be supported by all models)
-    } as any, {
-      timeout: TIMEOUT_MS,
+    const extractedContent = await extractDocument({
+      purpose: 'extraction',
+      prompt: PDF_EXTRACTION_PROMPT,
+      document,
+      onText: delta => pages.push(delta),
+      onAttempt: (attempt) => {
+        pages = createPageTracker(onPage);
+        onAttempt?.(attempt);
+      },
     });
-
-    console.log('   ⏳ Waiting for response...');
-    const response = await Promise.race([apiCallPromise, timeoutPromise]);
+    pages.finish();
 
     const elapsedTime = Date.now() - startTime;
-    const extractedContent = response.choices[0]?.message?.content || '';
-    console.log(`✅ [4/4] API response received in ${(elapsedTime / 1000).toFixed(2)}s`);
+    console.log(`✅ Response received in ${(elapsedTime / 1000).toFixed(2)}s`);
     console.log(`   📝 Response length: ${extractedContent.length} chars`);
 
     // Count transactions in extracted data for verification
     const transactionLines = extractedContent.split('\n').filter(line => line.includes('|')).length;
     console.log(`   📊 Extracted transactions: ${transactionLines} lines`);
 
-    return extractedContent;
+    return await validateExtraction(document, extractedContent);
   } catch (error) {
     console.error('❌ Error analyzing PDF:', error);
 
     if (error instanceof Error) {
       if (error.message.includes('timeout') || error.message.includes('timed out')) {
-        throw new Error(`PDF analysis timed out after ${TIMEOUT_MS / 1000} seconds. Please try again.`);
+        throw new Error(`PDF analysis timed out. Please try again.`);
       }
       throw new Error(`Failed to analyze PDF: ${error.message}`);
     }
@@ -364,6 +345,269 @@ Begin extraction now:`,
   }
 }
 
+// ==================== OUTPUT VALIDATION ====================
+
+/**
+ * Ask the vision model for only the rows that failed extraction checks:
+ * replacements for malformed rows first, then each missing page after its PAGE marker
+ */
+function buildExtractionRepairPrompt(malformed: ExtractionCheck['malformed'], missingPages: number[], totalPages: number): string {
+  const sections: string[] = [];
+
+  if (malformed.length > 0) {
+    sections.push(`MALFORMED ROWS - Re-read each of these rows from the statement and write it correctly, one line each, before anything else:
+${malformed.map(row => `${row.text}   (${row.reason})`).join('\n')}`);
+  }
+  if (missingPages.length > 0) {
+    sections.push(`MISSING PAGES - For each of these pages write "PAGE | page number | ${totalPages}" and then EVERY transaction on that page:
+${missingPages.join(', ')}`);
+  }
+
+  return `⚠️ CORRECTIONS NEEDED FOR A PREVIOUS EXTRACTION ⚠️
+
+Your previous extraction of this bank statement had problems. Output ONLY the rows requested below - do not repeat rows that were already extracted correctly.
+
+${sections.join('\n\n')}
+
+FORMAT REQUIREMENT - Each transaction on a new line:
+YYYY-MM-DD | Full Description Text | +/-Amount
+
+CRITICAL RULES:
+✓ PRESERVE EXACT DATES, DESCRIPTIONS AND AMOUNTS as shown on the statement
+✓ NO statement header lines (ACCOUNT, PERIOD, balances) and no total count
+
+Begin corrections now:`;
+}
+
+/**
+ * Check a file's extraction output and re-ask for only its malformed rows and
+ * missing pages (up to the extraction task's repair rounds). Rows still
+ * malformed after the last re-ask are dropped and reported as unresolved.
+ */
+async function validateExtraction(
+  document: DocumentExtractionRequest['document'],
+  content: string,
+  timeoutMs?: number
+): Promise<{ content: string; validation: LlmValidationReport }> {
+  const first = checkExtraction(content);
+  const totalPages = Math.max(0, ...first.lines.map(line => parsePageMarker(line)?.totalPages || 0));
+  let lines = first.lines;
+  let malformed = first.malformed;
+  let missingPages = first.missingPages;
+  let repaired = 0;
+  let repairRounds = 0;
+
+  while (repairRounds < LLM_TASKS.extraction.repairRounds && (malformed.length > 0 || missingPages.length > 0)) {
+    repairRounds++;
+    console.log(`🔧 Re-asking for ${malformed.length} malformed row(s) and ${missingPages.length} missing page(s) of ${document.filename}`);
+
+    try {
+      const repairContent = await extractDocument({
+        purpose: 'extraction-repair',
+        prompt: buildExtractionRepairPrompt(malformed, missingPages, totalPages),
+        document,
+        timeoutMs,
+      });
+      const repair = checkExtraction(repairContent);
+
+      // Rows before the first PAGE marker replace malformed rows; the rest fill missing pages
+      const firstMarker = repair.lines.findIndex(line => parsePageMarker(line));
+      const replacements = (firstMarker === -1 ? repair.lines : repair.lines.slice(0, firstMarker))
+        .filter(line => !isStatementHeaderLine(line)).length;
+      const repairedPages = new Set(repair.lines.map(line => parsePageMarker(line)?.page));
+
+      lines = [...lines, ...repair.lines.filter(line => !isStatementHeaderLine(line) || parsePageMarker(line))];
+      repaired += repair.transactionCount;
+      malformed = [...malformed.slice(replacements), ...repair.malformed];
+      missingPages = missingPages.filter(page => !repairedPages.has(page));
+    } catch (error) {
+      console.error(`❌ Extraction repair for ${document.filename} failed:`, error instanceof Error ? error.message : error);
+      break;
+    }
+  }
+
+  const unresolved = malformed.length + missingPages.length;
+  const transactionCount = first.transactionCount + repaired;
+  const validation: LlmValidationReport = {
+    chunk: document.filename,
+    expected: first.statedCount ?? first.transactionCount + first.malformed.length,
+    returned: first.transactionCount,
+    issues: first.issues,
+    repairRounds,
+    repaired,
+    unresolved,
+    valid: unresolved === 0 && (first.statedCount === undefined || first.statedCount === transactionCount),
+  };
+
+  if (first.issues.length > 0) {
+    console.warn(`⚠️  ${document.filename}: ${first.issues.length} extraction issue(s), ${repaired} row(s) repaired, ${unresolved} unresolved`);
+  }
+
+  // Untouched output is passed on as-is; otherwise only the lines that passed
+  return { content: first.issues.length > 0 ? lines.join('\n') : content, validation };
+}
+
+const UNRESOLVED_FLAG_REASON = 'Needs review: AI categorization failed validation';
+
+/**
+ * Ask the categorization model for only the rows that were missing or didn't match the input
+ */
+function buildCategorizationRepairPrompt(rows: any[], issues: LlmOutputIssue[], currentHousingPayment: number): string {
+  const indexes = new Set(rows.map(row => row.i));
+  const problems = issues
+    .filter(issue => issue.index !== undefined && indexes.has(issue.index))
+    .map(issue => `- i=${issue.index}: ${issue.message}`);
+
+  return `Some transactions in your previous answer were missing or did not match the input. Categorize ONLY the ${rows.length} transactions below.
+
+Current housing payment (to exclude from expenses): $${currentHousingPayment}
+
+PROBLEMS IN YOUR PREVIOUS ANSWER:
+${problems.join('\n') || '- Transactions missing from the output'}
+
+Transactions:
+${JSON.stringify(rows)}
+
+CATEGORIES: "income", "expense", "housing" (rent or mortgage around $${currentHousingPayment}), "one-time" (truly irregular items only)
+
+CRITICAL RULES:
+✓ Return EVERY transaction above exactly once (${rows.length} transactions)
+✓ Keep each transaction's "i", date and amount EXACTLY as given
+
+Return COMPACT JSON (omit flagReason when flagged=false):
+{"transactions": [{"i": ${rows[0]?.i ?? 0}, "date": "YYYY-MM-DD", "description": "Description", "amount": -155.38, "category": "expense", "flagged": false, "monthYear": "2024-08"}]}`;
+}
+
+/**
+ * Categorize transactions and validate the result against them
+ *
+ * The prompt must embed indexTransactions(transactions) so each output row
+ * carries its input index. Rows that are missing or don't match the input are
+ * re-asked (up to the categorization task's repair rounds); any still invalid
+ * keep their input values with a sign-based category and a review flag. Totals
+ * are recomputed from the rows whenever a row was replaced or the model's
+ * totals fail the schema.
+ */
+async function categorizeWithValidation(request: {
+  purpose: string;
+  label: string;
+  system: string;
+  prompt: string;
+  transactions: any[];
+  currentHousingPayment: number;
+  timeoutMs: number;
+}): Promise<OpenAIAnalysisResult & { validation: LlmValidationReport }> {
+  const { purpose, system, transactions, currentHousingPayment, timeoutMs } = request;
+  const indexed = indexTransactions(transactions);
+
+  const rawContent = await completeJson({
+    purpose,
+    system,
+    prompt: request.prompt,
+    input: { transactions: indexed, currentHousingPayment },
+    timeoutMs,
+  });
+  console.log(`📝 Raw response length: ${rawContent.length} chars`);
+
+  let result: Record<string, any> = {};
+  const schemaIssues: LlmOutputIssue[] = [];
+  try {
+    result = parseJsonObject(rawContent);
+    schemaIssues.push(...checkCategorizationSummary(result));
+  } catch (parseError) {
+    console.error('❌ JSON Parse Error:', parseError);
+    console.error('First 500 chars:', rawContent.substring(0, 500));
+    console.error('Last 500 chars:', rawContent.substring(rawContent.length - 500));
+    schemaIssues.push({ type: 'schema', message: 'Response is not a JSON object' });
+  }
+
+  const first = checkCategorizedRows(result.transactions, transactions, transactions.map((_, index) => index));
+  const returned = first.rows.size;
+  const rows = first.rows;
+  let issues = first.issues;
+  let failed = first.failed;
+  let repaired = 0;
+  let repairRounds = 0;
+
+  while (repairRounds < LLM_TASKS.categorization.repairRounds && failed.length > 0) {
+    repairRounds++;
+    console.log(`🔧 [${request.label}] Re-asking for ${failed.length} missing or corrupted row(s)...`);
+
+    try {
+      const repairRows = failed.map(index => indexed[index]);
+      const repairContent = await completeJson({
+        purpose: `${purpose}-repair`,
+        system,
+        prompt: buildCategorizationRepairPrompt(repairRows, issues, currentHousingPayment),
+        input: { transactions: repairRows, currentHousingPayment },
+        timeoutMs,
+      });
+      const repair = checkCategorizedRows(parseJsonObject(repairContent).transactions, transactions, failed);
+
+      repair.rows.forEach((row, index) => rows.set(index, row));
+      repaired += repair.rows.size;
+      issues = repair.issues;
+      failed = repair.failed;
+    } catch (error) {
+      console.error(`❌ [${request.label}] Repair round ${repairRounds} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const index of failed) {
+    const transaction = transactions[index];
+    const amount = Number(transaction.amount) || 0;
+    rows.set(index, {
+      ...transaction,
+      amount,
+      category: amount > 0 ? 'income' : 'expense',
+      flagged: true,
+      flagReason: UNRESOLVED_FLAG_REASON,
+      monthYear: transaction.monthYear || String(transaction.date || '').substring(0, 7),
+    });
+  }
+
+  const validation: LlmValidationReport = {
+    chunk: request.label,
+    expected: transactions.length,
+    returned,
+    issues: [...schemaIssues, ...first.issues],
+    repairRounds,
+    repaired,
+    unresolved: failed.length,
+    valid: failed.length === 0,
+  };
+
+  if (validation.issues.length > 0) {
+    console.warn(`⚠️  [${request.label}] ${validation.issues.length} output issue(s), ${repaired} row(s) repaired, ${failed.length} unresolved`);
+  }
+
+  const categorized = transactions.map((_, index) => rows.get(index));
+  const recompute = schemaIssues.length > 0 || first.failed.length > 0;
+  const summary = recompute
+    ? summarizeCategorized(categorized)
+    : {
+        monthlyBreakdown: result.monthlyBreakdown || [],
+        totalIncome: result.totalIncome,
+        totalExpenses: result.totalExpenses,
+        netCashFlow: result.netCashFlow ?? result.totalIncome - result.totalExpenses,
+      };
+  const months = summary.monthlyBreakdown.length || 1;
+  const confidence = typeof result.confidence === 'number' && result.confidence >= 0 && result.confidence <= 1
+    ? result.confidence
+    : 0.7;
+
+  return {
+    transactions: categorized,
+    ...summary,
+    confidence,
+    depositFrequency: DEPOSIT_FREQUENCIES.includes(result.depositFrequency) ? result.depositFrequency : 'monthly',
+    monthlyDeposits: summary.totalIncome / months,
+    monthlyExpenses: summary.totalExpenses / months,
+    monthlyLeftover: summary.netCashFlow / months,
+    validation,
+  };
+}
+
 /**
  * Estimate token count (rough approximation: 1 token ≈ 4 characters)
  */
@@ -395,9 +639,10 @@ async function analyzeTransactionChunk(
   chunkData: any[],
   chunkNumber: number,
   totalChunks: number,
-  currentHousingPayment: number
+  currentHousingPayment: number,
+  onProgress?: AnalysisProgressEmitter
 ): Promise<OpenAIAnalysisResult> {
-  const chunkDataStr = JSON.stringify(chunkData);
+  const chunkDataStr = JSON.stringify(indexTransactions(chunkData));
 
   console.log(`\n🔄 [Chunk ${chunkNumber}/${totalChunks}] Processing ${chunkData.length} transactions...`);
   console.log(`   📊 Chunk size: ${chunkDataStr.length} characters (~${estimateTokens(chunkDataStr)} tokens)`);
@@ -458,13 +703,14 @@ Look for:
 CRITICAL RULES:
 ✓ PRESERVE EVERY TRANSACTION - Output count must match input count (${chunkData.length} transactions)
 ✓ USE EXACT DATES/AMOUNTS/DESCRIPTIONS from input
+✓ KEEP EACH TRANSACTION'S "i" - Copy the input index onto its output row
 ✓ DETERMINISTIC - Same input = same output
 ✓ NO SAMPLING - Include 100% of transactions
 
 Return COMPACT JSON (omit flagReason when flagged=false):
 {
   "transactions": [
-    {"date": "YYYY-MM-DD", "description": "Description", "amount": 1234.56, "category": "income", "flagged": false, "monthYear": "2024-08"}
+    {"i": 0, "date": "YYYY-MM-DD", "description": "Description", "amount": 1234.56, "category": "income", "flagged": false, "monthYear": "2024-08"}
   ],
   "monthlyBreakdown": [
     {"month": "2024-08", "income": 5000.00, "expenses": 2500.00, "netCashFlow": 2500.00, "transactionCount": 45}
@@ -476,40 +722,22 @@ Return COMPACT JSON (omit flagReason when flagged=false):
   "depositFrequency": "biweekly"
 }`;
 
-  const CHUNK_TIMEOUT_MS = 90000; // 90 seconds per chunk
-
   try {
-    const response = await openaiDirect.chat.completions.create({
-      model: TEXT_MODEL,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a financial analyst specialized in cash flow analysis. Always respond with valid JSON. Be consistent and deterministic.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-      top_p: 1,
-      seed: 42,
-      max_tokens: 16384,
-    }, {
-      timeout: CHUNK_TIMEOUT_MS,
+    const result = await categorizeWithValidation({
+      purpose: 'analyze-chunk',
+      label: `analyze-chunk ${chunkNumber}/${totalChunks}`,
+      system: 'You are a financial analyst specialized in cash flow analysis. Always respond with valid JSON. Be consistent and deterministic.',
+      prompt,
+      transactions: chunkData,
+      currentHousingPayment,
+      timeoutMs: 90000, // 90 seconds per chunk
     });
 
-    const rawContent = response.choices[0]?.message?.content || '{}';
-    const result = JSON.parse(rawContent);
-
     console.log(`✅ [Chunk ${chunkNumber}/${totalChunks}] Completed:`);
-    console.log(`   📊 Transactions returned: ${result.transactions?.length || 0}/${chunkData.length}`);
-    console.log(`   💰 Income: $${result.totalIncome?.toFixed(2) || 0}, Expenses: $${result.totalExpenses?.toFixed(2) || 0}`);
+    console.log(`   📊 Transactions returned: ${result.validation.returned}/${chunkData.length} (${result.validation.repaired} repaired, ${result.validation.unresolved} unresolved)`);
+    console.log(`   💰 Income: $${result.totalIncome.toFixed(2)}, Expenses: $${result.totalExpenses.toFixed(2)}`);
 
-    if (result.transactions?.length !== chunkData.length) {
-      console.warn(`⚠️  [Chunk ${chunkNumber}] Transaction count mismatch! Expected ${chunkData.length}, got ${result.transactions?.length || 0}`);
-    }
+    onProgress?.({ type: 'chunk-categorized', chunk: chunkNumber, totalChunks, transactionCount: result.transactions?.length || 0 });
 
     return result;
   } catch (error) {
@@ -521,7 +749,7 @@ Return COMPACT JSON (omit flagReason when flagged=false):
 /**
  * Merge results from multiple chunks
  */
-function mergeChunkResults(chunkResults: OpenAIAnalysisResult[]): OpenAIAnalysisResult {
+function mergeChunkResults(chunkResults: OpenAIAnalysisResult[], onProgress?: AnalysisProgressEmitter): OpenAIAnalysisResult {
   console.log(`\n🔀 Merging ${chunkResults.length} chunk results...`);
 
   // Combine all transactions
@@ -564,6 +792,8 @@ function mergeChunkResults(chunkResults: OpenAIAnalysisResult[]): OpenAIAnalysis
   console.log(`   💰 Net Cash Flow: $${netCashFlow.toFixed(2)}`);
   console.log(`   🎯 Avg Confidence: ${(avgConfidence * 100).toFixed(1)}%`);
 
+  onProgress?.({ type: 'chunks-merged', chunkCount: chunkResults.length, transactionCount: allTransactions.length });
+
   return {
     transactions: allTransactions,
     monthlyBreakdown,
@@ -626,48 +856,35 @@ function chunkData(data: string, maxTokensPerChunk: number = 15000): string[] {
 }
 
 /**
- * Process a single bank statement file with retry logic
- * Supports native PDF processing via Gemini 2.0 Flash
+ * Process a single bank statement file
+ * Supports native PDF processing via the extraction model (retried per the
+ * extraction task config); spreadsheets and OFX/QFX/QIF exports are parsed
+ * without a model call
+ * Reports file-started for every attempt and page-extracted for each PDF page or image
+ * Model extractions come with their validation report, parsed exports with the rows they couldn't read
  */
-async function processFile(file: Express.Multer.File, retries = 2): Promise<string> {
+async function processFile(
+  file: StatementFile,
+  onProgress?: AnalysisProgressEmitter
+): Promise<{ content: string; validation?: LlmValidationReport; unparsedRows?: UnparsedStatementRow[] }> {
   const ext = path.extname(file.originalname).toLowerCase();
+  const onPage = (page: number, totalPages: number | undefined, transactionCount: number) =>
+    onProgress?.({ type: 'page-extracted', file: file.originalname, page, totalPages, transactionCount });
+  const onAttempt = (attempt: number) =>
+    onProgress?.({ type: 'file-started', file: file.originalname, attempt });
 
   if (ext === '.csv' || ext === '.xlsx' || ext === '.xls') {
+    onProgress?.({ type: 'file-started', file: file.originalname });
     return await extractDataFromSpreadsheet(file.path);
+  } else if (ext === '.ofx' || ext === '.qfx' || ext === '.qif') {
+    onProgress?.({ type: 'file-started', file: file.originalname });
+    return await extractDataFromStructuredStatement(file.path, ext);
   } else if (ext === '.pdf') {
-    // Retry logic for PDF analysis with native PDF support
-    let lastError: Error | null = null;
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        console.log(`Attempt ${attempt}/${retries} for PDF ${file.originalname}`);
-        return await analyzePdf(file.path);
-      } catch (error) {
-        lastError = error as Error;
-        console.error(`Attempt ${attempt}/${retries} failed:`, error instanceof Error ? error.message : error);
-        if (attempt < retries) {
-          console.log(`Retrying in 2 seconds...`);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-    }
-    throw lastError || new Error('Failed to process PDF after retries');
+    return await analyzePdf(file.path, onPage, onAttempt);
   } else if (['.jpg', '.jpeg', '.png', '.gif', '.webp'].includes(ext)) {
-    // Retry logic for image analysis
-    let lastError: Error | null = null;
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        console.log(`Attempt ${attempt}/${retries} for ${file.originalname}`);
-        return await analyzeImage(file.path);
-      } catch (error) {
-        lastError = error as Error;
-        console.error(`Attempt ${attempt}/${retries} failed:`, error instanceof Error ? error.message : error);
-        if (attempt < retries) {
-          console.log(`Retrying in 2 seconds...`);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-      }
-    }
-    throw lastError || new Error('Failed to process image after retries');
+    const extraction = await analyzeImage(file.path, onAttempt);
+    onPage(1, 1, extraction.content.split('\n').filter(line => line.includes('|') && !isStatementHeaderLine(line)).length);
+    return extraction;
   } else {
     throw new Error(`Unsupported file type: ${ext}`);
   }
@@ -734,12 +951,25 @@ function deduplicateTransactions(transactions: any[]): {
   return { uniqueTransactions, duplicateTransactions };
 }
 
+/**
+ * Report removed duplicates with a few examples
+ */
+function reportDuplicates(duplicateTransactions: any[], onProgress?: AnalysisProgressEmitter): void {
+  if (!onProgress || duplicateTransactions.length === 0) return;
+  onProgress({
+    type: 'duplicates-found',
+    count: duplicateTransactions.length,
+    examples: duplicateTransactions.slice(0, 3).map(t => `${t.date} ${t.description} $${t.amount}`),
+  });
+}
+
 /**
  * Analyze bank statements using OpenAI GPT-4
  */
 export async function analyzeStatements(
   files: Express.Multer.File[],
-  currentHousingPayment: number
+  currentHousingPayment: number,
+  onProgress?: AnalysisProgressEmitter
 ): Promise<CashFlowAnalysis> {
   try {
     console.log(`Processing ${files.length} files...`);
@@ -749,12 +979,17 @@ export async function analyzeStatements(
     const filePromises = files.map(async (file) => {
       console.log(`📄 Starting: ${file.originalname}`);
       try {
-        const content = await processFile(file);
+        const { content, validation } = await processFile(file, onProgress);
+        // Reconciled per file only to read its balances for averageMonthlyBalance
+        const transactions = parseExtractedContent(content).map(t => ({ ...t, sourceFile: file.originalname }));
+        const statement = reconcileStatement(file.originalname, await readStatementHeader(file, content), transactions);
         console.log(`✓ Completed: ${file.originalname}`);
-        return { success: true, content, filename: file.originalname };
+        onProgress?.({ type: 'file-completed', file: file.originalname, transactionCount: transactions.length });
+        return { success: true as const, content, validation, statement, transactions, filename: file.originalname };
       } catch (error) {
         console.error(`✗ Failed: ${file.originalname}:`, error instanceof Error ? error.message : error);
-        return { success: false, error, filename: file.originalname };
+        onProgress?.({ type: 'file-failed', file: file.originalname, error: error instanceof Error ? error.message : 'Extraction failed' });
+        return { success: false as const, error, filename: file.originalname };
       }
     });
 
@@ -763,6 +998,9 @@ export async function analyzeStatements(
 
     // Extract successful results and failed files
     const extractedData: string[] = [];
+    const extractionReports: LlmValidationReport[] = [];
+    const statements: StatementSummary[] = [];
+    const statementTransactions: any[] = [];
     const failedFiles: string[] = [];
 
     fileResults.forEach((result) => {
@@ -771,6 +1009,9 @@ export async function analyzeStatements(
         if (fileResult.success && 'content' in fileResult) {
           // @ts-ignore - content is checked above
           extractedData.push(fileResult.content);
+          if (fileResult.validation) extractionReports.push(fileResult.validation);
+          statements.push(fileResult.statement);
+          statementTransactions.push(...fileResult.transactions);
         } else if (!fileResult.success) {
           failedFiles.push(fileResult.filename);
         }
@@ -792,6 +1033,9 @@ export async function analyzeStatements(
 
     const combinedData = extractedData.join('\n\n---NEW DOCUMENT---\n\n');
 
+    // Average balance on deposit, from the statements' own balances (0 when none shows one)
+    const averageMonthlyBalance = calculateAverageMonthlyBalance(statements, statementTransactions) ?? 0;
+
     console.log('🔍 Analyzing combined transaction data with AI...');
     console.log(`📊 Combined data length: ${combinedData.length} characters (~${estimateTokens(combinedData)} tokens)`);
 
@@ -828,7 +1072,7 @@ export async function analyzeStatements(
 
       // Process all chunks in parallel
       const chunkPromises = chunks.map((chunk, index) =>
-        analyzeTransactionChunk(chunk, index + 1, chunks.length, currentHousingPayment)
+        analyzeTransactionChunk(chunk, index + 1, chunks.length, currentHousingPayment, onProgress)
       );
 
       const chunkResults = await Promise.all(chunkPromises);
@@ -837,12 +1081,12 @@ export async function analyzeStatements(
       console.log(`\n⚡ All chunks processed in ${(elapsedTime / 1000).toFixed(1)}s`);
 
       // Merge chunk results
-      const result = mergeChunkResults(chunkResults);
+      const result = mergeChunkResults(chunkResults, onProgress);
 
       // Continue with deduplication and final processing...
       const { uniqueTransactions, duplicateTransactions } = deduplicateTransactions(result.transactions || []);
+      reportDuplicates(duplicateTransactions, onProgress);
       const flaggedTransactions = uniqueTransactions.filter((t: any) => t.flagged === true);
-      const averageMonthlyBalance = Math.max(0, result.netCashFlow);
 
       console.log('📈 Final Analysis Results:');
       console.log(`  ✓ Total transactions: ${result.transactions?.length || 0}`);
@@ -872,11 +1116,13 @@ export async function analyzeStatements(
         flaggedTransactions,
         duplicateTransactions,
         confidence: result.confidence || 0.7,
+        validationReports: [...extractionReports, ...chunkResults.flatMap(chunk => chunk.validation ? [chunk.validation] : [])],
       };
     }
 
     // SINGLE-REQUEST PROCESSING for smaller datasets (original code path)
-    const dataToAnalyze = combinedData;
+    const inputTransactions = extractedData.flatMap(parseExtractedContent);
+    const dataToAnalyze = JSON.stringify(indexTransactions(inputTransactions));
     const estimatedTokens = estimateTokens(dataToAnalyze);
 
     console.log(`✓ Processing all data in single request (~${estimatedTokens} tokens)`);
@@ -946,6 +1192,7 @@ CRITICAL RULES - READ CAREFULLY:
 ✓ USE EXACT DATES - Do not change or hallucinate dates (use YYYY-MM-DD format from input)
 ✓ USE EXACT AMOUNTS - Do not modify transaction amounts
 ✓ USE EXACT DESCRIPTIONS - Keep original descriptions from input
+✓ KEEP EACH TRANSACTION'S "i" - Copy the input index onto its output row
 ✓ DETERMINISTIC - Same input MUST produce same output every time
 ✓ NO SAMPLING - Include 100% of transactions, not a sample
 ✓ CATEGORIZE ONLY - You are categorizing existing data, not extracting new data
@@ -953,8 +1200,8 @@ CRITICAL RULES - READ CAREFULLY:
 Return COMPACT JSON (minimize whitespace, omit empty flagReason for unflagged items):
 {
   "transactions": [
-    {"date": "YYYY-MM-DD", "description": "Description", "amount": 1234.56, "category": "income", "flagged": false, "monthYear": "2024-08"},
-    {"date": "YYYY-MM-DD", "description": "Description", "amount": -125.50, "category": "expense", "flagged": true, "flagReason": "One-time: Large purchase", "monthYear": "2024-08"}
+    {"i": 0, "date": "YYYY-MM-DD", "description": "Description", "amount": 1234.56, "category": "income", "flagged": false, "monthYear": "2024-08"},
+    {"i": 1, "date": "YYYY-MM-DD", "description": "Description", "amount": -125.50, "category": "expense", "flagged": true, "flagReason": "One-time: Large purchase", "monthYear": "2024-08"}
   ],
   "monthlyBreakdown": [
     {"month": "2024-08", "income": 5000.00, "expenses": 2500.00, "netCashFlow": 2500.00, "transactionCount": 45}
@@ -967,74 +1214,21 @@ Return COMPACT JSON (minimize whitespace, omit empty flagReason for unflagged it
 
 ⚠️ IMPORTANT: Use compact formatting. Omit "flagReason" key entirely when flagged=false to save tokens.`;
 
-    // Create a timeout promise for the main analysis call
-    const ANALYSIS_TIMEOUT_MS = 120000; // 120 seconds
-    const analysisTimeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        console.error(`⏱️  Timeout reached for main analysis (${ANALYSIS_TIMEOUT_MS / 1000}s)`);
-        reject(new Error(`Transaction analysis timed out after ${ANALYSIS_TIMEOUT_MS / 1000} seconds`));
-      }, ANALYSIS_TIMEOUT_MS);
-    });
-
-    // Use OpenAI Direct (GPT-4o) for final text analysis
+    // Categorization model (GPT-4o by default) for final text analysis
     // This analyzes the extracted transaction text (from CSV or vision extraction)
-    console.log(`🧠 Using OpenAI Direct (${TEXT_MODEL}) for transaction analysis...`);
+    console.log(`🧠 Running transaction analysis...`);
     console.log(`🔒 Deterministic mode: temperature=0, top_p=1, seed=42 for consistent results`);
-    const analysisApiCallPromise = openaiDirect.chat.completions.create({
-      model: TEXT_MODEL,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a financial analyst specialized in cash flow analysis. You must be consistent and deterministic. Always respond with valid JSON. Extract the same transactions from the same data every time.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0, // Fully deterministic for consistent JSON formatting
-      top_p: 1, // Disable nucleus sampling for maximum determinism
-      seed: 42, // Fixed seed for reproducible results across identical inputs
-      max_tokens: 16384, // GPT-4o's maximum output token limit
-    }, {
-      timeout: ANALYSIS_TIMEOUT_MS,
+    const result = await categorizeWithValidation({
+      purpose: 'analyze-statements',
+      label: 'analyze-statements',
+      system: 'You are a financial analyst specialized in cash flow analysis. You must be consistent and deterministic. Always respond with valid JSON. Extract the same transactions from the same data every time.',
+      prompt,
+      transactions: inputTransactions,
+      currentHousingPayment,
+      timeoutMs: 120000, // 120 seconds
     });
-
-    console.log(`🏁 Racing main analysis against ${ANALYSIS_TIMEOUT_MS / 1000}s timeout...`);
-    // Race the API call against the timeout
-    const response = await Promise.race([analysisApiCallPromise, analysisTimeoutPromise]);
     console.log('✅ AI analysis completed successfully');
 
-    // Log system fingerprint for reproducibility verification
-    if (response.system_fingerprint) {
-      console.log(`🔑 System fingerprint: ${response.system_fingerprint} (use this to verify consistent backend)`);
-    }
-
-    // Parse JSON with better error handling
-    const rawContent = response.choices[0]?.message?.content || '{}';
-    console.log(`📝 Raw response length: ${rawContent.length} chars`);
-
-    let result;
-    try {
-      result = JSON.parse(rawContent);
-    } catch (parseError) {
-      console.error('❌ JSON Parse Error:', parseError);
-      console.log('🔍 Attempting to extract JSON from response...');
-
-      // Try to find JSON in markdown code blocks
-      const jsonMatch = rawContent.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-      if (jsonMatch) {
-        console.log('✓ Found JSON in markdown code block, retrying parse...');
-        result = JSON.parse(jsonMatch[1]);
-      } else {
-        // Log first and last 500 chars for debugging
-        console.error('First 500 chars:', rawContent.substring(0, 500));
-        console.error('Last 500 chars:', rawContent.substring(rawContent.length - 500));
-        throw parseError;
-      }
-    }
-
     // Clean up uploaded files after processing
     for (const file of files) {
       try {
@@ -1044,14 +1238,12 @@ Return COMPACT JSON (minimize whitespace, omit empty flagReason for unflagged it
       }
     }
 
-    // Calculate average monthly balance (net cash flow that can offset principal)
-    const averageMonthlyBalance = Math.max(0, result.netCashFlow);
-
     // Extract flagged transactions for review
     const flaggedTransactions = (result.transactions || []).filter((t: any) => t.flagged === true);
 
     // Deduplicate transactions across files
     const { uniqueTransactions, duplicateTransactions } = deduplicateTransactions(result.transactions || []);
+    reportDuplicates(duplicateTransactions, onProgress);
 
     console.log('📈 Analysis Results:');
     console.log(`  ✓ Total transactions: ${result.transactions?.length || 0}`);
@@ -1073,6 +1265,7 @@ Return COMPACT JSON (minimize whitespace, omit empty flagReason for unflagged it
       flaggedTransactions,
       duplicateTransactions,
       confidence: result.confidence || 0.7,
+      validationReports: [...extractionReports, result.validation],
     };
   } catch (error) {
     console.error('Error in analyzeStatements:', error);
@@ -1080,13 +1273,85 @@ Return COMPACT JSON (minimize whitespace, omit empty flagReason for unflagged it
   }
 }
 
+/**
+ * Parse one file's extraction output into transactions
+ * Structured parsers return a JSON array; the vision model returns
+ * "date | description | amount" lines after the statement header lines.
+ */
+function parseExtractedContent(content: string): any[] {
+  try {
+    const parsed = JSON.parse(content);
+    if (Array.isArray(parsed)) {
+      // Running balances were only needed for the statement header
+      return parsed.map(({ balance, ...transaction }) => transaction);
+    }
+  } catch {
+    // Not JSON - fall through to line parsing
+  }
+
+  const lines = content.split('\n').filter(line => line.trim() && line.includes('|') && !isStatementHeaderLine(line));
+  return lines.map(line => {
+    const parts = line.split('|').map(p => p.trim());
+    if (parts.length >= 3) {
+      return {
+        date: parts[0],
+        description: parts[1],
+        amount: parseFloat(parts[2].replace(/[^0-9.-]/g, ''))
+      };
+    }
+    return null;
+  }).filter(t => t !== null);
+}
+
+/**
+ * Read the account, period and balances for one uploaded statement
+ */
+async function readStatementHeader(file: StatementFile, content: string): Promise<StatementHeader> {
+  const ext = path.extname(file.originalname).toLowerCase();
+
+  if (ext === '.csv' || ext === '.xlsx' || ext === '.xls') {
+    return runningBalanceHeader(JSON.parse(content));
+  }
+  if (ext === '.ofx' || ext === '.qfx') {
+    return parseOfxStatementHeader(await fs.readFile(file.path, 'utf-8'));
+  }
+  if (ext === '.qif') {
+    return {};
+  }
+  return parseStatementHeader(content);
+}
+
+/**
+ * Extract and reconcile a single uploaded statement
+ * Used per file by extractTransactions and by analysis job extraction
+ */
+export async function extractStatementFile(
+  file: StatementFile,
+  onProgress?: AnalysisProgressEmitter
+): Promise<{ transactions: any[]; statement: StatementSummary }> {
+  try {
+    const { content, validation, unparsedRows } = await processFile(file, onProgress);
+    const transactions = parseExtractedContent(content);
+    const header = await readStatementHeader(file, content);
+    const statement = reconcileStatement(file.originalname, header, transactions);
+    if (validation) statement.validation = validation;
+    if (unparsedRows && unparsedRows.length > 0) statement.unparsedRows = unparsedRows;
+    onProgress?.({ type: 'file-completed', file: file.originalname, transactionCount: transactions.length });
+    return { transactions, statement };
+  } catch (error) {
+    onProgress?.({ type: 'file-failed', file: file.originalname, error: error instanceof Error ? error.message : 'Extraction failed' });
+    throw error;
+  }
+}
+
 /**
  * NEW ARCHITECTURE: Extract transactions from files (Step 1 of 2)
- * Just does extraction, returns raw transaction data without categorization
+ * Just does extraction, returns raw transaction data without categorization,
+ * plus one reconciled summary per statement (opening + transactions = closing)
  */
 export async function extractTransactions(
   files: Express.Multer.File[]
-): Promise<any[]> {
+): Promise<{ transactions: any[]; statements: StatementSummary[] }> {
   try {
     console.log(`📄 Extracting transactions from ${files.length} file(s)...`);
 
@@ -1094,29 +1359,30 @@ export async function extractTransactions(
     const filePromises = files.map(async (file) => {
       console.log(`📄 Starting: ${file.originalname}`);
       try {
-        const content = await processFile(file);
+        const { transactions: fileTransactions, statement } = await extractStatementFile(file);
         console.log(`✓ Completed: ${file.originalname}`);
-        return { success: true, content, filename: file.originalname };
+        return { success: true as const, transactions: fileTransactions, statement, filename: file.originalname };
       } catch (error) {
         console.error(`✗ Failed: ${file.originalname}:`, error instanceof Error ? error.message : error);
-        return { success: false, error, filename: file.originalname };
+        return { success: false as const, error, filename: file.originalname };
       }
     });
 
     // Wait for all files to process (or fail) in parallel
     const fileResults = await Promise.allSettled(filePromises);
 
-    // Extract successful results and failed files
-    const extractedData: string[] = [];
+    // Collect successful results and failed files
+    const transactions: any[] = [];
+    const statements: StatementSummary[] = [];
     const failedFiles: string[] = [];
 
     fileResults.forEach((result) => {
       if (result.status === 'fulfilled') {
         const fileResult = result.value;
-        if (fileResult.success && 'content' in fileResult) {
-          // @ts-ignore - content is checked above
-          extractedData.push(fileResult.content);
-        } else if (!fileResult.success) {
+        if (fileResult.success) {
+          transactions.push(...fileResult.transactions);
+          statements.push(fileResult.statement);
+        } else {
           failedFiles.push(fileResult.filename);
         }
       } else {
@@ -1124,54 +1390,15 @@ export async function extractTransactions(
       }
     });
 
-    console.log(`⚡ Extraction complete: ${extractedData.length} successful, ${failedFiles.length} failed`);
+    console.log(`⚡ Extraction complete: ${statements.length} successful, ${failedFiles.length} failed`);
 
-    if (extractedData.length === 0) {
+    if (statements.length === 0) {
       throw new Error(`Failed to extract data from any files. ${failedFiles.length} file(s) failed: ${failedFiles.join(', ')}`);
     }
 
     if (failedFiles.length > 0) {
       console.log(`⚠️  Warning: ${failedFiles.length} file(s) failed to process: ${failedFiles.join(', ')}`);
-      console.log(`✓ Successfully extracted from ${extractedData.length} file(s), continuing...`);
-    }
-
-    // Combine all extracted data
-    const combinedData = extractedData.join('\n\n---NEW DOCUMENT---\n\n');
-
-    // Parse into transaction array
-    let transactions: any[] = [];
-    try {
-      // Try to parse as JSON array
-      transactions = JSON.parse(combinedData);
-      if (!Array.isArray(transactions)) {
-        // If it's not an array, try to parse each line as a transaction
-        const lines = combinedData.split('\n').filter(line => line.trim() && line.includes('|'));
-        transactions = lines.map(line => {
-          const parts = line.split('|').map(p => p.trim());
-          if (parts.length >= 3) {
-            return {
-              date: parts[0],
-              description: parts[1],
-              amount: parseFloat(parts[2].replace(/[^0-9.-]/g, ''))
-            };
-          }
-          return null;
-        }).filter(t => t !== null);
-      }
-    } catch (parseError) {
-      // If parsing fails, try line-by-line parsing
-      const lines = combinedData.split('\n').filter(line => line.trim() && line.includes('|'));
-      transactions = lines.map(line => {
-        const parts = line.split('|').map(p => p.trim());
-        if (parts.length >= 3) {
-          return {
-            date: parts[0],
-            description: parts[1],
-            amount: parseFloat(parts[2].replace(/[^0-9.-]/g, ''))
-          };
-        }
-        return null;
-      }).filter(t => t !== null);
+      console.log(`✓ Successfully extracted from ${statements.length} file(s), continuing...`);
     }
 
     console.log(`✅ Extracted ${transactions.length} raw transactions`);
@@ -1185,7 +1412,7 @@ export async function extractTransactions(
       }
     }
 
-    return transactions;
+    return { transactions, statements };
   } catch (error) {
     console.error('Error in extractTransactions:', error);
     throw new Error(`Failed to extract transactions: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1195,17 +1422,20 @@ export async function extractTransactions(
 /**
  * NEW ARCHITECTURE: Categorize a chunk of transactions (Step 2 of 2)
  * Takes raw transaction data and categorizes it using AI
+ * When loanOfficerEmail is given, that officer's learned merchant overrides are applied to the result
  */
 export async function categorizeTransactions(
   transactions: any[],
   currentHousingPayment: number,
   chunkNumber: number,
-  totalChunks: number
+  totalChunks: number,
+  loanOfficerEmail?: string,
+  onProgress?: AnalysisProgressEmitter
 ): Promise<OpenAIAnalysisResult> {
   try {
     console.log(`\n🔄 Categorizing chunk ${chunkNumber}/${totalChunks} (${transactions.length} transactions)...`);
 
-    const chunkDataStr = JSON.stringify(transactions);
+    const chunkDataStr = JSON.stringify(indexTransactions(transactions));
     console.log(`   📊 Chunk size: ${chunkDataStr.length} characters (~${estimateTokens(chunkDataStr)} tokens)`);
 
     const prompt = `You are a financial analysis expert analyzing a CHUNK of transactions from bank statements.
@@ -1245,53 +1475,41 @@ FLAG ANOMALIES:
 CRITICAL RULES:
 ✓ PRESERVE EVERY TRANSACTION - Output count must match input count (${transactions.length} transactions)
 ✓ USE EXACT DATES/AMOUNTS/DESCRIPTIONS from input
+✓ KEEP EACH TRANSACTION'S "i" - Copy the input index onto its output row
 ✓ DETERMINISTIC - Same input = same output
 ✓ NO SAMPLING - Include 100% of transactions
 
 Return COMPACT JSON (omit flagReason when flagged=false):
 {
   "transactions": [
-    {"date": "YYYY-MM-DD", "description": "Description", "amount": 1234.56, "category": "income", "flagged": false, "monthYear": "2024-08"}
+    {"i": 0, "date": "YYYY-MM-DD", "description": "Description", "amount": 1234.56, "category": "income", "flagged": false, "monthYear": "2024-08"}
   ],
   "totalIncome": 5000.00,
   "totalExpenses": 2500.00,
   "confidence": 0.85
 }`;
 
-    const CHUNK_TIMEOUT_MS = 60000; // 60 seconds per chunk (reliable categorization)
-
-    const response = await openaiDirect.chat.completions.create({
-      model: TEXT_MODEL,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a financial analyst specialized in cash flow analysis. Always respond with valid JSON. Be consistent and deterministic.',
-        },
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0,
-      top_p: 1,
-      seed: 42,
-      max_tokens: 16384,
-    }, {
-      timeout: CHUNK_TIMEOUT_MS,
+    const result = await categorizeWithValidation({
+      purpose: 'categorize-chunk',
+      label: `categorize-chunk ${chunkNumber}/${totalChunks}`,
+      system: 'You are a financial analyst specialized in cash flow analysis. Always respond with valid JSON. Be consistent and deterministic.',
+      prompt,
+      transactions,
+      currentHousingPayment,
+      timeoutMs: 60000, // 60 seconds per chunk (reliable categorization)
     });
 
-    const rawContent = response.choices[0]?.message?.content || '{}';
-    const result = JSON.parse(rawContent);
-
     console.log(`✅ Chunk ${chunkNumber}/${totalChunks} completed:`);
-    console.log(`   📊 Transactions returned: ${result.transactions?.length || 0}/${transactions.length}`);
-    console.log(`   💰 Income: $${result.totalIncome?.toFixed(2) || 0}, Expenses: $${result.totalExpenses?.toFixed(2) || 0}`);
+    console.log(`   📊 Transactions returned: ${result.validation.returned}/${transactions.length} (${result.validation.repaired} repaired, ${result.validation.unresolved} unresolved)`);
+    console.log(`   💰 Income: $${result.totalIncome.toFixed(2)}, Expenses: $${result.totalExpenses.toFixed(2)}`);
 
-    if (result.transactions?.length !== transactions.length) {
-      console.warn(`⚠️  Chunk ${chunkNumber} transaction count mismatch! Expected ${transactions.length}, got ${result.transactions?.length || 0}`);
+    if (loanOfficerEmail) {
+      const overrides = await getMerchantOverrides(loanOfficerEmail);
+      result.transactions = applyMerchantOverrides(result.transactions, overrides);
     }
 
+    onProgress?.({ type: 'chunk-categorized', chunk: chunkNumber, totalChunks, transactionCount: result.transactions?.length || 0 });
+
     return result;
   } catch (error) {
     console.error(`❌ Chunk ${chunkNumber}/${totalChunks} failed:`, error);
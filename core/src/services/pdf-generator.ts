@@ -370,9 +370,9 @@ export async function generateProposalPDF(data: ProposalData): Promise<Buffer> {
     // Generate HTML content
     const html = generateProposalHTML(data);
 
-    // Set page content
+    // Set page content (setContent only supports load events, which wait for images)
     await page.setContent(html, {
-      waitUntil: 'networkidle0',
+      waitUntil: 'load',
     });
 
     console.log('📄 Generating PDF...');
@@ -0,0 +1,122 @@
+import { getRedisClient } from './redis-service.js';
+import type { AnalysisProgressEmitter, AnalysisProgressEntry, AnalysisProgressEvent } from '../types.js';
+
+/**
+ * Analysis Progress Events
+ *
+ * An append-only log of progress events per analysis (file started, page
+ * extracted, chunk categorized, ...), read by the SSE endpoint. The log lives
+ * in a Redis list so events written by whichever instance runs the extraction
+ * reach the instance holding the client's stream. Falls back to an in-memory
+ * log when REDIS_URL is not configured. Logs expire with their analysis job.
+ */
+
+const EVENTS_TTL_SECONDS = 24 * 60 * 60;
+
+// A runaway analysis shouldn't grow the log without bound
+const MAX_EVENTS = 2000;
+
+// How often a watcher checks the log for new events
+const WATCH_INTERVAL_MS = 500;
+
+// In-memory fallback (used when REDIS_URL is not configured)
+interface MemoryLog {
+  events: AnalysisProgressEntry[];
+  expiresAt: number;  // Pushed back on every event, like the Redis key's TTL
+}
+const memoryEvents = new Map<string, MemoryLog>();
+
+const eventsKey = (id: string) => `analysis-events:${id}`;
+
+// Drop in-memory logs whose TTL has passed, since nothing else removes them
+function evictExpiredMemoryLogs(): void {
+  const now = Date.now();
+  memoryEvents.forEach((log, id) => {
+    if (log.expiresAt <= now) memoryEvents.delete(id);
+  });
+}
+
+/**
+ * Append an event to an analysis' progress log
+ */
+export async function recordProgressEvent(id: string, event: AnalysisProgressEvent): Promise<void> {
+  const client = getRedisClient();
+
+  if (!client) {
+    evictExpiredMemoryLogs();
+    const log = memoryEvents.get(id) || { events: [], expiresAt: 0 };
+    if (log.events.length >= MAX_EVENTS) return;
+    log.events.push({ ...event, id: log.events.length + 1, at: new Date().toISOString() });
+    log.expiresAt = Date.now() + EVENTS_TTL_SECONDS * 1000;
+    memoryEvents.set(id, log);
+    return;
+  }
+
+  // Ids are list positions (assigned on read), so concurrent writers never collide
+  const length: number = await client.llen(eventsKey(id));
+  if (length >= MAX_EVENTS) return;
+
+  await client
+    .multi()
+    .rpush(eventsKey(id), JSON.stringify({ ...event, at: new Date().toISOString() }))
+    .expire(eventsKey(id), EVENTS_TTL_SECONDS)
+    .exec();
+}
+
+/**
+ * Emitter for functions that report progress; failures to record are logged, never thrown
+ */
+export function progressEmitter(id: string): AnalysisProgressEmitter {
+  return (event) => {
+    recordProgressEvent(id, event).catch(error => console.error(`Failed to record progress event for ${id}:`, error));
+  };
+}
+
+/**
+ * Events recorded after the given id (0 for all)
+ */
+export async function readProgressEvents(id: string, afterId: number = 0): Promise<AnalysisProgressEntry[]> {
+  const client = getRedisClient();
+
+  if (!client) {
+    evictExpiredMemoryLogs();
+    return (memoryEvents.get(id)?.events || []).slice(afterId);
+  }
+
+  const values: string[] = await client.lrange(eventsKey(id), afterId, -1);
+  return values.map((value, offset) => ({ ...JSON.parse(value), id: afterId + offset + 1 }));
+}
+
+/**
+ * Call onEvents with each batch of new events until the returned stop function is called
+ * Polls the log, so events recorded by other instances arrive too.
+ */
+export function watchProgressEvents(
+  id: string,
+  afterId: number,
+  onEvents: (events: AnalysisProgressEntry[]) => void
+): () => void {
+  let lastId = afterId;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      const events = await readProgressEvents(id, lastId);
+      if (!stopped && events.length > 0) {
+        lastId = events[events.length - 1].id;
+        onEvents(events);
+      }
+    } catch (error) {
+      console.error(`Failed to read progress events for ${id}:`, error);
+    }
+    if (!stopped) timer = setTimeout(poll, WATCH_INTERVAL_MS);
+  };
+
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,236 @@
+import { randomBytes } from 'crypto';
+import { getRedisClient } from './redis-service.js';
+import type { MortgageDetails, CashFlowAnalysis, SimulationResult } from '../types.js';
+
+/**
+ * Proposal Persistence
+ *
+ * Stores shareable proposals (simulation, mortgage details, component layout
+ * and AI pitch) so they can be opened from /proposal/:id and listed per loan
+ * officer. Proposals expire after PROPOSAL_TTL_DAYS.
+ *
+ * Uses Redis when REDIS_URL is configured, otherwise falls back to an
+ * in-memory store so the flow works in local development. The in-memory
+ * store does not survive restarts and is not shared between serverless
+ * instances.
+ */
+
+const PROPOSAL_TTL_DAYS = parseInt(process.env.PROPOSAL_TTL_DAYS || '', 10) || 30;
+const PROPOSAL_TTL_SECONDS = PROPOSAL_TTL_DAYS * 24 * 60 * 60;
+
+export interface ProposalComponent {
+  id: string;
+  label: string;
+  description?: string;
+  enabled: boolean;
+}
+
+export interface ProposalInput {
+  simulation: SimulationResult;
+  mortgageDetails: MortgageDetails;
+  cashFlow?: CashFlowAnalysis;
+  clientName: string;
+  loanOfficerEmail: string;
+  aiPitch?: string;
+  components?: ProposalComponent[];
+  signatureName?: string;
+  signatureTitle?: string;
+  signatureEmail?: string;
+  signaturePhone?: string;
+  signatureCompany?: string;
+  signatureNMLS?: string;
+  signatureWebsite?: string;
+  signatureAddress?: string;
+  signatureTagline?: string;
+  signaturePhotoURL?: string;
+  signatureLinkedIn?: string;
+  signatureFacebook?: string;
+  signatureTwitter?: string;
+  signatureInstagram?: string;
+}
+
+export interface ProposalData extends ProposalInput {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ProposalSummary {
+  id: string;
+  clientName: string;
+  loanOfficerEmail: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// In-memory fallback (used when REDIS_URL is not configured)
+const memoryProposals = new Map<string, ProposalData>();
+const memoryOfficerIndex = new Map<string, Set<string>>();
+
+const proposalKey = (id: string) => `proposal:${id}`;
+const officerIndexKey = (email: string) => `proposals:officer:${email.toLowerCase()}`;
+
+/**
+ * Generate a short, URL-safe proposal id
+ */
+function generateProposalId(): string {
+  return randomBytes(9).toString('base64url');
+}
+
+function isExpired(proposal: ProposalData): boolean {
+  return new Date(proposal.expiresAt).getTime() <= Date.now();
+}
+
+function toSummary(proposal: ProposalData): ProposalSummary {
+  return {
+    id: proposal.id,
+    clientName: proposal.clientName,
+    loanOfficerEmail: proposal.loanOfficerEmail,
+    createdAt: proposal.createdAt,
+    expiresAt: proposal.expiresAt,
+  };
+}
+
+/**
+ * Save a new proposal and add it to the loan officer's index
+ */
+export async function saveProposal(input: ProposalInput): Promise<ProposalData | null> {
+  const now = new Date();
+  const proposal: ProposalData = {
+    ...input,
+    loanOfficerEmail: input.loanOfficerEmail.toLowerCase(),
+    id: generateProposalId(),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + PROPOSAL_TTL_SECONDS * 1000).toISOString(),
+  };
+
+  const client = getRedisClient();
+
+  if (!client) {
+    memoryProposals.set(proposal.id, proposal);
+    const index = memoryOfficerIndex.get(proposal.loanOfficerEmail) || new Set<string>();
+    index.add(proposal.id);
+    memoryOfficerIndex.set(proposal.loanOfficerEmail, index);
+    console.log(`Proposal ${proposal.id} saved in memory for ${proposal.loanOfficerEmail}`);
+    return proposal;
+  }
+
+  try {
+    const indexKey = officerIndexKey(proposal.loanOfficerEmail);
+    await client
+      .multi()
+      .set(proposalKey(proposal.id), JSON.stringify(proposal), 'EX', PROPOSAL_TTL_SECONDS)
+      .sadd(indexKey, proposal.id)
+      .expire(indexKey, PROPOSAL_TTL_SECONDS)
+      .exec();
+
+    console.log(`Proposal ${proposal.id} saved for ${proposal.loanOfficerEmail}`);
+    return proposal;
+  } catch (error) {
+    console.error('Error saving proposal:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a proposal by id (null if missing or expired)
+ */
+export async function getProposal(id: string): Promise<ProposalData | null> {
+  const client = getRedisClient();
+
+  if (!client) {
+    const proposal = memoryProposals.get(id);
+    if (!proposal) return null;
+
+    if (isExpired(proposal)) {
+      await deleteProposal(proposal);
+      return null;
+    }
+
+    return proposal;
+  }
+
+  try {
+    const data = await client.get(proposalKey(id));
+    if (!data) return null;
+
+    return JSON.parse(data) as ProposalData;
+  } catch (error) {
+    console.error('Error getting proposal:', error);
+    return null;
+  }
+}
+
+/**
+ * List a loan officer's active proposals, newest first
+ * Ids whose proposal has expired are pruned from the index.
+ */
+export async function listProposalsByOfficer(email: string): Promise<ProposalSummary[]> {
+  const normalizedEmail = email.toLowerCase();
+  const client = getRedisClient();
+  const proposals: ProposalData[] = [];
+
+  if (!client) {
+    const ids = Array.from(memoryOfficerIndex.get(normalizedEmail) || []);
+    for (const id of ids) {
+      const proposal = await getProposal(id);
+      if (proposal) proposals.push(proposal);
+    }
+  } else {
+    try {
+      const indexKey = officerIndexKey(normalizedEmail);
+      const ids: string[] = await client.smembers(indexKey);
+
+      if (ids.length > 0) {
+        const values: (string | null)[] = await client.mget(ids.map(proposalKey));
+        const staleIds: string[] = [];
+
+        values.forEach((value, i) => {
+          if (value) {
+            proposals.push(JSON.parse(value) as ProposalData);
+          } else {
+            staleIds.push(ids[i]);
+          }
+        });
+
+        if (staleIds.length > 0) {
+          await client.srem(indexKey, ...staleIds);
+        }
+      }
+    } catch (error) {
+      console.error('Error listing proposals:', error);
+      return [];
+    }
+  }
+
+  return proposals
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete a proposal and remove it from its loan officer's index
+ */
+export async function deleteProposal(proposal: ProposalData): Promise<boolean> {
+  const client = getRedisClient();
+
+  if (!client) {
+    memoryProposals.delete(proposal.id);
+    memoryOfficerIndex.get(proposal.loanOfficerEmail)?.delete(proposal.id);
+    return true;
+  }
+
+  try {
+    await client
+      .multi()
+      .del(proposalKey(proposal.id))
+      .srem(officerIndexKey(proposal.loanOfficerEmail), proposal.id)
+      .exec();
+
+    console.log(`Proposal ${proposal.id} deleted`);
+    return true;
+  } catch (error) {
+    console.error('Error deleting proposal:', error);
+    return false;
+  }
+}
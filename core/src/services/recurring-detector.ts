@@ -0,0 +1,381 @@
+import { normalizeMerchant } from './rule-categorizer.js';
+import { fromDayNumber, MS_PER_DAY, toDayNumber } from './date-helpers.js';
+import type { PaySchedule, RecurrenceCadence, RecurringSeries, Transaction } from '../types.js';
+
+/**
+ * Recurring Series Detector
+ *
+ * Groups categorized transactions into recurring series by payee and amount,
+ * infers each series' cadence from the gaps between occurrences, predicts the
+ * next dates and flags missed or off-schedule occurrences. Income series
+ * become pay schedules so the simulation deposits paychecks on real pay
+ * dates instead of a frequency label. Deterministic: no model involved.
+ */
+
+interface CadenceRule {
+  minInterval: number;     // Median gap (days) that suggests this cadence
+  maxInterval: number;
+  toleranceDays: number;   // How far an occurrence may land from its expected date
+  minOccurrences: number;
+}
+
+const CADENCE_RULES: Record<RecurrenceCadence, CadenceRule> = {
+  'weekly': { minInterval: 5, maxInterval: 9, toleranceDays: 2, minOccurrences: 3 },
+  'biweekly': { minInterval: 12, maxInterval: 18, toleranceDays: 3, minOccurrences: 3 },
+  'semi-monthly': { minInterval: 12, maxInterval: 18, toleranceDays: 3, minOccurrences: 3 },
+  'monthly': { minInterval: 25, maxInterval: 35, toleranceDays: 4, minOccurrences: 2 },
+  'quarterly': { minInterval: 80, maxInterval: 100, toleranceDays: 7, minOccurrences: 2 },
+};
+
+// Average occurrences per calendar month for each cadence
+export const PAYMENTS_PER_MONTH: Record<RecurrenceCadence, number> = {
+  'weekly': 52 / 12,
+  'biweekly': 26 / 12,
+  'semi-monthly': 2,
+  'monthly': 1,
+  'quarterly': 1 / 3,
+};
+
+const AMOUNT_TOLERANCE = 0.25;    // Occurrences within 25% of the series average share a series
+const MIN_REGULARITY = 0.6;       // Share of expected dates that must be hit
+const PREDICTED_DATES = 3;
+
+interface Occurrence {
+  day: number;             // Days since epoch (UTC)
+  amount: number;          // Absolute amount
+  transaction: Transaction;
+}
+
+// ==================== DATE HELPERS ====================
+
+function dateParts(day: number): { year: number; month: number; dayOfMonth: number } {
+  const date = new Date(day * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, dayOfMonth: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Day number of a day-of-month in a given month (clamped to the month's length)
+function dayInMonth(year: number, month: number, dayOfMonth: number): number {
+  const normalizedYear = year + Math.floor((month - 1) / 12);
+  const normalizedMonth = ((month - 1) % 12 + 12) % 12 + 1;
+  const day = Math.min(dayOfMonth, daysInMonth(normalizedYear, normalizedMonth));
+  return Math.round(Date.UTC(normalizedYear, normalizedMonth - 1, day) / MS_PER_DAY);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Most frequent value (smallest on ties) - weekend/holiday shifts scatter around the real pay day
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+}
+
+// ==================== CADENCE INFERENCE ====================
+
+/**
+ * Semi-monthly pay days: one anchor in each half of the month
+ */
+function semiMonthlyAnchors(occurrences: Occurrence[]): number[] {
+  const days = occurrences.map(o => dateParts(o.day).dayOfMonth).sort((a, b) => a - b);
+
+  // Split at the widest gap between days of the month (1st/15th, 15th/last, ...)
+  let split = 1;
+  for (let i = 1; i < days.length; i++) {
+    if (days[i] - days[i - 1] > days[split] - days[split - 1]) split = i;
+  }
+
+  const early = mostCommon(days.slice(0, split));
+  const late = mostCommon(days.slice(split));
+
+  // Paydays late in the month are "last day of the month"
+  return [early, late >= 28 ? 31 : late];
+}
+
+function fitsAnchors(occurrences: Occurrence[], anchors: number[], tolerance: number): boolean {
+  return occurrences.every(o => {
+    const { year, month } = dateParts(o.day);
+    return anchors.some(anchor =>
+      [-1, 0, 1].some(offset => Math.abs(o.day - dayInMonth(year, month + offset, anchor)) <= tolerance)
+    );
+  });
+}
+
+function inferCadence(occurrences: Occurrence[]): RecurrenceCadence | null {
+  const intervals = occurrences.slice(1).map((o, i) => o.day - occurrences[i].day);
+  if (intervals.length === 0) return null;
+
+  const typical = median(intervals);
+
+  if (typical >= CADENCE_RULES['weekly'].minInterval && typical <= CADENCE_RULES['weekly'].maxInterval) {
+    return 'weekly';
+  }
+
+  if (typical >= CADENCE_RULES['biweekly'].minInterval && typical <= CADENCE_RULES['biweekly'].maxInterval) {
+    // Biweekly gaps are a steady 14 days; semi-monthly gaps wander (13-17) but
+    // land on the same two days of the month
+    const steady = intervals.filter(gap => Math.abs(gap - 14) <= 1).length / intervals.length;
+    if (steady >= 0.75) return 'biweekly';
+
+    const anchors = semiMonthlyAnchors(occurrences);
+    return fitsAnchors(occurrences, anchors, CADENCE_RULES['semi-monthly'].toleranceDays)
+      ? 'semi-monthly'
+      : 'biweekly';
+  }
+
+  if (typical >= CADENCE_RULES['monthly'].minInterval && typical <= CADENCE_RULES['monthly'].maxInterval) {
+    return 'monthly';
+  }
+
+  if (typical >= CADENCE_RULES['quarterly'].minInterval && typical <= CADENCE_RULES['quarterly'].maxInterval) {
+    return 'quarterly';
+  }
+
+  return null;
+}
+
+/**
+ * Day-of-month anchors used to project monthly-style cadences
+ */
+function getDaysOfMonth(cadence: RecurrenceCadence, occurrences: Occurrence[]): number[] | undefined {
+  if (cadence === 'semi-monthly') return semiMonthlyAnchors(occurrences);
+  if (cadence === 'monthly' || cadence === 'quarterly') {
+    return [Math.round(median(occurrences.map(o => dateParts(o.day).dayOfMonth)))];
+  }
+  return undefined;
+}
+
+/**
+ * Expected dates for a cadence from `fromDay` through `toDay` (inclusive)
+ */
+function expectedDays(
+  cadence: RecurrenceCadence,
+  anchorDay: number,
+  daysOfMonth: number[] | undefined,
+  fromDay: number,
+  toDay: number
+): number[] {
+  const days: number[] = [];
+
+  if (cadence === 'weekly' || cadence === 'biweekly') {
+    const interval = cadence === 'weekly' ? 7 : 14;
+    const offset = ((anchorDay - fromDay) % interval + interval) % interval;
+    for (let day = fromDay + offset; day <= toDay; day += interval) {
+      days.push(day);
+    }
+    return days;
+  }
+
+  const anchor = dateParts(anchorDay);
+  const start = dateParts(fromDay);
+  const stepMonths = cadence === 'quarterly' ? 3 : 1;
+
+  // Walk months from the first month in range that lines up with the anchor month
+  let monthIndex = start.year * 12 + (start.month - 1) - 1;
+  const anchorIndex = anchor.year * 12 + (anchor.month - 1);
+  monthIndex += ((anchorIndex - monthIndex) % stepMonths + stepMonths) % stepMonths;
+
+  for (; ; monthIndex += stepMonths) {
+    const year = Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const monthDays = (daysOfMonth || [anchor.dayOfMonth]).map(d => dayInMonth(year, month, d));
+
+    if (monthDays.every(day => day > toDay)) break;
+    days.push(...monthDays.filter(day => day >= fromDay && day <= toDay));
+  }
+
+  return days.sort((a, b) => a - b);
+}
+
+// ==================== SERIES DETECTION ====================
+
+/**
+ * Split one payee's transactions into amount clusters
+ */
+function clusterByAmount(occurrences: Occurrence[]): Occurrence[][] {
+  const sorted = [...occurrences].sort((a, b) => a.amount - b.amount);
+  const clusters: Occurrence[][] = [];
+
+  for (const occurrence of sorted) {
+    const current = clusters[clusters.length - 1];
+    const average = current ? current.reduce((sum, o) => sum + o.amount, 0) / current.length : 0;
+
+    if (current && Math.abs(occurrence.amount - average) <= Math.max(5, average * AMOUNT_TOLERANCE)) {
+      current.push(occurrence);
+    } else {
+      clusters.push([occurrence]);
+    }
+  }
+
+  return clusters.map(cluster => cluster.sort((a, b) => a.day - b.day));
+}
+
+/**
+ * Match actual occurrences to expected dates (nearest within tolerance)
+ */
+function matchOccurrences(occurrences: Occurrence[], expected: number[], toleranceDays: number) {
+  const used = new Set<number>();
+  const missed: number[] = [];
+
+  for (const day of expected) {
+    let best = -1;
+    for (let i = 0; i < occurrences.length; i++) {
+      if (used.has(i) || Math.abs(occurrences[i].day - day) > toleranceDays) continue;
+      if (best === -1 || Math.abs(occurrences[i].day - day) < Math.abs(occurrences[best].day - day)) {
+        best = i;
+      }
+    }
+
+    if (best === -1) {
+      missed.push(day);
+    } else {
+      used.add(best);
+    }
+  }
+
+  const irregular = occurrences.filter((_, i) => !used.has(i)).map(o => o.day);
+  return { hits: used.size, missed, irregular };
+}
+
+function buildSeries(
+  id: string,
+  merchant: string,
+  direction: 'income' | 'expense',
+  occurrences: Occurrence[],
+  statementEndDay: number
+): RecurringSeries | null {
+  // Same-day duplicates count once
+  const unique = occurrences.filter((o, i) => i === 0 || o.day !== occurrences[i - 1].day);
+
+  const cadence = inferCadence(unique);
+  if (!cadence) return null;
+
+  const rule = CADENCE_RULES[cadence];
+  if (unique.length < rule.minOccurrences) return null;
+
+  const first = unique[0];
+  const last = unique[unique.length - 1];
+  const daysOfMonth = getDaysOfMonth(cadence, unique);
+
+  // Expected dates run to the end of the statements, so a paycheck that stopped shows up as missed
+  const expected = expectedDays(cadence, first.day, daysOfMonth, first.day - rule.toleranceDays, statementEndDay - rule.toleranceDays);
+  const { hits, missed, irregular } = matchOccurrences(unique, expected, rule.toleranceDays);
+  const regularity = expected.length > 0 ? hits / expected.length : 0;
+
+  if (regularity < MIN_REGULARITY) return null;
+
+  const predicted = expectedDays(
+    cadence,
+    last.day,
+    daysOfMonth,
+    Math.max(last.day, statementEndDay) + 1,
+    Math.max(last.day, statementEndDay) + 120
+  ).slice(0, PREDICTED_DATES);
+
+  const averageAmount = unique.reduce((sum, o) => sum + o.amount, 0) / unique.length;
+
+  return {
+    id,
+    merchant,
+    description: last.transaction.description,
+    direction,
+    category: last.transaction.category,
+    cadence,
+    averageAmount,
+    monthlyAmount: averageAmount * PAYMENTS_PER_MONTH[cadence],
+    occurrences: unique.map(o => fromDayNumber(o.day)),
+    nextDates: predicted.map(fromDayNumber),
+    missedDates: missed.map(fromDayNumber),
+    irregularDates: irregular.map(fromDayNumber),
+    regularity,
+  };
+}
+
+/**
+ * Detect recurring income and expense series
+ * Excluded, duplicate and one-time transactions are ignored.
+ */
+export function detectRecurringSeries(transactions: Transaction[]): RecurringSeries[] {
+  const candidates = transactions.filter(t =>
+    t.date &&
+    !t.excluded &&
+    !t.isDuplicate &&
+    t.category !== 'one-time' &&
+    Number(t.amount) !== 0
+  );
+  if (candidates.length === 0) return [];
+
+  const statementEndDay = Math.max(...candidates.map(t => toDayNumber(t.date)));
+
+  // Group by payee and direction
+  const groups = new Map<string, Occurrence[]>();
+  for (const transaction of candidates) {
+    const direction = transaction.amount > 0 ? 'income' : 'expense';
+    const key = `${direction}:${normalizeMerchant(transaction.description)}`;
+    const group = groups.get(key) || [];
+    group.push({ day: toDayNumber(transaction.date), amount: Math.abs(transaction.amount), transaction });
+    groups.set(key, group);
+  }
+
+  const series: RecurringSeries[] = [];
+
+  groups.forEach((occurrences, key) => {
+    const [direction, merchant] = [key.substring(0, key.indexOf(':')), key.substring(key.indexOf(':') + 1)];
+
+    clusterByAmount(occurrences).forEach((cluster, index) => {
+      const detected = buildSeries(
+        `${key}:${index}`,
+        merchant,
+        direction as 'income' | 'expense',
+        cluster,
+        statementEndDay
+      );
+      if (detected) series.push(detected);
+    });
+  });
+
+  return series.sort((a, b) => b.monthlyAmount - a.monthlyAmount);
+}
+
+/**
+ * Turn detected paycheck series into pay schedules for the simulation
+ */
+export function buildPaySchedules(series: RecurringSeries[]): PaySchedule[] {
+  return series
+    .filter(s => s.direction === 'income' && (!s.category || s.category === 'income'))
+    .map(s => ({
+      cadence: s.cadence,
+      anchorDate: s.occurrences[s.occurrences.length - 1],
+      daysOfMonth: getDaysOfMonth(
+        s.cadence,
+        s.occurrences.map(date => ({ day: toDayNumber(date), amount: s.averageAmount } as Occurrence))
+      ),
+      amount: s.averageAmount,
+      description: s.description,
+    }));
+}
+
+/**
+ * Detect recurring series, pay schedules and the dominant deposit frequency
+ * depositFrequency is the cadence of the largest paycheck series (null if none detected)
+ */
+export function analyzeRecurring(transactions: Transaction[]): {
+  series: RecurringSeries[];
+  paySchedules: PaySchedule[];
+  depositFrequency: RecurrenceCadence | null;
+} {
+  const series = detectRecurringSeries(transactions);
+  const paySchedules = buildPaySchedules(series);
+  const depositFrequency = paySchedules.length > 0 ? paySchedules[0].cadence : null;
+
+  console.log(`🔁 Detected ${series.length} recurring series (${paySchedules.length} paycheck schedule(s), frequency: ${depositFrequency || 'unknown'})`);
+
+  return { series, paySchedules, depositFrequency };
+}
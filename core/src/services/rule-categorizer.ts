@@ -0,0 +1,134 @@
+import { CATEGORIZATION_RULES, HOUSING_PAYMENT_TOLERANCE, type CategorizationRule } from '../config/categorization-rules.js';
+import { applyMerchantOverrides, OFFICER_OVERRIDE_RULE_ID, type MerchantOverride } from './merchant-memory-service.js';
+
+/**
+ * Rule-Based Transaction Categorizer
+ *
+ * Classifies the obvious transactions (payroll, Zelle, mortgage servicers,
+ * utilities, subscriptions, own-account transfers) with the rules in
+ * config/categorization-rules.ts so only the residue needs a model call.
+ * A loan officer's learned merchant overrides win over the rules.
+ * Results are deterministic for the same input.
+ */
+
+export interface RuleCategorizationResult {
+  categorized: any[];   // Rule-matched transactions, in input order
+  unmatched: any[];     // Transactions no rule could classify, in input order
+}
+
+/**
+ * Reduce a description to a merchant key for recurrence checks
+ * (drops digits so reference/confirmation numbers don't split a merchant)
+ */
+export function normalizeMerchant(description: string): string {
+  return (description || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 30);
+}
+
+function getMonth(transaction: any): string {
+  return transaction.monthYear || String(transaction.date || '').substring(0, 7);
+}
+
+/**
+ * Months in which each merchant appears across the whole set
+ */
+function buildMerchantMonths(transactions: any[]): Map<string, Set<string>> {
+  const merchantMonths = new Map<string, Set<string>>();
+
+  for (const transaction of transactions) {
+    const merchant = normalizeMerchant(transaction.description);
+    if (!merchant) continue;
+
+    const months = merchantMonths.get(merchant) || new Set<string>();
+    months.add(getMonth(transaction));
+    merchantMonths.set(merchant, months);
+  }
+
+  return merchantMonths;
+}
+
+function matchesRule(
+  rule: CategorizationRule,
+  transaction: any,
+  isRecurring: boolean
+): boolean {
+  const amount = Number(transaction.amount) || 0;
+  const absAmount = Math.abs(amount);
+
+  if (rule.direction === 'in' && amount <= 0) return false;
+  if (rule.direction === 'out' && amount >= 0) return false;
+  if (rule.minAmount !== undefined && absAmount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && absAmount > rule.maxAmount) return false;
+  if (rule.recurring && !isRecurring) return false;
+
+  const description = String(transaction.description || '');
+  return rule.patterns.some(pattern => pattern.test(description));
+}
+
+/**
+ * Debit that recurs monthly at roughly the borrower's housing payment
+ */
+function isHousingPayment(transaction: any, currentHousingPayment: number, isRecurring: boolean): boolean {
+  const amount = Number(transaction.amount) || 0;
+  if (currentHousingPayment <= 0 || amount >= 0 || !isRecurring) return false;
+
+  return Math.abs(Math.abs(amount) - currentHousingPayment) <= currentHousingPayment * HOUSING_PAYMENT_TOLERANCE;
+}
+
+/**
+ * Split transactions into rule-categorized and unmatched sets
+ * @param transactions - Raw transactions ({ date, description, amount, ... })
+ * @param currentHousingPayment - Used to recognize rent/mortgage payments by amount
+ * @param overrides - The loan officer's learned merchant overrides (see merchant-memory-service)
+ */
+export function applyCategorizationRules(
+  transactions: any[],
+  currentHousingPayment: number = 0,
+  overrides: MerchantOverride[] = []
+): RuleCategorizationResult {
+  const merchantMonths = buildMerchantMonths(transactions);
+  const categorized: any[] = [];
+  const unmatched: any[] = [];
+
+  for (const transaction of applyMerchantOverrides(transactions, overrides)) {
+    if (transaction.ruleId === OFFICER_OVERRIDE_RULE_ID) {
+      categorized.push({
+        ...transaction,
+        amount: Number(transaction.amount) || 0,
+        flagged: false,
+        monthYear: getMonth(transaction),
+      });
+      continue;
+    }
+
+    const merchant = normalizeMerchant(transaction.description);
+    const isRecurring = (merchantMonths.get(merchant)?.size || 0) >= 2;
+
+    const rule = CATEGORIZATION_RULES.find(r => matchesRule(r, transaction, isRecurring));
+    const ruleId = rule?.id
+      ?? (isHousingPayment(transaction, currentHousingPayment, isRecurring) ? 'housing-payment-amount' : null);
+
+    if (!ruleId) {
+      unmatched.push(transaction);
+      continue;
+    }
+
+    categorized.push({
+      ...transaction,
+      amount: Number(transaction.amount) || 0,
+      category: rule?.category ?? 'housing',
+      flagged: false,
+      monthYear: getMonth(transaction),
+      ...(rule?.excluded && transaction.excluded === undefined ? { excluded: true } : {}),
+      ruleId,
+    });
+  }
+
+  console.log(`📏 Rules categorized ${categorized.length}/${transactions.length} transactions (${unmatched.length} left for the model)`);
+
+  return { categorized, unmatched };
+}
@@ -0,0 +1,430 @@
+import fs from 'fs/promises';
+import xlsx from 'xlsx';
+import { BANK_CSV_PROFILES, GENERIC_CSV_HEADERS, type BankCsvProfile } from '../config/bank-csv-profiles.js';
+import type { StatementSummary, UnparsedStatementRow } from '../types.js';
+
+/**
+ * Deterministic Bank Statement Parsers
+ *
+ * Structured exports (OFX/QFX/QIF and bank CSV/XLSX downloads) are parsed
+ * directly into transactions so they skip the extraction model and go
+ * straight to categorization. Deposits are positive, debits are negative and
+ * dates are normalized to YYYY-MM-DD. Rows that can't be read are returned
+ * alongside the transactions rather than dropped, so they can be reported.
+ */
+
+export interface ParsedTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  type?: string;
+  balance?: number;        // Running balance after this row (spreadsheets that export one)
+}
+
+export interface ParsedStatement {
+  transactions: ParsedTransaction[];
+  unparsedRows: UnparsedStatementRow[];
+}
+
+// Statement-level details read from the file itself (any of them may be missing)
+export type StatementHeader = Partial<Pick<
+  StatementSummary,
+  'account' | 'periodStart' | 'periodEnd' | 'openingBalance' | 'closingBalance'
+>>;
+
+/**
+ * Parse a currency string such as "$1,234.56", "(12.00)" or "12.00-"
+ * Returns null when the value is empty or not a number
+ */
+export function parseAmount(value: unknown): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  const amount = parseFloat(text.replace(/[$,\s]/g, ''));
+  if (isNaN(amount)) return null;
+
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Normalize a statement date to YYYY-MM-DD
+ * Handles Excel serial dates, ISO dates, OFX (YYYYMMDD...) and US M/D/Y
+ * dates including QIF's M/D'YY form. Returns null when unparseable.
+ */
+export function normalizeDate(value: unknown): string | null {
+  const format = (year: number, month: number, day: number): string | null => {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  };
+
+  // Excel serial date (days since 12/30/1899)
+  if (typeof value === 'number') {
+    const jsDate = new Date(Math.round((value - 25569) * 86400 * 1000));
+    if (isNaN(jsDate.getTime())) return null;
+    return jsDate.toISOString().split('T')[0];
+  }
+
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return format(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return format(+match[1], +match[2], +match[3]);
+
+  // Quicken pads single digits with spaces ("1/ 5'24", " 1/15/2024")
+  match = text.match(/^(\d{1,2})\s*[/-]\s*(\d{1,2})\s*(?:[/-]|')\s*(\d{2}|\d{4})$/);
+  if (match) {
+    let year = +match[3];
+    if (year < 100) year += year < 70 ? 2000 : 1900;
+    return format(year, +match[1], +match[2]);
+  }
+
+  return null;
+}
+
+/**
+ * Parse OFX/QFX (SGML 1.x or XML 2.x) statement transactions
+ */
+export function parseOfx(content: string): ParsedStatement {
+  const decode = (text: string) => text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+
+  const readTag = (block: string, tag: string): string | undefined => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decode(match[1]) : undefined;
+  };
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  const transactions: ParsedTransaction[] = [];
+  const unparsedRows: UnparsedStatementRow[] = [];
+
+  for (const [index, rawBlock] of blocks.entries()) {
+    const block = rawBlock.split(/<\/STMTTRN>/i)[0];
+    const rawDate = readTag(block, 'DTPOSTED') || readTag(block, 'DTUSER');
+    const date = normalizeDate(rawDate);
+    const amount = parseAmount(readTag(block, 'TRNAMT'));
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+
+    if (!date || amount === null) {
+      unparsedRows.push({
+        row: index + 1,
+        text: block.replace(/\s+/g, ' ').trim().slice(0, 200),
+        reason: !date ? `Unreadable date "${rawDate ?? ''}"` : 'Unreadable amount',
+      });
+      continue;
+    }
+    if (amount === 0) continue;
+
+    transactions.push({
+      date,
+      description: name && memo && !name.includes(memo) ? `${name} ${memo}` : (name || memo || ''),
+      amount,
+      type: readTag(block, 'TRNTYPE'),
+    });
+  }
+
+  return { transactions, unparsedRows };
+}
+
+/**
+ * Read the account, statement period and ledger (closing) balance from an
+ * OFX/QFX file. OFX carries no opening balance, so the statement can't be
+ * reconciled on its own.
+ */
+export function parseOfxStatementHeader(content: string): StatementHeader {
+  const readTag = (tag: string): string | undefined => {
+    const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : undefined;
+  };
+
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?<BALAMT>([^<\r\n]*)/i);
+  const accountId = readTag('ACCTID');
+
+  return {
+    account: accountId ? `${readTag('ACCTTYPE') || 'Account'} ...${accountId.slice(-4)}` : undefined,
+    periodStart: normalizeDate(readTag('DTSTART')) || undefined,
+    periodEnd: normalizeDate(readTag('DTEND')) || undefined,
+    closingBalance: ledgerBalance ? parseAmount(ledgerBalance[1].trim()) ?? undefined : undefined,
+  };
+}
+
+/**
+ * Derive opening/closing balances from a spreadsheet's running balance column
+ * Exports may list rows newest-first; the oldest row's balance minus its
+ * amount is the opening balance and the newest row's balance is the closing.
+ */
+export function runningBalanceHeader(transactions: ParsedTransaction[]): StatementHeader {
+  if (transactions.length === 0) return {};
+
+  const newestFirst = transactions[0].date > transactions[transactions.length - 1].date;
+  const oldest = newestFirst ? transactions[transactions.length - 1] : transactions[0];
+  const newest = newestFirst ? transactions[0] : transactions[transactions.length - 1];
+
+  if (oldest.balance === undefined || newest.balance === undefined) return {};
+
+  return {
+    openingBalance: Math.round((oldest.balance - oldest.amount) * 100) / 100,
+    closingBalance: newest.balance,
+  };
+}
+
+/**
+ * Parse QIF (Quicken Interchange Format) bank/credit card transactions
+ */
+export function parseQif(content: string): ParsedStatement {
+  const transactions: ParsedTransaction[] = [];
+  const unparsedRows: UnparsedStatementRow[] = [];
+  let record: { line?: number; lines: string[]; date?: string; amount?: string; payee?: string; memo?: string; category?: string } = { lines: [] };
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+    if (code !== '^') {
+      record.line ??= index + 1;
+      record.lines.push(line);
+    }
+
+    switch (code) {
+      case 'D':
+        record.date = value;
+        break;
+      case 'T':
+      case 'U':
+        record.amount = value;
+        break;
+      case 'P':
+        record.payee = value;
+        break;
+      case 'M':
+        record.memo = value;
+        break;
+      case 'L':
+        record.category = value;
+        break;
+      case '^': {
+        const date = normalizeDate(record.date);
+        const amount = parseAmount(record.amount);
+        if (!date || amount === null) {
+          if (record.lines.length > 0) {
+            unparsedRows.push({
+              row: record.line ?? index + 1,
+              text: record.lines.join(' ').slice(0, 200),
+              reason: !date ? `Unreadable date "${record.date ?? ''}"` : `Unreadable amount "${record.amount ?? ''}"`,
+            });
+          }
+        } else if (amount !== 0) {
+          transactions.push({
+            date,
+            description: record.payee || record.memo || '',
+            amount,
+            type: record.category,
+          });
+        }
+        record = { lines: [] };
+        break;
+      }
+    }
+  }
+
+  return { transactions, unparsedRows };
+}
+
+function findColumn(headers: string[], names: string[]): number {
+  const normalized = headers.map(h => String(h).trim().toLowerCase());
+  for (const name of names) {
+    const index = normalized.indexOf(name.toLowerCase());
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+function resolveColumn(headers: string[], column: string | number | undefined): number {
+  if (column === undefined) return -1;
+  if (typeof column === 'number') return column;
+  return findColumn(headers, [column]);
+}
+
+function mapRows(
+  rows: unknown[][],
+  columns: { date: number; description: number; amount: number; debit: number; credit: number; type: number; balance: number },
+  amountSign: number,
+  firstRowNumber: number
+): ParsedStatement {
+  const transactions: ParsedTransaction[] = [];
+  const unparsedRows: UnparsedStatementRow[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const date = normalizeDate(row[columns.date]);
+    let amount: number | null = null;
+
+    if (columns.amount !== -1) {
+      const value = parseAmount(row[columns.amount]);
+      amount = value === null ? null : value * amountSign;
+    } else {
+      // Split debit/credit columns hold unsigned values
+      const debit = columns.debit !== -1 ? parseAmount(row[columns.debit]) : null;
+      const credit = columns.credit !== -1 ? parseAmount(row[columns.credit]) : null;
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+
+    if (!date || amount === null) {
+      // Rows with no amount at all (blank lines, headings, balance-only lines) move no money
+      const hasAmount = [columns.amount, columns.debit, columns.credit]
+        .some(column => column !== -1 && String(row[column] ?? '').trim() !== '');
+      if (hasAmount) {
+        unparsedRows.push({
+          row: firstRowNumber + index,
+          text: row.map(cell => String(cell ?? '')).join(',').slice(0, 200),
+          reason: !date ? `Unreadable date "${String(row[columns.date] ?? '')}"` : 'Unreadable amount',
+        });
+      }
+      continue;
+    }
+    if (amount === 0) continue;
+
+    const balance = columns.balance !== -1 ? parseAmount(row[columns.balance]) : null;
+
+    transactions.push({
+      date,
+      description: String(row[columns.description] ?? '').trim(),
+      amount,
+      type: columns.type !== -1 && row[columns.type] ? String(row[columns.type]).trim() : undefined,
+      ...(balance !== null ? { balance } : {}),
+    });
+  }
+
+  return { transactions, unparsedRows };
+}
+
+/**
+ * Map spreadsheet rows (first sheet, as arrays) to transactions using the
+ * matching bank profile, falling back to common header names
+ * @returns The profile used ('generic' for the fallback), the transactions and
+ * the rows that couldn't be read (1-based sheet row numbers)
+ */
+export function mapSpreadsheetRows(rows: unknown[][]): { profile: string } & ParsedStatement {
+  const textRows = rows.map(row => row.map(cell => (typeof cell === 'string' ? cell.trim() : cell)));
+  const firstDataRow = textRows.find(row => row.some(cell => cell !== ''));
+
+  // Some banks put a few summary lines above the header, so look a little way down
+  const headerSearch = textRows.slice(0, 15);
+
+  const resolve = (profile: BankCsvProfile, headers: string[]) => ({
+    date: resolveColumn(headers, profile.columns.date),
+    description: resolveColumn(headers, profile.columns.description),
+    amount: resolveColumn(headers, profile.columns.amount),
+    debit: resolveColumn(headers, profile.columns.debit),
+    credit: resolveColumn(headers, profile.columns.credit),
+    type: resolveColumn(headers, profile.columns.type),
+    balance: resolveColumn(headers, profile.columns.balance),
+  });
+
+  for (const profile of BANK_CSV_PROFILES) {
+    if (profile.headerless) {
+      const sample = firstDataRow?.map(cell => String(cell));
+      if (
+        sample &&
+        sample.length === profile.headerless.columnCount &&
+        profile.headerless.matches(sample)
+      ) {
+        return {
+          profile: profile.id,
+          ...mapRows(textRows, resolve(profile, []), profile.amountSign || 1, 1),
+        };
+      }
+      continue;
+    }
+
+    const headerIndex = headerSearch.findIndex(row => {
+      const headers = row.map(cell => String(cell));
+      return (profile.requiredHeaders || []).every(header => findColumn(headers, [header]) !== -1);
+    });
+
+    if (headerIndex !== -1) {
+      const headers = textRows[headerIndex].map(cell => String(cell));
+      return {
+        profile: profile.id,
+        ...mapRows(textRows.slice(headerIndex + 1), resolve(profile, headers), profile.amountSign || 1, headerIndex + 2),
+      };
+    }
+  }
+
+  // Generic fallback: first row with a recognizable date column
+  const headerIndex = headerSearch.findIndex(row =>
+    findColumn(row.map(cell => String(cell)), GENERIC_CSV_HEADERS.date) !== -1
+  );
+
+  if (headerIndex === -1) {
+    throw new Error('Could not find a date column in spreadsheet');
+  }
+
+  const headers = textRows[headerIndex].map(cell => String(cell));
+  return {
+    profile: 'generic',
+    ...mapRows(
+      textRows.slice(headerIndex + 1),
+      {
+        date: findColumn(headers, GENERIC_CSV_HEADERS.date),
+        description: findColumn(headers, GENERIC_CSV_HEADERS.description),
+        amount: findColumn(headers, GENERIC_CSV_HEADERS.amount),
+        debit: findColumn(headers, GENERIC_CSV_HEADERS.debit),
+        credit: findColumn(headers, GENERIC_CSV_HEADERS.credit),
+        type: findColumn(headers, GENERIC_CSV_HEADERS.type),
+        balance: findColumn(headers, GENERIC_CSV_HEADERS.balance),
+      },
+      1,
+      headerIndex + 2
+    ),
+  };
+}
+
+/**
+ * Read the first sheet of a CSV/XLSX/XLS file and map it to transactions
+ */
+export function parseSpreadsheet(filePath: string): { profile: string } & ParsedStatement {
+  // raw: keep CSV cells as text so dates aren't reinterpreted; XLSX date cells stay serial numbers
+  const workbook = xlsx.readFile(filePath, { raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = xlsx.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: true, defval: '' });
+
+  return mapSpreadsheetRows(rows);
+}
+
+/**
+ * Parse an OFX/QFX or QIF file
+ */
+export async function parseStructuredStatement(filePath: string, ext: string): Promise<ParsedStatement> {
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  if (ext === '.ofx' || ext === '.qfx') {
+    return parseOfx(content);
+  }
+  if (ext === '.qif') {
+    return parseQif(content);
+  }
+
+  throw new Error(`Unsupported structured statement type: ${ext}`);
+}
@@ -0,0 +1,289 @@
+import { normalizeDate, parseAmount, type StatementHeader } from './statement-parsers.js';
+import { fromDayNumber, toDayNumber } from './date-helpers.js';
+import type { StatementSummary, StatementWarning } from '../types.js';
+
+/**
+ * Statement Reconciler
+ *
+ * Checks each uploaded statement's opening balance plus its extracted
+ * transactions against the closing balance printed on the statement. A
+ * statement that doesn't tie out means the extraction model dropped or
+ * invented rows. Across statements it flags months with no statement and
+ * gaps between consecutive statement periods of the same account, and it
+ * averages the balances the statements show for the offset calculation.
+ */
+
+// Differences under a cent are rounding, not missing rows
+const RECONCILIATION_TOLERANCE = 0.01;
+
+// Header lines the extraction prompt asks the model to emit before the transactions
+const HEADER_LINE = /^\s*(ACCOUNT|PERIOD|OPENING BALANCE|CLOSING BALANCE|PAGE)\s*\|(.*)$/i;
+
+// "PAGE | 2 | 5" marks where the transactions of each statement page start
+const PAGE_MARKER = /^\s*PAGE\s*\|\s*(\d+)\s*(?:\|\s*(\d+))?/i;
+
+const UNLABELED_ACCOUNT = 'Unlabeled account';
+
+/**
+ * Whether an extracted line is a statement header line rather than a transaction
+ */
+export function isStatementHeaderLine(line: string): boolean {
+  return HEADER_LINE.test(line);
+}
+
+/**
+ * Read a page marker line emitted by the extraction model
+ */
+export function parsePageMarker(line: string): { page: number; totalPages?: number } | null {
+  const match = line.match(PAGE_MARKER);
+  if (!match) return null;
+  return { page: Number(match[1]), totalPages: match[2] ? Number(match[2]) : undefined };
+}
+
+/**
+ * Read the statement header lines (ACCOUNT / PERIOD / OPENING BALANCE /
+ * CLOSING BALANCE) from the extraction model's pipe-delimited output
+ */
+export function parseStatementHeader(content: string): StatementHeader {
+  const header: StatementHeader = {};
+
+  for (const line of content.split('\n')) {
+    const match = line.match(HEADER_LINE);
+    if (!match) continue;
+
+    const values = match[2].split('|').map(value => value.trim());
+    switch (match[1].toUpperCase()) {
+      case 'ACCOUNT':
+        header.account = values[0] || undefined;
+        break;
+      case 'PERIOD':
+        header.periodStart = normalizeDate(values[0]) || undefined;
+        header.periodEnd = normalizeDate(values[1]) || undefined;
+        break;
+      case 'OPENING BALANCE':
+        header.openingBalance = parseAmount(values[0]) ?? undefined;
+        break;
+      case 'CLOSING BALANCE':
+        header.closingBalance = parseAmount(values[0]) ?? undefined;
+        break;
+    }
+  }
+
+  return header;
+}
+
+/**
+ * Build a statement summary and check that opening + transactions = closing
+ *
+ * @param sourceFile - Uploaded file name
+ * @param header - Details read from the statement (any may be missing)
+ * @param transactions - Every row extracted from this statement
+ */
+export function reconcileStatement(
+  sourceFile: string,
+  header: StatementHeader,
+  transactions: Array<{ date?: string; amount: any }>
+): StatementSummary {
+  const amounts = transactions.map(t => Number(t.amount) || 0);
+  const transactionTotal = Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+
+  const dates = transactions
+    .map(t => String(t.date || '').substring(0, 10))
+    .filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date))
+    .sort();
+
+  const summary: StatementSummary = {
+    sourceFile,
+    account: header.account,
+    periodStart: header.periodStart || dates[0],
+    periodEnd: header.periodEnd || dates[dates.length - 1],
+    openingBalance: header.openingBalance,
+    closingBalance: header.closingBalance,
+    transactionCount: transactions.length,
+    transactionTotal,
+    reconciliation: 'unverified',
+  };
+
+  if (header.openingBalance !== undefined && header.closingBalance !== undefined) {
+    const difference = Math.round((header.closingBalance - (header.openingBalance + transactionTotal)) * 100) / 100;
+    summary.difference = difference;
+    summary.reconciliation = Math.abs(difference) < RECONCILIATION_TOLERANCE ? 'balanced' : 'unbalanced';
+  }
+
+  const status = summary.reconciliation === 'unbalanced' ? `off by $${summary.difference?.toFixed(2)}` : summary.reconciliation;
+  console.log(`🧾 ${sourceFile}: ${transactions.length} transactions, reconciliation ${status}`);
+
+  return summary;
+}
+
+// ==================== COVERAGE ====================
+
+// Every YYYY-MM from start through end
+function monthsBetween(start: string, end: string): string[] {
+  const months: string[] = [];
+  let [year, month] = start.split('-').map(Number);
+  const [endYear, endMonth] = end.split('-').map(Number);
+
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+
+  return months;
+}
+
+/**
+ * Group statements by account; the last four digits identify an account even
+ * when the model words its name differently from month to month
+ */
+export function accountKey(statement: StatementSummary): string {
+  if (!statement.account) return UNLABELED_ACCOUNT;
+  const lastFour = statement.account.match(/(\d{4})\D*$/);
+  return lastFour ? `...${lastFour[1]}` : statement.account.trim().toLowerCase();
+}
+
+/**
+ * Collect warnings across all uploaded statements
+ * - unreconciled: opening + transactions doesn't equal closing
+ * - missing-month: a month inside an account's uploaded range with no statement
+ * - period-gap: days between consecutive statements that aren't a whole missing month
+ * - unparsed-rows: rows of an export the parser couldn't read
+ */
+export function checkStatementCoverage(statements: StatementSummary[]): {
+  warnings: StatementWarning[];
+  missingMonths: string[];
+} {
+  const warnings: StatementWarning[] = [];
+  const missingMonths = new Set<string>();
+
+  for (const statement of statements) {
+    const unparsed = statement.unparsedRows || [];
+    if (unparsed.length === 0) continue;
+    warnings.push({
+      type: 'unparsed-rows',
+      account: statement.account || UNLABELED_ACCOUNT,
+      sourceFile: statement.sourceFile,
+      message: `${unparsed.length} row(s) in ${statement.sourceFile} couldn't be read and were left out (row ${unparsed[0].row}: ${unparsed[0].reason}). Check the file or upload a PDF statement instead.`,
+    });
+  }
+
+  for (const statement of statements) {
+    if (statement.reconciliation !== 'unbalanced') continue;
+    warnings.push({
+      type: 'unreconciled',
+      account: statement.account || UNLABELED_ACCOUNT,
+      sourceFile: statement.sourceFile,
+      message: `${statement.sourceFile} doesn't tie out: opening $${statement.openingBalance?.toFixed(2)} + transactions $${statement.transactionTotal.toFixed(2)} ≠ closing $${statement.closingBalance?.toFixed(2)} (off by $${statement.difference?.toFixed(2)}). Rows may be missing or duplicated.`,
+    });
+  }
+
+  const byAccount = new Map<string, StatementSummary[]>();
+  for (const statement of statements) {
+    if (!statement.periodStart || !statement.periodEnd) continue;
+    const key = accountKey(statement);
+    byAccount.set(key, [...(byAccount.get(key) || []), statement]);
+  }
+
+  for (const accountStatements of byAccount.values()) {
+    const sorted = [...accountStatements].sort((a, b) => a.periodStart!.localeCompare(b.periodStart!));
+    const account = sorted[0].account || UNLABELED_ACCOUNT;
+
+    const covered = new Set(sorted.flatMap(s => monthsBetween(s.periodStart!, s.periodEnd!)));
+    const range = monthsBetween(sorted[0].periodStart!, sorted[sorted.length - 1].periodEnd!);
+    const accountMissing = range.filter(month => !covered.has(month));
+
+    for (const month of accountMissing) {
+      missingMonths.add(month);
+      warnings.push({
+        type: 'missing-month',
+        account,
+        month,
+        message: `No ${account} statement covers ${month}`,
+      });
+    }
+
+    let latestEnd = sorted[0].periodEnd!;
+    for (const statement of sorted.slice(1)) {
+      const gapStart = toDayNumber(latestEnd) + 1;
+      const gapEnd = toDayNumber(statement.periodStart!) - 1;
+      if (statement.periodEnd! > latestEnd) latestEnd = statement.periodEnd!;
+      if (gapEnd < gapStart) continue;
+
+      const gapMonths = monthsBetween(fromDayNumber(gapStart), fromDayNumber(gapEnd));
+      if (gapMonths.some(month => accountMissing.includes(month))) continue;
+
+      warnings.push({
+        type: 'period-gap',
+        account,
+        sourceFile: statement.sourceFile,
+        message: `No ${account} statement covers ${fromDayNumber(gapStart)} to ${fromDayNumber(gapEnd)} (before ${statement.sourceFile})`,
+      });
+    }
+  }
+
+  return { warnings, missingMonths: Array.from(missingMonths).sort() };
+}
+
+// ==================== BALANCES ====================
+
+/**
+ * Average balance the borrower kept across the uploaded accounts, read from
+ * the statements' own balances rather than from net cash flow
+ *
+ * Each statement's daily balance is rebuilt from its opening balance (or its
+ * closing balance less its transactions) and averaged per calendar month.
+ * Accounts are summed month by month and the months averaged. Returns null
+ * when no statement carries a balance.
+ *
+ * @param statements - Statement summaries from extraction
+ * @param transactions - Extracted transactions tagged with sourceFile
+ */
+export function calculateAverageMonthlyBalance(
+  statements: StatementSummary[],
+  transactions: Array<{ date?: string; amount: any; sourceFile?: string }>
+): number | null {
+  const monthTotals = new Map<string, number>();
+
+  for (const statement of statements) {
+    const openingBalance = statement.openingBalance ??
+      (statement.closingBalance !== undefined ? statement.closingBalance - statement.transactionTotal : undefined);
+    if (openingBalance === undefined || !statement.periodStart || !statement.periodEnd) continue;
+
+    const startDay = toDayNumber(statement.periodStart);
+    const endDay = toDayNumber(statement.periodEnd);
+    if (isNaN(startDay) || isNaN(endDay) || endDay < startDay) continue;
+
+    // Net amount posted on each day of the period
+    const postings = new Map<number, number>();
+    for (const transaction of transactions) {
+      if (transaction.sourceFile !== statement.sourceFile) continue;
+      const day = toDayNumber(String(transaction.date || ''));
+      if (isNaN(day)) continue;
+      postings.set(day, (postings.get(day) || 0) + (Number(transaction.amount) || 0));
+    }
+
+    const months = new Map<string, { total: number; days: number }>();
+    let balance = openingBalance;
+    for (let day = startDay; day <= endDay; day++) {
+      balance += postings.get(day) || 0;
+      const month = fromDayNumber(day).substring(0, 7);
+      const totals = months.get(month) || { total: 0, days: 0 };
+      totals.total += balance;
+      totals.days++;
+      months.set(month, totals);
+    }
+
+    months.forEach(({ total, days }, month) => {
+      monthTotals.set(month, (monthTotals.get(month) || 0) + total / days);
+    });
+  }
+
+  if (monthTotals.size === 0) return null;
+
+  const average = Array.from(monthTotals.values()).reduce((sum, value) => sum + value, 0) / monthTotals.size;
+  return Math.round(average * 100) / 100;
+}
@@ -0,0 +1,227 @@
+/**
+ * Cash-Flow Stress Test
+ *
+ * Monte Carlo runs of the AccurateLoanCalculator. Every projection assumes the
+ * same leftover every month forever; here each path perturbs the daily
+ * schedules month by month instead - income and expenses swing by the
+ * volatility seen in the statements' monthly breakdown, expenses spike now and
+ * then, paychecks go missing, and the rate follows a random walk - so the
+ * result is a range of outcomes (P10/P50/P90) rather than a single payoff date.
+ *
+ * Each path takes 10-20ms of CPU, so the path count is capped and the paths
+ * run in small batches that yield to the event loop in between, so other
+ * requests aren't stalled behind a stress test.
+ */
+
+import { AccurateLoanCalculator, AccurateCalculationInput, AioLoanOptions, DEFAULT_ARM_MARGIN } from './loan-calculator-accurate.js';
+import { CalendarGenerator } from './calendar-generator.js';
+import { buildAccurateInput } from './loan-calculator-v3.js';
+import { calculateTraditionalLoan } from './loan-calculator.js';
+import type { MortgageDetails, CashFlowAnalysis, Percentiles, StressTestAssumptions, StressTestResult } from '../types.js';
+
+export interface StressTestOptions {
+  paths?: number;                     // Default 100
+  seed?: number;                      // Same seed, same paths (default 42)
+  missedPaycheckProbability?: number;
+  expenseSpikeProbability?: number;
+  rateVolatility?: number;
+  loanOptions?: AioLoanOptions;       // ARM margin, index and caps the rate walk starts from
+}
+
+export const MAX_STRESS_TEST_PATHS = 200;
+
+const DEFAULT_PATHS = 100;
+const PATHS_PER_BATCH = 10;
+const DEFAULT_SEED = 42;
+const DEFAULT_VOLATILITY = 0.1;               // When there are too few months to measure it
+const MAX_VOLATILITY = 1;
+const DEFAULT_MISSED_PAYCHECK_PROBABILITY = 0.02;
+const DEFAULT_EXPENSE_SPIKE_PROBABILITY = 1 / 12;  // About once a year
+const DEFAULT_RATE_VOLATILITY = 0.0075;       // 75bp per yearly adjustment
+const FAN_MONTHS = 360;
+
+/**
+ * Small seeded PRNG (mulberry32) so a stress test can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Nearest-rank percentile; Infinity (never paid off) comes back as null
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const value = sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+  return isFinite(value) ? Math.round(value * 100) / 100 : null;
+}
+
+function percentiles(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+}
+
+/**
+ * Volatility and spike size from the statements' month-to-month variation
+ */
+function measureAssumptions(cashFlow: CashFlowAnalysis, options: StressTestOptions, monthlyExpenses: number): StressTestAssumptions {
+  const months = cashFlow.monthlyBreakdown || [];
+
+  const volatility = (values: number[]) => {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    if (values.length < 2 || mean <= 0) return DEFAULT_VOLATILITY;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+    return Math.min(MAX_VOLATILITY, Math.sqrt(variance) / mean);
+  };
+
+  const expenses = months.map(month => month.expenses);
+  const averageExpenses = expenses.length > 0 ? expenses.reduce((sum, value) => sum + value, 0) / expenses.length : 0;
+  const largestOverage = expenses.length >= 2 ? Math.max(...expenses) - averageExpenses : 0;
+
+  return {
+    monthsObserved: months.length,
+    incomeVolatility: volatility(months.map(month => month.income)),
+    expenseVolatility: volatility(expenses),
+    expenseSpikeProbability: options.expenseSpikeProbability ?? DEFAULT_EXPENSE_SPIKE_PROBABILITY,
+    expenseSpikeAmount: Math.max(largestOverage, monthlyExpenses * 0.25),
+    missedPaycheckProbability: options.missedPaycheckProbability ?? DEFAULT_MISSED_PAYCHECK_PROBABILITY,
+    rateVolatility: options.rateVolatility ?? DEFAULT_RATE_VOLATILITY,
+  };
+}
+
+/**
+ * Run randomized cash-flow paths through the daily calculator
+ */
+export async function runStressTest(
+  mortgageDetails: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  options: StressTestOptions = {}
+): Promise<StressTestResult> {
+  const paths = Math.min(MAX_STRESS_TEST_PATHS, Math.max(1, Math.floor(options.paths ?? DEFAULT_PATHS)));
+  const seed = options.seed ?? DEFAULT_SEED;
+  const random = createRandom(seed);
+
+  const startDate = new Date();
+  const baseInput = buildAccurateInput(mortgageDetails, cashFlow, startDate, options.loanOptions);
+  const assumptions = measureAssumptions(cashFlow, options, baseInput.monthlyExpenses);
+  const traditionalLoan = calculateTraditionalLoan(mortgageDetails, startDate);
+
+  const calendar = CalendarGenerator.generateCalendar(startDate);
+  const base = AccurateLoanCalculator.createCashFlowSchedules(baseInput, calendar);
+  const monthOf = calendar.map(day => (day.year - calendar[0].year) * 12 + day.month - calendar[0].month);
+  const monthCount = monthOf[monthOf.length - 1] + 1;
+  const daysByMonth: number[][] = Array.from({ length: monthCount }, () => []);
+  monthOf.forEach((month, dayIndex) => daysByMonth[month].push(dayIndex));
+  const monthEnds = calendar.filter(day => day.isLastDayOfMonth).map(day => day.dayIndex).slice(0, FAN_MONTHS);
+  const adjustments = Math.ceil(monthCount / 12);
+  const armMargin = baseInput.armMargin ?? DEFAULT_ARM_MARGIN;
+
+  console.log(`📉 Stress test: ${paths} paths, income ±${(assumptions.incomeVolatility * 100).toFixed(1)}%, expenses ±${(assumptions.expenseVolatility * 100).toFixed(1)}%, seed ${seed}`);
+
+  const payoffMonths: number[] = [];
+  const interestSavings: number[] = [];
+  const monthEndBalances: number[][] = monthEnds.map(() => []);
+  let paidOff = 0;
+  let overCreditLimit = 0;
+  let beatsTraditional = 0;
+
+  for (let path = 0; path < paths; path++) {
+    if (path > 0 && path % PATHS_PER_BATCH === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const incomeFactors = Array.from({ length: monthCount }, () => Math.max(0, 1 + assumptions.incomeVolatility * normal(random)));
+    const expenseFactors = Array.from({ length: monthCount }, () => Math.max(0, 1 + assumptions.expenseVolatility * normal(random)));
+
+    const deposits = base.deposits.map((amount, dayIndex) =>
+      amount > 0 && random() >= assumptions.missedPaycheckProbability ? amount * incomeFactors[monthOf[dayIndex]] : 0);
+    const withdrawals = base.withdrawals.map((amount, dayIndex) => amount * expenseFactors[monthOf[dayIndex]]);
+
+    // Spikes land on a random day of the month they hit
+    for (let month = 0; month < monthCount; month++) {
+      if (random() < assumptions.expenseSpikeProbability) {
+        const days = daysByMonth[month];
+        withdrawals[days[Math.floor(random() * days.length)]] += assumptions.expenseSpikeAmount;
+      }
+    }
+
+    // Yearly index moves as a random walk from the loan's index, or the one implied by today's rate; its caps still apply
+    const startIndex = baseInput.armIndex ?? Math.max(0, baseInput.interestRate - armMargin);
+    let index = startIndex;
+    const armIndexPath = Array.from({ length: adjustments }, () => {
+      index = Math.max(0, index + assumptions.rateVolatility * normal(random));
+      return index;
+    });
+
+    // Life events are already in the base schedules; breaches are reported, not collected as paydowns
+    const input: AccurateCalculationInput = {
+      ...baseInput,
+      lifeEvents: undefined,
+      enforceCreditLimit: false,
+      dailyCashFlows: { deposits, withdrawals },
+      isARM: assumptions.rateVolatility > 0,
+      armMargin,
+      armIndex: startIndex,
+      armIndexScenario: 'custom',
+      armIndexPath,
+    };
+    const result = AccurateLoanCalculator.simulate(input, { quiet: true });
+    const { summary } = result;
+
+    const savings = traditionalLoan.totalInterestPaid - summary.totalInterestPaid;
+    payoffMonths.push(summary.monthsToPayoff ?? Infinity);
+    interestSavings.push(savings);
+    const withinCreditLimit = summary.creditLimitBreaches.length === 0;
+    if (!withinCreditLimit) overCreditLimit++;
+    if (summary.monthsToPayoff !== null) {
+      paidOff++;
+      // Running over the limit would need borrower cash the path doesn't have, so it isn't a win
+      if (savings > 0 && withinCreditLimit) beatsTraditional++;
+    }
+
+    monthEnds.forEach((dayIndex, month) => {
+      monthEndBalances[month].push(result.dailyResults[dayIndex]?.endingBalance ?? 0);
+    });
+  }
+
+  // Fan runs until the P90 path has paid off
+  const balanceFan: StressTestResult['balanceFan'] = [];
+  for (let month = 0; month < monthEndBalances.length; month++) {
+    const band = percentiles(monthEndBalances[month]);
+    balanceFan.push({ month: month + 1, p10: band.p10 ?? 0, p50: band.p50 ?? 0, p90: band.p90 ?? 0 });
+    if (band.p90 === 0) break;
+  }
+
+  const result: StressTestResult = {
+    paths,
+    seed,
+    assumptions,
+    traditional: {
+      totalInterestPaid: traditionalLoan.totalInterestPaid,
+      payoffMonths: traditionalLoan.payoffMonths,
+    },
+    payoffMonths: percentiles(payoffMonths),
+    interestSavings: percentiles(interestSavings),
+    paidOffProbability: paidOff / paths,
+    overCreditLimitProbability: overCreditLimit / paths,
+    probabilityAioBeatsTraditional: beatsTraditional / paths,
+    balanceFan,
+  };
+
+  console.log(`📉 Stress test complete: payoff P10/P50/P90 = ${result.payoffMonths.p10}/${result.payoffMonths.p50}/${result.payoffMonths.p90} months, AIO wins ${(result.probabilityAioBeatsTraditional * 100).toFixed(0)}%`);
+
+  return result;
+}
@@ -0,0 +1,159 @@
+/**
+ * Traditional Loan Strategies
+ *
+ * The AIO puts the borrower's monthly leftover to work against the balance,
+ * while the plain traditional projection leaves it idle. For a fair comparison
+ * the same leftover is run through the things a traditional borrower could do
+ * with it instead - extra principal every month, a biweekly payment plan, a
+ * yearly lump sum, or investing it - and the AIO is measured against whichever
+ * of those costs least.
+ *
+ * Every option spends the same cash - the scheduled payment plus the leftover -
+ * and is measured to the same horizon (the scheduled payoff). Leftover a
+ * strategy doesn't put toward the loan is invested as it goes, and once a loan
+ * is paid off the whole payment and leftover are invested at the same return,
+ * so an early payoff isn't penalized against thirty years of investing.
+ */
+
+import { calculateTraditionalLoan, TraditionalPrepayment } from './loan-calculator.js';
+import type {
+  MortgageDetails,
+  CashFlowAnalysis,
+  LoanProjection,
+  TraditionalStrategyOptions,
+  TraditionalStrategyProjection,
+  TraditionalStrategyComparison,
+} from '../types.js';
+
+const DEFAULT_INVESTMENT_RETURN = 6;
+const MAX_INVESTMENT_RETURN = 30;
+
+/**
+ * Why strategy options can't be used, if they can't
+ */
+export function findInvalidStrategyOptions(options: unknown): string | null {
+  if (options === undefined) return null;
+  if (!options || typeof options !== 'object') return 'strategyOptions must be an object';
+
+  const { extraMonthlyPrincipal, annualLumpSum, investmentReturn } = options as Record<string, any>;
+  const isAmount = (value: unknown) => value === undefined || (typeof value === 'number' && isFinite(value) && value >= 0);
+
+  if (!isAmount(extraMonthlyPrincipal)) return 'strategyOptions.extraMonthlyPrincipal must be a non-negative number';
+  if (!isAmount(annualLumpSum)) return 'strategyOptions.annualLumpSum must be a non-negative number';
+  if (investmentReturn !== undefined && (typeof investmentReturn !== 'number' || !isFinite(investmentReturn)
+    || Math.abs(investmentReturn) > MAX_INVESTMENT_RETURN)) {
+    return `strategyOptions.investmentReturn must be a percent between -${MAX_INVESTMENT_RETURN} and ${MAX_INVESTMENT_RETURN}`;
+  }
+
+  return null;
+}
+
+/**
+ * Earnings to the horizon, compounded monthly, on contributions of
+ * `beforePayoff` each month until the loan is paid off and `afterPayoff` after
+ */
+function investmentGrowth(
+  beforePayoff: number,
+  afterPayoff: number,
+  payoffMonths: number,
+  horizonMonths: number,
+  annualReturnPercent: number
+): number {
+  const monthlyReturn = annualReturnPercent / 100 / 12;
+  let value = 0;
+  let contributed = 0;
+  for (let month = 0; month < horizonMonths; month++) {
+    const contribution = month < payoffMonths ? beforePayoff : afterPayoff;
+    value = value * (1 + monthlyReturn) + contribution;
+    contributed += contribution;
+  }
+  return value - contributed;
+}
+
+/**
+ * Project every traditional strategy for the leftover and compare the best against the AIO
+ */
+export function compareTraditionalStrategies(
+  mortgage: MortgageDetails,
+  cashFlow: CashFlowAnalysis,
+  allInOneLoan: Pick<LoanProjection, 'payoffMonths' | 'totalInterestPaid'>,
+  options: TraditionalStrategyOptions = {},
+  startDate: Date = new Date()
+): TraditionalStrategyComparison {
+  const monthlyIncome = cashFlow.monthlyDeposits || cashFlow.totalIncome || 0;
+  const monthlyExpenses = cashFlow.monthlyExpenses || cashFlow.totalExpenses || 0;
+  const monthlyLeftover = Math.max(0, monthlyIncome - monthlyExpenses);
+  const investmentReturn = options.investmentReturn ?? DEFAULT_INVESTMENT_RETURN;
+  const extraMonthlyPrincipal = options.extraMonthlyPrincipal ?? monthlyLeftover;
+  const annualLumpSum = options.annualLumpSum ?? monthlyLeftover * 12;
+
+  const scheduled = calculateTraditionalLoan(mortgage, startDate);
+  const horizonMonths = scheduled.payoffMonths;
+  const monthlyBudget = mortgage.monthlyPayment + monthlyLeftover;
+
+  const project = (
+    strategy: TraditionalStrategyProjection['strategy'],
+    label: string,
+    extraCashPerMonth: number,
+    prepayment: TraditionalPrepayment = {}
+  ): TraditionalStrategyProjection => {
+    const loan = strategy === 'scheduled' || strategy === 'invest-leftover'
+      ? scheduled
+      : calculateTraditionalLoan(mortgage, startDate, prepayment);
+
+    // Scheduled leaves the leftover idle; everything else invests whatever of the budget the loan doesn't take
+    const leftoverInvested = strategy === 'invest-leftover'
+      ? monthlyLeftover
+      : Math.max(0, monthlyLeftover - extraCashPerMonth);
+    const growth = strategy === 'scheduled'
+      ? 0
+      : investmentGrowth(
+        leftoverInvested,
+        monthlyBudget,
+        loan.payoffMonths,
+        horizonMonths,
+        investmentReturn
+      );
+
+    return {
+      strategy,
+      label,
+      extraCashPerMonth,
+      payoffMonths: loan.payoffMonths,
+      payoffDate: loan.payoffDate,
+      totalInterestPaid: loan.totalInterestPaid,
+      investmentGrowth: growth,
+      netCost: loan.totalInterestPaid - growth,
+    };
+  };
+
+  const strategies = [
+    project('scheduled', 'Scheduled payment only', 0),
+    project('extra-principal', 'Extra principal monthly', extraMonthlyPrincipal, { extraMonthlyPrincipal }),
+    project('biweekly', 'Biweekly payments', mortgage.monthlyPayment / 12, { biweekly: true }),
+    project('annual-lump-sum', 'Yearly lump sum', annualLumpSum / 12, { annualLumpSum }),
+    project('invest-leftover', `Invest leftover at ${investmentReturn}%`, monthlyLeftover),
+  ];
+
+  const best = strategies.reduce((lowest, strategy) => strategy.netCost < lowest.netCost ? strategy : lowest);
+
+  const aioGrowth = investmentGrowth(0, monthlyBudget, allInOneLoan.payoffMonths, horizonMonths, investmentReturn);
+  const allInOne = {
+    payoffMonths: allInOneLoan.payoffMonths,
+    totalInterestPaid: allInOneLoan.totalInterestPaid,
+    investmentGrowth: aioGrowth,
+    netCost: allInOneLoan.totalInterestPaid - aioGrowth,
+  };
+
+  console.log(`⚖️ Traditional strategies over ${horizonMonths} months: best is ${best.strategy} at $${best.netCost.toFixed(2)} net, AIO $${allInOne.netCost.toFixed(2)} net`);
+
+  return {
+    monthlyLeftover,
+    investmentReturn,
+    horizonMonths,
+    strategies,
+    bestStrategy: best.strategy,
+    allInOne,
+    aioSavingsVsBest: best.netCost - allInOne.netCost,
+  };
+}
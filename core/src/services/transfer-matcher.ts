@@ -0,0 +1,167 @@
+import { accountKey } from './statement-reconciler.js';
+import { toDayNumber } from './date-helpers.js';
+import type { StatementSummary, TransferSuggestion } from '../types.js';
+
+/**
+ * Inter-Account Transfer Matcher
+ *
+ * When a borrower uploads several accounts (checking + savings, two checking
+ * accounts), a transfer between them appears as a withdrawal in one file and
+ * a deposit in the other, inflating both income and expenses. This pairs
+ * opposite-sign, same-amount transactions from different accounts that post
+ * within a few days of each other. A pair is excluded as an internal transfer
+ * only when a description reads like a transfer or the statements show two
+ * different account numbers; anything else (a paycheck that happens to match
+ * a card payment) is returned as a suggestion for the officer to confirm.
+ * Deterministic: no model involved.
+ */
+
+// Rule id recorded on both sides of a matched transfer
+export const INTERNAL_TRANSFER_RULE_ID = 'internal-transfer';
+
+// Max days between the withdrawal and the matching deposit posting
+export const TRANSFER_WINDOW_DAYS = 3;
+
+// Descriptions that confirm a candidate pair is a real transfer
+const TRANSFER_KEYWORDS = /\b(transfer|xfer|trnsfr|savings|checking|online banking)\b/i;
+
+export interface TransferMatchResult {
+  matched: any[];          // Both sides of every confirmed pair, excluded and tagged with transferPairId
+  unmatched: any[];        // Everything else, unchanged (including both sides of each suggestion)
+  suggestions: TransferSuggestion[];
+  pairCount: number;
+}
+
+interface Candidate {
+  outIndex: number;
+  inIndex: number;
+  daysApart: number;
+  keywordHits: number;
+  confirmed: boolean;      // Transfer wording or two known, different accounts
+}
+
+function toCents(amount: any): number {
+  return Math.round((Number(amount) || 0) * 100);
+}
+
+/**
+ * Pair withdrawals with deposits of the same amount in a different account
+ *
+ * Each transaction joins at most one pair or suggestion. Confirmed pairs win,
+ * then the closest posting dates, then descriptions that look like transfers.
+ * Files whose statements name the same account (two months of one checking
+ * account) are never paired with each other. Transactions without a
+ * sourceFile (single-file uploads, legacy callers) are never paired.
+ *
+ * @param transactions - Extracted transactions tagged with sourceFile
+ * @param statements - Statement summaries, for the account behind each sourceFile
+ */
+export function matchInterAccountTransfers(
+  transactions: any[],
+  statements: StatementSummary[] = []
+): TransferMatchResult {
+  const sourceFiles = new Set(transactions.map(t => t.sourceFile).filter(Boolean));
+  if (sourceFiles.size < 2) {
+    return { matched: [], unmatched: transactions, suggestions: [], pairCount: 0 };
+  }
+
+  // Account behind each file, when its statement printed one
+  const accountByFile = new Map<string, string>();
+  for (const statement of statements) {
+    if (statement.account) accountByFile.set(statement.sourceFile, accountKey(statement));
+  }
+
+  // Index deposits by amount so each withdrawal only scans same-amount candidates
+  const depositsByCents = new Map<number, number[]>();
+  transactions.forEach((transaction, index) => {
+    const cents = toCents(transaction.amount);
+    if (!transaction.sourceFile || cents <= 0) return;
+    const indexes = depositsByCents.get(cents) || [];
+    indexes.push(index);
+    depositsByCents.set(cents, indexes);
+  });
+
+  const candidates: Candidate[] = [];
+  transactions.forEach((outgoing, outIndex) => {
+    const cents = toCents(outgoing.amount);
+    if (!outgoing.sourceFile || cents >= 0) return;
+
+    const outDay = toDayNumber(outgoing.date);
+    if (isNaN(outDay)) return;
+
+    for (const inIndex of depositsByCents.get(-cents) || []) {
+      const incoming = transactions[inIndex];
+      if (incoming.sourceFile === outgoing.sourceFile) continue;
+
+      const outAccount = accountByFile.get(outgoing.sourceFile);
+      const inAccount = accountByFile.get(incoming.sourceFile);
+      if (outAccount && outAccount === inAccount) continue;
+
+      const daysApart = Math.abs(toDayNumber(incoming.date) - outDay);
+      if (isNaN(daysApart) || daysApart > TRANSFER_WINDOW_DAYS) continue;
+
+      const keywordHits = [outgoing, incoming]
+        .filter(t => TRANSFER_KEYWORDS.test(t.description || '')).length;
+      const confirmed = keywordHits > 0 || Boolean(outAccount && inAccount);
+
+      candidates.push({ outIndex, inIndex, daysApart, keywordHits, confirmed });
+    }
+  });
+
+  candidates.sort((a, b) =>
+    Number(b.confirmed) - Number(a.confirmed) || a.daysApart - b.daysApart || b.keywordHits - a.keywordHits
+  );
+
+  const pairIds = new Map<number, string>();
+  const paired = new Set<number>();
+  const suggestions: TransferSuggestion[] = [];
+  let pairCount = 0;
+
+  for (const candidate of candidates) {
+    if (paired.has(candidate.outIndex) || paired.has(candidate.inIndex)) continue;
+    paired.add(candidate.outIndex);
+    paired.add(candidate.inIndex);
+
+    if (!candidate.confirmed) {
+      suggestions.push({
+        id: `transfer-suggestion-${suggestions.length + 1}`,
+        withdrawal: transactions[candidate.outIndex],
+        deposit: transactions[candidate.inIndex],
+        daysApart: candidate.daysApart,
+      });
+      continue;
+    }
+
+    pairCount++;
+    const pairId = `transfer-${pairCount}`;
+    pairIds.set(candidate.outIndex, pairId);
+    pairIds.set(candidate.inIndex, pairId);
+  }
+
+  const matched: any[] = [];
+  const unmatched: any[] = [];
+
+  transactions.forEach((transaction, index) => {
+    const transferPairId = pairIds.get(index);
+    if (!transferPairId) {
+      unmatched.push(transaction);
+      return;
+    }
+
+    const amount = Number(transaction.amount) || 0;
+    matched.push({
+      ...transaction,
+      amount,
+      category: amount > 0 ? 'income' : 'expense',
+      excluded: true,
+      flagged: false,
+      monthYear: transaction.monthYear || String(transaction.date || '').substring(0, 7),
+      ruleId: INTERNAL_TRANSFER_RULE_ID,
+      transferPairId,
+    });
+  });
+
+  console.log(`🔁 Matched ${pairCount} inter-account transfer pair(s) across ${sourceFiles.size} files, ${suggestions.length} left to confirm`);
+
+  return { matched, unmatched, suggestions, pairCount };
+}
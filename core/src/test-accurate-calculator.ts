@@ -9,7 +9,7 @@
  * - Deposit frequency handling
  */
 
-import { AccurateLoanCalculator, AccurateCalculationInput } from './services/loan-calculator-accurate';
+import { AccurateLoanCalculator, AccurateCalculationInput } from './services/loan-calculator-accurate.js';
 
 // Sample test case
 const testInput: AccurateCalculationInput = {
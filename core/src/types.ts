@@ -0,0 +1,422 @@
+// Product types for comparison
+export type TraditionalProductType =
+  | '15-year-fixed'
+  | '20-year-fixed'
+  | '25-year-fixed'
+  | '30-year-fixed';
+
+// Mortgage and loan types
+export interface MortgageDetails {
+  currentBalance: number;
+  interestRate: number; // Traditional mortgage rate
+  aioInterestRate: number; // All-In-One loan rate
+  monthlyPayment: number;
+  remainingTermMonths: number;
+  propertyValue: number;
+  currentHousingPayment: number;
+  loanBalance?: number; // Alias for currentBalance (for backwards compatibility)
+  productType?: TraditionalProductType; // Traditional mortgage to compare against (default: 30-year-fixed)
+}
+
+export interface Transaction {
+  date: string;
+  description: string;
+  amount: number;
+  category: 'income' | 'expense' | 'housing' | 'one-time' | 'recurring';
+  excluded?: boolean;
+  flagged?: boolean;
+  flagReason?: string;
+  ruleId?: string;       // Categorization rule that matched (unset when categorized by AI)
+  sourceFile?: string;   // Uploaded file (account) the transaction was extracted from
+  transferPairId?: string; // Shared by both sides of a matched inter-account transfer
+  isDuplicate?: boolean; // Marked as duplicate of another transaction
+}
+
+export interface MonthlyBreakdown {
+  month: string;
+  income: number;
+  expenses: number;
+  netCashFlow: number;
+  transactionCount: number;
+}
+
+export interface CashFlowAnalysis {
+  totalIncome: number;
+  totalExpenses: number;
+  netCashFlow: number;
+  averageMonthlyBalance: number;
+  transactions: Transaction[];
+  flaggedTransactions?: Transaction[];
+  duplicateTransactions?: Transaction[];
+  monthlyBreakdown?: MonthlyBreakdown[];
+  depositFrequency?: 'monthly' | 'biweekly' | 'weekly' | 'semi-monthly' | 'quarterly';
+  monthlyDeposits?: number;
+  monthlyExpenses?: number;
+  monthlyLeftover?: number;
+  confidence: number;
+  recurringSeries?: RecurringSeries[];  // Detected recurring income/expense series
+  paySchedules?: PaySchedule[];         // Detected paychecks (drive deposit dates in the simulation)
+  statements?: StatementSummary[];      // One per uploaded statement, with its balance reconciliation
+  statementWarnings?: StatementWarning[];
+  missingStatementMonths?: string[];    // YYYY-MM months with no statement inside the uploaded range
+  validationReports?: LlmValidationReport[]; // Model output checks, one per extracted file and categorization chunk
+  lifeEvents?: LifeEvent[];             // Dated future events applied on top of the monthly cash flow
+  transferSuggestions?: TransferSuggestion[]; // Possible transfers between uploaded files, left for the officer to confirm
+}
+
+// Future life events layered onto the AIO projection
+export type LifeEventType = 'lump-sum-deposit' | 'lump-sum-draw' | 'income-change' | 'expense-change';
+
+export interface LifeEvent {
+  id: string;
+  type: LifeEventType;
+  date: string;                      // YYYY-MM-DD
+  amount: number;                    // Lump sum, or the monthly change for income/expense changes (negative for a drop)
+  description?: string;
+}
+
+export interface LifeEventOutcome {
+  payoffDate: Date | null;
+  payoffMonths: number | null;       // null when the AIO never pays off
+  totalInterestPaid: number;
+  maxOverCreditLimit: number;        // Furthest the balance runs over the declining credit limit (0 = stays within it)
+}
+
+export interface LifeEventImpact {
+  event: LifeEvent;
+  outcome: LifeEventOutcome;         // Baseline plus this event alone
+  payoffMonthsChange: number | null; // Negative = paid off sooner; null when either run never pays off
+  interestChange: number;
+}
+
+export interface LifeEventImpactResult {
+  baseline: LifeEventOutcome;        // No events
+  withEvents: LifeEventOutcome;      // Every event together
+  events: LifeEventImpact[];
+}
+
+export type RecurrenceCadence = 'weekly' | 'biweekly' | 'semi-monthly' | 'monthly' | 'quarterly';
+
+export interface RecurringSeries {
+  id: string;
+  merchant: string;                  // Normalized payee
+  description: string;               // Most recent description as it appeared on the statement
+  direction: 'income' | 'expense';
+  category?: Transaction['category'];
+  cadence: RecurrenceCadence;
+  averageAmount: number;             // Per occurrence (absolute)
+  monthlyAmount: number;             // Averaged to a month
+  occurrences: string[];             // YYYY-MM-DD, ascending
+  nextDates: string[];               // Predicted upcoming dates
+  missedDates: string[];             // Expected dates with no matching transaction
+  irregularDates: string[];          // Occurrences that don't fit the cadence
+  regularity: number;                // Share of expected dates that were hit (0-1)
+}
+
+export interface PaySchedule {
+  cadence: RecurrenceCadence;
+  anchorDate: string;                // A known pay date (YYYY-MM-DD); weekly/biweekly/quarterly step from it
+  daysOfMonth?: number[];            // Semi-monthly/monthly pay days (31 = last day of the month)
+  amount: number;                    // Per paycheck
+  description?: string;
+}
+
+export type StatementReconciliationStatus = 'balanced' | 'unbalanced' | 'unverified';
+
+export interface StatementSummary {
+  sourceFile: string;
+  account?: string;                  // Account name/number as printed on the statement
+  periodStart?: string;              // YYYY-MM-DD (falls back to the first transaction date)
+  periodEnd?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  transactionCount: number;
+  transactionTotal: number;          // Net of all extracted rows
+  reconciliation: StatementReconciliationStatus; // 'unverified' when a balance is missing
+  difference?: number;               // closing - (opening + transactionTotal)
+  validation?: LlmValidationReport;  // Extraction output checks (PDFs and images only)
+  unparsedRows?: UnparsedStatementRow[]; // Rows of a CSV/XLSX/OFX/QIF export that couldn't be read
+}
+
+// Same-amount withdrawal and deposit in two uploaded files with nothing confirming
+// a transfer (no transfer wording, accounts unknown). Both sides still count.
+export interface TransferSuggestion {
+  id: string;
+  withdrawal: Transaction;
+  deposit: Transaction;
+  daysApart: number;
+}
+
+export interface UnparsedStatementRow {
+  row: number;                       // Sheet row, QIF line or OFX transaction number (1-based)
+  text: string;                      // The row as it appears in the file (truncated)
+  reason: string;
+}
+
+export interface StatementWarning {
+  type: 'unreconciled' | 'missing-month' | 'period-gap' | 'unparsed-rows';
+  account: string;
+  sourceFile?: string;
+  month?: string;                    // YYYY-MM (missing-month only)
+  message: string;
+}
+
+// Live progress of a statement analysis, streamed to the client over SSE
+export type AnalysisProgressEvent =
+  | { type: 'file-started'; file: string; attempt?: number }
+  | { type: 'page-extracted'; file: string; page: number; totalPages?: number; transactionCount: number }
+  | { type: 'file-completed'; file: string; transactionCount: number }
+  | { type: 'file-failed'; file: string; error: string }
+  | { type: 'chunk-categorized'; chunk: number; totalChunks: number; transactionCount: number }
+  | { type: 'chunks-merged'; chunkCount: number; transactionCount: number }
+  | { type: 'duplicates-found'; count: number; examples: string[] }
+  | { type: 'consistency-applied'; changes: number; merchants: string[] };
+
+export type AnalysisProgressEmitter = (event: AnalysisProgressEvent) => void;
+
+export type AnalysisProgressEntry = AnalysisProgressEvent & {
+  id: number;                        // Sequence number within the analysis (SSE event id)
+  at: string;                        // ISO timestamp
+};
+
+export interface BorrowerProfile {
+  creditScore?: number;
+  monthlyDebts?: number; // Recurring monthly debt payments (including housing)
+  monthlyIncome?: number; // Gross monthly income (defaults to statement deposits)
+  propertyType?: string; // e.g. 'single-family', 'condo', 'townhouse', 'pud'
+}
+
+export interface EligibilityRuleResult {
+  id: string;
+  label: string;
+  status: 'pass' | 'fail' | 'warn' | 'skipped';
+  severity: 'fail' | 'warn';
+  threshold: number | string[] | null;
+  actual: number | string | boolean | null;
+  message: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  ltv: number;
+  ltvPassed: boolean;
+  cashFlowSufficient: boolean;
+  cashFlowPassed: boolean;
+  reasons: string[];
+  rules: EligibilityRuleResult[];
+  warnings: string[];
+  investor?: string;
+}
+
+export interface LoanProjection {
+  type: 'traditional' | 'all-in-one';
+  productName?: string; // Display name (e.g., "15-Year Fixed", "All-In-One")
+  monthlyPayment: number;
+  totalInterestPaid: number;
+  payoffDate: Date;
+  payoffMonths: number;
+  interestSavings?: number;
+  monthsSaved?: number;
+}
+
+export interface SimulationResult {
+  traditionalLoan: LoanProjection;
+  allInOneLoan: LoanProjection;
+  comparison: {
+    interestSavings: number;
+    timeSavedMonths: number;
+    percentageSavings: number;
+  };
+  minimumCashFlowInfo?: {
+    minimumMonthlyCashFlow: number;
+    currentMonthlyCashFlow: number;
+    additionalNeeded: number;
+    targetPayoffMonths: number;
+  };
+  alternatives?: TraditionalStrategyComparison; // AIO against the best other use of the same leftover
+  startDate?: string;                           // YYYY-MM-DD the projection starts; pass to /export-ledger for the same run
+}
+
+// Fair comparison: what the borrower could do with the leftover on a traditional loan instead
+export type TraditionalStrategyType = 'scheduled' | 'extra-principal' | 'biweekly' | 'annual-lump-sum' | 'invest-leftover';
+
+export interface TraditionalStrategyOptions {
+  extraMonthlyPrincipal?: number;    // Default: the monthly leftover
+  annualLumpSum?: number;            // Default: twelve months of leftover
+  investmentReturn?: number;         // Annual percent earned by invest-leftover (default 6)
+}
+
+export interface TraditionalStrategyProjection {
+  strategy: TraditionalStrategyType;
+  label: string;
+  extraCashPerMonth: number;         // Average cash beyond the scheduled payment
+  payoffMonths: number;
+  payoffDate: Date;
+  totalInterestPaid: number;
+  investmentGrowth: number;          // Earnings by the horizon on the budget not going to the loan
+  netCost: number;                   // Interest paid - investment growth
+}
+
+export interface TraditionalStrategyComparison {
+  monthlyLeftover: number;
+  investmentReturn: number;          // Percent
+  horizonMonths: number;             // Scheduled payoff; every option is measured to this month
+  strategies: TraditionalStrategyProjection[];
+  bestStrategy: TraditionalStrategyType; // Lowest net cost
+  allInOne: {
+    payoffMonths: number;
+    totalInterestPaid: number;
+    investmentGrowth: number;        // Payment plus leftover invested from AIO payoff to the horizon
+    netCost: number;
+  };
+  aioSavingsVsBest: number;          // Best net cost - AIO net cost (negative when the alternative wins)
+}
+
+// Look-back replay: the statement history run through the AIO day by day
+export interface LookbackReplayMonth {
+  month: string;                     // YYYY-MM
+  days: number;                      // Replayed days in this calendar month
+  deposits: number;
+  withdrawals: number;
+  interestAccrued: number;
+  interestPaid: number;
+  startingBalance: number;
+  endingBalance: number;
+  lowestBalance: number;
+  averageBalance: number;            // Average end-of-day balance
+}
+
+export interface LookbackReplayResult {
+  periodStart: string;               // YYYY-MM-DD, first replayed day
+  periodEnd: string;                 // YYYY-MM-DD, last replayed day
+  lookbackMonths: number;            // Whole months replayed (the length of the looped pattern)
+  transactionCount: number;          // Included transactions replayed on their real dates
+  omittedTransactionCount: number;   // Included transactions past the last whole month
+  startingBalance: number;
+  lookback: {
+    months: LookbackReplayMonth[];
+    totalDeposits: number;
+    totalWithdrawals: number;
+    interestPaid: number;
+    endingBalance: number;
+  };
+  projection: {                      // Look-back followed by the observed pattern on a loop
+    totalInterestPaid: number;
+    finalBalance: number;
+    payoffDate: Date | null;
+    payoffMonths: number | null;
+    creditLimitBreaches: number;
+    totalRequiredPaydown: number;
+  };
+}
+
+// Monte Carlo cash-flow stress test of the AIO projection
+export interface Percentiles {
+  p10: number | null;                // null when the percentile falls on paths that never paid off
+  p50: number | null;
+  p90: number | null;
+}
+
+export interface StressTestAssumptions {
+  monthsObserved: number;            // Statement months the volatility was measured on
+  incomeVolatility: number;          // Std dev of monthly income as a fraction of the mean
+  expenseVolatility: number;
+  expenseSpikeProbability: number;   // Chance of a spike in any month
+  expenseSpikeAmount: number;
+  missedPaycheckProbability: number; // Chance any single deposit doesn't arrive
+  rateVolatility: number;            // Std dev of the yearly index move (decimal)
+}
+
+export interface StressTestResult {
+  paths: number;
+  seed: number;
+  assumptions: StressTestAssumptions;
+  traditional: {
+    totalInterestPaid: number;
+    payoffMonths: number;
+  };
+  payoffMonths: Percentiles;
+  interestSavings: Percentiles;      // Traditional interest - AIO interest (negative when the AIO costs more)
+  paidOffProbability: number;        // Share of paths that pay off within the calendar
+  overCreditLimitProbability: number; // Share of paths whose balance runs over the declining credit limit
+  probabilityAioBeatsTraditional: number; // Share of paths that pay off within the credit limit with less interest than the traditional loan
+  balanceFan: Array<{ month: number; p10: number; p50: number; p90: number }>; // End-of-month balance percentiles
+}
+
+// Goal-seek: solve one input of the AIO projection for a target outcome
+export type GoalSeekGoal =
+  | { type: 'payoff-by-date'; targetDate: string }                  // Minimum monthly leftover that pays off by YYYY-MM-DD
+  | { type: 'rate-for-savings'; minimumSavings: number }            // Highest AIO rate that still saves at least this much interest
+  | { type: 'max-draw'; maxPayoffYears: number; drawDate?: string } // Largest lump-sum draw (default today) that still pays off in time
+  | { type: 'break-even' };                                         // Smallest leftover that pays off within the credit limit for no more interest than the traditional loan
+
+export type GoalSeekVariable = 'monthly-leftover' | 'aio-rate' | 'draw-amount';
+
+export interface GoalSeekScenario {
+  monthlyLeftover: number;
+  aioInterestRate: number;           // Percent
+  drawAmount: number;                // 0 unless solving a max-draw goal
+  payoffDate: Date | null;
+  payoffMonths: number | null;       // null when the AIO never pays off
+  totalInterestPaid: number;
+  interestSavings: number;           // Traditional interest - AIO interest
+  maxOverCreditLimit: number;        // Furthest the balance runs over the declining credit limit (0 = stays within it)
+}
+
+export interface GoalSeekResult {
+  goal: GoalSeekGoal;
+  variable: GoalSeekVariable;
+  value: number | null;              // Solved value (dollars, or percent for aio-rate); null when no value in range meets the goal
+  achievable: boolean;
+  searchRange: { low: number; high: number };
+  iterations: number;                // Simulations run by the search
+  scenario: GoalSeekScenario;        // Run at the solved value, or at the end of the range closest to the goal
+  traditional: {
+    totalInterestPaid: number;
+    payoffMonths: number;
+  };
+}
+
+// OpenAI analysis types
+export interface OpenAIAnalysisResult {
+  transactions: Transaction[];
+  monthlyBreakdown: MonthlyBreakdown[];
+  depositFrequency: string;
+  monthlyDeposits: number;
+  monthlyExpenses: number;
+  monthlyLeftover: number;
+  totalIncome: number;
+  totalExpenses: number;
+  netCashFlow: number;
+  confidence: number;
+  validation?: LlmValidationReport;
+}
+
+export type LlmOutputIssueType =
+  | 'schema'            // Response is not the requested JSON shape
+  | 'missing'           // Input transaction absent from the output
+  | 'extra'             // Output row that matches no input transaction
+  | 'date-changed'
+  | 'amount-changed'
+  | 'invalid-category'
+  | 'malformed'         // Extraction row that isn't "YYYY-MM-DD | description | amount"
+  | 'missing-page'
+  | 'count-mismatch';   // Extraction row count differs from the count the model stated
+
+export interface LlmOutputIssue {
+  type: LlmOutputIssueType;
+  index?: number;       // Input transaction index (categorization) or output line number (extraction)
+  message: string;
+}
+
+// Checks of one model output (an extracted file or a categorization chunk) against the input
+export interface LlmValidationReport {
+  chunk: string;        // File name or "categorize-chunk 2/4"
+  expected: number;     // Input transactions, or rows the model said it extracted
+  returned: number;     // Valid rows in the first response
+  issues: LlmOutputIssue[]; // Problems in the first response
+  repairRounds: number; // Re-asks made for the rows with problems
+  repaired: number;     // Rows fixed by a re-ask
+  unresolved: number;   // Rows (or pages) still invalid after the last re-ask
+  valid: boolean;       // No unresolved problems remain
+}
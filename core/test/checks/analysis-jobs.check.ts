@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import {
+  addJobFile,
+  createAnalysisJob,
+  getAnalysisJob,
+  getAnalysisJobResults,
+  processNextJobFile,
+  retryJobFile,
+} from '../../src/services/analysis-job-service.js';
+import { check } from './check.js';
+
+// No REDIS_URL here, so jobs live in the in-memory store. QIF extraction needs no model.
+const QIF = Buffer.from(`!Type:Bank
+D01/05/2024
+T2,500.00
+PACME PAYROLL
+^
+D01/12/2024
+T-45.10
+PSHELL OIL
+^
+`);
+
+async function newJob(): Promise<string> {
+  const job = await createAnalysisJob();
+  assert.ok(job);
+  return job.id;
+}
+
+export const checks = [
+  check('uploading only queues a file; each resume call extracts one', async () => {
+    const id = await newJob();
+    await addJobFile(id, 'checking-jan.qif', QIF);
+    await addJobFile(id, 'checking-feb.qif', QIF);
+
+    assert.deepEqual((await getAnalysisJob(id))?.files.map(f => f.status), ['pending', 'pending']);
+
+    const first = await processNextJobFile(id);
+    assert.equal(first?.file?.name, 'checking-jan.qif');
+    assert.equal(first?.file?.status, 'completed');
+    assert.deepEqual(first?.job?.files.map(f => f.status), ['completed', 'pending']);
+
+    await processNextJobFile(id);
+    const done = await processNextJobFile(id);
+    assert.equal(done?.file, null);
+    assert.equal(done?.job?.status, 'completed');
+  }),
+
+  check('parallel resume calls never extract the same file twice', async () => {
+    const id = await newJob();
+    await addJobFile(id, 'checking-jan.qif', QIF);
+
+    const results = await Promise.all([processNextJobFile(id), processNextJobFile(id), processNextJobFile(id)]);
+
+    assert.equal(results.filter(result => result?.file).length, 1);
+    assert.equal((await getAnalysisJob(id))?.files[0].attempts, 1);
+  }),
+
+  check('results carry every completed file, tagged with its source file', async () => {
+    const id = await newJob();
+    await addJobFile(id, 'checking-jan.qif', QIF);
+    await processNextJobFile(id);
+
+    const results = await getAnalysisJobResults(id);
+    assert.equal(results?.transactions.length, 2);
+    assert.ok(results?.transactions.every(t => t.sourceFile === 'checking-jan.qif'));
+    assert.equal(results?.statements[0].sourceFile, 'checking-jan.qif');
+  }),
+
+  check('a failed file can be re-queued and is extracted again on the next call', async () => {
+    const id = await newJob();
+    await addJobFile(id, 'statement.txt', QIF);
+
+    const failed = await processNextJobFile(id);
+    assert.equal(failed?.file?.status, 'failed');
+    assert.match(failed?.file?.error || '', /Unsupported file type/);
+    assert.equal(failed?.job?.status, 'failed');
+
+    assert.equal((await retryJobFile(id, 0))?.status, 'pending');
+    assert.equal(await retryJobFile(id, 0), null);
+    assert.equal((await processNextJobFile(id))?.file?.attempts, 2);
+  }),
+
+  check('unknown jobs come back as not found', async () => {
+    assert.equal(await processNextJobFile('missing'), null);
+    assert.equal(await addJobFile('missing', 'a.qif', QIF), null);
+  }),
+];
@@ -0,0 +1,42 @@
+/**
+ * Shared shape for focused check files
+ */
+
+import type { MortgageDetails } from '../../src/types.js';
+
+export interface Check {
+  name: string;
+  run: () => void | Promise<void>;
+}
+
+export function check(name: string, run: Check['run']): Check {
+  return { name, run };
+}
+
+/**
+ * Local date from YYYY-MM-DD, the way scenarios and requests spell dates
+ */
+export function localDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * First of next month as YYYY-MM-DD, so a dated event lands inside a projection that starts today
+ */
+export function nextMonth(): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() + 1, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+// $380k against a $400k limit (80% of $500k), so there's little room over the balance
+export const nearLimitMortgage: MortgageDetails = {
+  currentBalance: 380000,
+  interestRate: 6.5,
+  aioInterestRate: 7.25,
+  monthlyPayment: 2400,
+  remainingTermMonths: 360,
+  propertyValue: 500000,
+  currentHousingPayment: 2400,
+};
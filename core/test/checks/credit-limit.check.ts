@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { AccurateLoanCalculator, AccurateCalculationInput } from '../../src/services/loan-calculator-accurate.js';
+import { check, localDate } from './check.js';
+
+// $400k at 7% with $1,000/month left over: the balance outruns the declining limit
+const input: AccurateCalculationInput = {
+  startingBalance: 400000,
+  interestRate: 0.07,
+  propertyValue: 500000,
+  loanToValue: 0.8,
+  monthlyIncome: 9000,
+  monthlyExpenses: 8000,
+  depositFrequency: 'monthly',
+  startDate: localDate('2025-01-01'),
+};
+
+export const checks = [
+  check('breaches are reported without touching the balance by default', () => {
+    const { summary } = AccurateLoanCalculator.simulate(input, { quiet: true });
+
+    assert.ok(summary.creditLimitBreaches.length > 0);
+    assert.equal(summary.totalRequiredPaydown, 0);
+    assert.equal(summary.monthsToPayoff, null);
+    assert.ok(summary.finalBalance > 0);
+  }),
+
+  check('enforcement collects paydowns only when opted in', () => {
+    const reported = AccurateLoanCalculator.simulate(input, { quiet: true }).summary;
+    const enforced = AccurateLoanCalculator.simulate({ ...input, enforceCreditLimit: true }, { quiet: true }).summary;
+
+    assert.ok(enforced.totalRequiredPaydown > 0);
+    assert.ok(enforced.totalInterestPaid < reported.totalInterestPaid);
+    const collected = enforced.creditLimitBreaches.reduce((sum, breach) => sum + breach.totalPaydown, 0);
+    assert.ok(Math.abs(collected - enforced.totalRequiredPaydown) < 0.01);
+  }),
+
+  check('a balance under the limit never breaches', () => {
+    const { summary } = AccurateLoanCalculator.simulate(
+      { ...input, startingBalance: 150000, monthlyIncome: 12000 },
+      { quiet: true }
+    );
+
+    assert.equal(summary.creditLimitBreaches.length, 0);
+    assert.notEqual(summary.monthsToPayoff, null);
+  }),
+];
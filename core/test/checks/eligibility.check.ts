@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { resolveEligibilityRules } from '../../src/config/eligibility-rules.js';
+import { calculateEligibility } from '../../src/services/eligibility-checker.js';
+import type { CashFlowAnalysis, MortgageDetails } from '../../src/types.js';
+import { check } from './check.js';
+
+// $400k at 50% LTV with plenty of cash flow: only the loan-amount limits are in play
+const mortgage: MortgageDetails = {
+  currentBalance: 400000,
+  interestRate: 6.5,
+  aioInterestRate: 7.25,
+  monthlyPayment: 2500,
+  remainingTermMonths: 360,
+  propertyValue: 800000,
+  currentHousingPayment: 2500,
+};
+
+const cashFlow: CashFlowAnalysis = {
+  totalIncome: 12000,
+  totalExpenses: 8000,
+  netCashFlow: 4000,
+  averageMonthlyBalance: 0,
+  confidence: 1,
+  transactions: [],
+  monthlyLeftover: 4000,
+};
+
+const status = (result: ReturnType<typeof calculateEligibility>, id: string) =>
+  result.rules.find(rule => rule.id === id)?.status;
+
+export const checks = [
+  check('loan-amount limits only warn without an investor overlay', () => {
+    const small = calculateEligibility({ ...mortgage, currentBalance: 40000 }, cashFlow);
+    const large = calculateEligibility({ ...mortgage, currentBalance: 3500000, propertyValue: 7000000 }, cashFlow);
+
+    assert.equal(status(small, 'min-loan-amount'), 'warn');
+    assert.equal(small.eligible, true);
+    assert.equal(status(large, 'max-loan-amount'), 'warn');
+    assert.equal(large.eligible, true);
+  }),
+
+  check('the high-balance overlay makes its loan-amount limits blocking', () => {
+    const result = calculateEligibility(mortgage, cashFlow, { investor: 'high-balance' });
+
+    assert.equal(status(result, 'min-loan-amount'), 'fail');
+    assert.equal(result.eligible, false);
+  }),
+
+  check('only real overlay names resolve', () => {
+    assert.ok(resolveEligibilityRules('conservative').some(rule => rule.id === 'min-net-cash-flow-warning'));
+    assert.throws(() => resolveEligibilityRules('constructor'), /Unknown investor overlay: constructor/);
+    assert.throws(() => resolveEligibilityRules('toString'), /Unknown investor overlay/);
+  }),
+];
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { findInvalidGoal, seekGoal } from '../../src/services/goal-seek.js';
+import type { CashFlowAnalysis } from '../../src/types.js';
+import { check, nearLimitMortgage as mortgage } from './check.js';
+
+const cashFlow = (monthlyLeftover: number): CashFlowAnalysis => ({
+  totalIncome: 9000,
+  totalExpenses: 9000 - monthlyLeftover,
+  netCashFlow: monthlyLeftover,
+  averageMonthlyBalance: 0,
+  confidence: 1,
+  transactions: [],
+  monthlyDeposits: 9000,
+  monthlyExpenses: 9000 - monthlyLeftover,
+});
+
+function yearsFromNow(years: number): string {
+  const date = new Date();
+  return `${date.getFullYear() + years}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+}
+
+export const checks = [
+  check('malformed goals are rejected with the reason', () => {
+    assert.equal(findInvalidGoal({ type: 'break-even' }), null);
+    assert.match(findInvalidGoal({ type: 'payoff-sooner' }) ?? '', /goal\.type must be one of/);
+    assert.match(findInvalidGoal({ type: 'payoff-by-date', targetDate: '2035' }) ?? '', /targetDate/);
+    assert.match(findInvalidGoal({ type: 'rate-for-savings' }) ?? '', /minimumSavings/);
+    assert.match(findInvalidGoal({ type: 'max-draw', maxPayoffYears: 31 }) ?? '', /maxPayoffYears/);
+  }),
+
+  check('payoff-by-date finds a leftover that pays off in time within the limit', () => {
+    const targetDate = yearsFromNow(10);
+    const result = seekGoal(mortgage, cashFlow(300), { type: 'payoff-by-date', targetDate });
+    const [year, month, day] = targetDate.split('-').map(Number);
+
+    assert.equal(result.achievable, true);
+    assert.equal(result.scenario.monthlyLeftover, result.value);
+    assert.ok(result.scenario.payoffDate !== null && result.scenario.payoffDate <= new Date(year, month - 1, day));
+    assert.equal(result.scenario.maxOverCreditLimit, 0);
+  }),
+
+  check('rate-for-savings only counts rates that stay within the limit', () => {
+    const solved = seekGoal(mortgage, cashFlow(5000), { type: 'rate-for-savings', minimumSavings: 200000 });
+    assert.equal(solved.achievable, true);
+    assert.ok(solved.scenario.interestSavings >= 200000);
+    assert.equal(solved.scenario.maxOverCreditLimit, 0);
+
+    // Even at 0% a $300 leftover can't keep up with the declining limit
+    const overLimit = seekGoal(mortgage, cashFlow(300), { type: 'rate-for-savings', minimumSavings: 0 });
+    assert.equal(overLimit.achievable, false);
+    assert.ok(overLimit.scenario.maxOverCreditLimit > 0);
+  }),
+
+  check('max-draw stops at the credit limit even when payoff would still be in time', () => {
+    const result = seekGoal(mortgage, cashFlow(5000), { type: 'max-draw', maxPayoffYears: 15 });
+
+    assert.equal(result.achievable, true);
+    assert.ok((result.value ?? Infinity) < 400000 - 380000);
+    assert.ok((result.scenario.payoffMonths ?? Infinity) < 15 * 12);
+    assert.equal(result.scenario.maxOverCreditLimit, 0);
+  }),
+
+  check('break-even costs no more interest than the traditional loan', () => {
+    const result = seekGoal(mortgage, cashFlow(300), { type: 'break-even' });
+
+    assert.equal(result.achievable, true);
+    assert.ok(result.scenario.totalInterestPaid <= result.traditional.totalInterestPaid);
+    assert.equal(result.scenario.maxOverCreditLimit, 0);
+  }),
+];
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { exportLedger } from '../../src/services/ledger-export.js';
+import { simulateLoan } from '../../src/services/loan-calculator-v3.js';
+import type { MortgageDetails, CashFlowAnalysis } from '../../src/types.js';
+import { check, localDate } from './check.js';
+
+const mortgageDetails = {
+  currentBalance: 300000,
+  interestRate: 6.5,
+  aioInterestRate: 7.25,
+  monthlyPayment: 2200,
+  propertyValue: 450000,
+} as MortgageDetails;
+
+const cashFlow = {
+  monthlyDeposits: 9000,
+  monthlyExpenses: 7000,
+  depositFrequency: 'biweekly',
+} as CashFlowAnalysis;
+
+// Ledger values never contain commas, so a plain split reads the CSV
+function rowsOf(csv: Buffer): Record<string, string>[] {
+  const [header, ...lines] = csv.toString('utf-8').trim().split('\n');
+  const columns = header.split(',');
+  return lines.map(line => {
+    const values = line.split(',');
+    return Object.fromEntries(columns.map((column, index) => [column, values[index]]));
+  });
+}
+
+export const checks = [
+  check('the ledger is the run behind /simulate-loan for the same start date', () => {
+    const simulation = simulateLoan(mortgageDetails, cashFlow, localDate('2025-03-01'));
+    const ledger = exportLedger(mortgageDetails, cashFlow, 'monthly', 'csv', {}, localDate(simulation.startDate!));
+    const rows = rowsOf(ledger.body);
+
+    assert.equal(simulation.startDate, '2025-03-01');
+    assert.equal(rows[0]['Month'], '2025-03');
+    assert.equal(rows.length, simulation.allInOneLoan.payoffMonths);
+    assert.equal(Number(rows[rows.length - 1]['Ending Balance']), 0);
+  }),
+
+  check('monthly rows carry paydown and over-limit columns', () => {
+    const ledger = exportLedger(
+      { ...mortgageDetails, currentBalance: 360000 } as MortgageDetails,
+      { ...cashFlow, monthlyExpenses: 8800 } as CashFlowAnalysis,
+      'monthly',
+      'csv',
+      {},
+      localDate('2025-01-01')
+    );
+    const rows = rowsOf(ledger.body);
+
+    assert.ok('Required Paydown' in rows[0]);
+    assert.ok(rows.some(row => Number(row['Max Over Credit Limit']) > 0));
+    assert.ok(rows.every(row => Number(row['Required Paydown']) === 0));
+  }),
+
+  check('daily rows flag the amount over the limit on each day', () => {
+    const ledger = exportLedger(mortgageDetails, cashFlow, 'daily', 'csv', {}, localDate('2025-01-01'));
+    const rows = rowsOf(ledger.body);
+
+    assert.equal(rows[0]['Date'], '2025-01-01');
+    for (const row of rows.slice(0, 400)) {
+      assert.equal(Number(row['Over Credit Limit']), Math.max(0, -Number(row['Available Credit'])));
+    }
+  }),
+];
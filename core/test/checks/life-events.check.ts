@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { evaluateLifeEvents, findInvalidLifeEvent, MAX_LIFE_EVENTS } from '../../src/services/life-events.js';
+import type { CashFlowAnalysis, LifeEvent } from '../../src/types.js';
+import { check, nearLimitMortgage as mortgage, nextMonth } from './check.js';
+
+const cashFlow: CashFlowAnalysis = {
+  totalIncome: 12000,
+  totalExpenses: 7000,
+  netCashFlow: 5000,
+  averageMonthlyBalance: 0,
+  confidence: 1,
+  transactions: [],
+  monthlyDeposits: 12000,
+  monthlyExpenses: 7000,
+};
+
+const event = (id: string, type: LifeEvent['type'], amount: number): LifeEvent => ({ id, type, date: nextMonth(), amount });
+
+export const checks = [
+  check('malformed event lists are rejected with the reason', () => {
+    assert.equal(findInvalidLifeEvent([event('bonus', 'lump-sum-deposit', 20000)]), null);
+    assert.equal(findInvalidLifeEvent({}), 'lifeEvents must be an array');
+    assert.match(findInvalidLifeEvent([{ ...event('x', 'lump-sum-deposit', 1), type: 'windfall' }]) ?? '', /invalid type "windfall"/);
+    assert.match(findInvalidLifeEvent([{ ...event('x', 'lump-sum-deposit', 1), date: '03/01/2025' }]) ?? '', /YYYY-MM-DD/);
+    assert.match(findInvalidLifeEvent([{ ...event('x', 'lump-sum-deposit', 1), amount: NaN }]) ?? '', /numeric amount/);
+    assert.match(findInvalidLifeEvent(new Array(MAX_LIFE_EVENTS + 1).fill(event('x', 'lump-sum-deposit', 1))) ?? '', /At most/);
+  }),
+
+  check('each event is measured alone against the baseline', () => {
+    const { baseline, events } = evaluateLifeEvents(mortgage, cashFlow, [
+      event('bonus', 'lump-sum-deposit', 50000),
+      event('raise', 'income-change', 1000),
+      event('daycare', 'expense-change', 1500),
+    ]);
+    const change = (id: string) => events.find(impact => impact.event.id === id)?.payoffMonthsChange ?? 0;
+
+    assert.equal(baseline.maxOverCreditLimit, 0);
+    assert.ok(change('bonus') < 0);
+    assert.ok(change('raise') < 0);
+    assert.ok(change('daycare') > 0);
+    assert.ok(events.every(impact => impact.interestChange === impact.outcome.totalInterestPaid - baseline.totalInterestPaid));
+  }),
+
+  check('a draw over the credit limit moves the payoff instead of being paid down', () => {
+    const { baseline, withEvents, events } = evaluateLifeEvents(mortgage, cashFlow, [event('remodel', 'lump-sum-draw', 60000)]);
+
+    assert.ok(withEvents.maxOverCreditLimit > 0);
+    assert.ok((events[0].payoffMonthsChange ?? 0) > 0);
+    assert.ok(withEvents.totalInterestPaid > baseline.totalInterestPaid);
+  }),
+
+  check('the combined run includes every event', () => {
+    const bonus = event('bonus', 'lump-sum-deposit', 50000);
+    const raise = event('raise', 'income-change', 1000);
+    const { withEvents, events } = evaluateLifeEvents(mortgage, cashFlow, [bonus, raise]);
+
+    assert.ok((withEvents.payoffMonths ?? Infinity) < Math.min(...events.map(impact => impact.outcome.payoffMonths ?? Infinity)));
+  }),
+];
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import {
+  checkCategorizationSummary,
+  checkCategorizedRows,
+  checkExtraction,
+  indexTransactions,
+  parseJsonObject,
+} from '../../src/services/llm-output-validator.js';
+import { check } from './check.js';
+
+const EXTRACTION = `ACCOUNT | Chase Total Checking ...4821
+PAGE | 1 | 2
+2024-01-05 | ACME CORP PAYROLL | +4200.00
+2024-02-30 | BAD DATE ROW | -10.00
+PAGE | 2 | 2
+2024-01-19 | ACME CORP PAYROLL | +4200.00
+TOTAL TRANSACTIONS: 3`;
+
+const input = [
+  { date: '2024-01-05', description: 'ACME CORP PAYROLL', amount: 4200 },
+  { date: '2024-01-08', description: 'NETFLIX.COM', amount: -15.49 },
+  { date: '2024-01-11', description: 'TRADER JOES #552', amount: -86.2 },
+];
+
+export const checks = [
+  check('extraction rows, malformed rows and the stated total are read from the output', () => {
+    const result = checkExtraction(EXTRACTION);
+
+    assert.equal(result.transactionCount, 2);
+    assert.deepEqual(result.malformed.map(row => row.reason), ['invalid date "2024-02-30"']);
+    assert.equal(result.statedCount, 3);
+    assert.deepEqual(result.missingPages, []);
+    assert.deepEqual(result.issues.map(issue => issue.type), ['malformed']);
+  }),
+
+  check('only the TOTAL TRANSACTIONS line counts as a stated total', () => {
+    const prose = 'PAGE | 1 | 1\n2024-01-05 | ACME CORP PAYROLL | +4200.00\nTransactions for 2024 are listed above';
+    assert.equal(checkExtraction(prose).statedCount, undefined);
+    assert.deepEqual(checkExtraction(prose).issues, []);
+
+    const bold = 'PAGE | 1 | 1\n2024-01-05 | ACME CORP PAYROLL | +4200.00\n**Total Transactions: 1,204**';
+    assert.equal(checkExtraction(bold).statedCount, 1204);
+    assert.deepEqual(checkExtraction(bold).issues.map(issue => issue.type), ['count-mismatch']);
+  }),
+
+  check('a page with no marker is reported missing', () => {
+    const result = checkExtraction('PAGE | 1 | 3\n2024-01-05 | ACME CORP PAYROLL | +4200.00\nPAGE | 3 | 3\n2024-01-19 | ACME | +1.00');
+    assert.deepEqual(result.missingPages, [2]);
+  }),
+
+  check('categorized rows match back by index and keep the input date and amount', () => {
+    const output = [
+      { i: 0, date: '01/05/2024', amount: '4,200.00', category: 'income' },
+      { date: '2024-01-08', amount: -15.49, category: 'expense', description: 'Netflix' },
+      { i: 2, date: '2024-01-11', amount: -68.2, category: 'expense' },
+      { date: '2024-03-01', amount: -1, category: 'expense' },
+    ];
+    const { rows, issues, failed } = checkCategorizedRows(output, input, [0, 1, 2]);
+
+    assert.equal(rows.get(0).date, '2024-01-05');
+    assert.equal(rows.get(0).amount, 4200);
+    assert.equal(rows.get(1).description, 'Netflix');
+    assert.deepEqual(failed, [2]);
+    assert.deepEqual(issues.map(issue => issue.type), ['amount-changed', 'extra']);
+  }),
+
+  check('rows the model dropped and invalid categories are reported', () => {
+    const { issues, failed } = checkCategorizedRows([{ i: 1, date: '2024-01-08', amount: -15.49, category: 'groceries' }], input, [0, 1]);
+
+    assert.deepEqual(failed, [0, 1]);
+    assert.deepEqual(issues.map(issue => [issue.type, issue.index]), [['invalid-category', 1], ['missing', 0]]);
+    assert.deepEqual(checkCategorizedRows({}, input, [0]).issues[0].type, 'schema');
+  }),
+
+  check('JSON responses parse with or without a code fence, and summaries are checked', () => {
+    assert.deepEqual(parseJsonObject('```json\n{"confidence": 0.9}\n```'), { confidence: 0.9 });
+    assert.throws(() => parseJsonObject('[1, 2]'));
+
+    const issues = checkCategorizationSummary({ totalIncome: 10, totalExpenses: '5', confidence: 1.4, depositFrequency: 'daily' });
+    assert.equal(issues.length, 3);
+    assert.deepEqual(indexTransactions([{ a: 1 }]), [{ i: 0, a: 1 }]);
+  }),
+];
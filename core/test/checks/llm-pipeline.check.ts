@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { setLlmProvider } from '../../src/services/llm-provider.js';
+import { categorizeTransactions, extractStatementFile } from '../../src/services/openai-service.js';
+import { matchInterAccountTransfers } from '../../src/services/transfer-matcher.js';
+import { check } from './check.js';
+
+// Extraction replays core/test/fixtures/llm/extraction/<file name>.txt; categorization falls back to the rules
+process.env.LLM_PROVIDER = 'fixture';
+setLlmProvider(null);
+
+/**
+ * Extract a statement the way an analysis job does, from a stand-in PDF named like the fixture
+ */
+async function extract(fileName: string) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-pipeline-'));
+  const filePath = path.join(dir, fileName);
+  await fs.writeFile(filePath, '%PDF-1.4 fixture');
+
+  try {
+    const { transactions, statement } = await extractStatementFile({ originalname: fileName, path: filePath });
+    return { transactions: transactions.map(t => ({ ...t, sourceFile: fileName })), statement };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+export const checks = [
+  check('a complete statement extracts, ties out and passes validation', async () => {
+    const { transactions, statement } = await extract('checking-2024-01.pdf');
+
+    assert.equal(transactions.length, 8);
+    assert.equal(statement.account, 'Chase Total Checking ...4821');
+    assert.equal(statement.reconciliation, 'balanced');
+    assert.equal(statement.validation?.expected, 8);
+    assert.deepEqual(statement.validation?.issues, []);
+    assert.equal(statement.validation?.valid, true);
+  }),
+
+  check('a statement with a page missing is flagged by validation and reconciliation', async () => {
+    const { transactions, statement } = await extract('savings-2024-01.pdf');
+
+    assert.equal(transactions.length, 1);
+    assert.equal(statement.reconciliation, 'unbalanced');
+    assert.equal(statement.validation?.valid, false);
+    assert.deepEqual(statement.validation?.issues.map(issue => issue.type).sort(), ['count-mismatch', 'missing-page']);
+  }),
+
+  check('extracted rows flow through transfer matching and categorization', async () => {
+    const checking = await extract('checking-2024-01.pdf');
+    const savings = await extract('savings-2024-01.pdf');
+
+    const { matched, unmatched } = matchInterAccountTransfers(
+      [...checking.transactions, ...savings.transactions],
+      [checking.statement, savings.statement]
+    );
+    assert.equal(matched.length, 2);
+
+    const result = await categorizeTransactions(unmatched, 1800, 1, 1);
+    const categoryOf = (description: string) => result.transactions.find((t: any) => t.description === description)?.category;
+
+    assert.equal(result.transactions.length, unmatched.length);
+    assert.equal(result.validation?.valid, true);
+    assert.equal(categoryOf('ACME CORP PAYROLL PPD ID: 99922'), 'income');
+    assert.equal(categoryOf('ROCKET MORTGAGE PAYMENT'), 'housing');
+    assert.equal(categoryOf('BEST BUY 00012'), 'one-time');
+    assert.equal(result.totalIncome, 8400);
+  }),
+];
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { replayLookback } from '../../src/services/lookback-replay.js';
+import type { CashFlowAnalysis, MortgageDetails, Transaction } from '../../src/types.js';
+import { check } from './check.js';
+
+const mortgage: MortgageDetails = {
+  currentBalance: 300000,
+  interestRate: 6.5,
+  aioInterestRate: 7.25,
+  monthlyPayment: 2100,
+  remainingTermMonths: 360,
+  propertyValue: 500000,
+  currentHousingPayment: 2100,
+};
+
+// January through March: pay on `payDay`, bills on the 20th, plus an excluded transfer
+function quarter(payDay: number): Transaction[] {
+  return ['01', '02', '03'].flatMap(month => [
+    { date: `2024-${month}-${String(payDay).padStart(2, '0')}`, description: 'ACME CORP PAYROLL', amount: 9000, category: 'income' as const },
+    { date: `2024-${month}-20`, description: 'BILLS', amount: -6000, category: 'expense' as const },
+    { date: `2024-${month}-21`, description: 'XFER TO SAV', amount: -2500, category: 'expense' as const, excluded: true },
+  ]);
+}
+
+const cashFlow = (transactions: Transaction[]): CashFlowAnalysis => ({
+  totalIncome: 9000,
+  totalExpenses: 6000,
+  netCashFlow: 3000,
+  averageMonthlyBalance: 0,
+  confidence: 1,
+  transactions,
+  statements: [{
+    sourceFile: 'checking.pdf',
+    periodStart: '2024-01-01',
+    periodEnd: '2024-03-31',
+    transactionCount: transactions.length,
+    transactionTotal: 0,
+    reconciliation: 'unverified',
+  }],
+});
+
+export const checks = [
+  check('the statement window is replayed as whole months with excluded transactions left out', () => {
+    const result = replayLookback(mortgage, cashFlow(quarter(1)));
+
+    assert.equal(result.periodStart, '2024-01-01');
+    assert.equal(result.periodEnd, '2024-03-31');
+    assert.equal(result.lookbackMonths, 3);
+    assert.equal(result.transactionCount, 6);
+    assert.equal(result.omittedTransactionCount, 0);
+    assert.deepEqual(result.lookback.months.map(month => [month.month, month.deposits, month.withdrawals]), [
+      ['2024-01', 9000, 6000],
+      ['2024-02', 9000, 6000],
+      ['2024-03', 9000, 6000],
+    ]);
+    assert.equal(result.lookback.totalDeposits, 27000);
+    assert.equal(result.lookback.totalWithdrawals, 18000);
+  }),
+
+  check('transactions past the last whole month are counted as omitted', () => {
+    const transactions = [
+      ...quarter(1),
+      { date: '2024-04-02', description: 'ACME CORP PAYROLL', amount: 9000, category: 'income' as const },
+    ];
+    const result = replayLookback(mortgage, cashFlow(transactions));
+
+    assert.equal(result.lookbackMonths, 3);
+    assert.equal(result.omittedTransactionCount, 1);
+    assert.equal(result.lookback.totalDeposits, 27000);
+  }),
+
+  check('a partly covered last month is not replayed even when it is mostly there', () => {
+    const transactions = [
+      ...quarter(1),
+      { date: '2024-04-20', description: 'BILLS', amount: -6000, category: 'expense' as const },
+    ];
+    const result = replayLookback(mortgage, cashFlow(transactions));
+
+    assert.equal(result.lookbackMonths, 3);
+    assert.equal(result.periodEnd, '2024-03-31');
+    assert.equal(result.omittedTransactionCount, 1);
+  }),
+
+  check('getting paid earlier in the month lowers the interest', () => {
+    const early = replayLookback(mortgage, cashFlow(quarter(1)));
+    const late = replayLookback(mortgage, cashFlow(quarter(19)));
+
+    assert.ok(early.lookback.interestPaid < late.lookback.interestPaid);
+    assert.ok(early.projection.totalInterestPaid < late.projection.totalInterestPaid);
+    assert.ok(early.lookback.months.every(month => month.averageBalance < month.startingBalance));
+  }),
+
+  check('a cash flow with nothing included cannot be replayed', () => {
+    const excluded = quarter(1).map(transaction => ({ ...transaction, excluded: true }));
+    assert.throws(() => replayLookback(mortgage, cashFlow(excluded)), /No included transactions/);
+  }),
+];
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import {
+  applyMerchantOverrides,
+  deleteMerchantOverride,
+  getMerchantOverrides,
+  normalizeMerchantName,
+  OFFICER_OVERRIDE_RULE_ID,
+  saveMerchantOverride,
+} from '../../src/services/merchant-memory-service.js';
+import { check } from './check.js';
+
+// No REDIS_URL here, so these run against the in-memory store
+const officer = 'officer@example.com';
+
+export const checks = [
+  check('a category edit and an exclusion toggle merge into one override', async () => {
+    await saveMerchantOverride(officer, { description: 'COSTCO WHSE #0481', category: 'expense' });
+    await saveMerchantOverride(officer, { description: 'COSTCO WHSE #0481', excluded: true });
+
+    const overrides = await getMerchantOverrides(officer);
+    assert.equal(overrides.length, 1);
+    assert.equal(overrides[0].merchant, normalizeMerchantName('COSTCO WHSE #0481'));
+    assert.equal(overrides[0].category, 'expense');
+    assert.equal(overrides[0].excluded, true);
+  }),
+
+  check('overrides belong to one officer, whatever the email case', async () => {
+    assert.equal((await getMerchantOverrides('OFFICER@example.com')).length, 1);
+    assert.equal((await getMerchantOverrides('someone-else@example.com')).length, 0);
+  }),
+
+  check('applying overrides tags category changes and keeps other transactions as they were', async () => {
+    const overrides = await getMerchantOverrides(officer);
+    const [costco, other] = applyMerchantOverrides([
+      { description: 'Costco Whse #0481', amount: -210, category: 'one-time' },
+      { description: 'SHELL OIL', amount: -40, category: 'expense' },
+    ], overrides);
+
+    assert.equal(costco.category, 'expense');
+    assert.equal(costco.excluded, true);
+    assert.equal(costco.ruleId, OFFICER_OVERRIDE_RULE_ID);
+    assert.deepEqual(other, { description: 'SHELL OIL', amount: -40, category: 'expense' });
+  }),
+
+  check('a deleted override stops applying', async () => {
+    assert.equal(await deleteMerchantOverride(officer, normalizeMerchantName('COSTCO WHSE #0481')), true);
+    assert.equal((await getMerchantOverrides(officer)).length, 0);
+    assert.equal(await deleteMerchantOverride(officer, 'never-saved'), false);
+  }),
+];
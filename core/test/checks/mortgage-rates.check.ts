@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { createApp } from '../../src/app.js';
+import {
+  FixtureRateSource,
+  getCurrentMortgageRate,
+  getMortgageRateHistory,
+  setMortgageRateSource,
+} from '../../src/services/fred-api-service.js';
+import { check } from './check.js';
+
+const observations = {
+  MORTGAGE30US: [
+    { date: '2023-06-01', rate: 6.79 },
+    { date: '2024-01-04', rate: 6.62 },
+    { date: '2024-06-06', rate: 6.99 },
+  ],
+  MORTGAGE15US: [
+    { date: '2024-01-04', rate: 5.89 },
+    { date: '2024-06-06', rate: 6.29 },
+  ],
+};
+
+// Requests against the real router on a throwaway port
+async function get(path: string): Promise<{ status: number; body: any }> {
+  const server = createApp().listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  try {
+    const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`);
+    return { status: response.status, body: await response.json() };
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+export const checks = [
+  check('the current rate is the latest fixture observation', async () => {
+    setMortgageRateSource(new FixtureRateSource(observations));
+    const rate = await getCurrentMortgageRate('MORTGAGE15US');
+
+    assert.equal(rate.rate, 6.29);
+    assert.equal(rate.date, '2024-06-06');
+    assert.equal(rate.source, 'Fixture');
+  }),
+
+  check('history keeps only the observations inside the range, oldest first', async () => {
+    setMortgageRateSource(new FixtureRateSource(observations));
+    const history = await getMortgageRateHistory('2024-01-01', '2024-12-31', ['MORTGAGE30US']);
+
+    assert.deepEqual(history.series.MORTGAGE30US?.map(observation => observation.date), ['2024-01-04', '2024-06-06']);
+    assert.equal(history.series.MORTGAGE15US, undefined);
+  }),
+
+  check('an end date alone gives a year of history', async () => {
+    setMortgageRateSource(new FixtureRateSource(observations));
+    const { status, body } = await get('/api/mortgage-rate-history?endDate=2024-06-30&series=mortgage30us');
+
+    assert.equal(status, 200);
+    assert.equal(body.data.startDate, '2023-06-30');
+    assert.deepEqual(body.data.series.MORTGAGE30US.map((observation: { date: string }) => observation.date), ['2024-01-04', '2024-06-06']);
+  }),
+
+  check('bad dates and series are rejected before anything is fetched', async () => {
+    assert.equal((await get('/api/mortgage-rate-history?endDate=2024-13-45')).status, 400);
+    assert.equal((await get('/api/mortgage-rate-history?endDate=soon')).status, 400);
+    assert.equal((await get('/api/mortgage-rate-history?startDate=2024-02-30&endDate=2024-06-30')).status, 400);
+    assert.equal((await get('/api/mortgage-rate-history?startDate=2024-07-01&endDate=2024-06-30')).status, 400);
+    assert.equal((await get('/api/mortgage-rate-history?series=MORTGAGE5US')).status, 400);
+    assert.equal((await get('/api/current-mortgage-rate?series=MORTGAGE5US')).status, 400);
+  }),
+];
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import {
+  progressEmitter,
+  readProgressEvents,
+  recordProgressEvent,
+  watchProgressEvents,
+} from '../../src/services/progress-events.js';
+import type { AnalysisProgressEntry } from '../../src/types.js';
+import { check } from './check.js';
+
+// No REDIS_URL here, so these run against the in-memory log
+
+export const checks = [
+  check('events are numbered in order and read back after a given id', async () => {
+    await recordProgressEvent('log', { type: 'file-started', file: 'jan.pdf' });
+    await recordProgressEvent('log', { type: 'page-extracted', file: 'jan.pdf', page: 1, totalPages: 2, transactionCount: 14 });
+    await recordProgressEvent('log', { type: 'file-completed', file: 'jan.pdf', transactionCount: 30 });
+
+    const all = await readProgressEvents('log');
+    assert.deepEqual(all.map(event => [event.id, event.type]), [[1, 'file-started'], [2, 'page-extracted'], [3, 'file-completed']]);
+    assert.ok(all.every(event => !isNaN(Date.parse(event.at))));
+    assert.deepEqual((await readProgressEvents('log', 2)).map(event => event.id), [3]);
+  }),
+
+  check('each analysis has its own log', async () => {
+    await recordProgressEvent('other', { type: 'file-failed', file: 'feb.pdf', error: 'Timed out' });
+
+    assert.equal((await readProgressEvents('other')).length, 1);
+    assert.equal((await readProgressEvents('log')).length, 3);
+    assert.deepEqual(await readProgressEvents('never-started'), []);
+  }),
+
+  check('a watcher replays events after its id and then follows new ones', async () => {
+    const received: AnalysisProgressEntry[] = [];
+    const stop = watchProgressEvents('log', 1, events => received.push(...events));
+
+    progressEmitter('log')({ type: 'chunks-merged', chunkCount: 2, transactionCount: 30 });
+    await new Promise(resolve => setTimeout(resolve, 700));
+    stop();
+
+    assert.deepEqual(received.map(event => event.id), [2, 3, 4]);
+    assert.equal(received[2].type, 'chunks-merged');
+  }),
+
+  check('a log is dropped once it outlives its analysis job', async () => {
+    await recordProgressEvent('stale', { type: 'file-started', file: 'mar.pdf' });
+
+    const now = Date.now;
+    Date.now = () => now() + 25 * 60 * 60 * 1000;
+    try {
+      assert.deepEqual(await readProgressEvents('stale'), []);
+    } finally {
+      Date.now = now;
+    }
+  }),
+];
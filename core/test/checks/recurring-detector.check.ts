@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { AccurateLoanCalculator, AccurateCalculationInput } from '../../src/services/loan-calculator-accurate.js';
+import { analyzeRecurring, detectRecurringSeries } from '../../src/services/recurring-detector.js';
+import type { Transaction } from '../../src/types.js';
+import { check, localDate } from './check.js';
+
+// Biweekly paychecks from Jan 5, monthly rent on the 1st (March missed), one-off purchases
+const paychecks: Transaction[] = ['2024-01-05', '2024-01-19', '2024-02-02', '2024-02-16', '2024-03-01', '2024-03-15', '2024-03-29']
+  .map(date => ({ date, description: 'ACME CORP PAYROLL', amount: 2400, category: 'income' }));
+const rent: Transaction[] = ['2024-01-01', '2024-02-01', '2024-04-01', '2024-05-01']
+  .map(date => ({ date, description: 'LANDLORD LLC', amount: -1800, category: 'housing' }));
+const purchases: Transaction[] = [
+  { date: '2024-01-12', description: 'BEST BUY', amount: -640, category: 'one-time' },
+  { date: '2024-02-20', description: 'HOME DEPOT', amount: -212, category: 'expense' },
+];
+const transactions = [...paychecks, ...rent, ...purchases];
+
+const baseInput: AccurateCalculationInput = {
+  startingBalance: 200000,
+  interestRate: 0.07,
+  propertyValue: 500000,
+  loanToValue: 0.8,
+  monthlyIncome: 5200,
+  monthlyExpenses: 3000,
+  depositFrequency: 'biweekly',
+  startDate: localDate('2025-01-01'),
+};
+
+const depositDays = (input: AccurateCalculationInput) =>
+  AccurateLoanCalculator.simulate(input, { quiet: true }).dailyResults
+    .slice(0, 60)
+    .filter(day => day.deposits > 0);
+
+export const checks = [
+  check('paychecks and rent are found with their cadence and next dates', () => {
+    const series = detectRecurringSeries(transactions);
+    const payroll = series.find(s => s.direction === 'income');
+    const housing = series.find(s => s.direction === 'expense');
+
+    assert.equal(series.length, 2);
+    assert.equal(payroll?.cadence, 'biweekly');
+    assert.equal(payroll?.averageAmount, 2400);
+    // The statements run to May 1, so April's paychecks count as missed
+    assert.deepEqual(payroll?.missedDates, ['2024-04-12', '2024-04-26']);
+    assert.deepEqual(payroll?.nextDates.slice(0, 2), ['2024-05-10', '2024-05-24']);
+    assert.equal(housing?.cadence, 'monthly');
+    assert.deepEqual(housing?.missedDates, ['2024-03-01']);
+  }),
+
+  check('one-time and excluded transactions never form a series', () => {
+    const excluded = paychecks.map(t => ({ ...t, excluded: true }));
+    assert.deepEqual(detectRecurringSeries([...excluded, ...purchases]), []);
+  }),
+
+  check('reference numbers in the description don\'t split a payee', () => {
+    const numbered = paychecks.map((t, i) => ({ ...t, description: `ACME CORP PAYROLL REF ${1000 + i}` }));
+    const series = detectRecurringSeries(numbered);
+
+    assert.equal(series.length, 1);
+    assert.equal(series[0].occurrences.length, paychecks.length);
+  }),
+
+  check('only income series become pay schedules, and they set the deposit frequency', () => {
+    const { paySchedules, depositFrequency } = analyzeRecurring(transactions);
+
+    assert.equal(paySchedules.length, 1);
+    assert.equal(paySchedules[0].anchorDate, '2024-03-29');
+    assert.equal(depositFrequency, 'biweekly');
+  }),
+
+  check("biweekly deposits split each month's income across the paychecks in it", () => {
+    const days = depositDays(baseInput);
+
+    // Three paychecks in January 2025, two in February
+    assert.deepEqual(days.map(day => day.dayIndex), [0, 14, 28, 42, 56]);
+    assert.ok(days.slice(0, 3).every(day => Math.abs(day.deposits - 5200 / 3) < 0.01));
+    assert.ok(days.slice(3).every(day => Math.abs(day.deposits - 2600) < 0.01));
+  }),
+
+  check('pay schedules put deposits on the real pay dates', () => {
+    const { paySchedules } = analyzeRecurring(transactions);
+    const days = depositDays({ ...baseInput, paySchedules });
+
+    // Stepping 14 days from Mar 29, 2024 lands on Jan 3, 2025
+    assert.equal(days[0].dayIndex, 2);
+    assert.ok(days.every((day, index) => index === 0 || day.dayIndex - days[index - 1].dayIndex === 14));
+    // Jan 3, 17 and 31 share January's income
+    assert.ok(Math.abs(days[0].deposits - 5200 / 3) < 0.01);
+    assert.ok(Math.abs(days.filter(day => day.dayIndex < 31).reduce((sum, day) => sum + day.deposits, 0) - 5200) < 0.01);
+  }),
+];
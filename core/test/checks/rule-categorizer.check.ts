@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { applyCategorizationRules, normalizeMerchant } from '../../src/services/rule-categorizer.js';
+import { normalizeMerchantName, OFFICER_OVERRIDE_RULE_ID } from '../../src/services/merchant-memory-service.js';
+import { check } from './check.js';
+
+const transactions = [
+  { date: '2024-01-05', description: 'ACME CORP PAYROLL PPD ID: 99922', amount: 4200 },
+  { date: '2024-01-06', description: 'ROCKET MORTGAGE PAYMENT', amount: -2150 },
+  { date: '2024-01-07', description: 'Online Transfer to SAV ...1234', amount: -500 },
+  { date: '2024-01-08', description: 'NETFLIX.COM', amount: -15.49 },
+  { date: '2024-01-09', description: 'GEICO AUTO', amount: -132 },
+  { date: '2024-02-09', description: 'GEICO AUTO', amount: -132 },
+  { date: '2024-01-10', description: 'LANDLORD LLC 0001', amount: -1800 },
+  { date: '2024-02-10', description: 'LANDLORD LLC 0002', amount: -1800 },
+  { date: '2024-01-11', description: 'TRADER JOES #552', amount: -86.2 },
+];
+
+const ruleIdOf = (result: ReturnType<typeof applyCategorizationRules>, description: string) =>
+  result.categorized.find(t => t.description === description)?.ruleId;
+
+export const checks = [
+  check('obvious transactions are categorized by rule and the rest left for the model', () => {
+    const result = applyCategorizationRules(transactions, 1800);
+
+    assert.equal(ruleIdOf(result, 'ACME CORP PAYROLL PPD ID: 99922'), 'payroll-ach');
+    assert.equal(ruleIdOf(result, 'ROCKET MORTGAGE PAYMENT'), 'mortgage-servicer');
+    assert.equal(ruleIdOf(result, 'NETFLIX.COM'), 'subscriptions');
+    assert.deepEqual(result.unmatched.map(t => t.description), ['TRADER JOES #552']);
+  }),
+
+  check('own-account transfers are excluded from cash flow', () => {
+    const result = applyCategorizationRules(transactions);
+    const transfer = result.categorized.find(t => t.ruleId === 'own-account-transfer');
+
+    assert.equal(transfer?.excluded, true);
+  }),
+
+  check('recurring-only rules need the merchant in two different months', () => {
+    const once = applyCategorizationRules([transactions[4]]);
+    const twice = applyCategorizationRules(transactions.slice(4, 6));
+
+    assert.equal(once.categorized.length, 0);
+    assert.equal(twice.categorized.length, 2);
+  }),
+
+  check('recurring debits near the housing payment count as housing', () => {
+    const result = applyCategorizationRules(transactions, 1800);
+    const rent = result.categorized.filter(t => t.description.startsWith('LANDLORD'));
+
+    assert.equal(rent.length, 2);
+    assert.ok(rent.every(t => t.category === 'housing' && t.ruleId === 'housing-payment-amount'));
+    assert.equal(applyCategorizationRules(transactions, 2500).unmatched.filter(t => t.description.startsWith('LANDLORD')).length, 2);
+  }),
+
+  check('merchant keys ignore reference numbers', () => {
+    assert.equal(normalizeMerchant('LANDLORD LLC 0001'), normalizeMerchant('Landlord LLC 0002'));
+  }),
+
+  check("an officer's override wins over the rules", () => {
+    const result = applyCategorizationRules(transactions, 0, [{
+      merchant: normalizeMerchantName('NETFLIX.COM'),
+      category: 'one-time',
+      example: 'NETFLIX.COM',
+      updatedAt: '2024-03-01T00:00:00.000Z',
+    }]);
+    const netflix = result.categorized.find(t => t.description === 'NETFLIX.COM');
+
+    assert.equal(netflix?.ruleId, OFFICER_OVERRIDE_RULE_ID);
+    assert.equal(netflix?.category, 'one-time');
+  }),
+
+  check('the same input always gives the same split', () => {
+    assert.deepEqual(applyCategorizationRules(transactions, 1800), applyCategorizationRules(transactions, 1800));
+  }),
+];
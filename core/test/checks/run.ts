@@ -0,0 +1,81 @@
+/**
+ * Focused Checks
+ *
+ * Small assertion-based checks for the services the golden scenarios don't
+ * cover (parsers, categorizers, validators, jobs, what-if tools). Every
+ * `*.check.ts` file in this directory exports a `checks` list; each check
+ * throws (node:assert) when it fails.
+ *
+ * Usage:
+ *   npm run test:checks                         Run every check file
+ *   npm run test:checks -- transfer-matcher     Run a single check file
+ */
+
+import { readdirSync } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Check } from './check.js';
+
+const CHECK_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Run a check with the services' console logging silenced
+ * Errors the services log for expected failures are silenced too; a failing check still throws.
+ */
+async function quietly(run: Check['run']): Promise<void> {
+  const originalLog = console.log;
+  const originalWarn = console.warn;
+  const originalError = console.error;
+  console.log = () => {};
+  console.warn = () => {};
+  console.error = () => {};
+  try {
+    await run();
+  } finally {
+    console.log = originalLog;
+    console.warn = originalWarn;
+    console.error = originalError;
+  }
+}
+
+async function main(): Promise<void> {
+  const filter = process.argv.slice(2).find(arg => !arg.startsWith('--'));
+
+  const checkFiles = readdirSync(CHECK_DIR)
+    .filter(file => file.endsWith('.check.ts'))
+    .filter(file => !filter || file === `${filter}.check.ts`)
+    .sort();
+
+  if (checkFiles.length === 0) {
+    console.error(`No check files found${filter ? ` matching "${filter}"` : ''}`);
+    process.exit(1);
+  }
+
+  let total = 0;
+  let failures = 0;
+
+  for (const file of checkFiles) {
+    const { checks } = await import(pathToFileURL(path.join(CHECK_DIR, file)).href) as { checks: Check[] };
+    console.log(file.replace('.check.ts', ''));
+
+    for (const check of checks) {
+      total++;
+      try {
+        await quietly(check.run);
+        console.log(`  ✓ ${check.name}`);
+      } catch (error: any) {
+        failures++;
+        console.log(`  ✗ ${check.name}`);
+        console.log(`    ${String(error.message).split('\n').join('\n    ')}`);
+      }
+    }
+  }
+
+  console.log(`\n${total - failures}/${total} checks pass`);
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main();
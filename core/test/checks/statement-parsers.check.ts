@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import {
+  mapSpreadsheetRows,
+  normalizeDate,
+  parseAmount,
+  parseOfx,
+  parseOfxStatementHeader,
+  parseQif,
+  runningBalanceHeader,
+} from '../../src/services/statement-parsers.js';
+import { checkStatementCoverage, reconcileStatement } from '../../src/services/statement-reconciler.js';
+import { check } from './check.js';
+
+const OFX = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST><DTSTART>20240101<DTEND>20240131
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240105120000<TRNAMT>2500.00<NAME>ACME PAYROLL<MEMO>DIRECT DEP</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240107<TRNAMT>-84.12<NAME>SAFEWAY &amp; CO</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>garbage<TRNAMT>-10.00<NAME>BROKEN</STMTTRN>
+</BANKTRANLIST><LEDGERBAL><BALAMT>5120.55<DTASOF>20240131</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const QIF = `!Type:Bank
+D1/ 5'24
+T2,500.00
+PACME PAYROLL
+^
+D 1/12/2024
+T-45.10
+PSHELL OIL
+^
+D13/45/24
+T-9.99
+PNETFLIX
+^
+`;
+
+export const checks = [
+  check('amounts read signs from parentheses, trailing minus and currency symbols', () => {
+    assert.equal(parseAmount('$1,234.56'), 1234.56);
+    assert.equal(parseAmount('(12.00)'), -12);
+    assert.equal(parseAmount('12.00-'), -12);
+    assert.equal(parseAmount(''), null);
+    assert.equal(parseAmount('n/a'), null);
+  }),
+
+  check('dates normalize from ISO, OFX, US and space-padded QIF forms', () => {
+    assert.equal(normalizeDate('2024-01-05'), '2024-01-05');
+    assert.equal(normalizeDate('20240105120000[-5:EST]'), '2024-01-05');
+    assert.equal(normalizeDate('01/05/2024'), '2024-01-05');
+    assert.equal(normalizeDate("1/5'24"), '2024-01-05');
+    assert.equal(normalizeDate("1/ 5'24"), '2024-01-05');
+    assert.equal(normalizeDate(' 1/ 5/24'), '2024-01-05');
+    assert.equal(normalizeDate('13/45/24'), null);
+  }),
+
+  check('OFX transactions parse and unreadable ones are reported', () => {
+    const { transactions, unparsedRows } = parseOfx(OFX);
+
+    assert.deepEqual(transactions.map(t => [t.date, t.amount]), [['2024-01-05', 2500], ['2024-01-07', -84.12]]);
+    assert.equal(transactions[0].description, 'ACME PAYROLL DIRECT DEP');
+    assert.equal(transactions[1].description, 'SAFEWAY & CO');
+    assert.equal(unparsedRows.length, 1);
+    assert.equal(unparsedRows[0].row, 3);
+  }),
+
+  check('OFX header gives the masked account, period and closing balance', () => {
+    assert.deepEqual(parseOfxStatementHeader(OFX), {
+      account: 'CHECKING ...6789',
+      periodStart: '2024-01-01',
+      periodEnd: '2024-01-31',
+      closingBalance: 5120.55,
+    });
+  }),
+
+  check('QIF records parse, including space-padded dates, and bad ones are reported', () => {
+    const { transactions, unparsedRows } = parseQif(QIF);
+
+    assert.deepEqual(transactions.map(t => [t.date, t.amount, t.description]), [
+      ['2024-01-05', 2500, 'ACME PAYROLL'],
+      ['2024-01-12', -45.1, 'SHELL OIL'],
+    ]);
+    assert.equal(unparsedRows.length, 1);
+    assert.equal(unparsedRows[0].row, 10);
+    assert.match(unparsedRows[0].reason, /date/);
+  }),
+
+  check('spreadsheets map split debit/credit columns and report bad rows', () => {
+    const { profile, transactions, unparsedRows } = mapSpreadsheetRows([
+      ['Account summary'],
+      ['Posting Date', 'Description', 'Debit', 'Credit', 'Balance'],
+      ['01/03/2024', 'PAYROLL', '', '1,000.00', '3,000.00'],
+      ['01/04/2024', 'RENT', '1,500.00', '', '1,500.00'],
+      ['', '', '', '', ''],
+      ['Total', '', '1,500.00', '1,000.00', ''],
+    ]);
+
+    assert.equal(profile, 'generic');
+    assert.deepEqual(transactions.map(t => t.amount), [1000, -1500]);
+    assert.deepEqual(unparsedRows.map(row => row.row), [6]);
+  }),
+
+  check('running balances give the opening and closing balance either way round', () => {
+    const oldestFirst = [
+      { date: '2024-01-03', description: 'A', amount: 100, balance: 1100 },
+      { date: '2024-01-09', description: 'B', amount: -50, balance: 1050 },
+    ];
+    assert.deepEqual(runningBalanceHeader(oldestFirst), { openingBalance: 1000, closingBalance: 1050 });
+    assert.deepEqual(runningBalanceHeader([...oldestFirst].reverse()), { openingBalance: 1000, closingBalance: 1050 });
+  }),
+
+  check('unreadable rows surface as a statement warning', () => {
+    const statement = reconcileStatement('export.qif', {}, parseQif(QIF).transactions);
+    statement.unparsedRows = parseQif(QIF).unparsedRows;
+
+    const { warnings } = checkStatementCoverage([statement]);
+    assert.equal(warnings.filter(w => w.type === 'unparsed-rows').length, 1);
+    assert.match(warnings[0].message, /export\.qif/);
+  }),
+];
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import {
+  calculateAverageMonthlyBalance,
+  checkStatementCoverage,
+  parseStatementHeader,
+  reconcileStatement,
+} from '../../src/services/statement-reconciler.js';
+import { check } from './check.js';
+
+const januaryRows = [
+  { date: '2024-01-17', amount: 3100, sourceFile: 'checking-jan.pdf' },
+];
+const februaryRows = [
+  { date: '2024-02-01', amount: -4100, sourceFile: 'checking-feb.pdf' },
+];
+
+// Built inside each check so reconcileStatement logs while the runner silences output
+function statements() {
+  return {
+    checkingJan: reconcileStatement('checking-jan.pdf', {
+      account: 'Checking ...1111', periodStart: '2024-01-01', periodEnd: '2024-01-31', openingBalance: 1000, closingBalance: 4100,
+    }, januaryRows),
+    checkingFeb: reconcileStatement('checking-feb.pdf', {
+      account: 'CHECKING ACCT 0001111', periodStart: '2024-02-01', periodEnd: '2024-02-29', openingBalance: 4100, closingBalance: 0,
+    }, februaryRows),
+    checkingApr: reconcileStatement('checking-apr.pdf', {
+      account: 'Checking ...1111', periodStart: '2024-04-01', periodEnd: '2024-04-30', openingBalance: 0, closingBalance: 90,
+    }, [{ date: '2024-04-02', amount: 100 }]),
+    savingsJan: reconcileStatement('savings-jan.pdf', {
+      account: 'Savings ...4321', periodStart: '2024-01-01', periodEnd: '2024-01-31', closingBalance: 5000,
+    }, []),
+  };
+}
+
+export const checks = [
+  check('header lines from the extraction model are read into a statement header', () => {
+    const header = parseStatementHeader([
+      'ACCOUNT | Checking ...1111',
+      'PERIOD | 01/01/2024 | 01/31/2024',
+      'OPENING BALANCE | $1,000.00',
+      'CLOSING BALANCE | 4,100.00',
+      '2024-01-17 | PAYROLL | 3100.00',
+    ].join('\n'));
+
+    assert.deepEqual(header, {
+      account: 'Checking ...1111',
+      periodStart: '2024-01-01',
+      periodEnd: '2024-01-31',
+      openingBalance: 1000,
+      closingBalance: 4100,
+    });
+  }),
+
+  check('statements tie out, miss by the dropped rows, or stay unverified without both balances', () => {
+    const { checkingJan, checkingApr, savingsJan } = statements();
+
+    assert.equal(checkingJan.reconciliation, 'balanced');
+    assert.equal(checkingApr.reconciliation, 'unbalanced');
+    assert.equal(checkingApr.difference, -10);
+    assert.equal(savingsJan.reconciliation, 'unverified');
+  }),
+
+  check('coverage flags the missing month of an account and the statement that does not tie out', () => {
+    const { checkingJan, checkingFeb, checkingApr, savingsJan } = statements();
+    const { warnings, missingMonths } = checkStatementCoverage([checkingJan, checkingFeb, checkingApr, savingsJan]);
+
+    assert.deepEqual(missingMonths, ['2024-03']);
+    assert.deepEqual(warnings.map(w => w.type).sort(), ['missing-month', 'unreconciled']);
+    assert.equal(warnings.find(w => w.type === 'unreconciled')?.sourceFile, 'checking-apr.pdf');
+  }),
+
+  check('the average balance comes from the statement balances, summed across accounts per month', () => {
+    // January: checking averages $2,500 over the month (16 days at $1,000, 15 at $4,100) plus $5,000 savings
+    // February: checking is emptied on the 1st
+    const { checkingJan, checkingFeb, savingsJan } = statements();
+    const average = calculateAverageMonthlyBalance(
+      [checkingJan, checkingFeb, savingsJan],
+      [...januaryRows, ...februaryRows]
+    );
+
+    assert.equal(average, (7500 + 0) / 2);
+  }),
+
+  check('no balances on any statement gives no average', () => {
+    const unlabeled = reconcileStatement('export.csv', {}, januaryRows);
+    assert.equal(calculateAverageMonthlyBalance([unlabeled], januaryRows), null);
+  }),
+];
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { AccurateLoanCalculator } from '../../src/services/loan-calculator-accurate.js';
+import { buildAccurateInput } from '../../src/services/loan-calculator-v3.js';
+import { MAX_STRESS_TEST_PATHS, runStressTest, StressTestOptions } from '../../src/services/stress-test.js';
+import type { CashFlowAnalysis, LifeEvent } from '../../src/types.js';
+import { check, nearLimitMortgage as mortgage, nextMonth } from './check.js';
+
+// Two identical statement months measure zero income and expense volatility
+const cashFlow = (lifeEvents?: LifeEvent[]): CashFlowAnalysis => ({
+  totalIncome: 12000,
+  totalExpenses: 7000,
+  netCashFlow: 5000,
+  averageMonthlyBalance: 0,
+  confidence: 1,
+  transactions: [],
+  monthlyDeposits: 12000,
+  monthlyExpenses: 7000,
+  monthlyBreakdown: ['2024-01', '2024-02'].map(month => ({ month, income: 12000, expenses: 7000, netCashFlow: 5000, transactionCount: 10 })),
+  lifeEvents,
+});
+
+// With no spikes, missed paychecks or rate moves every path is the plain projection
+const steady: StressTestOptions = { paths: 5, missedPaycheckProbability: 0, expenseSpikeProbability: 0, rateVolatility: 0 };
+
+export const checks = [
+  check('the same seed gives the same paths and another seed does not', async () => {
+    const first = await runStressTest(mortgage, cashFlow(), { paths: 20, seed: 7 });
+    const again = await runStressTest(mortgage, cashFlow(), { paths: 20, seed: 7 });
+    const other = await runStressTest(mortgage, cashFlow(), { paths: 20, seed: 8 });
+
+    assert.deepEqual(again, first);
+    assert.notDeepEqual(other.interestSavings, first.interestSavings);
+  }),
+
+  check('the path count is capped', async () => {
+    assert.equal((await runStressTest(mortgage, cashFlow(), { ...steady, paths: 100000 })).paths, MAX_STRESS_TEST_PATHS);
+    assert.equal((await runStressTest(mortgage, cashFlow(), { ...steady, paths: 0 })).paths, 1);
+  }),
+
+  check('life events are applied once per path', async () => {
+    const events: LifeEvent[] = [{ id: 'bonus', type: 'lump-sum-deposit', date: nextMonth(), amount: 100000 }];
+    const result = await runStressTest(mortgage, cashFlow(events), steady);
+    const project = (flow: CashFlowAnalysis) =>
+      AccurateLoanCalculator.simulate(buildAccurateInput(mortgage, flow), { quiet: true }).summary.monthsToPayoff;
+
+    assert.equal(result.assumptions.incomeVolatility, 0);
+    assert.equal(result.payoffMonths.p50, project(cashFlow(events)));
+    assert.ok((result.payoffMonths.p50 ?? Infinity) < (project(cashFlow()) ?? Infinity));
+  }),
+
+  check('paths that run over the credit limit are not counted as wins', async () => {
+    const within = await runStressTest(mortgage, cashFlow(), steady);
+    const draw: LifeEvent[] = [{ id: 'draw', type: 'lump-sum-draw', date: nextMonth(), amount: 60000 }];
+    const over = await runStressTest(mortgage, cashFlow(draw), steady);
+
+    assert.equal(within.overCreditLimitProbability, 0);
+    assert.equal(within.probabilityAioBeatsTraditional, 1);
+    assert.equal(over.overCreditLimitProbability, 1);
+    assert.equal(over.paidOffProbability, 1);
+    assert.ok((over.interestSavings.p50 ?? 0) > 0);
+    assert.equal(over.probabilityAioBeatsTraditional, 0);
+  }),
+
+  check('the loan\'s ARM caps bound every rate path', async () => {
+    const fixed = await runStressTest(mortgage, cashFlow(), steady);
+    const capped = await runStressTest(mortgage, cashFlow(), {
+      ...steady,
+      rateVolatility: 0.05,
+      loanOptions: { armIndex: 0.1, armMargin: 0.03, armInitialCap: 0, armPeriodicCap: 0 },
+    });
+
+    assert.deepEqual(capped.payoffMonths, fixed.payoffMonths);
+    assert.deepEqual(capped.interestSavings, fixed.interestSavings);
+  }),
+];
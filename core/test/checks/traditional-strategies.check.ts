@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { calculateTraditionalLoan } from '../../src/services/loan-calculator.js';
+import { compareTraditionalStrategies, findInvalidStrategyOptions } from '../../src/services/traditional-strategies.js';
+import type { CashFlowAnalysis, MortgageDetails, TraditionalStrategyComparison } from '../../src/types.js';
+import { check, localDate } from './check.js';
+
+// $300k at 6% for 30 years, with $1,000 a month left over
+const mortgage: MortgageDetails = {
+  currentBalance: 300000,
+  interestRate: 6,
+  aioInterestRate: 7.25,
+  monthlyPayment: 1798.65,
+  remainingTermMonths: 360,
+  propertyValue: 500000,
+  currentHousingPayment: 1800,
+};
+
+const cashFlow: CashFlowAnalysis = {
+  totalIncome: 9000,
+  totalExpenses: 8000,
+  netCashFlow: 1000,
+  averageMonthlyBalance: 0,
+  confidence: 1,
+  transactions: [],
+  monthlyDeposits: 9000,
+  monthlyExpenses: 8000,
+};
+
+const allInOne = { payoffMonths: 200, totalInterestPaid: 150000 };
+
+const compare = (investmentReturn: number) =>
+  compareTraditionalStrategies(mortgage, cashFlow, allInOne, { investmentReturn }, localDate('2025-01-01'));
+
+const strategy = (comparison: TraditionalStrategyComparison, type: string) => {
+  const found = comparison.strategies.find(projection => projection.strategy === type);
+  assert.ok(found, `no ${type} projection`);
+  return found;
+};
+
+export const checks = [
+  check('malformed strategy options are rejected with the reason', () => {
+    assert.equal(findInvalidStrategyOptions(undefined), null);
+    assert.equal(findInvalidStrategyOptions({ extraMonthlyPrincipal: 500, investmentReturn: -5 }), null);
+    assert.match(findInvalidStrategyOptions({ annualLumpSum: -1 }) ?? '', /annualLumpSum/);
+    assert.match(findInvalidStrategyOptions({ investmentReturn: 45 }) ?? '', /investmentReturn/);
+  }),
+
+  check('a prepayment bigger than the balance pays it off in one month', () => {
+    const loan = calculateTraditionalLoan(mortgage, localDate('2025-01-01'), { extraMonthlyPrincipal: 1000000 });
+
+    assert.equal(loan.payoffMonths, 1);
+    assert.ok(Math.abs(loan.totalInterestPaid - 300000 * 0.06 / 12) < 0.01);
+  }),
+
+  check('every prepayment pays off sooner than the schedule and is measured to its horizon', () => {
+    const comparison = compare(6);
+    const scheduled = strategy(comparison, 'scheduled');
+
+    assert.equal(comparison.horizonMonths, scheduled.payoffMonths);
+    assert.equal(scheduled.investmentGrowth, 0);
+    for (const type of ['extra-principal', 'biweekly', 'annual-lump-sum']) {
+      assert.ok(strategy(comparison, type).payoffMonths < scheduled.payoffMonths, type);
+      assert.ok(strategy(comparison, type).totalInterestPaid < scheduled.totalInterestPaid, type);
+    }
+  }),
+
+  check('investing at the loan rate comes out even with prepaying the same cash', () => {
+    const comparison = compare(mortgage.interestRate);
+    const prepaid = strategy(comparison, 'extra-principal').netCost;
+    const invested = strategy(comparison, 'invest-leftover').netCost;
+
+    assert.ok(Math.abs(prepaid - invested) < Math.abs(invested) * 0.01);
+  }),
+
+  check('with no investment return the cheapest prepayment wins and the AIO net cost is its interest', () => {
+    const comparison = compare(0);
+
+    assert.equal(comparison.bestStrategy, 'extra-principal');
+    assert.equal(comparison.allInOne.netCost, allInOne.totalInterestPaid);
+    assert.equal(comparison.aioSavingsVsBest, strategy(comparison, 'extra-principal').totalInterestPaid - allInOne.totalInterestPaid);
+  }),
+];
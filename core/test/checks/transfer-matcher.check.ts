@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { INTERNAL_TRANSFER_RULE_ID, matchInterAccountTransfers } from '../../src/services/transfer-matcher.js';
+import type { StatementSummary } from '../../src/types.js';
+import { check } from './check.js';
+
+const statement = (sourceFile: string, account?: string) =>
+  ({ sourceFile, account, transactionCount: 0, transactionTotal: 0, reconciliation: 'unverified' }) as StatementSummary;
+
+const transfer = [
+  { date: '2024-03-04', description: 'ONLINE TRANSFER TO SAV ...4321', amount: -500, sourceFile: 'checking-mar.pdf' },
+  { date: '2024-03-05', description: 'DEPOSIT', amount: 500, sourceFile: 'savings-mar.pdf' },
+];
+
+// A card payment in one account and a paycheck in another that happen to match
+const coincidence = [
+  { date: '2024-03-15', description: 'CHASE CARD AUTOPAY', amount: -2400, sourceFile: 'checking-mar.pdf' },
+  { date: '2024-03-15', description: 'ACME CORP PAYROLL', amount: 2400, sourceFile: 'savings-mar.pdf' },
+];
+
+export const checks = [
+  check('a pair with transfer wording is excluded on both sides', () => {
+    const { matched, unmatched, suggestions, pairCount } = matchInterAccountTransfers(transfer);
+
+    assert.equal(pairCount, 1);
+    assert.equal(unmatched.length, 0);
+    assert.equal(suggestions.length, 0);
+    assert.ok(matched.every(t => t.excluded && t.ruleId === INTERNAL_TRANSFER_RULE_ID && t.transferPairId === 'transfer-1'));
+  }),
+
+  check('a same-amount pair with nothing confirming it is only suggested', () => {
+    const { matched, unmatched, suggestions } = matchInterAccountTransfers(coincidence);
+
+    assert.equal(matched.length, 0);
+    assert.equal(unmatched.length, 2);
+    assert.equal(suggestions.length, 1);
+    assert.equal(suggestions[0].withdrawal.description, 'CHASE CARD AUTOPAY');
+    assert.equal(suggestions[0].deposit.description, 'ACME CORP PAYROLL');
+  }),
+
+  check('different account numbers on the statements confirm a pair', () => {
+    const { pairCount, suggestions } = matchInterAccountTransfers(coincidence, [
+      statement('checking-mar.pdf', 'Checking ...1111'),
+      statement('savings-mar.pdf', 'Savings ...4321'),
+    ]);
+
+    assert.equal(pairCount, 1);
+    assert.equal(suggestions.length, 0);
+  }),
+
+  check('two files from the same account are never paired', () => {
+    const sameAccount = [
+      { ...transfer[0], sourceFile: 'checking-feb.pdf' },
+      { ...transfer[1], sourceFile: 'checking-mar.pdf' },
+    ];
+    const { pairCount, suggestions, unmatched } = matchInterAccountTransfers(sameAccount, [
+      statement('checking-feb.pdf', 'Checking ...1111'),
+      statement('checking-mar.pdf', 'CHECKING ACCOUNT 0001111'),
+    ]);
+
+    assert.equal(pairCount, 0);
+    assert.equal(suggestions.length, 0);
+    assert.equal(unmatched.length, 2);
+  }),
+
+  check('postings more than three days apart or in a single file are left alone', () => {
+    const late = [transfer[0], { ...transfer[1], date: '2024-03-09' }];
+    assert.equal(matchInterAccountTransfers(late).pairCount, 0);
+
+    const oneFile = transfer.map(t => ({ ...t, sourceFile: 'checking-mar.pdf' }));
+    assert.equal(matchInterAccountTransfers(oneFile).pairCount, 0);
+  }),
+
+  check('a confirmed pair takes a transaction before a closer unconfirmed one', () => {
+    const { matched, unmatched, suggestions } = matchInterAccountTransfers([
+      ...coincidence,
+      { date: '2024-03-17', description: 'XFER FROM CHK', amount: 2400, sourceFile: 'savings-mar.pdf' },
+    ]);
+
+    assert.deepEqual(matched.map(t => t.description), ['CHASE CARD AUTOPAY', 'XFER FROM CHK']);
+    assert.deepEqual(unmatched.map(t => t.description), ['ACME CORP PAYROLL']);
+    assert.equal(suggestions.length, 0);
+  }),
+];
@@ -0,0 +1,269 @@
+/**
+ * Golden-File Regression Harness for the Loan Calculators
+ *
+ * Feeds every scenario in ./scenarios through simulateLoan (v1/v2/v3) and
+ * AccurateLoanCalculator.simulate, then compares payoff months, total interest
+ * and balances at checkpoint months against ./expected/<scenario>.json.
+ *
+ * Usage:
+ *   npm run test:golden                      Compare all scenarios
+ *   npm run test:golden -- basic-monthly     Compare a single scenario
+ *   npm run test:update-golden               Rewrite expected outputs after an intended change
+ */
+
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { simulateLoan as simulateLoanV1, getDetailedAmortization } from '../../src/services/loan-calculator.js';
+import { simulateLoan as simulateLoanV2 } from '../../src/services/loan-calculator-v2.js';
+import { simulateLoan as simulateLoanV3 } from '../../src/services/loan-calculator-v3.js';
+import { AccurateLoanCalculator, AccurateCalculationInput } from '../../src/services/loan-calculator-accurate.js';
+import { CalendarGenerator } from '../../src/services/calendar-generator.js';
+import type { MortgageDetails, CashFlowAnalysis, SimulationResult } from '../../src/types.js';
+
+const GOLDEN_DIR = path.dirname(fileURLToPath(import.meta.url));
+const SCENARIO_DIR = path.join(GOLDEN_DIR, 'scenarios');
+const EXPECTED_DIR = path.join(GOLDEN_DIR, 'expected');
+
+// Default tolerances (scenarios can override)
+const DEFAULT_TOLERANCE = {
+  amount: 1.0,   // Dollars
+  months: 0,
+};
+
+interface Scenario {
+  name: string;
+  description: string;
+  startDate: string;  // YYYY-MM-DD (local time)
+  mortgageDetails: MortgageDetails;
+  cashFlow: CashFlowAnalysis;
+  accurate?: Partial<AccurateCalculationInput>;  // Extra inputs for the accurate calculator
+  checkpointMonths: number[];
+  tolerance?: Partial<typeof DEFAULT_TOLERANCE>;
+}
+
+type GoldenValues = { [key: string]: number | null | GoldenValues };
+
+interface Difference {
+  path: string;
+  expected: number | null | undefined;
+  actual: number | null | undefined;
+  tolerance: number;
+}
+
+function parseLocalDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function summarizeProjection(result: SimulationResult): GoldenValues {
+  return {
+    traditional: {
+      payoffMonths: result.traditionalLoan.payoffMonths,
+      totalInterestPaid: round(result.traditionalLoan.totalInterestPaid),
+    },
+    allInOne: {
+      payoffMonths: result.allInOneLoan.payoffMonths,
+      totalInterestPaid: round(result.allInOneLoan.totalInterestPaid),
+    },
+  };
+}
+
+/**
+ * Run every calculator for a scenario and collect the values we pin
+ */
+function runScenario(scenario: Scenario): GoldenValues {
+  const startDate = parseLocalDate(scenario.startDate);
+  const { mortgageDetails, cashFlow, checkpointMonths } = scenario;
+
+  // v1: summary plus month-end balances from the detailed amortization
+  const v1 = summarizeProjection(simulateLoanV1(mortgageDetails, cashFlow, startDate));
+  const snapshots = getDetailedAmortization(
+    mortgageDetails,
+    cashFlow,
+    Math.max(...checkpointMonths),
+    startDate
+  );
+  const v1Checkpoints: GoldenValues = {};
+  for (const month of checkpointMonths) {
+    const snapshot = snapshots.find(s => s.month === month);
+    v1Checkpoints[month] = snapshot ? round(snapshot.loanBalance) : 0;
+  }
+  v1.checkpoints = v1Checkpoints;
+
+  const v2 = summarizeProjection(simulateLoanV2(mortgageDetails, cashFlow, startDate));
+  const v3 = summarizeProjection(simulateLoanV3(mortgageDetails, cashFlow, startDate));
+
+  // Accurate calculator: same inputs v3 derives, plus scenario extras
+  const accurateResult = AccurateLoanCalculator.simulate({
+    startingBalance: mortgageDetails.currentBalance,
+    interestRate: mortgageDetails.aioInterestRate / 100,
+    propertyValue: mortgageDetails.propertyValue,
+    loanToValue: 0.80,
+    monthlyIncome: cashFlow.monthlyDeposits || 0,
+    monthlyExpenses: cashFlow.monthlyExpenses || 0,
+    depositFrequency: cashFlow.depositFrequency || 'monthly',
+    paySchedules: cashFlow.paySchedules,
+    ...scenario.accurate,
+    startDate,
+  });
+
+  const accurateCheckpoints: GoldenValues = {};
+  for (const month of checkpointMonths) {
+    const day = accurateResult.dailyResults.find(
+      d => CalendarGenerator.monthsBetween(startDate, d.date) >= month
+    );
+    accurateCheckpoints[month] = day ? round(day.endingBalance) : 0;
+  }
+
+  const { summary } = accurateResult;
+  const accurate: GoldenValues = {
+    monthsToPayoff: summary.monthsToPayoff,
+    totalInterestPaid: round(summary.totalInterestPaid),
+    finalBalance: round(summary.finalBalance),
+    totalRequiredPaydown: round(summary.totalRequiredPaydown),
+    creditLimitBreaches: summary.creditLimitBreaches.length,
+    checkpoints: accurateCheckpoints,
+  };
+
+  return { v1, v2, v3, accurate };
+}
+
+/**
+ * Walk expected and actual values side by side and collect out-of-tolerance entries
+ */
+function compareValues(
+  expected: GoldenValues,
+  actual: GoldenValues,
+  tolerance: typeof DEFAULT_TOLERANCE,
+  prefix: string = ''
+): Difference[] {
+  const differences: Difference[] = [];
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+
+  for (const key of keys) {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    const expectedValue = expected[key];
+    const actualValue = actual[key];
+
+    if (
+      typeof expectedValue === 'object' && expectedValue !== null &&
+      typeof actualValue === 'object' && actualValue !== null
+    ) {
+      differences.push(...compareValues(expectedValue, actualValue, tolerance, keyPath));
+      continue;
+    }
+
+    const allowed = /months/i.test(key) ? tolerance.months : tolerance.amount;
+
+    if (typeof expectedValue === 'number' && typeof actualValue === 'number') {
+      if (Math.abs(actualValue - expectedValue) > allowed) {
+        differences.push({ path: keyPath, expected: expectedValue, actual: actualValue, tolerance: allowed });
+      }
+    } else if (expectedValue !== actualValue) {
+      differences.push({
+        path: keyPath,
+        expected: expectedValue as number | null | undefined,
+        actual: actualValue as number | null | undefined,
+        tolerance: allowed,
+      });
+    }
+  }
+
+  return differences;
+}
+
+function formatDifference(diff: Difference): string {
+  const format = (value: number | null | undefined) =>
+    value === undefined ? 'missing' : value === null ? 'null' : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+  let line = `    ✗ ${diff.path}: expected ${format(diff.expected)}, got ${format(diff.actual)}`;
+  if (typeof diff.expected === 'number' && typeof diff.actual === 'number') {
+    const delta = diff.actual - diff.expected;
+    line += ` (Δ ${delta >= 0 ? '+' : ''}${format(round(delta))}, tolerance ±${diff.tolerance})`;
+  }
+  return line;
+}
+
+/**
+ * Run a calculation with the calculators' console logging silenced
+ */
+function quietly<T>(fn: () => T): T {
+  const originalLog = console.log;
+  console.log = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const filter = args.find(arg => !arg.startsWith('--'));
+
+  const scenarioFiles = readdirSync(SCENARIO_DIR)
+    .filter(file => file.endsWith('.json'))
+    .filter(file => !filter || file === `${filter}.json`)
+    .sort();
+
+  if (scenarioFiles.length === 0) {
+    console.error(`No scenarios found${filter ? ` matching "${filter}"` : ''}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+
+  for (const file of scenarioFiles) {
+    const scenario: Scenario = JSON.parse(readFileSync(path.join(SCENARIO_DIR, file), 'utf-8'));
+    const expectedPath = path.join(EXPECTED_DIR, file);
+
+    let actual: GoldenValues;
+    try {
+      actual = quietly(() => runScenario(scenario));
+    } catch (error: any) {
+      failures++;
+      console.log(`✗ ${scenario.name}: calculation threw - ${error.message}`);
+      continue;
+    }
+
+    if (update) {
+      writeFileSync(expectedPath, JSON.stringify(actual, null, 2) + '\n');
+      console.log(`✎ ${scenario.name}: expected output updated`);
+      continue;
+    }
+
+    if (!existsSync(expectedPath)) {
+      failures++;
+      console.log(`✗ ${scenario.name}: no expected output (run npm run test:update-golden)`);
+      continue;
+    }
+
+    const expected: GoldenValues = JSON.parse(readFileSync(expectedPath, 'utf-8'));
+    const tolerance = { ...DEFAULT_TOLERANCE, ...scenario.tolerance };
+    const differences = compareValues(expected, actual, tolerance);
+
+    if (differences.length === 0) {
+      console.log(`✓ ${scenario.name}`);
+    } else {
+      failures++;
+      console.log(`✗ ${scenario.name} - ${scenario.description}`);
+      differences.forEach(diff => console.log(formatDifference(diff)));
+    }
+  }
+
+  if (!update) {
+    console.log(`\n${scenarioFiles.length - failures}/${scenarioFiles.length} scenarios match expected output`);
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,43 +1,9 @@
-import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
-import apiRouter from './routes/api.js';
+// Load environment variables first: core modules read them when imported
+import 'dotenv/config';
+import { createApp } from 'core';
 
-// Load environment variables
-dotenv.config();
-
-const app = express();
+const app = createApp();
 const PORT = process.env.PORT || 3001;
-const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
-
-// Middleware
-app.use(cors({
-  origin: CLIENT_URL,
-  credentials: true,
-}));
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-// Routes
-app.use('/api', apiRouter);
-
-// Health check
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'ok',
-    message: 'All-In-One Look Back Simulator API is running',
-    timestamp: new Date().toISOString(),
-  });
-});
-
-// Error handling middleware
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Error:', err);
-  res.status(500).json({
-    error: 'Internal server error',
-    message: err.message || 'Something went wrong',
-  });
-});
 
 // Start server
 app.listen(PORT, () => {